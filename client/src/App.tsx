@@ -3,6 +3,7 @@ import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
+import { useTimezoneSync } from "@/hooks/use-timezone-sync";
 import Home from "@/pages/home";
 import Results from "@/pages/results";
 import Archive from "@/pages/archive";
@@ -37,6 +38,8 @@ function Router() {
 }
 
 function App() {
+  useTimezoneSync();
+
   return (
     <QueryClientProvider client={queryClient}>
       <Toaster />
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { checkAggregates, type AggregateConsistencyReport } from '@/lib/api';
+
+interface AggregateMaintenanceProps {
+  token: string;
+}
+
+export function AggregateMaintenance({ token }: AggregateMaintenanceProps) {
+  const [report, setReport] = useState<AggregateConsistencyReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const { toast } = useToast();
+
+  const runCheck = async (repair: boolean) => {
+    if (repair && !confirm(`Rewrite aggregates for ${report?.inconsistentChallenges ?? 0} challenges?`)) return;
+    setRunning(true);
+    try {
+      const result = await checkAggregates(token, repair);
+      setReport(result);
+      if (repair) {
+        toast({
+          title: 'Success',
+          description: `Repaired ${result.repairedChallenges} aggregates`,
+        });
+      }
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to check aggregates',
+        variant: 'destructive',
+      });
+    }
+    setRunning(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Aggregate Consistency</CardTitle>
+        <CardDescription>
+          Rebuilds community stats from each user's best attempt and compares them with the stored aggregates.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => runCheck(false)} disabled={running} data-testid="button-aggregates-check">
+            {running ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+            Check
+          </Button>
+          <Button
+            onClick={() => runCheck(true)}
+            disabled={running || !report || report.repair || report.inconsistentChallenges === 0}
+            data-testid="button-aggregates-repair"
+          >
+            Repair
+          </Button>
+        </div>
+
+        {report && (
+          <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg text-sm space-y-3" data-testid="aggregate-report">
+            <p className="font-semibold text-slate-900">
+              {report.inconsistentChallenges} of {report.checkedChallenges} challenges inconsistent
+              {report.repair && ` · ${report.repairedChallenges} repaired`}
+            </p>
+            {report.challenges.map(challenge => (
+              <div key={challenge.challengeId} className="border-t border-slate-200 pt-2">
+                <p className="font-medium text-slate-800">{challenge.dateKey} - {challenge.title}</p>
+                {challenge.missingRow && <p className="text-xs text-rose-600">Missing aggregates row</p>}
+                {challenge.mismatches.map(mismatch => (
+                  <p key={mismatch.field} className="text-xs text-slate-600 break-all">
+                    {mismatch.field}: stored {JSON.stringify(mismatch.stored)} → expected {JSON.stringify(mismatch.expected)}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
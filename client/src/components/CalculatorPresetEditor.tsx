@@ -0,0 +1,126 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CalculatorPreset } from '@shared/financialCalculators';
+
+type PresetKind = CalculatorPreset['kind'];
+
+const KIND_LABELS: Record<PresetKind, string> = {
+  debt: 'Debt payoff',
+  investment: 'Investment projection',
+  debtVsInvest: 'Pay debt vs. invest',
+};
+
+const DEFAULT_PRESETS: Record<PresetKind, CalculatorPreset> = {
+  debt: { kind: 'debt', principal: 10000, annualRatePct: 18, termYears: 5, extraAmount: 0, extraFrequency: 'perMonth' },
+  investment: { kind: 'investment', mode: 'projection', monthlyContribution: 300, annualGrowthPct: 7, years: 30, startingBalance: 0 },
+  debtVsInvest: { kind: 'debtVsInvest', debtBalance: 8000, debtAprPct: 22, minimumPayment: 200, monthlyBudget: 600, investReturnPct: 7, years: 5 },
+};
+
+// Numeric inputs shown for each kind; keys must exist on that kind's preset
+const NUMBER_FIELDS: Record<PresetKind, Array<{ key: string; label: string }>> = {
+  debt: [
+    { key: 'principal', label: 'Balance ($)' },
+    { key: 'annualRatePct', label: 'APR (%)' },
+    { key: 'termYears', label: 'Term (years)' },
+    { key: 'extraAmount', label: 'Extra payment ($)' },
+  ],
+  investment: [
+    { key: 'startingBalance', label: 'Starting balance ($)' },
+    { key: 'monthlyContribution', label: 'Monthly contribution ($)' },
+    { key: 'annualGrowthPct', label: 'Annual return (%)' },
+    { key: 'years', label: 'Years' },
+    { key: 'goalTarget', label: 'Goal ($, goal mode)' },
+  ],
+  debtVsInvest: [
+    { key: 'debtBalance', label: 'Debt balance ($)' },
+    { key: 'debtAprPct', label: 'Debt APR (%)' },
+    { key: 'minimumPayment', label: 'Minimum payment ($/mo)' },
+    { key: 'monthlyBudget', label: 'Monthly budget ($/mo)' },
+    { key: 'investReturnPct', label: 'Investment return (%)' },
+    { key: 'years', label: 'Years' },
+  ],
+};
+
+interface CalculatorPresetEditorProps {
+  value: CalculatorPreset | null;
+  onChange: (value: CalculatorPreset | null) => void;
+}
+
+export function CalculatorPresetEditor({ value, onChange }: CalculatorPresetEditorProps) {
+  const setNumber = (key: string, raw: string) => {
+    if (!value) return;
+    const next: Record<string, unknown> = { ...value };
+    if (raw === '' && key === 'goalTarget') {
+      delete next[key];
+    } else {
+      next[key] = parseFloat(raw) || 0;
+    }
+    onChange(next as CalculatorPreset);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={value?.kind ?? 'none'}
+        onValueChange={(v) => onChange(v === 'none' ? null : DEFAULT_PRESETS[v as PresetKind])}
+      >
+        <SelectTrigger data-testid="select-calculator-preset">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">None</SelectItem>
+          {(Object.keys(KIND_LABELS) as PresetKind[]).map(kind => (
+            <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {value.kind === 'debt' && (
+            <div>
+              <Label className="text-xs">Extra payment frequency</Label>
+              <Select value={value.extraFrequency} onValueChange={(v) => onChange({ ...value, extraFrequency: v as 'perYear' | 'perMonth' })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="perMonth">Per month</SelectItem>
+                  <SelectItem value="perYear">Per year</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {value.kind === 'investment' && (
+            <div>
+              <Label className="text-xs">Mode</Label>
+              <Select value={value.mode} onValueChange={(v) => onChange({ ...value, mode: v as 'projection' | 'goal' })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="projection">Projection</SelectItem>
+                  <SelectItem value="goal">Goal</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {NUMBER_FIELDS[value.kind].map(field => (
+            <div key={field.key}>
+              <Label className="text-xs">{field.label}</Label>
+              <Input
+                type="number"
+                step="any"
+                value={(value as Record<string, unknown>)[field.key] as number | undefined ?? ''}
+                onChange={(e) => setNumber(field.key, e.target.value)}
+                data-testid={`input-preset-${field.key}`}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Download, Loader2, Upload } from 'lucide-react';
+import {
+  exportAdminChallenges,
+  previewChallengeImport,
+  applyChallengeImport,
+  type ChallengeTransferFormat,
+  type ChallengeImportPreview,
+  type ChallengeImportRowStatus,
+} from '@/lib/api';
+
+interface ChallengeImportExportProps {
+  token: string;
+  onImported: () => void;
+}
+
+const STATUS_STYLES: Record<ChallengeImportRowStatus, string> = {
+  new: 'bg-emerald-100 text-emerald-800',
+  changed: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-slate-100 text-slate-600',
+  conflict: 'bg-amber-100 text-amber-800',
+  invalid: 'bg-rose-100 text-rose-800',
+};
+
+const STATUS_ORDER: ChallengeImportRowStatus[] = ['invalid', 'conflict', 'new', 'changed', 'unchanged'];
+
+export function ChallengeImportExport({ token, onImported }: ChallengeImportExportProps) {
+  const [file, setFile] = useState<{ name: string; format: ChallengeTransferFormat; content: string } | null>(null);
+  const [preview, setPreview] = useState<ChallengeImportPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleExport = async (format: ChallengeTransferFormat) => {
+    setBusy(true);
+    try {
+      const blob = await exportAdminChallenges(token, format);
+      const link = document.createElement('a');
+      const url = URL.createObjectURL(blob);
+      link.setAttribute('href', url);
+      link.setAttribute('download', `challenges-${new Date().toISOString().split('T')[0]}.${format}`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to export challenges',
+        variant: 'destructive',
+      });
+    }
+    setBusy(false);
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    const format: ChallengeTransferFormat = selected.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+    const content = await selected.text();
+    setFile({ name: selected.name, format, content });
+    setPreview(null);
+    setBusy(true);
+    try {
+      setPreview(await previewChallengeImport(token, format, content));
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to preview import',
+        variant: 'destructive',
+      });
+    }
+    setBusy(false);
+  };
+
+  const handleApply = async () => {
+    if (!file || !preview) return;
+    if (!confirm(`Create ${preview.counts.new} and update ${preview.counts.changed} challenges?`)) return;
+    setBusy(true);
+    try {
+      const result = await applyChallengeImport(token, file.format, file.content);
+      toast({
+        title: 'Success',
+        description: `Imported ${result.created} new and ${result.updated} updated challenges`,
+      });
+      setFile(null);
+      setPreview(null);
+      if (inputRef.current) inputRef.current.value = '';
+      onImported();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to import challenges',
+        variant: 'destructive',
+      });
+      // The data may have moved since the preview; show the current state
+      previewChallengeImport(token, file.format, file.content).then(setPreview).catch(() => {});
+    }
+    setBusy(false);
+  };
+
+  const rows = preview
+    ? [...preview.rows].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || a.row - b.row)
+    : [];
+
+  return (
+    <Card className="mb-4">
+      <CardHeader>
+        <CardTitle>Import / Export</CardTitle>
+        <CardDescription>
+          Download every challenge with its options, or upload a JSON or CSV file in the same format.
+          Rows are matched to existing challenges by date; nothing is saved unless every row is valid.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={busy} data-testid="button-export-json">
+            <Download className="w-4 h-4 mr-2" />
+            Export JSON
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={busy} data-testid="button-export-csv">
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={busy} data-testid="button-import-file">
+            {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            Import File
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            data-testid="input-import-file"
+          />
+        </div>
+
+        {file && preview && (
+          <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg text-sm space-y-3" data-testid="import-preview">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="font-semibold text-slate-900">
+                {file.name}: {preview.total} rows
+                {STATUS_ORDER.filter(status => preview.counts[status] > 0).map(status => (
+                  <span key={status} className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[status]}`}>
+                    {preview.counts[status]} {status}
+                  </span>
+                ))}
+              </p>
+              <Button size="sm" onClick={handleApply} disabled={busy || !preview.canApply} data-testid="button-apply-import">
+                Apply Import
+              </Button>
+            </div>
+            {!preview.canApply && (
+              <p className="text-xs text-amber-700">
+                {preview.counts.invalid + preview.counts.conflict > 0
+                  ? 'Fix the invalid and conflicting rows, then upload the file again.'
+                  : 'Nothing to import: every row matches the current challenges.'}
+              </p>
+            )}
+            {rows.filter(row => row.status !== 'unchanged').map(row => (
+              <div key={row.row} className="border-t border-slate-200 pt-2">
+                <p className="font-medium text-slate-800">
+                  <span className={`mr-2 px-2 py-0.5 rounded text-xs ${STATUS_STYLES[row.status]}`}>{row.status}</span>
+                  Row {row.row}: {row.dateKey ?? '(no date)'} - {row.title ?? '(no title)'}
+                </p>
+                {row.issues.map(issue => (
+                  <p key={issue} className="text-xs text-rose-600">{issue}</p>
+                ))}
+                {row.changes.map(change => (
+                  <p key={change.field} className="text-xs text-slate-600 break-all">
+                    {change.field}: {change.before} → {change.after}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
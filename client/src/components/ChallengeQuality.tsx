@@ -0,0 +1,92 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { ChallengeQualityReport } from '@/lib/api';
+
+interface ChallengeQualityProps {
+  quality: ChallengeQualityReport;
+}
+
+const DISCRIMINATION_STYLES: Record<NonNullable<ChallengeQualityReport['discrimination']['label']>, string> = {
+  good: 'text-emerald-700',
+  fair: 'text-slate-700',
+  marginal: 'text-amber-700',
+  poor: 'text-rose-700',
+};
+
+// Item-analysis metrics for the admin stats panel: difficulty, discrimination and answer-key agreement
+export function ChallengeQuality({ quality }: ChallengeQualityProps) {
+  const { difficulty, discrimination, answerKey } = quality;
+
+  if (quality.sampleSize < quality.minSample) {
+    return (
+      <p className="text-xs text-slate-500" data-testid="challenge-quality">
+        Quality metrics need at least {quality.minSample} best attempts ({quality.sampleSize} so far).
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="challenge-quality">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <div className={`bg-white p-3 rounded-lg border ${difficulty.mismatch ? 'border-amber-300' : 'border-transparent'}`}>
+          <p className="text-xs text-slate-500">Difficulty (authored → observed)</p>
+          <p className="text-lg font-bold text-slate-900">
+            {difficulty.authored} → {difficulty.observed ?? '–'}
+          </p>
+          <p className="text-xs text-slate-500">
+            Mean {difficulty.meanScore ?? '–'} · median {difficulty.medianScore ?? '–'}
+          </p>
+          {difficulty.mismatch && <p className="text-xs text-amber-700 mt-1">Authored difficulty looks off</p>}
+        </div>
+        <div className="bg-white p-3 rounded-lg">
+          <p className="text-xs text-slate-500">Discrimination</p>
+          <p className={`text-lg font-bold ${discrimination.label ? DISCRIMINATION_STYLES[discrimination.label] : 'text-slate-400'}`}>
+            {discrimination.correlation ?? '–'}
+            {discrimination.label && <span className="text-xs font-medium ml-1">({discrimination.label})</span>}
+          </p>
+          <p className="text-xs text-slate-500">
+            {discrimination.correlation === null
+              ? `Needs ${quality.minSample} players with 3+ other challenges (${discrimination.sampleSize} so far)`
+              : `Score vs. overall average, ${discrimination.sampleSize} players`}
+          </p>
+        </div>
+        <div className={`bg-white p-3 rounded-lg border ${answerKey.disagreement ? 'border-rose-300' : 'border-transparent'}`}>
+          <p className="text-xs text-slate-500">Crowd agreement with key</p>
+          <p className={`text-lg font-bold ${answerKey.disagreement ? 'text-rose-700' : 'text-slate-900'}`}>
+            {answerKey.keyAgreement ?? '–'}
+          </p>
+          <p className="text-xs text-slate-500">
+            Kendall tau · {answerKey.keyTopPickShare === null ? '–' : `${Math.round(answerKey.keyTopPickShare * 100)}%`} picked the key's #1
+          </p>
+        </div>
+      </div>
+
+      {answerKey.disagreement && (
+        <div className="p-3 bg-rose-50 border border-rose-200 rounded-lg">
+          <p className="text-sm font-semibold text-rose-800 flex items-center gap-1 mb-1">
+            <AlertTriangle className="w-4 h-4" />
+            Possible miskeyed or ambiguous challenge
+          </p>
+          {answerKey.reasons.map(reason => (
+            <p key={reason} className="text-xs text-rose-700">{reason}</p>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <p className="text-xs font-semibold text-slate-700 mb-1">Crowd consensus order (mean position)</p>
+        <ol className="space-y-1">
+          {answerKey.consensusRanking.map((opt, index) => (
+            <li key={opt.optionId} className="text-xs text-slate-700 flex items-center gap-2">
+              <span className="w-5 text-right font-semibold">{index + 1}.</span>
+              <span className="flex-1 truncate">{opt.optionText}</span>
+              <span className={opt.orderingIndex === index + 1 ? 'text-slate-400' : 'text-amber-700 font-medium'}>
+                key #{opt.orderingIndex} · {opt.meanPosition}
+              </span>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
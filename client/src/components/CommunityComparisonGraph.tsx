@@ -25,27 +25,27 @@ export function CommunityComparisonGraph({
     userPositions[optionId] = index + 1;
   });
 
+  // Positions 1..N for this challenge (3-6 options)
+  const positions = challenge.options.map((_, index) => index + 1);
+
   // Prepare data for graph
   const graphData = challenge.options.map(option => {
-    const distribution = positionDistribution[option.id] || { 1: 0, 2: 0, 3: 0, 4: 0 };
+    const distribution = positionDistribution[option.id] || {};
     const userPosition = userPositions[option.id];
     
-    // Calculate percentages
-    const position1 = totalAttempts > 0 ? Math.round((distribution[1] / totalAttempts) * 100) : 0;
-    const position2 = totalAttempts > 0 ? Math.round((distribution[2] / totalAttempts) * 100) : 0;
-    const position3 = totalAttempts > 0 ? Math.round((distribution[3] / totalAttempts) * 100) : 0;
-    const position4 = totalAttempts > 0 ? Math.round((distribution[4] / totalAttempts) * 100) : 0;
+    // Calculate percentages and counts for every position
+    const positionStats = positions.map(position => {
+      const count = distribution[position] || 0;
+      return {
+        position,
+        count,
+        percent: totalAttempts > 0 ? Math.round((count / totalAttempts) * 100) : 0,
+      };
+    });
     
     return {
       option,
-      position1,
-      position2,
-      position3,
-      position4,
-      position1Count: distribution[1] || 0,
-      position2Count: distribution[2] || 0,
-      position3Count: distribution[3] || 0,
-      position4Count: distribution[4] || 0,
+      positionStats,
       userPosition,
     };
   });
@@ -56,10 +56,21 @@ export function CommunityComparisonGraph({
       case 2: return 'bg-amber-500';
       case 3: return 'bg-orange-500';
       case 4: return 'bg-rose-500';
+      case 5: return 'bg-fuchsia-500';
+      case 6: return 'bg-violet-500';
       default: return 'bg-slate-400';
     }
   };
 
+  const getOrdinal = (position: number) => {
+    switch (position) {
+      case 1: return '1st';
+      case 2: return '2nd';
+      case 3: return '3rd';
+      default: return `${position}th`;
+    }
+  };
+
   return (
     <div className="bg-white rounded-2xl p-6 border border-slate-200 shadow-sm">
       <h3 className="text-xl font-display font-bold text-slate-900 mb-4">
@@ -69,22 +80,12 @@ export function CommunityComparisonGraph({
       {/* Legend */}
       <div className="flex items-center gap-4 mb-4 pb-3 border-b border-slate-200 text-xs">
         <span className="font-semibold text-slate-700">Position:</span>
-        <div className="flex items-center gap-1">
-          <span className="w-3 h-3 rounded bg-emerald-500"></span>
-          <span>1st</span>
-        </div>
-        <div className="flex items-center gap-1">
-          <span className="w-3 h-3 rounded bg-amber-500"></span>
-          <span>2nd</span>
-        </div>
-        <div className="flex items-center gap-1">
-          <span className="w-3 h-3 rounded bg-orange-500"></span>
-          <span>3rd</span>
-        </div>
-        <div className="flex items-center gap-1">
-          <span className="w-3 h-3 rounded bg-rose-500"></span>
-          <span>4th</span>
-        </div>
+        {positions.map(position => (
+          <div key={position} className="flex items-center gap-1">
+            <span className={cn("w-3 h-3 rounded", getPositionColor(position))}></span>
+            <span>{getOrdinal(position)}</span>
+          </div>
+        ))}
       </div>
 
       <div className="space-y-4 mb-6">
@@ -109,109 +110,50 @@ export function CommunityComparisonGraph({
               </div>
             </div>
             
-            {/* Stacked bar - always shows all 4 positions */}
+            {/* Stacked bar - always shows every position, even if 0% */}
             <div className="relative h-12 bg-slate-100 rounded-lg overflow-hidden border border-slate-200">
-              {/* Position 1 - Always visible, even if 0% */}
-              <div 
-                className={cn(
-                  "absolute left-0 h-full flex items-center justify-center text-white text-xs font-semibold border-r-2 border-white/30 transition-all",
-                  getPositionColor(1),
-                  item.position1 === 0 && "opacity-20",
-                  item.userPosition === 1 && "ring-2 ring-offset-1 ring-slate-900 z-10"
-                )}
-                style={{ width: `${Math.max(item.position1, 2)}%` }}
-                title={`${item.position1Count} users (${item.position1}%) ranked this 1st`}
-              >
-                {item.position1 >= 8 && (
-                  <span className="px-1">{item.position1}%</span>
-                )}
-              </div>
-              
-              {/* Position 2 - Always visible */}
-              <div 
-                className={cn(
-                  "absolute h-full flex items-center justify-center text-white text-xs font-semibold border-r-2 border-white/30 transition-all",
-                  getPositionColor(2),
-                  item.position2 === 0 && "opacity-20",
-                  item.userPosition === 2 && "ring-2 ring-offset-1 ring-slate-900 z-10"
-                )}
-                style={{ left: `${Math.max(item.position1, 2)}%`, width: `${Math.max(item.position2, 2)}%` }}
-                title={`${item.position2Count} users (${item.position2}%) ranked this 2nd`}
-              >
-                {item.position2 >= 8 && (
-                  <span className="px-1">{item.position2}%</span>
-                )}
-              </div>
-              
-              {/* Position 3 - Always visible */}
-              <div 
-                className={cn(
-                  "absolute h-full flex items-center justify-center text-white text-xs font-semibold border-r-2 border-white/30 transition-all",
-                  getPositionColor(3),
-                  item.position3 === 0 && "opacity-20",
-                  item.userPosition === 3 && "ring-2 ring-offset-1 ring-slate-900 z-10"
-                )}
-                style={{ 
-                  left: `${Math.max(item.position1, 2) + Math.max(item.position2, 2)}%`, 
-                  width: `${Math.max(item.position3, 2)}%` 
-                }}
-                title={`${item.position3Count} users (${item.position3}%) ranked this 3rd`}
-              >
-                {item.position3 >= 8 && (
-                  <span className="px-1">{item.position3}%</span>
-                )}
-              </div>
-              
-              {/* Position 4 - Always visible */}
-              <div 
-                className={cn(
-                  "absolute h-full flex items-center justify-center text-white text-xs font-semibold transition-all",
-                  getPositionColor(4),
-                  item.position4 === 0 && "opacity-20",
-                  item.userPosition === 4 && "ring-2 ring-offset-1 ring-slate-900 z-10"
-                )}
-                style={{ 
-                  left: `${Math.max(item.position1, 2) + Math.max(item.position2, 2) + Math.max(item.position3, 2)}%`, 
-                  width: `${Math.max(item.position4, 2)}%` 
-                }}
-                title={`${item.position4Count} users (${item.position4}%) ranked this 4th`}
-              >
-                {item.position4 >= 8 && (
-                  <span className="px-1">{item.position4}%</span>
-                )}
-              </div>
+              {item.positionStats.map((stat, index) => {
+                // Each segment starts where the previous (min 2% wide) segments end
+                const left = item.positionStats
+                  .slice(0, index)
+                  .reduce((sum, prev) => sum + Math.max(prev.percent, 2), 0);
+                const isLast = index === item.positionStats.length - 1;
+                
+                return (
+                  <div 
+                    key={stat.position}
+                    className={cn(
+                      "absolute h-full flex items-center justify-center text-white text-xs font-semibold transition-all",
+                      !isLast && "border-r-2 border-white/30",
+                      getPositionColor(stat.position),
+                      stat.percent === 0 && "opacity-20",
+                      item.userPosition === stat.position && "ring-2 ring-offset-1 ring-slate-900 z-10"
+                    )}
+                    style={{ left: `${left}%`, width: `${Math.max(stat.percent, 2)}%` }}
+                    title={`${stat.count} users (${stat.percent}%) ranked this ${getOrdinal(stat.position)}`}
+                  >
+                    {stat.percent >= 8 && (
+                      <span className="px-1">{stat.percent}%</span>
+                    )}
+                  </div>
+                );
+              })}
             </div>
             
-            {/* Position labels below bar - always show all 4 */}
+            {/* Position labels below bar - always show every position */}
             <div className="flex justify-between text-xs text-slate-500 px-1 mt-1">
-              <span className={cn(
-                "flex items-center gap-1",
-                item.position1 === 0 && "opacity-50"
-              )}>
-                <span className={cn("w-2 h-2 rounded-full", getPositionColor(1))}></span>
-                1st: {item.position1Count} ({item.position1}%)
-              </span>
-              <span className={cn(
-                "flex items-center gap-1",
-                item.position2 === 0 && "opacity-50"
-              )}>
-                <span className={cn("w-2 h-2 rounded-full", getPositionColor(2))}></span>
-                2nd: {item.position2Count} ({item.position2}%)
-              </span>
-              <span className={cn(
-                "flex items-center gap-1",
-                item.position3 === 0 && "opacity-50"
-              )}>
-                <span className={cn("w-2 h-2 rounded-full", getPositionColor(3))}></span>
-                3rd: {item.position3Count} ({item.position3}%)
-              </span>
-              <span className={cn(
-                "flex items-center gap-1",
-                item.position4 === 0 && "opacity-50"
-              )}>
-                <span className={cn("w-2 h-2 rounded-full", getPositionColor(4))}></span>
-                4th: {item.position4Count} ({item.position4}%)
-              </span>
+              {item.positionStats.map(stat => (
+                <span
+                  key={stat.position}
+                  className={cn(
+                    "flex items-center gap-1",
+                    stat.percent === 0 && "opacity-50"
+                  )}
+                >
+                  <span className={cn("w-2 h-2 rounded-full", getPositionColor(stat.position))}></span>
+                  {getOrdinal(stat.position)}: {stat.count} ({stat.percent}%)
+                </span>
+              ))}
             </div>
           </div>
         ))}
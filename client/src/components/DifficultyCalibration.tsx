@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Gauge, Loader2 } from 'lucide-react';
+import { calibrateDifficulty, type DifficultyCalibrationReport } from '@/lib/api';
+
+interface DifficultyCalibrationProps {
+  token: string;
+}
+
+export function DifficultyCalibration({ token }: DifficultyCalibrationProps) {
+  const [report, setReport] = useState<DifficultyCalibrationReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const { toast } = useToast();
+
+  const runCalibration = async (dryRun: boolean) => {
+    if (!dryRun && !confirm(`Save community difficulty for ${report?.challenges.length ?? 0} challenges?`)) return;
+    setRunning(true);
+    try {
+      const result = await calibrateDifficulty(token, dryRun);
+      setReport(result);
+      if (!dryRun) {
+        toast({
+          title: 'Success',
+          description: `Saved community difficulty for ${result.challenges.length} challenges`,
+        });
+      }
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to calibrate difficulty',
+        variant: 'destructive',
+      });
+    }
+    setRunning(false);
+  };
+
+  const changed = report ? report.challenges.filter(challenge => challenge.community !== challenge.previous) : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Community Difficulty</CardTitle>
+        <CardDescription>
+          Rates players and challenges against each other from best attempts, then maps each challenge's rating
+          onto the 1-5 difficulty scale shown to players on the home and archive pages. Schedule
+          script/calibrateDifficulty.ts to keep it current.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => runCalibration(true)} disabled={running} data-testid="button-difficulty-preview">
+            {running ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Gauge className="w-4 h-4 mr-2" />}
+            Preview
+          </Button>
+          <Button
+            onClick={() => runCalibration(false)}
+            disabled={running || !report || !report.dryRun || report.challenges.length === 0}
+            data-testid="button-difficulty-save"
+          >
+            Save
+          </Button>
+        </div>
+
+        {report && (
+          <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg text-sm space-y-3" data-testid="difficulty-report">
+            <p className="font-semibold text-slate-900">
+              {report.calibratedChallenges} of {report.checkedChallenges} challenges have {report.minSample}+ players
+              · {report.changedChallenges} {report.dryRun ? 'would change' : 'changed'}
+            </p>
+            {changed.map(challenge => (
+              <div key={challenge.challengeId} className="border-t border-slate-200 pt-2">
+                <p className="font-medium text-slate-800">{challenge.dateKey} - {challenge.title}</p>
+                <p className="text-xs text-slate-600">
+                  Community {challenge.previous ?? '–'} → {challenge.community ?? '–'} · authored {challenge.authored}
+                  {challenge.community !== null && (
+                    ` · ${challenge.sampleSize} players · mean ${challenge.meanScore} · adjusted ${challenge.adjustedScore} · rating ${challenge.rating}`
+                  )}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
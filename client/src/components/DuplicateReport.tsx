@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Search } from 'lucide-react';
+import { getDuplicateReport, type DuplicateReport as DuplicateReportData, type SimilarChallengeMatch } from '@/lib/api';
+
+interface DuplicateReportProps {
+  token: string;
+}
+
+// "scenario 82%, options 64%, assumptions –"
+export function formatFieldScores(fieldScores: SimilarChallengeMatch['fieldScores']): string {
+  return (['scenario', 'options', 'assumptions'] as const)
+    .map(field => `${field} ${fieldScores[field] === null ? '–' : `${Math.round(fieldScores[field]! * 100)}%`}`)
+    .join(', ');
+}
+
+export function DuplicateReport({ token }: DuplicateReportProps) {
+  const [report, setReport] = useState<DuplicateReportData | null>(null);
+  const [minScorePercent, setMinScorePercent] = useState(60);
+  const [running, setRunning] = useState(false);
+  const { toast } = useToast();
+
+  const runReport = async () => {
+    setRunning(true);
+    try {
+      setReport(await getDuplicateReport(token, Math.min(100, Math.max(30, minScorePercent)) / 100));
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to build duplicate report',
+        variant: 'destructive',
+      });
+    }
+    setRunning(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Duplicate Content</CardTitle>
+        <CardDescription>
+          Compares every pair of challenges by scenario, assumptions and option text, regardless of title.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-2">
+          <div>
+            <Label className="text-xs">Minimum similarity (%)</Label>
+            <Input
+              type="number"
+              min={30}
+              max={100}
+              value={minScorePercent}
+              onChange={(e) => setMinScorePercent(Number(e.target.value))}
+              className="w-28"
+              data-testid="input-duplicate-min-score"
+            />
+          </div>
+          <Button variant="outline" onClick={runReport} disabled={running} data-testid="button-duplicate-report">
+            {running ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Search className="w-4 h-4 mr-2" />}
+            Scan Library
+          </Button>
+        </div>
+
+        {report && (
+          <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg text-sm space-y-3" data-testid="duplicate-report">
+            <p className="font-semibold text-slate-900">
+              {report.matchedPairs} {report.matchedPairs === 1 ? 'pair' : 'pairs'} at {Math.round(report.minScore * 100)}% or more
+              across {report.checkedChallenges} challenges
+              {report.matchedPairs > report.pairs.length && ` · showing the top ${report.pairs.length}`}
+            </p>
+            {report.pairs.map(pair => (
+              <div key={`${pair.a.id}-${pair.b.id}`} className="border-t border-slate-200 pt-2">
+                <p className="font-medium text-slate-800">
+                  <span className="font-semibold">{Math.round(pair.score * 100)}%</span> {pair.a.dateKey} - {pair.a.title}
+                  <span className="text-slate-400"> ↔ </span>
+                  {pair.b.dateKey} - {pair.b.title}
+                </p>
+                <p className="text-xs text-slate-600">{formatFieldScores(pair.fieldScores)}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, RefreshCw } from 'lucide-react';
+import {
+  getGradeThresholds,
+  recomputeGrades,
+  type GradeThresholdSettings,
+  type GradeRecomputeReport,
+} from '@/lib/api';
+
+interface GradeMaintenanceProps {
+  token: string;
+}
+
+export function GradeMaintenance({ token }: GradeMaintenanceProps) {
+  const [settings, setSettings] = useState<GradeThresholdSettings | null>(null);
+  const [report, setReport] = useState<GradeRecomputeReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getGradeThresholds(token)
+      .then(setSettings)
+      .catch((error: any) => {
+        toast({
+          title: 'Error',
+          description: error.message || 'Failed to load grade thresholds',
+          variant: 'destructive',
+        });
+      });
+  }, [token]);
+
+  const runRecompute = async (dryRun: boolean) => {
+    if (!dryRun && !confirm(`Update grades on ${report?.changedAttempts ?? 0} attempts?`)) return;
+    setRunning(true);
+    try {
+      const result = await recomputeGrades(token, dryRun);
+      setReport(result);
+      if (!dryRun) {
+        toast({
+          title: 'Success',
+          description: `Updated grades on ${result.changedAttempts} attempts`,
+        });
+      }
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to recompute grades',
+        variant: 'destructive',
+      });
+    }
+    setRunning(false);
+  };
+
+  const tiers = settings
+    ? [
+        ...(settings.config.EXTRA_TIERS || []),
+        { tier: 'Great', minScore: settings.config.GREAT_THRESHOLD },
+        { tier: 'Good', minScore: settings.config.GOOD_THRESHOLD },
+      ].sort((a, b) => b.minScore - a.minScore)
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Grade Thresholds</CardTitle>
+        <CardDescription>
+          Global thresholds come from the GRADE_THRESHOLDS feature flag
+          {settings && !settings.enabled && ' (disabled, using defaults)'}. Challenges can override them in the editor.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {settings && (
+          <div className="flex flex-wrap gap-2" data-testid="grade-thresholds">
+            {tiers.map(t => (
+              <span key={t.tier} className="px-3 py-1 rounded-full text-sm bg-slate-100 text-slate-700">
+                {t.tier} ≥ {t.minScore}
+              </span>
+            ))}
+            <span className="px-3 py-1 rounded-full text-sm bg-slate-100 text-slate-700">Risky below</span>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => runRecompute(true)} disabled={running} data-testid="button-grades-dry-run">
+            {running ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+            Dry Run
+          </Button>
+          <Button
+            onClick={() => runRecompute(false)}
+            disabled={running || !report?.dryRun || report.changedAttempts === 0}
+            data-testid="button-grades-apply"
+          >
+            Apply Changes
+          </Button>
+        </div>
+
+        {report && (
+          <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg text-sm" data-testid="grade-recompute-report">
+            <p className="font-semibold text-slate-900 mb-2">
+              {report.dryRun ? 'Dry run' : 'Applied'}: {report.changedAttempts} of {report.totalAttempts} attempts
+              {report.dryRun ? ' would change' : ' changed'} across {report.challengesAffected} challenges
+            </p>
+            {Object.entries(report.transitions).map(([transition, count]) => (
+              <p key={transition} className="text-slate-600">{transition}: {count}</p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
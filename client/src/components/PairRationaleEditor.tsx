@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { getPairRationales, savePairRationales, type PairRationaleReport } from '@/lib/api';
+
+interface PairRationaleEditorProps {
+  token: string;
+  challengeId: string;
+}
+
+const draftKey = (betterIndex: number, worseIndex: number) => `${betterIndex}>${worseIndex}`;
+
+// "Why A beats B" text per option pair. Pairs come from the saved options, so save option
+// changes first; a rationale written for different options at the same ranks is shown for
+// reference and dropped on the next save.
+export function PairRationaleEditor({ token, challengeId }: PairRationaleEditorProps) {
+  const [report, setReport] = useState<PairRationaleReport | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const applyReport = (next: PairRationaleReport) => {
+    setReport(next);
+    setDrafts(Object.fromEntries(next.pairs.map(pair => [draftKey(pair.betterIndex, pair.worseIndex), pair.rationale ?? ''])));
+  };
+
+  useEffect(() => {
+    getPairRationales(token, challengeId)
+      .then(applyReport)
+      .catch((error: any) => {
+        toast({
+          title: 'Error',
+          description: error.message || 'Failed to load pair rationales',
+          variant: 'destructive',
+        });
+      });
+  }, [token, challengeId]);
+
+  const handleSave = async () => {
+    if (!report) return;
+    setSaving(true);
+    try {
+      const next = await savePairRationales(token, challengeId, report.pairs.map(pair => ({
+        betterIndex: pair.betterIndex,
+        worseIndex: pair.worseIndex,
+        rationale: drafts[draftKey(pair.betterIndex, pair.worseIndex)] || '',
+      })));
+      applyReport(next);
+      toast({ title: 'Saved', description: 'Pair rationales updated' });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save pair rationales',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!report) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-slate-500">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading pair rationales...
+      </div>
+    );
+  }
+
+  const missingInverted = report.pairs.filter(pair => !drafts[draftKey(pair.betterIndex, pair.worseIndex)]?.trim() && pair.inversionCount > 0);
+
+  return (
+    <div className="space-y-3" data-testid="pair-rationale-editor">
+      <p className="text-xs text-slate-500">
+        Shown instead of the generated text when a player ranks the lower option above the higher one.
+        {report.rankedAttempts > 0
+          ? ` Inversion rates are from ${report.rankedAttempts} ranked attempts.`
+          : ' No attempts recorded against the current options yet.'}
+      </p>
+      {missingInverted.length > 0 && (
+        <p className="text-xs font-medium text-amber-700">
+          {missingInverted.length} {missingInverted.length === 1 ? 'pair players invert has' : 'pairs players invert have'} no rationale.
+        </p>
+      )}
+      {report.pairs.map(pair => {
+        const key = draftKey(pair.betterIndex, pair.worseIndex);
+        const missing = !drafts[key]?.trim();
+        return (
+          <div key={key} className={`p-3 rounded-lg border ${missing && pair.inversionCount > 0 ? 'border-amber-300 bg-amber-50' : 'border-slate-200 bg-slate-50'}`}>
+            <div className="flex items-start justify-between gap-2 mb-2">
+              <Label className="text-xs font-normal text-slate-700">
+                <span className="font-semibold">#{pair.betterIndex}</span> {pair.betterOptionText || '(untitled)'}
+                <span className="text-slate-400"> beats </span>
+                <span className="font-semibold">#{pair.worseIndex}</span> {pair.worseOptionText || '(untitled)'}
+              </Label>
+              <span className={`shrink-0 text-xs ${pair.inversionCount > 0 ? 'text-amber-700' : 'text-slate-400'}`}>
+                {pair.inversionCount > 0 ? `${Math.round(pair.inversionRate * 100)}% invert` : 'No inversions'}
+                {missing && ' · missing'}
+              </span>
+            </div>
+            {pair.staleRationale && (
+              <p className="mb-2 text-xs text-amber-700" data-testid={`stale-rationale-${pair.betterIndex}-${pair.worseIndex}`}>
+                Written for different options: {pair.staleRationale}
+              </p>
+            )}
+            <Textarea
+              value={drafts[key] ?? ''}
+              onChange={(e) => setDrafts({ ...drafts, [key]: e.target.value })}
+              placeholder={`Why #${pair.betterIndex} should come before #${pair.worseIndex}...`}
+              rows={2}
+              data-testid={`input-rationale-${pair.betterIndex}-${pair.worseIndex}`}
+            />
+          </div>
+        );
+      })}
+      <Button type="button" variant="outline" onClick={handleSave} disabled={saving} data-testid="button-save-rationales">
+        {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+        Save Rationales
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { ChevronDown, ChevronRight, Loader2, RotateCcw } from 'lucide-react';
+import { getChallengeRevisions, revertChallengeRevision, type ChallengeRevisionEntry, type RevisionAction } from '@/lib/api';
+
+interface RevisionHistoryProps {
+  token: string;
+  challengeId: string;
+  onReverted: () => void;
+}
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  baseline: 'Before first tracked edit',
+  create: 'Created',
+  update: 'Edited',
+  revert: 'Reverted',
+  reschedule: 'Rescheduled',
+  import: 'Imported',
+};
+
+// Every saved version of the challenge with a field-by-field diff against the one before it
+export function RevisionHistory({ token, challengeId, onReverted }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<ChallengeRevisionEntry[] | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [reverting, setReverting] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getChallengeRevisions(token, challengeId)
+      .then(setRevisions)
+      .catch((error: any) => {
+        toast({
+          title: 'Error',
+          description: error.message || 'Failed to load revision history',
+          variant: 'destructive',
+        });
+      });
+  }, [token, challengeId]);
+
+  const handleRevert = async (revision: ChallengeRevisionEntry) => {
+    if (!confirm(`Restore revision #${revision.revisionNumber}? Unsaved changes in this form will be lost.`)) return;
+    setReverting(revision.id);
+    try {
+      await revertChallengeRevision(token, challengeId, revision.id);
+      toast({ title: 'Reverted', description: `Restored revision #${revision.revisionNumber}` });
+      onReverted();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to revert challenge',
+        variant: 'destructive',
+      });
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  if (!revisions) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-slate-500">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-xs text-slate-500">No edits recorded yet. A snapshot is taken on every save.</p>;
+  }
+
+  return (
+    <div className="space-y-2" data-testid="revision-history">
+      {revisions.map((revision, index) => {
+        const isOpen = expanded === revision.id;
+        const revertedFrom = revision.revertedFromId
+          ? revisions.find(r => r.id === revision.revertedFromId)
+          : undefined;
+        return (
+          <div key={revision.id} className="rounded-lg border border-slate-200 bg-slate-50">
+            <div className="flex items-center justify-between gap-2 p-2">
+              <button
+                type="button"
+                onClick={() => setExpanded(isOpen ? null : revision.id)}
+                className="flex items-center gap-1 text-left text-xs text-slate-700"
+                data-testid={`button-revision-${revision.revisionNumber}`}
+              >
+                {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                <span className="font-semibold">#{revision.revisionNumber}</span>
+                <span>
+                  {ACTION_LABELS[revision.action]}
+                  {revertedFrom && ` to #${revertedFrom.revisionNumber}`}
+                </span>
+                <span className="text-slate-400">
+                  · {format(new Date(revision.createdAt), 'MMM d, yyyy h:mm a')}
+                  {revision.editedBy && ` · ${revision.editedBy}`}
+                  {revision.editorSession && ` (${revision.editorSession.slice(0, 6)})`}
+                  {revision.changes.length > 0 && ` · ${revision.changes.length} ${revision.changes.length === 1 ? 'change' : 'changes'}`}
+                </span>
+              </button>
+              {index > 0 && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevert(revision)}
+                  disabled={reverting !== null}
+                  data-testid={`button-revert-${revision.revisionNumber}`}
+                >
+                  {reverting === revision.id ? <Loader2 className="w-3 h-3 animate-spin mr-1" /> : <RotateCcw className="w-3 h-3 mr-1" />}
+                  Revert
+                </Button>
+              )}
+            </div>
+            {isOpen && (
+              <div className="border-t border-slate-200 p-2 space-y-2 text-xs">
+                {revision.changes.length === 0 ? (
+                  <p className="text-slate-500">
+                    {index === revisions.length - 1 ? 'First recorded version.' : 'No content changes (options were re-saved).'}
+                  </p>
+                ) : (
+                  revision.changes.map(change => (
+                    <div key={change.field}>
+                      <p className="font-medium text-slate-700">{change.field}</p>
+                      <p className="whitespace-pre-wrap break-words rounded bg-rose-50 px-2 py-1 text-rose-800 line-through decoration-rose-300">
+                        {change.before ?? '(none)'}
+                      </p>
+                      <p className="whitespace-pre-wrap break-words rounded bg-emerald-50 px-2 py-1 text-emerald-800">
+                        {change.after ?? '(none)'}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import React, { useEffect, useState } from 'react';
+import { addMonths, endOfMonth, format, getDay, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { AlertTriangle, ChevronLeft, ChevronRight, Loader2, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getAdminSchedule,
+  rescheduleAdminChallenge,
+  autoFillAdminSchedule,
+  updateScheduleConfig,
+  type AutoFillReport,
+  type ChallengeQueueConfig,
+  type ScheduleCalendar as ScheduleCalendarData,
+  type ScheduledChallengeSummary,
+} from '@/lib/api';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const STATUS_STYLES = {
+  published: 'bg-emerald-50 border-emerald-200',
+  draft: 'bg-amber-50 border-amber-200',
+  missing: 'bg-white border-dashed border-slate-300',
+};
+
+// Published challenges that have already gone live keep their date (attempts reference it)
+const isMovable = (challenge: ScheduledChallengeSummary, today: string) =>
+  !(challenge.isPublished && challenge.dateKey <= today);
+
+interface ScheduleProps {
+  token: string;
+  onChanged?: () => void; // called after a reschedule or auto-fill so the challenge list can reload
+}
+
+function GapWarningBanner({ schedule }: { schedule: ScheduleCalendarData | null }) {
+  if (!schedule || schedule.unpublishedSoon.length === 0) return null;
+
+  return (
+    <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-2" data-testid="schedule-warning">
+      <AlertTriangle className="w-4 h-4 text-amber-600 mt-0.5 shrink-0" />
+      <p className="text-sm text-amber-800">
+        {schedule.unpublishedSoon.length} of the next {schedule.config.warningDays} days {schedule.unpublishedSoon.length === 1 ? 'has' : 'have'} no
+        published challenge: {schedule.unpublishedSoon.map(dateKey => format(parseISO(dateKey), 'MMM d')).join(', ')}.
+      </p>
+    </div>
+  );
+}
+
+// Standalone banner for other admin tabs; only needs the warning, so it asks for a one-day range
+export function UpcomingGapWarning({ token }: { token: string }) {
+  const [schedule, setSchedule] = useState<ScheduleCalendarData | null>(null);
+
+  useEffect(() => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    getAdminSchedule(token, today, today).then(setSchedule).catch(() => setSchedule(null));
+  }, [token]);
+
+  return <GapWarningBanner schedule={schedule} />;
+}
+
+export function ScheduleCalendar({ token, onChanged }: ScheduleProps) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [schedule, setSchedule] = useState<ScheduleCalendarData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [config, setConfig] = useState<ChallengeQueueConfig | null>(null);
+  const [fillReport, setFillReport] = useState<AutoFillReport | null>(null);
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+
+  const loadSchedule = async () => {
+    setLoading(true);
+    try {
+      const data = await getAdminSchedule(token, format(month, 'yyyy-MM-dd'), format(endOfMonth(month), 'yyyy-MM-dd'));
+      setSchedule(data);
+      setConfig(current => current ?? data.config);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to load schedule', variant: 'destructive' });
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadSchedule();
+  }, [token, month]);
+
+  const handleDrop = async (dateKey: string) => {
+    const challengeId = draggingId;
+    setDraggingId(null);
+    if (!challengeId) return;
+    try {
+      const moved = await rescheduleAdminChallenge(token, challengeId, dateKey);
+      toast({ title: 'Rescheduled', description: `"${moved.title}" moved to ${dateKey}` });
+      setFillReport(null);
+      await loadSchedule();
+      onChanged?.();
+    } catch (error: any) {
+      toast({ title: 'Cannot reschedule', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  const runAutoFill = async (dryRun: boolean) => {
+    if (!dryRun && !confirm(`Schedule ${fillReport?.assignments.length ?? 0} drafts${fillReport?.publishOnFill ? ' and publish them' : ''}?`)) return;
+    setWorking(true);
+    try {
+      const report = await autoFillAdminSchedule(token, dryRun);
+      setFillReport(report);
+      if (!dryRun) {
+        toast({ title: 'Success', description: `Scheduled ${report.assignments.length} drafts` });
+        await loadSchedule();
+        onChanged?.();
+      }
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to auto-fill', variant: 'destructive' });
+    }
+    setWorking(false);
+  };
+
+  const saveConfig = async () => {
+    if (!config) return;
+    setWorking(true);
+    try {
+      setConfig(await updateScheduleConfig(token, config));
+      setFillReport(null);
+      toast({ title: 'Saved', description: 'Schedule settings updated' });
+      await loadSchedule();
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to save settings', variant: 'destructive' });
+    }
+    setWorking(false);
+  };
+
+  const today = schedule?.today ?? format(new Date(), 'yyyy-MM-dd');
+  const leadingBlanks = getDay(month);
+
+  const renderChip = (challenge: ScheduledChallengeSummary) => {
+    const movable = isMovable(challenge, today);
+    return (
+      <div
+        draggable={movable}
+        onDragStart={() => setDraggingId(challenge.id)}
+        onDragEnd={() => setDraggingId(null)}
+        title={movable ? `${challenge.title} (drag to move)` : `${challenge.title} (already live)`}
+        className={`text-xs leading-tight rounded px-1.5 py-1 truncate ${movable ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'} ${
+          challenge.isPublished ? 'bg-emerald-100 text-emerald-800' : 'bg-amber-100 text-amber-800'
+        }`}
+        data-testid={`schedule-chip-${challenge.id}`}
+      >
+        {challenge.title}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <GapWarningBanner schedule={schedule} />
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <CardTitle>Schedule</CardTitle>
+              <CardDescription>Drag a challenge onto an empty day to move it. Past published days are locked.</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setMonth(subMonths(month, 1))}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="text-sm font-medium w-28 text-center">{format(month, 'MMMM yyyy')}</span>
+              <Button variant="outline" size="sm" onClick={() => setMonth(addMonths(month, 1))}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-4 text-xs text-slate-600 mb-3">
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-emerald-100 border border-emerald-200" /> Published</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-amber-100 border border-amber-200" /> Draft</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-white border border-dashed border-slate-300" /> Missing</span>
+            {loading && <Loader2 className="w-3 h-3 animate-spin" />}
+          </div>
+          <div className="grid grid-cols-7 gap-1">
+            {WEEKDAYS.map(day => (
+              <div key={day} className="text-xs font-medium text-slate-500 text-center pb-1">{day}</div>
+            ))}
+            {Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} />)}
+            {schedule?.days.map(day => {
+              const canDrop = !!draggingId && day.status === 'missing' && day.dateKey >= today;
+              return (
+                <div
+                  key={day.dateKey}
+                  onDragOver={(e) => { if (canDrop) e.preventDefault(); }}
+                  onDrop={(e) => { e.preventDefault(); handleDrop(day.dateKey); }}
+                  className={`min-h-[72px] rounded-lg border p-1 space-y-1 ${STATUS_STYLES[day.status]} ${
+                    canDrop ? 'ring-2 ring-emerald-400' : ''
+                  } ${day.dateKey === today ? 'outline outline-2 outline-slate-900' : ''}`}
+                  data-testid={`schedule-day-${day.dateKey}`}
+                >
+                  <div className={`text-xs ${day.dateKey < today ? 'text-slate-400' : 'text-slate-700'}`}>
+                    {format(parseISO(day.dateKey), 'd')}
+                  </div>
+                  {day.challenge && renderChip(day.challenge)}
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Draft Pool &amp; Auto-fill</CardTitle>
+          <CardDescription>
+            Unpublished drafts dated before today have never been scheduled. Drag them onto the calendar, or let auto-fill place
+            them (oldest first) on empty days.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {schedule && schedule.pool.length > 0 ? (
+            <div className="flex flex-wrap gap-2" data-testid="schedule-pool">
+              {schedule.pool.map(challenge => (
+                <div key={challenge.id} className="max-w-[220px]">{renderChip(challenge)}</div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">The pool is empty.</p>
+          )}
+
+          {config && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+              <div>
+                <Label className="text-xs">Warn if any of the next N days are unpublished</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={config.warningDays}
+                  onChange={(e) => setConfig({ ...config, warningDays: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Auto-fill empty days up to N days ahead</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={90}
+                  value={config.fillDays}
+                  onChange={(e) => setConfig({ ...config, fillDays: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div className="flex items-center gap-3 pb-2">
+                <Switch checked={config.publishOnFill} onCheckedChange={(v) => setConfig({ ...config, publishOnFill: v })} />
+                <Label className="text-xs">Publish drafts when placed</Label>
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={saveConfig} disabled={working || !config}>
+              Save Settings
+            </Button>
+            <Button variant="outline" onClick={() => runAutoFill(true)} disabled={working}>
+              {working ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Wand2 className="w-4 h-4 mr-2" />}
+              Preview Auto-fill
+            </Button>
+            <Button onClick={() => runAutoFill(false)} disabled={working || !fillReport?.dryRun || fillReport.assignments.length === 0}>
+              Apply
+            </Button>
+          </div>
+
+          {fillReport && (
+            <div className="text-sm space-y-2" data-testid="auto-fill-report">
+              <p className="font-medium text-slate-700">
+                {fillReport.dryRun ? 'Would schedule' : 'Scheduled'} {fillReport.assignments.length} drafts
+                {fillReport.publishOnFill ? ' (published)' : ' (left as drafts)'}.
+              </p>
+              {fillReport.assignments.map(a => (
+                <p key={a.challengeId} className="text-slate-600">{a.toDateKey}: {a.title}</p>
+              ))}
+              {fillReport.skipped.map(s => (
+                <p key={s.challengeId} className="text-amber-700">Skipped "{s.title}": {s.reason}</p>
+              ))}
+              {fillReport.unfilledDateKeys.length > 0 && (
+                <p className="text-rose-700">Still empty: {fillReport.unfilledDateKeys.join(', ')}</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
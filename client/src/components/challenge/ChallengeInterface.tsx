@@ -2,24 +2,29 @@ import React, { useState, useMemo } from 'react';
 import { Challenge, ChallengeOption } from '@/lib/types';
 import { OptionCard } from './OptionCard';
 import { Button } from '@/components/ui/button';
-import { submitAttempt, getResults } from '@/lib/api';
+import { submitAttempt, getResults, getRetryStatus, createRetryCheckoutSession } from '@/lib/api';
 import { useLocation } from 'wouter';
-import { ArrowRight, Loader2, Undo2, RotateCcw, Check } from 'lucide-react';
+import { ArrowRight, Loader2, Undo2, RotateCcw, Check, ShoppingCart } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { FinancialTermTooltip } from '@/components/FinancialTermTooltip';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Info } from 'lucide-react';
 import { findFinancialTerms } from '@/lib/financialTerms';
 import { ShareModal } from '@/components/ShareModal';
+import { CommunityDifficultyBadge } from './CommunityDifficultyBadge';
 
 interface ChallengeInterfaceProps {
   challenge: Challenge;
+  hasAttempted?: boolean; // Submitting again spends a retry
 }
 
-export function ChallengeInterface({ challenge }: ChallengeInterfaceProps) {
-  // Selected ranking: array of 4 slots, each containing an option ID or null
-  const [selectedRanking, setSelectedRanking] = useState<(string | null)[]>([null, null, null, null]);
+export function ChallengeInterface({ challenge, hasAttempted = false }: ChallengeInterfaceProps) {
+  const optionCount = challenge.options.length;
+  const emptyRanking = () => Array<string | null>(optionCount).fill(null);
+  
+  // Selected ranking: one slot per option, each containing an option ID or null
+  const [selectedRanking, setSelectedRanking] = useState<(string | null)[]>(emptyRanking);
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -30,6 +35,14 @@ export function ChallengeInterface({ challenge }: ChallengeInterfaceProps) {
   } | null>(null);
   const [hasSubmitted, setHasSubmitted] = useState(false);
   const [showResults, setShowResults] = useState(false);
+
+  const { data: retryStatus } = useQuery({
+    queryKey: ['retry-status'],
+    queryFn: getRetryStatus,
+    enabled: hasAttempted,
+  });
+  const isRetry = hasAttempted && !hasSubmitted;
+  const outOfRetries = isRetry && retryStatus !== undefined && retryStatus.retriesRemaining <= 0;
   
   // Calculate available options (not yet selected)
   const availableOptions = useMemo(() => {
@@ -37,11 +50,11 @@ export function ChallengeInterface({ challenge }: ChallengeInterfaceProps) {
     return challenge.options.filter(opt => !selectedIds.has(opt.id));
   }, [challenge.options, selectedRanking]);
   
-  // Find current step (first null slot index, or 4 if all filled)
+  // Find current step (first null slot index, or optionCount if all filled)
   const currentStep = useMemo(() => {
     const firstNullIndex = selectedRanking.findIndex(id => id === null);
-    return firstNullIndex === -1 ? 4 : firstNullIndex + 1;
-  }, [selectedRanking]);
+    return firstNullIndex === -1 ? optionCount : firstNullIndex + 1;
+  }, [selectedRanking, optionCount]);
   
   // Check if ranking is complete
   const isComplete = useMemo(() => {
@@ -63,6 +76,8 @@ export function ChallengeInterface({ challenge }: ChallengeInterfaceProps) {
         queryClient.invalidateQueries({ queryKey: ['results'] }),
         queryClient.invalidateQueries({ queryKey: ['user-stats'] }),
         queryClient.invalidateQueries({ queryKey: ['archive'] }),
+        queryClient.invalidateQueries({ queryKey: ['retry-status'] }),
+        queryClient.invalidateQueries({ queryKey: ['user-goals'] }),
       ]);
       
       // Wait a moment for server to process
@@ -100,22 +115,13 @@ export function ChallengeInterface({ challenge }: ChallengeInterfaceProps) {
     if (nextSlotIndex !== -1) {
       newRanking[nextSlotIndex] = optionId;
       
-      // Auto-fill 4th slot if 3 are selected (existing logic)
-      if (nextSlotIndex === 2 && newRanking[3] === null) {
-        const remainingOption = challenge.options.find(opt => 
-          !newRanking.includes(opt.id)
-        );
-        if (remainingOption) {
-          newRanking[3] = remainingOption.id;
-        }
-      }
-      
-      // Auto-fill if only 1 option remains, regardless of which slot is being filled
+      // Auto-fill the last open slot if only 1 option remains, regardless of which slot is being filled
       const remainingOptions = challenge.options.filter(opt => 
         !newRanking.includes(opt.id)
       );
-      if (remainingOptions.length === 1 && newRanking[3] === null) {
-        newRanking[3] = remainingOptions[0].id;
+      const openSlots = newRanking.filter(id => id === null).length;
+      if (remainingOptions.length === 1 && openSlots === 1) {
+        newRanking[newRanking.indexOf(null)] = remainingOptions[0].id;
       }
       
       setSelectedRanking(newRanking);
@@ -135,9 +141,23 @@ export function ChallengeInterface({ challenge }: ChallengeInterfaceProps) {
   };
   
   const handleReset = () => {
-    setSelectedRanking([null, null, null, null]);
+    setSelectedRanking(emptyRanking());
   };
   
+  const buyRetriesMutation = useMutation({
+    mutationFn: () => createRetryCheckoutSession(challenge.dateKey),
+    onSuccess: (session) => {
+      window.location.href = session.url;
+    },
+    onError: (error) => {
+      toast({
+        title: "Checkout unavailable",
+        description: error.message || "Something went wrong. Please try again.",
+        variant: "destructive"
+      });
+    },
+  });
+
   const handleSubmit = () => {
     if (!isComplete) return;
     
@@ -213,6 +233,7 @@ export function ChallengeInterface({ challenge }: ChallengeInterfaceProps) {
           <span className="text-slate-400 text-xs font-medium">
             {challenge.dateKey}
           </span>
+          <CommunityDifficultyBadge challenge={challenge} className="ml-auto" />
         </div>
         
         <h1 className="text-2xl sm:text-3xl font-display font-bold text-slate-900 mb-4 leading-tight">
@@ -237,7 +258,7 @@ export function ChallengeInterface({ challenge }: ChallengeInterfaceProps) {
       {availableOptions.length > 0 && !isComplete && (
         <div className="mb-6">
           <p className="text-sm font-medium text-slate-500 mb-3 px-2">
-            {currentStep <= 4 ? `Select your #${currentStep} choice:` : 'All slots filled'}
+            {currentStep <= optionCount ? `Select your #${currentStep} choice:` : 'All slots filled'}
           </p>
           <div className="space-y-3">
             {availableOptions.map((option) => (
@@ -261,13 +282,13 @@ export function ChallengeInterface({ challenge }: ChallengeInterfaceProps) {
       <div className="space-y-4">
         <div className="flex items-center justify-between px-2">
           <p className="text-sm font-medium text-slate-500">
-            Your ranking from <span className="text-emerald-600 font-bold">Best</span> (1) to <span className="text-rose-500 font-bold">Worst</span> (4)
+            Your ranking from <span className="text-emerald-600 font-bold">Best</span> (1) to <span className="text-rose-500 font-bold">Worst</span> ({optionCount})
           </p>
         </div>
         
         {/* Selected Ranking Slots */}
         <div className="space-y-3">
-          {[0, 1, 2, 3].map((slotIndex) => {
+          {selectedRanking.map((_, slotIndex) => {
             const optionId = selectedRanking[slotIndex];
             const option = getOptionById(optionId);
             const isCurrentSlot = currentStep === slotIndex + 1;
@@ -309,10 +330,10 @@ export function ChallengeInterface({ challenge }: ChallengeInterfaceProps) {
         </div>
         
         {/* Auto-fill message for last slot */}
-        {currentStep === 3 && availableOptions.length === 1 && (
+        {currentStep === optionCount - 1 && availableOptions.length === 1 && (
           <div className="mt-4 p-4 bg-emerald-50 border border-emerald-200 rounded-xl">
             <p className="text-sm text-emerald-700 font-medium text-center">
-              Last option will automatically be placed in slot #4
+              Last option will automatically be placed in slot #{optionCount}
             </p>
           </div>
         )}
@@ -343,7 +364,7 @@ export function ChallengeInterface({ challenge }: ChallengeInterfaceProps) {
       <div className="pt-4">
         <Button 
           onClick={handleSubmit} 
-          disabled={!isComplete || submitMutation.isPending || hasSubmitted}
+          disabled={!isComplete || submitMutation.isPending || hasSubmitted || outOfRetries}
           className="w-full h-14 text-lg font-semibold bg-slate-900 hover:bg-slate-800 text-white shadow-lg shadow-slate-200/50 rounded-xl transition-all hover:scale-[1.01] active:scale-[0.99] disabled:opacity-50 disabled:cursor-not-allowed"
           data-testid="button-submit"
         >
@@ -357,6 +378,11 @@ export function ChallengeInterface({ challenge }: ChallengeInterfaceProps) {
               <Check className="mr-2 h-5 w-5" />
               Submitted
             </>
+          ) : isRetry ? (
+            <>
+              {retryStatus ? `Retry (${retryStatus.retriesRemaining} left)` : 'Retry'}
+              <RotateCcw className="ml-2 h-5 w-5" />
+            </>
           ) : (
             <>
               Submit Ranking
@@ -364,6 +390,24 @@ export function ChallengeInterface({ challenge }: ChallengeInterfaceProps) {
             </>
           )}
         </Button>
+        {outOfRetries && (
+          <div className="mt-3 text-center space-y-2">
+            <p className="text-sm text-slate-500">
+              You've used this week's retries. New retries arrive next week.
+            </p>
+            {retryStatus.purchasesEnabled && (
+              <Button
+                variant="outline"
+                onClick={() => buyRetriesMutation.mutate()}
+                disabled={buyRetriesMutation.isPending}
+                data-testid="button-buy-retries"
+              >
+                <ShoppingCart className="mr-2 h-4 w-4" />
+                Buy {retryStatus.packSize} more retries
+              </Button>
+            )}
+          </div>
+        )}
       </div>
       </div>
 
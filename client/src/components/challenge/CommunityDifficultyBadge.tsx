@@ -0,0 +1,48 @@
+import React from 'react';
+import { Users } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+import { Challenge } from '@/lib/types';
+
+// Same 1-5 scale as the authored difficulty; the archive groups 1-3 as Easy/Medium/Hard
+const DIFFICULTY_LABELS: Record<number, { label: string; className: string }> = {
+  1: { label: 'Easy', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  2: { label: 'Medium', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  3: { label: 'Hard', className: 'bg-rose-50 text-rose-700 border-rose-200' },
+  4: { label: 'Very Hard', className: 'bg-rose-100 text-rose-800 border-rose-300' },
+  5: { label: 'Expert', className: 'bg-purple-50 text-purple-700 border-purple-200' },
+};
+
+interface CommunityDifficultyBadgeProps {
+  challenge: Pick<Challenge, 'communityDifficulty' | 'communitySampleSize'>;
+  className?: string;
+}
+
+// How hard players actually found the challenge; renders nothing until it has been calibrated
+export function CommunityDifficultyBadge({ challenge, className }: CommunityDifficultyBadgeProps) {
+  const level = challenge.communityDifficulty ? DIFFICULTY_LABELS[challenge.communityDifficulty] : undefined;
+  if (!level) return null;
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span
+            className={cn('inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-medium cursor-help', level.className, className)}
+            data-testid="badge-community-difficulty"
+          >
+            <Users className="w-3 h-3" />
+            {level.label}
+          </span>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs p-3 bg-slate-900 text-slate-50 text-sm">
+          <p className="mb-1 font-semibold">Community difficulty</p>
+          <p>
+            How hard this challenge turned out to be
+            {challenge.communitySampleSize ? `, based on ${challenge.communitySampleSize} players' scores` : ''}, allowing for how strong those players are.
+          </p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
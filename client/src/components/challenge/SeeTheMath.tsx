@@ -0,0 +1,59 @@
+import React, { useMemo } from 'react';
+import { Link } from 'wouter';
+import { motion } from 'framer-motion';
+import { Calculator, ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatScenarioMetric } from '@/components/tools/SavedScenarios';
+import { calculatorPresetSchema, evaluateCalculatorPreset, type CalculatorPreset } from '@shared/financialCalculators';
+
+interface SeeTheMathProps {
+  preset: CalculatorPreset;
+  dateKey: string;
+}
+
+// The challenge's own numbers run through the same calculation as the Tools page
+export function SeeTheMath({ preset, dateKey }: SeeTheMathProps) {
+  const result = useMemo(() => {
+    // Presets are validated on save, but older rows could predate a schema change
+    const parsed = calculatorPresetSchema.safeParse(preset);
+    return parsed.success ? evaluateCalculatorPreset(parsed.data) : null;
+  }, [preset]);
+
+  if (!result) return null;
+
+  const metrics = result.metrics.filter(metric => metric.value !== null);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-2xl p-6 border border-slate-200 shadow-sm"
+    >
+      <div className="flex items-start gap-3 mb-4">
+        <Calculator className="w-5 h-5 text-emerald-600 mt-0.5 flex-shrink-0" />
+        <div className="flex-1">
+          <h3 className="text-lg font-display font-bold text-slate-900 mb-1">See the Math</h3>
+          <p className="text-sm text-slate-600">{result.headline}</p>
+        </div>
+      </div>
+
+      {metrics.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-4">
+          {metrics.map(metric => (
+            <div key={metric.key} className="rounded-lg bg-slate-50 border border-slate-200 p-3">
+              <p className="text-xs text-slate-500">{metric.label}</p>
+              <p className="text-base font-semibold text-slate-900 tabular-nums">{formatScenarioMetric(metric)}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Link href={`/tools?challenge=${dateKey}`}>
+        <Button variant="outline" size="sm" data-testid="button-see-the-math">
+          Try it in the calculator
+          <ArrowRight className="w-4 h-4 ml-2" />
+        </Button>
+      </Link>
+    </motion.div>
+  );
+}
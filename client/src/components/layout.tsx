@@ -134,7 +134,7 @@ export function Layout({ children }: { children: React.ReactNode }) {
                   <section>
                     <h3 className="text-lg font-semibold text-slate-900 mb-2">📋 The Challenge</h3>
                     <p className="text-slate-700 leading-relaxed">
-                      Each day, you'll see a financial scenario with 4 options. Your goal is to rank them from <strong>best to worst</strong> financial decision.
+                      Each day, you'll see a financial scenario with 3 to 6 options. Your goal is to rank them from <strong>best to worst</strong> financial decision.
                     </p>
                   </section>
 
@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, Wallet, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { getChallengeByDateKey } from '@/lib/api';
+import { BUDGET_PRESETS, getBudgetPlan, type BudgetPresetName } from '@shared/financialCalculators';
+import type { ChallengeAssumptionValues } from '@shared/challengeAssumptions';
+import { NumberField } from './NumberField';
+
+const formatCurrency = (n: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(n);
+
+const num = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+const PRESET_NAMES = Object.keys(BUDGET_PRESETS) as BudgetPresetName[];
+
+interface BudgetPlannerProps {
+  // When set (e.g. /tools?challenge=2025-03-01), the planner fills itself from that challenge on mount
+  initialChallengeDateKey?: string | null;
+}
+
+export function BudgetPlanner({ initialChallengeDateKey }: BudgetPlannerProps) {
+  const { toast } = useToast();
+  const [income, setIncome] = useState('5000');
+  const [essentials, setEssentials] = useState('2200');
+  const [discretionary, setDiscretionary] = useState('1200');
+  const [debtPayments, setDebtPayments] = useState('300');
+  const [emergencyBalance, setEmergencyBalance] = useState('3000');
+  const [emergencyTargetMonths, setEmergencyTargetMonths] = useState('6');
+  const [split, setSplit] = useState({ needsPct: '50', wantsPct: '30', savingsPct: '20' });
+  const [challengeDateKey, setChallengeDateKey] = useState(initialChallengeDateKey || format(new Date(), 'yyyy-MM-dd'));
+  const [filling, setFilling] = useState(false);
+  const [filledFrom, setFilledFrom] = useState<string | null>(null);
+
+  const plan = useMemo(() => getBudgetPlan({
+    monthlyIncome: num(income),
+    needsPct: num(split.needsPct),
+    wantsPct: num(split.wantsPct),
+    savingsPct: num(split.savingsPct),
+    essentialExpenses: num(essentials),
+    discretionaryExpenses: num(discretionary),
+    debtPayments: num(debtPayments),
+    emergencyFundBalance: num(emergencyBalance),
+    emergencyFundTargetMonths: num(emergencyTargetMonths),
+  }), [income, split, essentials, discretionary, debtPayments, emergencyBalance, emergencyTargetMonths]);
+
+  const activePreset = PRESET_NAMES.find(name => {
+    const preset = BUDGET_PRESETS[name];
+    return num(split.needsPct) === preset.needsPct && num(split.wantsPct) === preset.wantsPct && num(split.savingsPct) === preset.savingsPct;
+  });
+
+  const applyAssumptions = (values: ChallengeAssumptionValues) => {
+    if (values.monthlyIncome !== undefined) setIncome(String(values.monthlyIncome));
+    if (values.monthlyEssentialExpenses !== undefined) setEssentials(String(values.monthlyEssentialExpenses));
+    if (values.monthlyDiscretionaryExpenses !== undefined) setDiscretionary(String(values.monthlyDiscretionaryExpenses));
+    if (values.monthlyDebtPayments !== undefined) setDebtPayments(String(values.monthlyDebtPayments));
+    if (values.emergencyFundBalance !== undefined) setEmergencyBalance(String(values.emergencyFundBalance));
+    if (values.emergencyFundTargetMonths !== undefined) setEmergencyTargetMonths(String(values.emergencyFundTargetMonths));
+  };
+
+  const fillFromChallenge = async (dateKey: string) => {
+    setFilling(true);
+    try {
+      const data = await getChallengeByDateKey(dateKey);
+      if (!data) {
+        toast({ title: 'No challenge', description: `There is no challenge for ${dateKey}.`, variant: 'destructive' });
+        return;
+      }
+      const values = data.challenge.assumptionValues;
+      if (!values || Object.keys(values).length === 0) {
+        toast({ title: 'Nothing to fill', description: `“${data.challenge.title}” has no budget numbers attached.` });
+        return;
+      }
+      applyAssumptions(values);
+      setFilledFrom(data.challenge.title);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to load challenge', variant: 'destructive' });
+    } finally {
+      setFilling(false);
+    }
+  };
+
+  useEffect(() => {
+    if (initialChallengeDateKey) fillFromChallenge(initialChallengeDateKey);
+  }, [initialChallengeDateKey]);
+
+  const emergencyMonths = plan.emergencyFundMonths;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+          <Wallet className="w-5 h-5" />
+          Budget &amp; Emergency Fund
+        </CardTitle>
+        <CardDescription>
+          Compare your spending with a 50/30/20 (or custom) split and see how many months your emergency fund covers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="rounded-xl border border-slate-200 p-3 space-y-2">
+          <Label htmlFor="budget-challenge-date" className="text-xs text-slate-600">Use the numbers from a daily challenge</Label>
+          <div className="flex flex-wrap gap-2">
+            <Input
+              id="budget-challenge-date"
+              type="date"
+              value={challengeDateKey}
+              onChange={(e) => setChallengeDateKey(e.target.value)}
+              className="w-44"
+            />
+            <Button variant="outline" onClick={() => fillFromChallenge(challengeDateKey)} disabled={filling || !challengeDateKey}>
+              {filling ? <Loader2 className="w-4 h-4 animate-spin mr-1" /> : <Wand2 className="w-4 h-4 mr-1" />}
+              Fill from challenge
+            </Button>
+          </div>
+          {filledFrom && <p className="text-xs text-emerald-700">Filled from “{filledFrom}”.</p>}
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          <NumberField id="budget-income" label="Take-home income ($/mo)" value={income} onChange={setIncome} step="100" />
+          <NumberField id="budget-essentials" label="Essentials ($/mo)" value={essentials} onChange={setEssentials} step="50" hint="Rent, utilities, groceries, insurance" />
+          <NumberField id="budget-discretionary" label="Wants ($/mo)" value={discretionary} onChange={setDiscretionary} step="50" />
+          <NumberField id="budget-debt" label="Debt minimums ($/mo)" value={debtPayments} onChange={setDebtPayments} step="25" />
+          <NumberField id="budget-emergency" label="Emergency fund ($)" value={emergencyBalance} onChange={setEmergencyBalance} step="500" />
+          <NumberField id="budget-emergency-target" label="Emergency target (months)" value={emergencyTargetMonths} onChange={setEmergencyTargetMonths} />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-slate-600">Split:</span>
+            {PRESET_NAMES.map(name => (
+              <Button
+                key={name}
+                type="button"
+                size="sm"
+                variant={activePreset === name ? 'default' : 'outline'}
+                onClick={() => {
+                  const preset = BUDGET_PRESETS[name];
+                  setSplit({ needsPct: String(preset.needsPct), wantsPct: String(preset.wantsPct), savingsPct: String(preset.savingsPct) });
+                }}
+              >
+                {name}
+              </Button>
+            ))}
+            {!activePreset && <span className="text-xs text-slate-500">Custom</span>}
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <NumberField id="budget-needs-pct" label="Needs (%)" value={split.needsPct} onChange={(v) => setSplit({ ...split, needsPct: v })} step="5" />
+            <NumberField id="budget-wants-pct" label="Wants (%)" value={split.wantsPct} onChange={(v) => setSplit({ ...split, wantsPct: v })} step="5" />
+            <NumberField id="budget-savings-pct" label="Savings (%)" value={split.savingsPct} onChange={(v) => setSplit({ ...split, savingsPct: v })} step="5" />
+          </div>
+          {plan.allocationTotalPct !== 100 && (
+            <p className="text-xs text-amber-600">Your split adds up to {plan.allocationTotalPct}%, not 100%.</p>
+          )}
+        </div>
+
+        <div className="rounded-xl bg-slate-50 border border-slate-200 p-4 sm:p-5 space-y-3">
+          {plan.buckets.map(bucket => {
+            const overTarget = bucket.key === 'savings' ? bucket.difference < 0 : bucket.difference > 0;
+            const width = bucket.target > 0 ? Math.min(100, (bucket.actual / bucket.target) * 100) : 0;
+            return (
+              <div key={bucket.key} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium text-slate-700">{bucket.label}</span>
+                  <span className="tabular-nums text-slate-900">
+                    {formatCurrency(bucket.actual)} <span className="text-slate-500">of {formatCurrency(bucket.target)}</span>
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-slate-200 overflow-hidden">
+                  <div className={`h-full ${overTarget ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${width}%` }} />
+                </div>
+                {bucket.difference !== 0 && (
+                  <p className={`text-xs ${overTarget ? 'text-amber-700' : 'text-slate-500'}`}>
+                    {bucket.key === 'savings'
+                      ? bucket.difference < 0
+                        ? `${formatCurrency(-bucket.difference)} short of the savings target`
+                        : `${formatCurrency(bucket.difference)} above the savings target`
+                      : bucket.difference > 0
+                        ? `${formatCurrency(bucket.difference)} over target`
+                        : `${formatCurrency(-bucket.difference)} under target`}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+          {plan.leftover < 0 && (
+            <p className="text-sm font-medium text-amber-700">You’re spending {formatCurrency(-plan.leftover)} more than you take home each month.</p>
+          )}
+        </div>
+
+        <div className="rounded-xl bg-slate-50 border border-slate-200 p-4 sm:p-5 space-y-2">
+          <p className="text-sm font-medium text-slate-700">
+            Emergency fund covers{' '}
+            <span className="font-bold text-slate-900">{emergencyMonths !== null ? `${emergencyMonths} months` : '—'}</span>
+            {' '}of essentials ({formatCurrency(plan.essentialMonthlyCosts)}/mo including debt minimums).
+          </p>
+          {plan.emergencyFundGap > 0 ? (
+            <p className="text-sm text-slate-700">
+              {formatCurrency(plan.emergencyFundGap)} to go for {num(emergencyTargetMonths)} months ({formatCurrency(plan.emergencyFundTarget)}).{' '}
+              {plan.monthsToEmergencyTarget !== null
+                ? `Saving everything left over, you’d get there in about ${plan.monthsToEmergencyTarget} months.`
+                : 'There’s nothing left over each month to build it.'}
+            </p>
+          ) : (
+            <p className="text-sm text-emerald-800">You’ve reached your {num(emergencyTargetMonths)}-month target.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
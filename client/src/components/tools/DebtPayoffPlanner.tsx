@@ -0,0 +1,393 @@
+import React, { useMemo, useState } from 'react';
+import { addMonths, format } from 'date-fns';
+import { ArrowDown, ArrowUp, ListOrdered, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import {
+  PAYOFF_STRATEGIES,
+  getMinimumBudget,
+  simulateDebtPayoff,
+  type PayoffPlan,
+  type PayoffStrategy,
+  type PlannerDebt,
+} from '@shared/financialCalculators';
+
+const MAX_DEBTS = 10;
+
+const STRATEGY_LABELS: Record<PayoffStrategy, string> = {
+  avalanche: 'Avalanche',
+  snowball: 'Snowball',
+  custom: 'Custom',
+};
+
+const STRATEGY_DESCRIPTIONS: Record<PayoffStrategy, string> = {
+  avalanche: 'Highest APR first. Usually the least interest.',
+  snowball: 'Smallest balance first. Quick wins early on.',
+  custom: 'Your own priority order.',
+};
+
+const STRATEGY_COLORS: Record<PayoffStrategy, string> = {
+  avalanche: '#059669',
+  snowball: '#0ea5e9',
+  custom: '#f59e0b',
+};
+
+interface DebtRow {
+  name: string;
+  balance: string;
+  apr: string;
+  minimum: string;
+}
+
+const emptyRow = (n: number): DebtRow => ({ name: `Debt ${n}`, balance: '', apr: '', minimum: '' });
+
+const formatCurrency = (n: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(n);
+
+const formatPayoffDate = (month: number) => format(addMonths(new Date(), month), 'MMM yyyy');
+
+const formatDuration = (months: number) => {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  return years > 0 ? `${years}y ${rest}m` : `${rest}m`;
+};
+
+interface DebtPayoffPlannerProps {
+  // Starting values, e.g. from a challenge's calculator preset; remount (key) to apply new ones
+  initialDebts?: PlannerDebt[];
+  initialBudget?: number;
+}
+
+export function DebtPayoffPlanner({ initialDebts, initialBudget }: DebtPayoffPlannerProps) {
+  const [rows, setRows] = useState<DebtRow[]>(() => initialDebts && initialDebts.length > 0
+    ? initialDebts.map(debt => ({
+      name: debt.name,
+      balance: String(debt.balance),
+      apr: String(debt.aprPct),
+      minimum: String(debt.minimumPayment),
+    }))
+    : [emptyRow(1), emptyRow(2)]);
+  const [budget, setBudget] = useState(initialBudget ? String(initialBudget) : '');
+  const [selectedStrategy, setSelectedStrategy] = useState<PayoffStrategy>('avalanche');
+  // Row indices in the user's priority order, used by the custom strategy
+  const [customOrder, setCustomOrder] = useState<number[]>(() => rows.map((_, index) => index));
+
+  // Rows with a positive balance; keep their original row index so custom order still applies
+  const entries = useMemo(() => rows
+    .map((row, index) => ({
+      index,
+      debt: {
+        name: row.name.trim() || `Debt ${index + 1}`,
+        balance: parseFloat(row.balance) || 0,
+        aprPct: parseFloat(row.apr) || 0,
+        minimumPayment: parseFloat(row.minimum) || 0,
+      } as PlannerDebt,
+    }))
+    .filter(e => e.debt.balance > 0), [rows]);
+  const debts = entries.map(e => e.debt);
+
+  const budgetNum = parseFloat(budget) || 0;
+  const minimumBudget = getMinimumBudget(debts);
+  const budgetTooLow = debts.length > 0 && budgetNum > 0 && budgetNum < minimumBudget;
+
+  const plans = useMemo((): Record<PayoffStrategy, PayoffPlan> | null => {
+    if (debts.length === 0 || budgetNum <= 0 || budgetNum < minimumBudget) return null;
+    const order = customOrder
+      .map(rowIndex => entries.findIndex(e => e.index === rowIndex))
+      .filter(i => i >= 0);
+    return {
+      avalanche: simulateDebtPayoff(debts, budgetNum, 'avalanche'),
+      snowball: simulateDebtPayoff(debts, budgetNum, 'snowball'),
+      custom: simulateDebtPayoff(debts, budgetNum, 'custom', order),
+    };
+  }, [entries, budgetNum, minimumBudget, customOrder]);
+
+  const selectedPlan = plans?.[selectedStrategy] ?? null;
+  const leastInterest = plans
+    ? Math.min(...PAYOFF_STRATEGIES.filter(s => plans[s].paidOff).map(s => plans[s].totalInterest))
+    : null;
+
+  const chartData = useMemo(() => {
+    if (!plans) return [];
+    const months = Math.max(...PAYOFF_STRATEGIES.map(s => plans[s].monthsToPayoff));
+    const opening = debts.reduce((sum, d) => sum + d.balance, 0);
+    return Array.from({ length: months + 1 }, (_, month) => {
+      const point: Record<string, number> = { month };
+      for (const s of PAYOFF_STRATEGIES) {
+        point[s] = month === 0 ? opening : plans[s].schedule[month - 1]?.totalBalance ?? 0;
+      }
+      return point;
+    });
+  }, [plans]);
+
+  const updateRow = (index: number, field: keyof DebtRow, value: string) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const addRow = () => {
+    setRows(prev => [...prev, emptyRow(prev.length + 1)]);
+    setCustomOrder(prev => [...prev, rows.length]);
+  };
+
+  const removeRow = (index: number) => {
+    setRows(prev => prev.filter((_, i) => i !== index));
+    setCustomOrder(prev => prev.filter(i => i !== index).map(i => (i > index ? i - 1 : i)));
+  };
+
+  const moveInCustomOrder = (position: number, delta: -1 | 1) => {
+    setCustomOrder(prev => {
+      const target = position + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[position], next[target]] = [next[target], next[position]];
+      return next;
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+          <ListOrdered className="w-5 h-5" />
+          Multi-Debt Payoff Planner
+        </CardTitle>
+        <CardDescription>
+          Enter each debt and what you can pay in total every month. Compare avalanche, snowball and your own order.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div className="hidden sm:grid grid-cols-[1.5fr_1fr_0.7fr_1fr_auto] gap-2 text-xs font-medium text-slate-500">
+            <span>Name</span>
+            <span>Balance ($)</span>
+            <span>APR (%)</span>
+            <span>Minimum ($/mo)</span>
+            <span className="w-9" />
+          </div>
+          {rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-2 sm:grid-cols-[1.5fr_1fr_0.7fr_1fr_auto] gap-2">
+              <Input
+                aria-label="Debt name"
+                value={row.name}
+                onChange={(e) => updateRow(index, 'name', e.target.value)}
+                maxLength={40}
+                className="col-span-2 sm:col-span-1"
+              />
+              <Input
+                aria-label="Balance"
+                type="number"
+                min="0"
+                step="100"
+                placeholder="Balance"
+                value={row.balance}
+                onChange={(e) => updateRow(index, 'balance', e.target.value)}
+              />
+              <Input
+                aria-label="APR"
+                type="number"
+                min="0"
+                step="0.1"
+                placeholder="APR"
+                value={row.apr}
+                onChange={(e) => updateRow(index, 'apr', e.target.value)}
+              />
+              <Input
+                aria-label="Minimum payment"
+                type="number"
+                min="0"
+                step="10"
+                placeholder="Minimum"
+                value={row.minimum}
+                onChange={(e) => updateRow(index, 'minimum', e.target.value)}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeRow(index)}
+                disabled={rows.length <= 1}
+                title="Remove debt"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addRow} disabled={rows.length >= MAX_DEBTS}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add debt
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="planner-budget">Total monthly budget for debt ($)</Label>
+          <Input
+            id="planner-budget"
+            type="number"
+            min="0"
+            step="50"
+            placeholder="e.g. 1000"
+            value={budget}
+            onChange={(e) => setBudget(e.target.value)}
+            className="text-base touch-manipulation w-40"
+          />
+          {debts.length > 0 && (
+            <p className={`text-xs ${budgetTooLow ? 'text-amber-600' : 'text-slate-500'}`}>
+              Minimum payments add up to {formatCurrency(minimumBudget)}.{' '}
+              {budgetTooLow ? 'Your budget has to cover at least that.' : 'Anything above that goes to the priority debt.'}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-slate-700">Custom priority order</p>
+          <ol className="space-y-1">
+            {customOrder.map((rowIndex, position) => (
+              <li key={rowIndex} className="flex items-center gap-2 text-sm">
+                <span className="w-5 text-slate-400 tabular-nums">{position + 1}.</span>
+                <span className="flex-1 text-slate-800">{rows[rowIndex]?.name || `Debt ${rowIndex + 1}`}</span>
+                <Button variant="ghost" size="sm" onClick={() => moveInCustomOrder(position, -1)} disabled={position === 0} title="Move up">
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => moveInCustomOrder(position, 1)} disabled={position === customOrder.length - 1} title="Move down">
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        {plans && selectedPlan && (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              {PAYOFF_STRATEGIES.map(strategy => {
+                const plan = plans[strategy];
+                const isSelected = strategy === selectedStrategy;
+                return (
+                  <button
+                    key={strategy}
+                    type="button"
+                    onClick={() => setSelectedStrategy(strategy)}
+                    className={`text-left rounded-xl border p-3 touch-manipulation ${isSelected ? 'border-emerald-500 bg-emerald-50' : 'border-slate-200 bg-white hover:bg-slate-50'}`}
+                  >
+                    <p className="text-sm font-semibold text-slate-900">
+                      {STRATEGY_LABELS[strategy]}
+                      {plan.paidOff && plan.totalInterest === leastInterest && (
+                        <span className="ml-2 text-xs font-medium text-emerald-700">Least interest</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-slate-500 mb-2">{STRATEGY_DESCRIPTIONS[strategy]}</p>
+                    {plan.paidOff ? (
+                      <>
+                        <p className="text-sm text-slate-700">Debt-free {formatPayoffDate(plan.monthsToPayoff)} ({formatDuration(plan.monthsToPayoff)})</p>
+                        <p className="text-sm text-slate-700">Interest: {formatCurrency(plan.totalInterest)}</p>
+                      </>
+                    ) : (
+                      <p className="text-sm text-amber-600">Not paid off within {formatDuration(plan.monthsToPayoff)}. Raise the budget or minimums.</p>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="rounded-xl border border-slate-200 overflow-hidden bg-white">
+              <div className="p-3 border-b border-slate-200">
+                <span className="text-sm font-medium text-slate-700">Total balance over time</span>
+              </div>
+              <div className="h-[220px] sm:h-[260px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 8, right: 8, left: 8, bottom: 8 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="month" tick={{ fontSize: 12 }} stroke="#64748b" />
+                    <YAxis tickFormatter={(v) => `$${v >= 1000 ? `${(v / 1000).toFixed(0)}k` : v}`} tick={{ fontSize: 12 }} stroke="#64748b" />
+                    <Tooltip
+                      formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                      labelFormatter={(label) => `Month ${label}`}
+                      contentStyle={{ borderRadius: 8, border: '1px solid #e2e8f0' }}
+                    />
+                    <Legend />
+                    {PAYOFF_STRATEGIES.map(strategy => (
+                      <Line
+                        key={strategy}
+                        type="monotone"
+                        dataKey={strategy}
+                        stroke={STRATEGY_COLORS[strategy]}
+                        strokeWidth={strategy === selectedStrategy ? 3 : 1.5}
+                        dot={false}
+                        name={STRATEGY_LABELS[strategy]}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-slate-700">{STRATEGY_LABELS[selectedStrategy]}: payoff dates</p>
+              <ul className="text-sm text-slate-700 space-y-1">
+                {selectedPlan.order.map(i => (
+                  <li key={i} className="flex justify-between">
+                    <span>{debts[i].name}</span>
+                    <span className="tabular-nums">
+                      {selectedPlan.payoffMonthByDebt[i] !== null
+                        ? `${formatPayoffDate(selectedPlan.payoffMonthByDebt[i]!)} (month ${selectedPlan.payoffMonthByDebt[i]})`
+                        : 'Not paid off'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-sm text-slate-600">
+                Total paid: {formatCurrency(selectedPlan.totalPaid)} · Total interest: {formatCurrency(selectedPlan.totalInterest)}
+              </p>
+            </div>
+
+            <div className="rounded-xl border border-slate-200 overflow-hidden">
+              <div className="p-3 border-b border-slate-200 bg-white">
+                <span className="text-sm font-medium text-slate-700">Month-by-month schedule</span>
+              </div>
+              <div className="max-h-[360px] overflow-auto">
+                <table className="w-full text-xs sm:text-sm">
+                  <thead className="sticky top-0 bg-slate-50">
+                    <tr className="border-b border-slate-200">
+                      <th className="text-left font-medium text-slate-500 py-2 px-2">Month</th>
+                      {debts.map((debt, i) => (
+                        <th key={i} className="text-right font-medium text-slate-500 py-2 px-2">{debt.name}</th>
+                      ))}
+                      <th className="text-right font-medium text-slate-500 py-2 px-2">Interest</th>
+                      <th className="text-right font-medium text-slate-500 py-2 px-2">Remaining</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selectedPlan.schedule.map(row => (
+                      <tr key={row.month} className="border-b border-slate-100 last:border-0">
+                        <td className="py-1.5 px-2 text-slate-600 whitespace-nowrap">{formatPayoffDate(row.month)}</td>
+                        {row.payments.map((payment, i) => (
+                          <td key={i} className="py-1.5 px-2 text-right tabular-nums text-slate-900">
+                            {payment > 0 ? formatCurrency(payment) : '—'}
+                          </td>
+                        ))}
+                        <td className="py-1.5 px-2 text-right tabular-nums text-slate-600">{formatCurrency(row.interest)}</td>
+                        <td className="py-1.5 px-2 text-right tabular-nums font-medium text-slate-900">{formatCurrency(row.totalBalance)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+            <p className="text-xs text-slate-500 italic">This is an estimate. Interest is compounded monthly and rates are assumed fixed.</p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
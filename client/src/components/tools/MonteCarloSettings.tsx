@@ -0,0 +1,147 @@
+import React from 'react';
+import { Dices, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SP500_ANNUAL_RETURNS } from '@shared/historicalReturns';
+import type { MonteCarloResult, ReturnModel } from '@shared/monteCarlo';
+
+export interface MonteCarloOptions {
+  returnModel: ReturnModel;
+  volatilityPct: string;
+  simulations: number;
+  seed: number;
+}
+
+export const DEFAULT_MONTE_CARLO_OPTIONS: MonteCarloOptions = {
+  returnModel: 'normal',
+  volatilityPct: '15',
+  simulations: 2000,
+  seed: 42,
+};
+
+const SIMULATION_COUNTS = [1000, 2000, 5000, 10000];
+
+const HISTORY_RANGE = `${SP500_ANNUAL_RETURNS[0].year}–${SP500_ANNUAL_RETURNS[SP500_ANNUAL_RETURNS.length - 1].year}`;
+
+const formatCurrency = (n: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(n);
+
+interface MonteCarloSettingsProps {
+  options: MonteCarloOptions;
+  onChange: (options: MonteCarloOptions) => void;
+  result: MonteCarloResult | null;
+  isRunning: boolean;
+  error: string | null;
+  goalTarget: number | null; // set in goal mode
+}
+
+export function MonteCarloSettings({ options, onChange, result, isRunning, error, goalTarget }: MonteCarloSettingsProps) {
+  const update = (patch: Partial<MonteCarloOptions>) => onChange({ ...options, ...patch });
+  const final = result?.bands[result.bands.length - 1];
+
+  return (
+    <div className="rounded-xl border border-slate-200 p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-slate-600">Returns:</span>
+        <div className="flex rounded-lg border border-slate-200 overflow-hidden">
+          <button
+            type="button"
+            onClick={() => update({ returnModel: 'normal' })}
+            className={`px-3 py-2 text-sm font-medium touch-manipulation ${options.returnModel === 'normal' ? 'bg-emerald-600 text-white' : 'bg-slate-50 text-slate-700 hover:bg-slate-100'}`}
+          >
+            Average ± volatility
+          </button>
+          <button
+            type="button"
+            onClick={() => update({ returnModel: 'historical' })}
+            className={`px-3 py-2 text-sm font-medium touch-manipulation ${options.returnModel === 'historical' ? 'bg-emerald-600 text-white' : 'bg-slate-50 text-slate-700 hover:bg-slate-100'}`}
+          >
+            Historical S&amp;P 500
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {options.returnModel === 'normal' ? (
+          <div className="space-y-1">
+            <Label htmlFor="mc-volatility" className="text-xs text-slate-600">Volatility (% per year)</Label>
+            <Input
+              id="mc-volatility"
+              type="number"
+              min="0"
+              max="100"
+              step="1"
+              value={options.volatilityPct}
+              onChange={(e) => update({ volatilityPct: e.target.value })}
+              className="text-base touch-manipulation"
+            />
+          </div>
+        ) : (
+          <p className="text-xs text-slate-500 self-end">
+            Each simulated year replays a random year of S&amp;P 500 total returns from {HISTORY_RANGE}. The expected return above is ignored.
+          </p>
+        )}
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-600">Simulations</Label>
+          <div className="flex flex-wrap gap-1">
+            {SIMULATION_COUNTS.map(count => (
+              <Button
+                key={count}
+                type="button"
+                size="sm"
+                variant={options.simulations === count ? 'default' : 'outline'}
+                onClick={() => update({ simulations: count })}
+              >
+                {count.toLocaleString()}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="mc-seed" className="text-xs text-slate-600">Seed</Label>
+          <div className="flex gap-2">
+            <Input
+              id="mc-seed"
+              type="number"
+              step="1"
+              value={options.seed}
+              onChange={(e) => update({ seed: parseInt(e.target.value, 10) || 0 })}
+              className="text-base touch-manipulation"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => update({ seed: Math.floor(Math.random() * 1_000_000) })}
+              title="New random seed"
+            >
+              <Dices className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-amber-600">{error}</p>
+      ) : isRunning && !result ? (
+        <div className="flex items-center gap-2 text-sm text-slate-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Running simulations…
+        </div>
+      ) : final ? (
+        <div className={`space-y-1 ${isRunning ? 'opacity-60' : ''}`}>
+          <p className="text-sm text-slate-700">
+            After {final.year} years: {formatCurrency(final.p10)} (10th percentile), {formatCurrency(final.p50)} (median), {formatCurrency(final.p90)} (90th percentile).
+          </p>
+          {goalTarget !== null && result?.probabilityOfGoal !== null && result?.probabilityOfGoal !== undefined && (
+            <p className="text-sm font-medium text-emerald-800">
+              {Math.round(result.probabilityOfGoal * 100)}% of {result.simulations.toLocaleString()} simulations reach {formatCurrency(goalTarget)}.
+            </p>
+          )}
+          <p className="text-xs text-slate-500 italic">Same inputs and seed always give the same result. Past returns don’t predict future returns.</p>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import React, { useMemo, useState } from 'react';
+import { Home, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import {
+  PMI_AUTO_CANCEL_LTV,
+  PMI_REQUEST_CANCEL_LTV,
+  getMortgageResults,
+  getRefinanceBreakEven,
+} from '@shared/financialCalculators';
+import { NumberField } from './NumberField';
+
+const formatCurrency = (n: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(n);
+
+const formatMonths = (months: number) => {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  return years > 0 ? `${years}y ${rest}m` : `${rest}m`;
+};
+
+const num = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+export function MortgageCalculator() {
+  const [homePrice, setHomePrice] = useState('400000');
+  const [downPayment, setDownPayment] = useState('40000');
+  const [rate, setRate] = useState('6.5');
+  const [term, setTerm] = useState('30');
+  const [propertyTax, setPropertyTax] = useState('1.1');
+  const [insurance, setInsurance] = useState('1500');
+  const [hoa, setHoa] = useState('0');
+  const [pmiRate, setPmiRate] = useState('0.5');
+  const [pmiDropOff, setPmiDropOff] = useState<number>(PMI_AUTO_CANCEL_LTV);
+  const [extraPrincipal, setExtraPrincipal] = useState('0');
+
+  const [refiBalance, setRefiBalance] = useState('300000');
+  const [refiCurrentRate, setRefiCurrentRate] = useState('7');
+  const [refiRemaining, setRefiRemaining] = useState('27');
+  const [refiNewRate, setRefiNewRate] = useState('6');
+  const [refiNewTerm, setRefiNewTerm] = useState('30');
+  const [refiCosts, setRefiCosts] = useState('6000');
+
+  const mortgage = useMemo(() => getMortgageResults({
+    homePrice: num(homePrice),
+    downPayment: num(downPayment),
+    annualRatePct: num(rate),
+    termYears: num(term),
+    propertyTaxPct: num(propertyTax),
+    insuranceAnnual: num(insurance),
+    hoaMonthly: num(hoa),
+    pmiRatePct: num(pmiRate),
+    pmiDropOffLtv: pmiDropOff,
+    extraPrincipalMonthly: num(extraPrincipal),
+  }), [homePrice, downPayment, rate, term, propertyTax, insurance, hoa, pmiRate, pmiDropOff, extraPrincipal]);
+
+  const refinance = useMemo(() => getRefinanceBreakEven({
+    currentBalance: num(refiBalance),
+    currentRatePct: num(refiCurrentRate),
+    remainingYears: num(refiRemaining),
+    newRatePct: num(refiNewRate),
+    newTermYears: num(refiNewTerm),
+    closingCosts: num(refiCosts),
+  }), [refiBalance, refiCurrentRate, refiRemaining, refiNewRate, refiNewTerm, refiCosts]);
+
+  const downPaymentPct = num(homePrice) > 0 ? (num(downPayment) / num(homePrice)) * 100 : 0;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+            <Home className="w-5 h-5" />
+            Mortgage
+          </CardTitle>
+          <CardDescription>
+            Full monthly housing payment (principal, interest, taxes, insurance), when PMI goes away, and what extra principal saves.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            <NumberField id="mtg-price" label="Home price ($)" value={homePrice} onChange={setHomePrice} step="5000" />
+            <NumberField id="mtg-down" label={`Down payment ($) · ${downPaymentPct.toFixed(1)}%`} value={downPayment} onChange={setDownPayment} step="1000" />
+            <NumberField id="mtg-rate" label="Interest rate (%)" value={rate} onChange={setRate} step="0.125" />
+            <NumberField id="mtg-term" label="Term (years)" value={term} onChange={setTerm} step="5" />
+            <NumberField id="mtg-tax" label="Property tax (%/yr)" value={propertyTax} onChange={setPropertyTax} step="0.1" />
+            <NumberField id="mtg-insurance" label="Home insurance ($/yr)" value={insurance} onChange={setInsurance} step="100" />
+            <NumberField id="mtg-hoa" label="HOA ($/mo)" value={hoa} onChange={setHoa} step="25" />
+            <NumberField id="mtg-pmi" label="PMI (% of loan/yr)" value={pmiRate} onChange={setPmiRate} step="0.1" />
+            <NumberField id="mtg-extra" label="Extra principal ($/mo)" value={extraPrincipal} onChange={setExtraPrincipal} step="50" />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-slate-600">Drop PMI at:</span>
+            <div className="flex rounded-lg border border-slate-200 overflow-hidden">
+              {[PMI_REQUEST_CANCEL_LTV, PMI_AUTO_CANCEL_LTV].map(ltv => (
+                <button
+                  key={ltv}
+                  type="button"
+                  onClick={() => setPmiDropOff(ltv)}
+                  className={`px-3 py-2 text-sm font-medium touch-manipulation ${pmiDropOff === ltv ? 'bg-emerald-600 text-white' : 'bg-slate-50 text-slate-700 hover:bg-slate-100'}`}
+                >
+                  {Math.round(ltv * 100)}% LTV {ltv === PMI_REQUEST_CANCEL_LTV ? '(on request)' : '(automatic)'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {!mortgage ? (
+            <p className="text-sm text-amber-600">Enter a home price above the down payment and a positive term.</p>
+          ) : (
+            <>
+              <div className="rounded-xl bg-slate-50 border border-slate-200 p-4 sm:p-5 space-y-2">
+                <p className="text-sm font-medium text-slate-700">
+                  Monthly payment: <span className="font-bold text-slate-900">{formatCurrency(mortgage.monthlyPiti)}</span>
+                </p>
+                <p className="text-sm text-slate-600">
+                  Principal &amp; interest {formatCurrency(mortgage.monthlyPrincipalAndInterest)} · Taxes {formatCurrency(mortgage.monthlyTax)} ·
+                  Insurance {formatCurrency(mortgage.monthlyInsurance)}
+                  {mortgage.monthlyHoa > 0 && ` · HOA ${formatCurrency(mortgage.monthlyHoa)}`}
+                  {mortgage.monthlyPmi > 0 && ` · PMI ${formatCurrency(mortgage.monthlyPmi)}`}
+                </p>
+                {mortgage.pmiDropOffMonth !== null ? (
+                  <p className="text-sm text-slate-700">
+                    PMI stops after {formatMonths(mortgage.pmiDropOffMonth - 1)} of payments, {formatCurrency(mortgage.totalPmi)} in total.
+                  </p>
+                ) : (
+                  <p className="text-sm text-slate-700">No PMI: the loan starts at or below {Math.round(pmiDropOff * 100)}% of the home’s value.</p>
+                )}
+                <p className="text-sm text-slate-700">Total interest: {formatCurrency(mortgage.totalInterest)}</p>
+                {num(extraPrincipal) > 0 && (
+                  <p className="text-sm font-semibold text-emerald-800">
+                    Extra principal pays the loan off {formatMonths(mortgage.monthsSavedByExtra)} early and saves {formatCurrency(mortgage.interestSavedByExtra)} in interest.
+                  </p>
+                )}
+                <p className="text-xs text-slate-500 italic">This is an estimate. Taxes, insurance and PMI vary by lender and location.</p>
+              </div>
+
+              <div className="rounded-xl border border-slate-200 overflow-hidden bg-white">
+                <div className="p-3 border-b border-slate-200">
+                  <span className="text-sm font-medium text-slate-700">Loan balance and equity</span>
+                </div>
+                <div className="h-[220px] sm:h-[260px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={mortgage.yearly} margin={{ top: 8, right: 8, left: 8, bottom: 8 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                      <XAxis dataKey="year" tick={{ fontSize: 12 }} stroke="#64748b" />
+                      <YAxis tickFormatter={(v) => `$${v >= 1000 ? `${(v / 1000).toFixed(0)}k` : v}`} tick={{ fontSize: 12 }} stroke="#64748b" />
+                      <Tooltip
+                        formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                        labelFormatter={(label) => `Year ${label}`}
+                        contentStyle={{ borderRadius: 8, border: '1px solid #e2e8f0' }}
+                      />
+                      <Legend />
+                      <Line type="monotone" dataKey="balance" stroke="#0d9488" strokeWidth={2} dot={false} name="Balance" />
+                      <Line type="monotone" dataKey="equity" stroke="#059669" strokeWidth={2} strokeDasharray="4 4" dot={false} name="Equity" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+            <RefreshCw className="w-5 h-5" />
+            Refinance Break-Even
+          </CardTitle>
+          <CardDescription>How long the lower payment takes to earn back the closing costs.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            <NumberField id="refi-balance" label="Current balance ($)" value={refiBalance} onChange={setRefiBalance} step="5000" />
+            <NumberField id="refi-current-rate" label="Current rate (%)" value={refiCurrentRate} onChange={setRefiCurrentRate} step="0.125" />
+            <NumberField id="refi-remaining" label="Years remaining" value={refiRemaining} onChange={setRefiRemaining} />
+            <NumberField id="refi-new-rate" label="New rate (%)" value={refiNewRate} onChange={setRefiNewRate} step="0.125" />
+            <NumberField id="refi-new-term" label="New term (years)" value={refiNewTerm} onChange={setRefiNewTerm} step="5" />
+            <NumberField id="refi-costs" label="Closing costs ($)" value={refiCosts} onChange={setRefiCosts} step="500" />
+          </div>
+
+          {refinance && (
+            <div className="rounded-xl bg-slate-50 border border-slate-200 p-4 sm:p-5 space-y-2">
+              <p className="text-sm text-slate-700">
+                Payment goes from {formatCurrency(refinance.currentPayment)} to{' '}
+                <span className="font-bold text-slate-900">{formatCurrency(refinance.newPayment)}</span> per month.
+              </p>
+              {refinance.breakEvenMonths !== null ? (
+                <p className="text-sm font-medium text-slate-700">
+                  You’d break even after {formatMonths(refinance.breakEvenMonths)}, saving {formatCurrency(refinance.monthlySavings)} a month.
+                </p>
+              ) : (
+                <p className="text-sm text-amber-700">The new payment isn’t lower, so the closing costs are never earned back monthly.</p>
+              )}
+              <p className={`text-sm ${refinance.netLifetimeSavings >= 0 ? 'text-emerald-800' : 'text-amber-700'}`}>
+                Over the life of the loans you’d {refinance.netLifetimeSavings >= 0 ? 'save' : 'pay an extra'}{' '}
+                {formatCurrency(Math.abs(refinance.netLifetimeSavings))} in interest and fees.
+                {num(refiNewTerm) > num(refiRemaining) && ' A longer new term spreads payments out, which can cost more interest overall.'}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  step?: string;
+  hint?: string;
+}
+
+// Compact labelled number input used by the calculator forms on the Tools page
+export function NumberField({ id, label, value, onChange, step = '1', hint }: NumberFieldProps) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-slate-600">{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min="0"
+        step={step}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="text-base touch-manipulation"
+      />
+      {hint && <p className="text-xs text-slate-500">{hint}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { Scale } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { getRentVsBuy } from '@shared/financialCalculators';
+import { NumberField } from './NumberField';
+
+const formatCurrency = (n: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(n);
+
+const num = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+export function RentVsBuy() {
+  const [years, setYears] = useState('10');
+  const [homePrice, setHomePrice] = useState('400000');
+  const [downPayment, setDownPayment] = useState('80000');
+  const [rate, setRate] = useState('6.5');
+  const [term, setTerm] = useState('30');
+  const [propertyTax, setPropertyTax] = useState('1.1');
+  const [insurance, setInsurance] = useState('1500');
+  const [maintenance, setMaintenance] = useState('1');
+  const [hoa, setHoa] = useState('0');
+  const [pmiRate, setPmiRate] = useState('0.5');
+  const [appreciation, setAppreciation] = useState('3');
+  const [buyingCosts, setBuyingCosts] = useState('3');
+  const [sellingCosts, setSellingCosts] = useState('6');
+  const [rent, setRent] = useState('2200');
+  const [rentIncrease, setRentIncrease] = useState('3');
+  const [investmentReturn, setInvestmentReturn] = useState('7');
+
+  const horizon = Math.min(40, Math.round(num(years)));
+
+  const result = useMemo(() => getRentVsBuy({
+    years: horizon,
+    homePrice: num(homePrice),
+    downPayment: num(downPayment),
+    annualRatePct: num(rate),
+    termYears: num(term),
+    propertyTaxPct: num(propertyTax),
+    insuranceAnnual: num(insurance),
+    maintenancePct: num(maintenance),
+    hoaMonthly: num(hoa),
+    pmiRatePct: num(pmiRate),
+    appreciationPct: num(appreciation),
+    buyingCostsPct: num(buyingCosts),
+    sellingCostsPct: num(sellingCosts),
+    monthlyRent: num(rent),
+    rentIncreasePct: num(rentIncrease),
+    investmentReturnPct: num(investmentReturn),
+  }), [horizon, homePrice, downPayment, rate, term, propertyTax, insurance, maintenance, hoa, pmiRate, appreciation, buyingCosts, sellingCosts, rent, rentIncrease, investmentReturn]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+          <Scale className="w-5 h-5" />
+          Rent vs. Buy
+        </CardTitle>
+        <CardDescription>
+          Net worth after each year if you buy and sell at that point, versus renting and investing the down payment and any monthly difference.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-slate-700">Buying</p>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            <NumberField id="rvb-price" label="Home price ($)" value={homePrice} onChange={setHomePrice} step="5000" />
+            <NumberField id="rvb-down" label="Down payment ($)" value={downPayment} onChange={setDownPayment} step="1000" />
+            <NumberField id="rvb-rate" label="Mortgage rate (%)" value={rate} onChange={setRate} step="0.125" />
+            <NumberField id="rvb-term" label="Term (years)" value={term} onChange={setTerm} step="5" />
+            <NumberField id="rvb-tax" label="Property tax (%/yr)" value={propertyTax} onChange={setPropertyTax} step="0.1" />
+            <NumberField id="rvb-insurance" label="Home insurance ($/yr)" value={insurance} onChange={setInsurance} step="100" />
+            <NumberField id="rvb-maintenance" label="Maintenance (%/yr)" value={maintenance} onChange={setMaintenance} step="0.25" />
+            <NumberField id="rvb-hoa" label="HOA ($/mo)" value={hoa} onChange={setHoa} step="25" />
+            <NumberField id="rvb-pmi" label="PMI (% of loan/yr)" value={pmiRate} onChange={setPmiRate} step="0.1" />
+            <NumberField id="rvb-appreciation" label="Home appreciation (%/yr)" value={appreciation} onChange={setAppreciation} step="0.5" />
+            <NumberField id="rvb-buying-costs" label="Buying costs (% of price)" value={buyingCosts} onChange={setBuyingCosts} step="0.5" />
+            <NumberField id="rvb-selling-costs" label="Selling costs (% of price)" value={sellingCosts} onChange={setSellingCosts} step="0.5" />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-slate-700">Renting</p>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            <NumberField id="rvb-rent" label="Monthly rent ($)" value={rent} onChange={setRent} step="50" />
+            <NumberField id="rvb-rent-increase" label="Rent increase (%/yr)" value={rentIncrease} onChange={setRentIncrease} step="0.5" />
+            <NumberField id="rvb-return" label="Investment return (%/yr)" value={investmentReturn} onChange={setInvestmentReturn} step="0.5" hint="Opportunity cost of the down payment" />
+            <NumberField id="rvb-years" label="Years to compare" value={years} onChange={setYears} />
+          </div>
+        </div>
+
+        {!result ? (
+          <p className="text-sm text-amber-600">Enter a home price at least as large as the down payment and a positive number of years.</p>
+        ) : (
+          <>
+            <div className="rounded-xl bg-slate-50 border border-slate-200 p-4 sm:p-5 space-y-2">
+              <p className="text-sm font-medium text-slate-700">
+                After {horizon} years,{' '}
+                <span className="font-bold text-slate-900">{result.advantage >= 0 ? 'buying' : 'renting'}</span>
+                {' '}comes out ahead by {formatCurrency(Math.abs(result.advantage))}.
+              </p>
+              <p className="text-sm text-slate-600">
+                Net worth if you buy: {formatCurrency(result.buyNetWorth)} · if you rent: {formatCurrency(result.rentNetWorth)}
+              </p>
+              <p className="text-sm text-slate-600">
+                Owner costs paid: {formatCurrency(result.totalOwnerCosts)} · Rent paid: {formatCurrency(result.totalRent)}
+              </p>
+              <p className="text-sm text-slate-700">
+                {result.breakEvenYear !== null
+                  ? `Buying first pulls ahead in year ${result.breakEvenYear}.`
+                  : `Buying doesn’t pull ahead within ${horizon} years.`}
+              </p>
+              <p className="text-xs text-slate-500 italic">Illustrative only. Ignores taxes on gains, mortgage interest deductions and moving costs.</p>
+            </div>
+
+            <div className="rounded-xl border border-slate-200 overflow-hidden bg-white">
+              <div className="p-3 border-b border-slate-200">
+                <span className="text-sm font-medium text-slate-700">Net worth by year</span>
+              </div>
+              <div className="h-[220px] sm:h-[260px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={result.yearly} margin={{ top: 8, right: 8, left: 8, bottom: 8 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="year" tick={{ fontSize: 12 }} stroke="#64748b" />
+                    <YAxis tickFormatter={(v) => `$${Math.abs(v) >= 1000 ? `${(v / 1000).toFixed(0)}k` : v}`} tick={{ fontSize: 12 }} stroke="#64748b" />
+                    <Tooltip
+                      formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                      labelFormatter={(label) => `Year ${label}`}
+                      contentStyle={{ borderRadius: 8, border: '1px solid #e2e8f0' }}
+                    />
+                    <Legend />
+                    <Line type="monotone" dataKey="buyNetWorth" stroke="#059669" strokeWidth={2} dot={false} name="Buy" />
+                    <Line type="monotone" dataKey="rentNetWorth" stroke="#0ea5e9" strokeWidth={2} dot={false} name="Rent" />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
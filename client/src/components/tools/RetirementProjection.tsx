@@ -0,0 +1,260 @@
+import React, { useMemo, useState } from 'react';
+import { PiggyBank } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  ReferenceLine,
+} from 'recharts';
+import {
+  DEFAULT_RETIREMENT_AGE,
+  getDefaultSalaryForBracket,
+  getRetirementProjection,
+  type RetirementInputs,
+} from '@shared/financialCalculators';
+
+const FALLBACK_AGE = 30;
+const FALLBACK_SALARY = 60000;
+
+type FieldKey = keyof RetirementInputs;
+
+const formatCurrency = (n: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(n);
+
+const FIELD_GROUPS: { title: string; fields: { key: FieldKey; label: string; step: string }[] }[] = [
+  {
+    title: 'You',
+    fields: [
+      { key: 'currentAge', label: 'Current age', step: '1' },
+      { key: 'retirementAge', label: 'Retirement age', step: '1' },
+      { key: 'endAge', label: 'Plan until age', step: '1' },
+      { key: 'annualSalary', label: 'Annual salary ($)', step: '1000' },
+      { key: 'annualRaisePct', label: 'Annual raise (%)', step: '0.5' },
+    ],
+  },
+  {
+    title: '401(k)',
+    fields: [
+      { key: 'contributionPct', label: 'Your contribution (% of salary)', step: '1' },
+      { key: 'rothSharePct', label: 'Share to Roth 401(k) (%)', step: '10' },
+      { key: 'employerMatchPct', label: 'Employer match (%)', step: '10' },
+      { key: 'employerMatchCapPct', label: 'Matched up to (% of salary)', step: '1' },
+    ],
+  },
+  {
+    title: 'Current balances',
+    fields: [
+      { key: 'traditionalBalance', label: 'Traditional ($)', step: '1000' },
+      { key: 'rothBalance', label: 'Roth ($)', step: '1000' },
+      { key: 'taxableBalance', label: 'Taxable brokerage ($)', step: '1000' },
+      { key: 'taxableMonthly', label: 'Taxable savings ($/mo)', step: '50' },
+    ],
+  },
+  {
+    title: 'Assumptions',
+    fields: [
+      { key: 'annualReturnPct', label: 'Annual return (%)', step: '0.5' },
+      { key: 'inflationPct', label: 'Inflation (%)', step: '0.5' },
+      { key: 'withdrawalRatePct', label: 'Withdrawal rate (%)', step: '0.5' },
+      { key: 'retirementTaxPct', label: 'Tax on traditional withdrawals (%)', step: '1' },
+      { key: 'capitalGainsTaxPct', label: 'Tax on taxable gains (%)', step: '1' },
+    ],
+  },
+];
+
+interface RetirementProjectionProps {
+  age: number | null; // from the profile birthday
+  incomeBracket: string | null | undefined;
+}
+
+export function RetirementProjection({ age, incomeBracket }: RetirementProjectionProps) {
+  const defaultSalary = getDefaultSalaryForBracket(incomeBracket);
+  const [values, setValues] = useState<Record<FieldKey, string>>(() => ({
+    currentAge: String(age ?? FALLBACK_AGE),
+    retirementAge: String(Math.max(DEFAULT_RETIREMENT_AGE, (age ?? FALLBACK_AGE) + 1)),
+    endAge: '95',
+    annualSalary: String(defaultSalary ?? FALLBACK_SALARY),
+    annualRaisePct: '3',
+    contributionPct: '6',
+    rothSharePct: '0',
+    employerMatchPct: '50',
+    employerMatchCapPct: '6',
+    taxableMonthly: '0',
+    traditionalBalance: '0',
+    rothBalance: '0',
+    taxableBalance: '0',
+    annualReturnPct: '7',
+    inflationPct: '2.5',
+    withdrawalRatePct: '4',
+    retirementTaxPct: '12',
+    capitalGainsTaxPct: '15',
+  }));
+  const [showReal, setShowReal] = useState(true);
+
+  const inputs = useMemo((): RetirementInputs => {
+    const num = (key: FieldKey) => Math.max(0, parseFloat(values[key]) || 0);
+    return {
+      currentAge: Math.round(num('currentAge')),
+      retirementAge: Math.round(num('retirementAge')),
+      endAge: Math.round(num('endAge')),
+      annualSalary: num('annualSalary'),
+      annualRaisePct: num('annualRaisePct'),
+      contributionPct: Math.min(100, num('contributionPct')),
+      rothSharePct: Math.min(100, num('rothSharePct')),
+      employerMatchPct: num('employerMatchPct'),
+      employerMatchCapPct: num('employerMatchCapPct'),
+      taxableMonthly: num('taxableMonthly'),
+      traditionalBalance: num('traditionalBalance'),
+      rothBalance: num('rothBalance'),
+      taxableBalance: num('taxableBalance'),
+      annualReturnPct: num('annualReturnPct'),
+      inflationPct: num('inflationPct'),
+      withdrawalRatePct: num('withdrawalRatePct'),
+      retirementTaxPct: Math.min(100, num('retirementTaxPct')),
+      capitalGainsTaxPct: Math.min(100, num('capitalGainsTaxPct')),
+    };
+  }, [values]);
+
+  const agesValid = inputs.currentAge > 0
+    && inputs.retirementAge > inputs.currentAge
+    && inputs.endAge > inputs.retirementAge
+    && inputs.endAge <= 120;
+
+  const projection = useMemo(() => (agesValid ? getRetirementProjection(inputs) : null), [agesValid, inputs]);
+
+  const chartData = useMemo(() => {
+    if (!projection) return [];
+    return projection.years.map(y => {
+      const factor = showReal && y.total > 0 ? y.realTotal / y.total : 1;
+      return {
+        age: y.age,
+        traditional: Math.round(y.traditional * factor),
+        roth: Math.round(y.roth * factor),
+        taxable: Math.round(y.taxable * factor),
+      };
+    });
+  }, [projection, showReal]);
+
+  const updateValue = (key: FieldKey, value: string) => {
+    setValues(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+          <PiggyBank className="w-5 h-5" />
+          Retirement Projection
+        </CardTitle>
+        <CardDescription>
+          Raises, employer match and traditional/Roth/taxable accounts, then a withdrawal phase.
+          {(age !== null || defaultSalary !== null) && ' Age and salary are prefilled from your profile.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {FIELD_GROUPS.map(group => (
+          <div key={group.title} className="space-y-2">
+            <p className="text-sm font-medium text-slate-700">{group.title}</p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {group.fields.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`ret-${field.key}`} className="text-xs text-slate-600">{field.label}</Label>
+                  <Input
+                    id={`ret-${field.key}`}
+                    type="number"
+                    min="0"
+                    step={field.step}
+                    value={values[field.key]}
+                    onChange={(e) => updateValue(field.key, e.target.value)}
+                    className="text-base touch-manipulation"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {!agesValid && (
+          <p className="text-sm text-amber-600">Retirement age must be after your current age, and the plan must end after retirement.</p>
+        )}
+
+        {projection && (
+          <>
+            <div className="rounded-xl bg-slate-50 border border-slate-200 p-4 sm:p-5 space-y-2">
+              <p className="text-sm font-medium text-slate-700">
+                At {inputs.retirementAge} you could have{' '}
+                <span className="font-bold text-slate-900">{formatCurrency(projection.balanceAtRetirement)}</span>
+                {' '}({formatCurrency(projection.realBalanceAtRetirement)} in today’s dollars).
+              </p>
+              <p className="text-sm text-slate-600">
+                You contribute {formatCurrency(projection.totalEmployeeContributions)}; your employer adds {formatCurrency(projection.totalEmployerMatch)} in matching.
+              </p>
+              <p className="text-sm text-slate-700">
+                A {inputs.withdrawalRatePct}% withdrawal is {formatCurrency(projection.firstYearWithdrawal)} in the first year,
+                about {formatCurrency(projection.firstYearAfterTaxIncome)} after tax
+                ({formatCurrency(projection.realFirstYearAfterTaxIncome)} in today’s dollars), rising with inflation.
+              </p>
+              <p className={`text-sm font-medium ${projection.depletionAge !== null ? 'text-amber-700' : 'text-emerald-800'}`}>
+                {projection.depletionAge !== null
+                  ? `At this rate the money runs out around age ${projection.depletionAge}.`
+                  : `The money lasts through age ${inputs.endAge}.`}
+              </p>
+              <p className="text-xs text-slate-500 italic">
+                Illustrative only. Ignores contribution limits, Social Security and required minimum distributions.
+              </p>
+            </div>
+
+            <div className="rounded-xl border border-slate-200 overflow-hidden bg-white">
+              <div className="p-3 border-b border-slate-200 flex flex-wrap items-center justify-between gap-2">
+                <span className="text-sm font-medium text-slate-700">Balance by account</span>
+                <div className="flex rounded-lg border border-slate-200 overflow-hidden">
+                  <button
+                    type="button"
+                    onClick={() => setShowReal(true)}
+                    className={`px-3 py-1.5 text-xs font-medium touch-manipulation ${showReal ? 'bg-emerald-600 text-white' : 'bg-slate-50 text-slate-700 hover:bg-slate-100'}`}
+                  >
+                    Today’s dollars
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowReal(false)}
+                    className={`px-3 py-1.5 text-xs font-medium touch-manipulation ${!showReal ? 'bg-emerald-600 text-white' : 'bg-slate-50 text-slate-700 hover:bg-slate-100'}`}
+                  >
+                    Future dollars
+                  </button>
+                </div>
+              </div>
+              <div className="h-[240px] sm:h-[280px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={chartData} margin={{ top: 8, right: 8, left: 8, bottom: 8 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="age" tick={{ fontSize: 12 }} stroke="#64748b" />
+                    <YAxis tickFormatter={(v) => `$${v >= 1000000 ? `${(v / 1000000).toFixed(1)}M` : v >= 1000 ? `${(v / 1000).toFixed(0)}k` : v}`} tick={{ fontSize: 12 }} stroke="#64748b" />
+                    <Tooltip
+                      formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                      labelFormatter={(label) => `Age ${label}`}
+                      contentStyle={{ borderRadius: 8, border: '1px solid #e2e8f0' }}
+                    />
+                    <Legend />
+                    <ReferenceLine x={inputs.retirementAge} stroke="#94a3b8" strokeDasharray="4 4" />
+                    <Area type="monotone" dataKey="traditional" stackId="1" stroke="#059669" fill="#a7f3d0" name="Traditional" />
+                    <Area type="monotone" dataKey="roth" stackId="1" stroke="#0ea5e9" fill="#bae6fd" name="Roth" />
+                    <Area type="monotone" dataKey="taxable" stackId="1" stroke="#f59e0b" fill="#fde68a" name="Taxable" />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Bookmark, Copy, Link2, Loader2, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getScenarios,
+  saveScenario,
+  deleteScenario,
+  shareScenario,
+  getScenarioShareUrl,
+  type SavedScenario,
+} from '@/lib/api';
+import type { ScenarioInput, ScenarioKind, ScenarioMetric, ScenarioResult } from '@shared/financialCalculators';
+
+const MAX_COMPARED = 3;
+
+export function formatScenarioMetric(metric: ScenarioMetric): string {
+  if (metric.value === null) return '—';
+  if (metric.format === 'months') {
+    const years = Math.floor(metric.value / 12);
+    const months = metric.value % 12;
+    return years > 0 ? `${years}y ${months}m` : `${months}m`;
+  }
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(metric.value);
+}
+
+// Metrics of one or more scenarios side by side, one column per scenario
+export function ScenarioComparisonTable({ scenarios }: { scenarios: Array<{ name: string; resultsJson: ScenarioResult }> }) {
+  const metricRows = scenarios[0]?.resultsJson.metrics ?? [];
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-slate-200">
+            <th className="text-left font-medium text-slate-500 py-2 pr-3"></th>
+            {scenarios.map((scenario, i) => (
+              <th key={i} className="text-right font-semibold text-slate-900 py-2 px-2">{scenario.name}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {metricRows.map(row => (
+            <tr key={row.key} className="border-b border-slate-100 last:border-0">
+              <td className="text-slate-600 py-2 pr-3">{row.label}</td>
+              {scenarios.map((scenario, i) => {
+                const metric = scenario.resultsJson.metrics.find(m => m.key === row.key);
+                return (
+                  <td key={i} className="text-right tabular-nums font-medium text-slate-900 py-2 px-2">
+                    {metric ? formatScenarioMetric(metric) : '—'}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+interface SavedScenariosProps {
+  kind: ScenarioKind;
+  currentInput: ScenarioInput | null; // null while the calculator inputs are incomplete
+  onLoad: (input: ScenarioInput) => void;
+}
+
+export function SavedScenarios({ kind, currentInput, onLoad }: SavedScenariosProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+
+  const { data: allScenarios = [], isLoading } = useQuery({
+    queryKey: ['tool-scenarios'],
+    queryFn: getScenarios,
+    retry: false,
+  });
+  const scenarios = allScenarios.filter(s => s.kind === kind);
+  const compared = scenarios.filter(s => comparedIds.includes(s.id));
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveScenario(name.trim(), currentInput!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tool-scenarios'] });
+      setName('');
+      toast({ title: 'Scenario saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteScenario,
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ['tool-scenarios'] });
+      setComparedIds(ids => ids.filter(i => i !== id));
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: shareScenario,
+    onSuccess: async (token) => {
+      queryClient.invalidateQueries({ queryKey: ['tool-scenarios'] });
+      const url = getScenarioShareUrl(token);
+      try {
+        await navigator.clipboard.writeText(url);
+        toast({ title: 'Link copied', description: 'Anyone with the link can view this scenario.' });
+      } catch {
+        toast({ title: 'Share link', description: url });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const toggleCompared = (id: string, checked: boolean) => {
+    setComparedIds(ids => checked ? [...ids, id].slice(-MAX_COMPARED) : ids.filter(i => i !== id));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Bookmark className="w-5 h-5" />
+          Saved Scenarios
+        </CardTitle>
+        <CardDescription>
+          Save these inputs to reload later, compare up to {MAX_COMPARED} side by side, or share a read-only link.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Scenario name (e.g. Car loan, 5 years)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+          />
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!currentInput || !name.trim() || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+          </div>
+        ) : scenarios.length === 0 ? (
+          <p className="text-sm text-slate-500">No saved scenarios yet.</p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {scenarios.map((scenario: SavedScenario) => (
+              <li key={scenario.id} className="flex items-center gap-3 py-2">
+                <Checkbox
+                  checked={comparedIds.includes(scenario.id)}
+                  onCheckedChange={(checked) => toggleCompared(scenario.id, checked === true)}
+                  aria-label={`Compare ${scenario.name}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-900 truncate">{scenario.name}</p>
+                  {scenario.resultsJson.metrics[0] && (
+                    <p className="text-xs text-slate-500">
+                      {scenario.resultsJson.metrics[0].label}: {formatScenarioMetric(scenario.resultsJson.metrics[0])}
+                    </p>
+                  )}
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => onLoad(scenario.inputsJson)} title="Load into calculator">
+                  <Upload className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => shareMutation.mutate(scenario.id)}
+                  disabled={shareMutation.isPending}
+                  title={scenario.shareToken ? 'Copy share link' : 'Create share link'}
+                >
+                  {scenario.shareToken ? <Copy className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(scenario.id)}
+                  disabled={deleteMutation.isPending}
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {compared.length >= 2 && (
+          <div className="rounded-xl border border-slate-200 p-3">
+            <p className="text-sm font-medium text-slate-700 mb-2">Comparison</p>
+            <ScenarioComparisonTable scenarios={compared} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
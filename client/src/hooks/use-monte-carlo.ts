@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from 'react';
+import type { MonteCarloRequest, MonteCarloResult } from '@shared/monteCarlo';
+
+const DEBOUNCE_MS = 250;
+
+interface MonteCarloState {
+  result: MonteCarloResult | null;
+  isRunning: boolean;
+  error: string | null;
+}
+
+/**
+ * Runs the latest request in a dedicated Web Worker. Requests are debounced while inputs change,
+ * and responses to superseded requests are dropped. Pass null to clear the result.
+ */
+export function useMonteCarlo(request: MonteCarloRequest | null): MonteCarloState {
+  const workerRef = useRef<Worker | null>(null);
+  const latestIdRef = useRef(0);
+  const [state, setState] = useState<MonteCarloState>({ result: null, isRunning: false, error: null });
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<{ id: number; result?: MonteCarloResult; error?: string }>) => {
+      if (event.data.id !== latestIdRef.current) return;
+      setState({ result: event.data.result ?? null, isRunning: false, error: event.data.error ?? null });
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  const requestKey = request ? JSON.stringify(request) : null;
+
+  useEffect(() => {
+    if (!requestKey) {
+      latestIdRef.current++;
+      setState({ result: null, isRunning: false, error: null });
+      return;
+    }
+    setState(prev => ({ ...prev, isRunning: true }));
+    const timer = setTimeout(() => {
+      const id = ++latestIdRef.current;
+      workerRef.current?.postMessage({ id, request: JSON.parse(requestKey) });
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [requestKey]);
+
+  return state;
+}
@@ -0,0 +1,27 @@
+import { useEffect } from "react"
+import { updateTimezone } from "@/lib/api"
+import { queryClient } from "@/lib/queryClient"
+
+const SYNCED_TIMEZONE_KEY = "mr_timezone"
+
+// Send the browser's timezone to the server whenever it differs from the last one it accepted
+export function useTimezoneSync() {
+  useEffect(() => {
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+    if (!timezone || localStorage.getItem(SYNCED_TIMEZONE_KEY) === timezone) return
+
+    updateTimezone(timezone)
+      .then((result) => {
+        // A deferred change is retried on the next visit
+        if (result.status === "deferred") return
+        localStorage.setItem(SYNCED_TIMEZONE_KEY, timezone)
+        if (result.status === "updated") {
+          queryClient.invalidateQueries({ queryKey: ["today-challenge"] })
+          queryClient.invalidateQueries({ queryKey: ["archive"] })
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to sync timezone:", error)
+      })
+  }, [])
+}
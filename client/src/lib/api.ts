@@ -1,4 +1,6 @@
-import { Challenge, Attempt, UserStats, UserRiskProfile, ScoreHistory, CategoryPerformance } from './types';
+import { Challenge, Attempt, UserStats, UserRiskProfile, ScoreHistory, CategoryPerformance, Grade, UserGoal, GoalType } from './types';
+import type { CalculatorPreset, ScenarioInput, ScenarioKind, ScenarioResult } from '@shared/financialCalculators';
+import type { ChallengeAssumptionValues } from '@shared/challengeAssumptions';
 
 interface ApiChallenge {
   id: string;
@@ -8,7 +10,12 @@ interface ApiChallenge {
   assumptions: string;
   category: string;
   difficulty: number;
+  communityDifficulty?: number | null;
+  communitySampleSize?: number | null;
+  optionCount?: number;
   isPublished: boolean;
+  assumptionValuesJson?: ChallengeAssumptionValues | null;
+  calculatorPresetJson?: CalculatorPreset | null;
   options: Array<{
     id: string;
     optionText: string;
@@ -38,7 +45,12 @@ function transformChallenge(apiChallenge: ApiChallenge): Challenge {
     assumptions: apiChallenge.assumptions,
     category: apiChallenge.category,
     difficulty: apiChallenge.difficulty,
+    communityDifficulty: apiChallenge.communityDifficulty ?? null,
+    communitySampleSize: apiChallenge.communitySampleSize ?? null,
+    optionCount: apiChallenge.optionCount ?? (apiChallenge.options || []).length,
     isPublished: apiChallenge.isPublished,
+    assumptionValues: apiChallenge.assumptionValuesJson ?? null,
+    calculatorPreset: apiChallenge.calculatorPresetJson ?? null,
     options: (apiChallenge.options || []).map(opt => ({
       id: opt.id,
       text: opt.optionText,
@@ -57,7 +69,7 @@ function transformAttempt(apiAttempt: ApiAttempt): Attempt {
     submittedAt: apiAttempt.submittedAt,
     ranking: apiAttempt.rankingJson,
     score: apiAttempt.scoreNumeric,
-    grade: apiAttempt.gradeTier as 'Great' | 'Good' | 'Risky',
+    grade: apiAttempt.gradeTier as Grade,
     isBest: apiAttempt.isBestAttempt,
   };
 }
@@ -99,7 +111,8 @@ export async function submitAttempt(challengeId: string, ranking: string[]) {
   });
   
   if (!response.ok) {
-    throw new Error('Failed to submit attempt');
+    const error = await response.json().catch(() => ({ error: 'Failed to submit attempt' }));
+    throw new Error(error.error || 'Failed to submit attempt');
   }
   
   return await response.json();
@@ -119,16 +132,27 @@ export async function getResults(challengeId: string) {
   return {
     attempt: transformAttempt(data.attempt),
     challenge: transformChallenge(data.challenge),
+    // Options as they were when the attempt was submitted, if they've been edited since
+    attemptOptions: data.attemptOptions
+      ? transformChallenge({ ...data.challenge, options: data.attemptOptions.options }).options
+      : null,
     stats: data.stats,
     explanation: data.explanation as OptimalityExplanation | null, // Add explanation
   };
 }
 
+export interface SmoothingInfo {
+  method: 'none' | 'category_prior' | 'baseline';
+  priorWeight: number;
+}
+
 export interface CommunityStats {
   positionDistribution: Record<string, Record<number, number>>;
   mostCommonRanking: string[] | null;
-  averageScore: number;
+  averageScore: number; // smoothed with the same model as the results percentile
+  rawAverageScore: number | null;
   totalAttempts: number;
+  smoothing: SmoothingInfo;
 }
 
 export async function getCommunityStats(challengeId: string): Promise<CommunityStats> {
@@ -247,6 +271,12 @@ export interface OptimalityExplanation {
     detailedExplanation?: string;
     optionsAbove?: ChallengeOption[];
     optionsBelow?: ChallengeOption[];
+    pairReasons?: Array<{
+      betterOptionId: string;
+      worseOptionId: string;
+      text: string;
+      source: 'authored' | 'template';
+    }>;
   }>;
   summary: string;
 }
@@ -303,6 +333,54 @@ export async function getUserStats(): Promise<UserStats> {
   };
 }
 
+export interface StreakFreezeStatus {
+  weekKey: string;
+  freezesRemaining: number;
+  weeklyAllowance: number;
+  frozenDateKeys: string[];
+}
+
+export async function getStreakFreezes(): Promise<StreakFreezeStatus> {
+  const response = await fetch('/api/streak/freezes', { credentials: 'include' });
+  if (!response.ok) {
+    throw new Error('Failed to fetch streak freezes');
+  }
+  return await response.json();
+}
+
+// Spend a streak freeze on a missed day; the server defaults to yesterday
+export async function spendStreakFreeze(dateKey?: string): Promise<StreakFreezeStatus & { dateKey: string; currentStreak: number; longestStreak: number }> {
+  const response = await fetch('/api/streak/freeze', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify(dateKey ? { dateKey } : {}),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to use streak freeze' }));
+    throw new Error(error.error || 'Failed to use streak freeze');
+  }
+  
+  return await response.json();
+}
+
+export interface RetryStatus {
+  weekKey: string;
+  retriesRemaining: number; // this week's allowance plus purchased retries
+  purchasedRetriesRemaining: number; // bought retries never expire
+  purchasesEnabled: boolean;
+  packSize: number;
+}
+
+export async function getRetryStatus(): Promise<RetryStatus> {
+  const response = await fetch('/api/retries', { credentials: 'include' });
+  if (!response.ok) {
+    throw new Error('Failed to fetch retries');
+  }
+  return await response.json();
+}
+
 export async function getArchiveChallenges() {
   // Get user's local "today" to pass to server for timezone-aware filtering
   const { getLocalTodayDateKey } = await import('./utils');
@@ -361,12 +439,167 @@ export async function getUserCategoryPerformance(): Promise<CategoryPerformance>
   return await response.json();
 }
 
+export async function getUserGoals(): Promise<UserGoal[]> {
+  const response = await fetch('/api/user/goals', { credentials: 'include' });
+  if (!response.ok) {
+    throw new Error('Failed to fetch goals');
+  }
+  const data = await response.json();
+  return data.goals;
+}
+
+export interface CreateGoalInput {
+  goalType: GoalType;
+  title: string;
+  targetValue: number;
+  windowDays?: number;
+  category?: string;
+}
+
+export async function createUserGoal(goal: CreateGoalInput): Promise<UserGoal> {
+  const response = await fetch('/api/user/goals', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify(goal),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create goal' }));
+    throw new Error(error.error || 'Failed to create goal');
+  }
+  
+  const data = await response.json();
+  return data.goal;
+}
+
+export async function updateUserGoal(id: string, changes: { title?: string; targetValue?: number }): Promise<UserGoal> {
+  const response = await fetch(`/api/user/goals/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify(changes),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update goal' }));
+    throw new Error(error.error || 'Failed to update goal');
+  }
+  
+  const data = await response.json();
+  return data.goal;
+}
+
+export async function deleteUserGoal(id: string): Promise<void> {
+  const response = await fetch(`/api/user/goals/${id}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete goal' }));
+    throw new Error(error.error || 'Failed to delete goal');
+  }
+}
+
+// Saved calculator scenarios (Tools page)
+export interface SavedScenario {
+  id: string;
+  name: string;
+  kind: ScenarioKind;
+  inputsJson: ScenarioInput;
+  resultsJson: ScenarioResult;
+  shareToken: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SharedScenario = Pick<SavedScenario, 'name' | 'kind' | 'inputsJson' | 'resultsJson' | 'updatedAt'>;
+
+export async function getScenarios(): Promise<SavedScenario[]> {
+  const response = await fetch('/api/tools/scenarios', { credentials: 'include' });
+  if (!response.ok) {
+    throw new Error('Failed to fetch scenarios');
+  }
+  const data = await response.json();
+  return data.scenarios;
+}
+
+export async function saveScenario(name: string, inputs: ScenarioInput): Promise<SavedScenario> {
+  const response = await fetch('/api/tools/scenarios', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify({ name, inputs }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to save scenario' }));
+    throw new Error(error.error || 'Failed to save scenario');
+  }
+  
+  const data = await response.json();
+  return data.scenario;
+}
+
+export async function deleteScenario(id: string): Promise<void> {
+  const response = await fetch(`/api/tools/scenarios/${id}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete scenario' }));
+    throw new Error(error.error || 'Failed to delete scenario');
+  }
+}
+
+export async function shareScenario(id: string): Promise<string> {
+  const response = await fetch(`/api/tools/scenarios/${id}/share`, {
+    method: 'POST',
+    credentials: 'include',
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to share scenario' }));
+    throw new Error(error.error || 'Failed to share scenario');
+  }
+  
+  const data = await response.json();
+  return data.shareToken;
+}
+
+export async function unshareScenario(id: string): Promise<void> {
+  const response = await fetch(`/api/tools/scenarios/${id}/share`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to stop sharing scenario' }));
+    throw new Error(error.error || 'Failed to stop sharing scenario');
+  }
+}
+
+export async function getSharedScenario(token: string): Promise<SharedScenario> {
+  const response = await fetch(`/api/tools/scenarios/shared/${encodeURIComponent(token)}`);
+  if (!response.ok) {
+    throw new Error(response.status === 404 ? 'This shared scenario no longer exists' : 'Failed to fetch shared scenario');
+  }
+  const data = await response.json();
+  return data.scenario;
+}
+
+export function getScenarioShareUrl(token: string): string {
+  return `${window.location.origin}/tools?scenario=${encodeURIComponent(token)}`;
+}
+
 // Admin API functions
-export async function adminLogin(password: string) {
+export async function adminLogin(password: string, name?: string) {
   const response = await fetch('/api/admin/login', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ password }),
+    body: JSON.stringify({ password, name }),
   });
   if (!response.ok) {
     throw new Error('Invalid password');
@@ -403,6 +636,196 @@ export async function checkDuplicateChallenge(token: string, dateKey: string, ti
   return await response.json();
 }
 
+export interface SimilarChallengeMatch {
+  challenge: { id: string; dateKey: string; title: string };
+  score: number; // 0..1
+  fieldScores: { scenario: number | null; assumptions: number | null; options: number | null };
+  likelyDuplicate: boolean;
+}
+
+export interface DuplicateReport {
+  checkedChallenges: number;
+  minScore: number;
+  matchedPairs: number; // may exceed pairs.length; the server returns the top 200
+  pairs: Array<{
+    a: SimilarChallengeMatch['challenge'];
+    b: SimilarChallengeMatch['challenge'];
+    score: number;
+    fieldScores: SimilarChallengeMatch['fieldScores'];
+  }>;
+}
+
+export async function findSimilarChallenges(
+  token: string,
+  content: { scenarioText: string; assumptions: string; options: string[]; challengeId?: string }
+): Promise<SimilarChallengeMatch[]> {
+  const response = await fetch('/api/admin/challenges/similar', {
+    method: 'POST',
+    headers: { 
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}` 
+    },
+    body: JSON.stringify(content),
+  });
+  if (!response.ok) throw new Error('Failed to find similar challenges');
+  return await response.json();
+}
+
+export async function getDuplicateReport(token: string, minScore: number): Promise<DuplicateReport> {
+  const response = await fetch(`/api/admin/challenges/duplicate-report?minScore=${minScore}`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+  if (!response.ok) throw new Error('Failed to build duplicate report');
+  return await response.json();
+}
+
+export interface ScoringStrategyInfo {
+  id: string;
+  label: string;
+  description: string;
+}
+
+export interface ScoringPreview {
+  label: string;
+  score: number;
+  grade: string;
+}
+
+export interface GradeThresholds {
+  greatThreshold?: number;
+  goodThreshold?: number;
+  extraTiers?: Array<{ tier: string; minScore: number }>;
+}
+
+export interface GradeThresholdSettings {
+  enabled: boolean;
+  config: {
+    GREAT_THRESHOLD: number;
+    GOOD_THRESHOLD: number;
+    EXTRA_TIERS?: Array<{ tier: string; minScore: number }>;
+  };
+}
+
+export interface GradeRecomputeReport {
+  dryRun: boolean;
+  totalAttempts: number;
+  changedAttempts: number;
+  challengesAffected: number;
+  transitions: Record<string, number>;
+}
+
+export async function getGradeThresholds(token: string): Promise<GradeThresholdSettings> {
+  const response = await fetch('/api/admin/grades/thresholds', {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+  if (!response.ok) throw new Error('Failed to fetch grade thresholds');
+  return await response.json();
+}
+
+export async function recomputeGrades(token: string, dryRun: boolean): Promise<GradeRecomputeReport> {
+  const response = await fetch('/api/admin/grades/recompute', {
+    method: 'POST',
+    headers: { 
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}` 
+    },
+    body: JSON.stringify({ dryRun }),
+  });
+  if (!response.ok) throw new Error('Failed to recompute grades');
+  return await response.json();
+}
+
+export interface AggregateConsistencyReport {
+  repair: boolean;
+  checkedChallenges: number;
+  inconsistentChallenges: number;
+  repairedChallenges: number;
+  challenges: Array<{
+    challengeId: string;
+    dateKey: string;
+    title: string;
+    missingRow: boolean;
+    mismatches: Array<{
+      field: string;
+      stored: number | Record<string, number>;
+      expected: number | Record<string, number>;
+    }>;
+    repaired: boolean;
+  }>;
+}
+
+export async function checkAggregates(token: string, repair: boolean): Promise<AggregateConsistencyReport> {
+  const response = await fetch('/api/admin/aggregates/check', {
+    method: 'POST',
+    headers: { 
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}` 
+    },
+    body: JSON.stringify({ repair }),
+  });
+  if (!response.ok) throw new Error('Failed to check aggregates');
+  return await response.json();
+}
+
+export interface DifficultyCalibrationReport {
+  dryRun: boolean;
+  minSample: number;
+  checkedChallenges: number;
+  calibratedChallenges: number;
+  changedChallenges: number;
+  challenges: Array<{
+    challengeId: string;
+    dateKey: string;
+    title: string;
+    authored: number;
+    previous: number | null;
+    community: number | null;
+    rating: number | null;
+    sampleSize: number;
+    meanScore: number | null;
+    adjustedScore: number | null;
+  }>;
+}
+
+export async function calibrateDifficulty(token: string, dryRun: boolean): Promise<DifficultyCalibrationReport> {
+  const response = await fetch('/api/admin/difficulty/calibrate', {
+    method: 'POST',
+    headers: { 
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}` 
+    },
+    body: JSON.stringify({ dryRun }),
+  });
+  if (!response.ok) throw new Error('Failed to calibrate difficulty');
+  return await response.json();
+}
+
+export async function getScoringStrategies(token: string): Promise<ScoringStrategyInfo[]> {
+  const response = await fetch('/api/admin/scoring-strategies', {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+  if (!response.ok) throw new Error('Failed to fetch scoring strategies');
+  return await response.json();
+}
+
+export async function previewScoringStrategy(
+  token: string,
+  scoringStrategy: string,
+  options: Array<{ tierLabel: string; orderingIndex: number }>,
+  gradeThresholdsJson?: GradeThresholds | null
+): Promise<ScoringPreview[]> {
+  const response = await fetch('/api/admin/scoring-strategies/preview', {
+    method: 'POST',
+    headers: { 
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}` 
+    },
+    body: JSON.stringify({ scoringStrategy, options, gradeThresholdsJson }),
+  });
+  if (!response.ok) throw new Error('Failed to preview scoring strategy');
+  return await response.json();
+}
+
 export async function createAdminChallenge(token: string, data: any) {
   const response = await fetch('/api/admin/challenges', {
     method: 'POST',
@@ -428,7 +851,10 @@ export async function updateAdminChallenge(token: string, id: string, data: any)
     },
     body: JSON.stringify(data),
   });
-  if (!response.ok) throw new Error('Failed to update challenge');
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || error.error || 'Failed to update challenge');
+  }
   return await response.json();
 }
 
@@ -441,6 +867,33 @@ export async function deleteAdminChallenge(token: string, id: string) {
   return await response.json();
 }
 
+export interface ChallengeQualityReport {
+  sampleSize: number;
+  minSample: number;
+  difficulty: {
+    authored: number;
+    observed: number | null;
+    meanScore: number | null;
+    medianScore: number | null;
+    mismatch: boolean;
+  };
+  discrimination: {
+    correlation: number | null;
+    label: 'poor' | 'marginal' | 'fair' | 'good' | null;
+    sampleSize: number;
+  };
+  answerKey: {
+    consensusRanking: Array<{ optionId: string; optionText: string; orderingIndex: number; meanPosition: number }>;
+    keyAgreement: number | null; // Kendall tau, -1..1
+    modalRanking: { optionIds: string[]; share: number } | null;
+    keyTopPickShare: number | null;
+    crowdTopPick: { optionId: string; optionText: string; share: number } | null;
+    disagreement: boolean;
+    reasons: string[];
+    rankedAttempts: number;
+  };
+}
+
 export async function getAdminChallengeStats(token: string, challengeId: string) {
   const response = await fetch(`/api/admin/challenges/${challengeId}/stats`, {
     headers: { 'Authorization': `Bearer ${token}` },
@@ -449,6 +902,236 @@ export async function getAdminChallengeStats(token: string, challengeId: string)
   return await response.json();
 }
 
+export interface ChallengeQueueConfig {
+  warningDays: number;
+  fillDays: number;
+  publishOnFill: boolean;
+}
+
+export interface ScheduledChallengeSummary {
+  id: string;
+  dateKey: string;
+  title: string;
+  category: string;
+  isPublished: boolean;
+}
+
+export interface ScheduleCalendar {
+  today: string;
+  config: ChallengeQueueConfig;
+  days: Array<{ dateKey: string; status: 'published' | 'draft' | 'missing'; challenge: ScheduledChallengeSummary | null }>;
+  pool: ScheduledChallengeSummary[];
+  unpublishedSoon: string[];
+}
+
+export interface AutoFillReport {
+  dryRun: boolean;
+  publishOnFill: boolean;
+  assignments: Array<{ challengeId: string; title: string; fromDateKey: string; toDateKey: string }>;
+  unfilledDateKeys: string[];
+  skipped: Array<{ challengeId: string; title: string; reason: string }>;
+}
+
+export async function getAdminSchedule(token: string, from: string, to: string): Promise<ScheduleCalendar> {
+  const response = await fetch(`/api/admin/schedule?from=${from}&to=${to}`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+  if (!response.ok) throw new Error('Failed to fetch schedule');
+  return await response.json();
+}
+
+export async function rescheduleAdminChallenge(token: string, challengeId: string, dateKey: string): Promise<ScheduledChallengeSummary> {
+  const response = await fetch('/api/admin/schedule/reschedule', {
+    method: 'POST',
+    headers: { 
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}` 
+    },
+    body: JSON.stringify({ challengeId, dateKey }),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to reschedule challenge');
+  }
+  return await response.json();
+}
+
+export async function autoFillAdminSchedule(token: string, dryRun: boolean): Promise<AutoFillReport> {
+  const response = await fetch('/api/admin/schedule/auto-fill', {
+    method: 'POST',
+    headers: { 
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}` 
+    },
+    body: JSON.stringify({ dryRun }),
+  });
+  if (!response.ok) throw new Error('Failed to auto-fill schedule');
+  return await response.json();
+}
+
+export async function updateScheduleConfig(token: string, config: ChallengeQueueConfig): Promise<ChallengeQueueConfig> {
+  const response = await fetch('/api/admin/schedule/config', {
+    method: 'PUT',
+    headers: { 
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}` 
+    },
+    body: JSON.stringify(config),
+  });
+  if (!response.ok) throw new Error('Failed to update schedule settings');
+  return await response.json();
+}
+
+export type ChallengeTransferFormat = 'json' | 'csv';
+
+export type ChallengeImportRowStatus = 'new' | 'changed' | 'unchanged' | 'conflict' | 'invalid';
+
+export interface ChallengeImportPreview {
+  total: number;
+  counts: Record<ChallengeImportRowStatus, number>;
+  rows: Array<{
+    row: number;
+    dateKey: string | null;
+    title: string | null;
+    status: ChallengeImportRowStatus;
+    changes: Array<{ field: string; before: string; after: string }>;
+    issues: string[];
+  }>;
+  canApply: boolean;
+}
+
+export interface ChallengeImportResult {
+  created: number;
+  updated: number;
+  unchanged: number;
+  preview: ChallengeImportPreview;
+}
+
+export async function exportAdminChallenges(token: string, format: ChallengeTransferFormat): Promise<Blob> {
+  const response = await fetch(`/api/admin/challenges/export?format=${format}`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+  if (!response.ok) throw new Error('Failed to export challenges');
+  return await response.blob();
+}
+
+export async function previewChallengeImport(token: string, format: ChallengeTransferFormat, content: string): Promise<ChallengeImportPreview> {
+  const response = await fetch('/api/admin/challenges/import/preview', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`
+    },
+    body: JSON.stringify({ format, content }),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to preview import' }));
+    throw new Error(error.error || 'Failed to preview import');
+  }
+  return await response.json();
+}
+
+export async function applyChallengeImport(token: string, format: ChallengeTransferFormat, content: string): Promise<ChallengeImportResult> {
+  const response = await fetch('/api/admin/challenges/import/apply', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`
+    },
+    body: JSON.stringify({ format, content }),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to import challenges' }));
+    throw new Error(error.error || 'Failed to import challenges');
+  }
+  return await response.json();
+}
+
+export type RevisionAction = 'baseline' | 'create' | 'update' | 'revert' | 'reschedule' | 'import';
+
+export interface ChallengeRevisionEntry {
+  id: string;
+  revisionNumber: number;
+  action: RevisionAction;
+  editedBy: string | null;
+  editorSession: string | null;
+  revertedFromId: string | null;
+  createdAt: string;
+  snapshot: {
+    dateKey: string;
+    title: string;
+    isPublished: boolean;
+    options: Array<{ id: string; optionText: string; tierLabel: string; explanationShort: string; orderingIndex: number }>;
+  };
+  changes: Array<{ field: string; before: string | null; after: string | null }>;
+}
+
+export async function getChallengeRevisions(token: string, challengeId: string): Promise<ChallengeRevisionEntry[]> {
+  const response = await fetch(`/api/admin/challenges/${challengeId}/revisions`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+  if (!response.ok) throw new Error('Failed to load revision history');
+  return await response.json();
+}
+
+export async function revertChallengeRevision(token: string, challengeId: string, revisionId: string) {
+  const response = await fetch(`/api/admin/challenges/${challengeId}/revisions/${revisionId}/revert`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to revert challenge' }));
+    throw new Error(error.error || 'Failed to revert challenge');
+  }
+  return await response.json();
+}
+
+export interface PairRationaleCoverage {
+  betterIndex: number;
+  worseIndex: number;
+  betterOptionText: string;
+  worseOptionText: string;
+  rationale: string | null;
+  staleRationale: string | null; // written for different options at these ranks; not shown to players
+  inversionCount: number;
+  inversionRate: number; // 0..1
+}
+
+export interface PairRationaleReport {
+  challengeId: string;
+  rankedAttempts: number;
+  pairs: PairRationaleCoverage[];
+  missingCount: number;
+}
+
+export async function getPairRationales(token: string, challengeId: string): Promise<PairRationaleReport> {
+  const response = await fetch(`/api/admin/challenges/${challengeId}/rationales`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+  if (!response.ok) throw new Error('Failed to fetch pair rationales');
+  return await response.json();
+}
+
+export async function savePairRationales(
+  token: string,
+  challengeId: string,
+  rationales: Array<{ betterIndex: number; worseIndex: number; rationale: string }>
+): Promise<PairRationaleReport> {
+  const response = await fetch(`/api/admin/challenges/${challengeId}/rationales`, {
+    method: 'PUT',
+    headers: { 
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}` 
+    },
+    body: JSON.stringify({ rationales }),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to save pair rationales');
+  }
+  return await response.json();
+}
+
 export async function getAdminUserRiskProfile(token: string, userId: string) {
   const response = await fetch(`/api/admin/users/${userId}/risk-profile`, {
     headers: { 'Authorization': `Bearer ${token}` },
@@ -624,6 +1307,7 @@ export interface AuthUser {
   authProvider: string;
   birthday?: string | null;
   incomeBracket?: string | null;
+  timezone?: string | null;
   subscriptionTier?: 'free' | 'premium' | 'pro';
   subscriptionExpiresAt?: string | null;
   hasUsedFreeTrial?: boolean;
@@ -642,6 +1326,29 @@ export async function getCurrentUser(): Promise<AuthResponse> {
   return await response.json();
 }
 
+export interface TimezoneUpdateResponse {
+  status: 'updated' | 'unchanged' | 'deferred';
+  timezone: string;
+  todayKey: string;
+}
+
+// Report the browser's IANA timezone; the server decides the user's daily reset from it
+export async function updateTimezone(timezone: string): Promise<TimezoneUpdateResponse> {
+  const response = await fetch('/api/auth/user/timezone', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify({ timezone }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update timezone' }));
+    throw new Error(error.error || 'Failed to update timezone');
+  }
+  
+  return await response.json();
+}
+
 export async function logout(): Promise<void> {
   const response = await fetch('/api/auth/logout', {
     method: 'POST',
@@ -871,3 +1578,20 @@ export async function getSubscriptionStatus(): Promise<SubscriptionStatus> {
   
   return await response.json();
 }
+
+// Buy a pack of extra retries; dateKey sends the user back to that challenge afterwards
+export async function createRetryCheckoutSession(dateKey?: string): Promise<CheckoutSessionResponse> {
+  const response = await fetch('/api/stripe/retry-checkout-session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify(dateKey ? { dateKey } : {}),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create checkout session' }));
+    throw new Error(error.error || 'Failed to create checkout session');
+  }
+  
+  return await response.json();
+}
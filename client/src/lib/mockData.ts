@@ -13,6 +13,7 @@ const MOCK_CHALLENGES: Challenge[] = [
     assumptions: 'Assume you have $2k in credit card debt at 22% APR. You have a 1-month emergency fund. You are matching your employer 401k. You want to buy a house in 3 years.',
     category: 'Windfall',
     difficulty: 1,
+    optionCount: 4,
     isPublished: true,
     options: [
       {
@@ -53,6 +54,7 @@ const MOCK_CHALLENGES: Challenge[] = [
     assumptions: 'You use the gym 2x/week. You watch Netflix daily. You haven\'t used Audible in 3 months. You order takeout 4x/week.',
     category: 'Budgeting',
     difficulty: 1,
+    optionCount: 4,
     isPublished: true,
     options: [
       {
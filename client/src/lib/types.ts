@@ -1,12 +1,15 @@
+import type { ChallengeAssumptionValues } from '@shared/challengeAssumptions';
+import type { CalculatorPreset } from '@shared/financialCalculators';
+
 export type Tier = 'Optimal' | 'Reasonable' | 'Risky';
-export type Grade = 'Great' | 'Good' | 'Risky';
+export type Grade = 'Great' | 'Good' | 'Risky' | (string & {}); // extra tiers can be configured server-side
 
 export interface ChallengeOption {
   id: string;
   text: string;
   tier: Tier;
   explanation: string;
-  idealRank: number; // 1-4
+  idealRank: number; // 1-N (N = challenge optionCount)
 }
 
 export interface Challenge {
@@ -17,8 +20,13 @@ export interface Challenge {
   assumptions: string;
   category: string;
   difficulty: number;
+  communityDifficulty?: number | null; // 1-5 from how players actually scored; null until enough have played
+  communitySampleSize?: number | null;
+  optionCount: number; // 3-6 options to rank
   options: ChallengeOption[];
   isPublished: boolean;
+  assumptionValues?: ChallengeAssumptionValues | null; // structured numbers behind `assumptions`
+  calculatorPreset?: CalculatorPreset | null; // inputs for the results page "See the math" panel
 }
 
 export interface Attempt {
@@ -86,6 +94,20 @@ export interface ScoreHistory {
   }>;
 }
 
+export type GoalType = 'average_score' | 'streak_length' | 'category_mastery' | 'challenges_completed';
+
+export interface UserGoal {
+  id: string;
+  goalType: GoalType;
+  title: string;
+  targetValue: number;
+  windowDays: number | null; // average_score only
+  category: string | null; // category_mastery only
+  currentValue: number;
+  completedAt: string | null;
+  createdAt: string;
+}
+
 export interface CategoryPerformance {
   categories: Array<{
     category: string;
@@ -20,16 +20,36 @@ import {
   getAdminChallengeStats,
   getCategoryAnalytics,
   getUserByEmail,
-  getAdminUserRiskProfile
+  getAdminUserRiskProfile,
+  getScoringStrategies,
+  previewScoringStrategy,
+  findSimilarChallenges,
+  type SimilarChallengeMatch,
+  type ScoringStrategyInfo,
+  type ScoringPreview,
+  type GradeThresholds
 } from '@/lib/api';
 import { UserManagement } from '@/components/UserManagement';
+import { GradeMaintenance } from '@/components/GradeMaintenance';
+import { CalculatorPresetEditor } from '@/components/CalculatorPresetEditor';
+import { PairRationaleEditor } from '@/components/PairRationaleEditor';
+import { RevisionHistory } from '@/components/RevisionHistory';
+import { ChallengeQuality } from '@/components/ChallengeQuality';
+import { ScheduleCalendar, UpcomingGapWarning } from '@/components/ScheduleCalendar';
+import { ChallengeImportExport } from '@/components/ChallengeImportExport';
+import { AggregateMaintenance } from '@/components/AggregateMaintenance';
+import { DuplicateReport, formatFieldScores } from '@/components/DuplicateReport';
+import { DifficultyCalibration } from '@/components/DifficultyCalibration';
 import { DemographicBehaviorCharts } from '@/components/DemographicBehaviorCharts';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Search } from 'lucide-react';
+import { CHALLENGE_ASSUMPTION_FIELDS, type ChallengeAssumptionKey, type ChallengeAssumptionValues } from '@shared/challengeAssumptions';
+import type { CalculatorPreset } from '@shared/financialCalculators';
 
 const TIER_OPTIONS = ['Optimal', 'Reasonable', 'Risky'];
+const OPTION_COUNT_CHOICES = [3, 4, 5, 6];
 const CATEGORIES = ['Budgeting', 'Investing', 'Debt', 'Car Deals', 'Insurance', 'Retirement', 'Taxes', 'Real Estate'];
 
 interface ChallengeOption {
@@ -47,6 +67,12 @@ interface Challenge {
   assumptions: string;
   category: string;
   difficulty: number;
+  communityDifficulty?: number | null; // calibrated from play; read-only here
+  optionCount: number;
+  scoringStrategy: string;
+  gradeThresholdsJson?: GradeThresholds | null;
+  assumptionValuesJson?: ChallengeAssumptionValues | null;
+  calculatorPresetJson?: CalculatorPreset | null;
   isPublished: boolean;
   options: ChallengeOption[];
 }
@@ -65,6 +91,11 @@ const defaultChallenge = (): Omit<Challenge, 'id'> => ({
   assumptions: '',
   category: 'Budgeting',
   difficulty: 1,
+  optionCount: 4,
+  scoringStrategy: 'distance',
+  gradeThresholdsJson: null,
+  assumptionValuesJson: null,
+  calculatorPresetJson: null,
   isPublished: false,
   options: [
     { ...defaultOption(), orderingIndex: 1 },
@@ -74,8 +105,19 @@ const defaultChallenge = (): Omit<Challenge, 'id'> => ({
   ],
 });
 
+// Grow or shrink the option list, keeping the best-ranked options and renumbering orderingIndex 1..count
+function resizeOptions(options: ChallengeOption[], count: number): ChallengeOption[] {
+  const ranked = [...options].sort((a, b) => a.orderingIndex - b.orderingIndex).slice(0, count);
+  while (ranked.length < count) {
+    ranked.push({ ...defaultOption(), tierLabel: 'Risky' });
+  }
+  return ranked.map((opt, index) => ({ ...opt, orderingIndex: index + 1 }));
+}
+
 function LoginForm({ onLogin }: { onLogin: (token: string) => void }) {
   const [password, setPassword] = useState('');
+  // Recorded on challenge revisions; remembered so it doesn't need retyping
+  const [name, setName] = useState(() => localStorage.getItem('admin_name') || '');
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const { toast } = useToast();
@@ -84,7 +126,8 @@ function LoginForm({ onLogin }: { onLogin: (token: string) => void }) {
     e.preventDefault();
     setLoading(true);
     try {
-      const result = await adminLogin(password);
+      const result = await adminLogin(password, name.trim() || undefined);
+      localStorage.setItem('admin_name', name.trim());
       onLogin(result.token);
       localStorage.setItem('admin_token', result.token);
     } catch (error) {
@@ -102,6 +145,13 @@ function LoginForm({ onLogin }: { onLogin: (token: string) => void }) {
           <p className="text-slate-500 mt-2">Enter password to continue</p>
         </div>
         <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Your name (shown in edit history)"
+            maxLength={100}
+            data-testid="input-admin-name"
+          />
           <div className="relative">
             <Input
               type={showPassword ? 'text' : 'password'}
@@ -133,12 +183,14 @@ function ChallengeForm({
   challenge, 
   onSave, 
   onCancel,
+  onReverted,
   isEditing = false,
   token
 }: { 
   challenge: Omit<Challenge, 'id'> | Challenge; 
   onSave: (data: any) => void; 
   onCancel: () => void;
+  onReverted?: () => void;
   isEditing?: boolean;
   token: string | null;
 }) {
@@ -177,6 +229,95 @@ function ChallengeForm({
     return () => clearTimeout(timeoutId);
   }, [formData.dateKey, formData.title, token, challenge]);
 
+  // Content near-duplicates (scenario, assumptions, option texts); advisory, so saving isn't blocked
+  const [similarChallenges, setSimilarChallenges] = useState<SimilarChallengeMatch[]>([]);
+  const optionTextsKey = JSON.stringify(formData.options.map(opt => opt.optionText));
+  React.useEffect(() => {
+    if (!token || !formData.scenarioText.trim()) {
+      setSimilarChallenges([]);
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      findSimilarChallenges(token, {
+        scenarioText: formData.scenarioText,
+        assumptions: formData.assumptions,
+        options: formData.options.map(opt => opt.optionText).filter(text => text.trim()),
+        challengeId: 'id' in challenge ? challenge.id : undefined,
+      })
+        .then(setSimilarChallenges)
+        .catch(error => {
+          console.error('Error finding similar challenges:', error);
+          setSimilarChallenges([]);
+        });
+    }, 1000);
+
+    return () => clearTimeout(timeoutId);
+  }, [formData.scenarioText, formData.assumptions, optionTextsKey, token, challenge]);
+
+  const [scoringStrategies, setScoringStrategies] = useState<ScoringStrategyInfo[]>([]);
+  const [scoringPreview, setScoringPreview] = useState<ScoringPreview[]>([]);
+
+  // Strategy list comes from the server registry so new strategies show up without client changes
+  React.useEffect(() => {
+    if (!token) return;
+    getScoringStrategies(token)
+      .then(setScoringStrategies)
+      .catch(error => console.error('Error loading scoring strategies:', error));
+  }, [token]);
+
+  // Re-score the example rankings whenever the strategy or option tiers change
+  const thresholdsKey = JSON.stringify(formData.gradeThresholdsJson ?? null);
+  const optionTiersKey = formData.options.map(opt => `${opt.orderingIndex}:${opt.tierLabel}`).join(',');
+  React.useEffect(() => {
+    if (!token) return;
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const preview = await previewScoringStrategy(
+          token,
+          formData.scoringStrategy,
+          formData.options.map(({ tierLabel, orderingIndex }) => ({ tierLabel, orderingIndex })),
+          formData.gradeThresholdsJson
+        );
+        setScoringPreview(preview);
+      } catch (error) {
+        console.error('Error previewing scoring strategy:', error);
+        setScoringPreview([]);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeoutId);
+  }, [formData.scoringStrategy, optionTiersKey, thresholdsKey, token]);
+
+  const selectedStrategy = scoringStrategies.find(strategy => strategy.id === formData.scoringStrategy);
+
+  // Blank threshold inputs fall back to the global GRADE_THRESHOLDS config
+  const setThresholdOverride = (field: 'greatThreshold' | 'goodThreshold', value: string) => {
+    const next: GradeThresholds = { ...(formData.gradeThresholdsJson || {}) };
+    if (value === '') {
+      delete next[field];
+    } else {
+      next[field] = parseInt(value) || 0;
+    }
+    setFormData({ ...formData, gradeThresholdsJson: Object.keys(next).length > 0 ? next : null });
+  };
+
+  // Blank inputs drop the key; an empty set is stored as null
+  const setAssumptionValue = (field: ChallengeAssumptionKey, value: string) => {
+    const next: ChallengeAssumptionValues = { ...(formData.assumptionValuesJson || {}) };
+    if (value === '') {
+      delete next[field];
+    } else {
+      next[field] = Math.max(0, parseFloat(value) || 0);
+    }
+    setFormData({ ...formData, assumptionValuesJson: Object.keys(next).length > 0 ? next : null });
+  };
+
+  const setOptionCount = (count: number) => {
+    setFormData({ ...formData, optionCount: count, options: resizeOptions(formData.options, count) });
+  };
+
   const updateOption = (index: number, field: keyof ChallengeOption, value: any) => {
     const newOptions = [...formData.options];
     newOptions[index] = { ...newOptions[index], [field]: value };
@@ -268,9 +409,39 @@ function ChallengeForm({
           rows={2}
           data-testid="input-assumptions"
         />
+        <p className="text-xs text-slate-500 mt-3 mb-2">
+          Structured values (optional). Fill in the numbers stated above so “Fill from challenge” on the Tools page can use them.
+        </p>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {CHALLENGE_ASSUMPTION_FIELDS.map(field => (
+            <div key={field.key}>
+              <Label className="text-xs">{field.label}</Label>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                placeholder="Not set"
+                value={formData.assumptionValuesJson?.[field.key] ?? ''}
+                onChange={(e) => setAssumptionValue(field.key, e.target.value)}
+                data-testid={`input-assumption-${field.key}`}
+              />
+            </div>
+          ))}
+        </div>
       </div>
 
-      <div className="grid grid-cols-2 gap-4">
+      <div>
+        <Label>“See the math” calculator (optional)</Label>
+        <p className="text-xs text-slate-500 mt-1 mb-2">
+          Numbers from the scenario, run through a Tools calculator on the results page.
+        </p>
+        <CalculatorPresetEditor
+          value={formData.calculatorPresetJson ?? null}
+          onChange={(preset) => setFormData({ ...formData, calculatorPresetJson: preset })}
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
         <div>
           <Label>Difficulty (1-5)</Label>
           <Input
@@ -282,6 +453,22 @@ function ChallengeForm({
             data-testid="input-difficulty"
           />
         </div>
+        <div>
+          <Label>Number of Options</Label>
+          <Select 
+            value={String(formData.options.length)} 
+            onValueChange={(v) => setOptionCount(parseInt(v))}
+          >
+            <SelectTrigger data-testid="select-option-count">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OPTION_COUNT_CHOICES.map(count => (
+                <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         <div className="flex items-center gap-3 pt-6">
           <Switch
             checked={formData.isPublished}
@@ -292,8 +479,64 @@ function ChallengeForm({
         </div>
       </div>
 
+      <div>
+        <Label>Scoring Strategy</Label>
+        <Select 
+          value={formData.scoringStrategy} 
+          onValueChange={(v) => setFormData({ ...formData, scoringStrategy: v })}
+        >
+          <SelectTrigger data-testid="select-scoring-strategy">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {scoringStrategies.map(strategy => (
+              <SelectItem key={strategy.id} value={strategy.id}>{strategy.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selectedStrategy && (
+          <p className="text-xs text-slate-500 mt-1">{selectedStrategy.description}</p>
+        )}
+        <div className="grid grid-cols-2 gap-4 mt-3">
+          <div>
+            <Label className="text-xs">Great threshold override</Label>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              placeholder="Global default"
+              value={formData.gradeThresholdsJson?.greatThreshold ?? ''}
+              onChange={(e) => setThresholdOverride('greatThreshold', e.target.value)}
+              data-testid="input-great-threshold"
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Good threshold override</Label>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              placeholder="Global default"
+              value={formData.gradeThresholdsJson?.goodThreshold ?? ''}
+              onChange={(e) => setThresholdOverride('goodThreshold', e.target.value)}
+              data-testid="input-good-threshold"
+            />
+          </div>
+        </div>
+        {scoringPreview.length > 0 && (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-2" data-testid="scoring-preview">
+            {scoringPreview.map(example => (
+              <div key={example.label} className="p-2 bg-slate-50 border border-slate-200 rounded-lg">
+                <p className="text-xs text-slate-500">{example.label}</p>
+                <p className="text-sm font-semibold text-slate-900">{example.score} · {example.grade}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       <div className="border-t pt-4">
-        <Label className="text-lg font-semibold">Options (4 required)</Label>
+        <Label className="text-lg font-semibold">Options ({formData.options.length} required)</Label>
         <div className="space-y-4 mt-3">
           {formData.options.map((option, index) => (
             <div key={index} className="bg-slate-50 p-4 rounded-lg border">
@@ -333,6 +576,41 @@ function ChallengeForm({
         </div>
       </div>
 
+      {similarChallenges.length > 0 && (
+        <div
+          className={`p-3 rounded-lg border ${similarChallenges[0].likelyDuplicate ? 'bg-rose-50 border-rose-200' : 'bg-amber-50 border-amber-200'}`}
+          data-testid="similar-challenges"
+        >
+          <p className={`text-sm font-semibold mb-1 ${similarChallenges[0].likelyDuplicate ? 'text-rose-800' : 'text-amber-800'}`}>
+            {similarChallenges[0].likelyDuplicate ? '⚠️ Likely duplicate content' : 'Similar challenges'}
+          </p>
+          {similarChallenges.map(match => (
+            <p key={match.challenge.id} className="text-xs text-slate-700">
+              <span className="font-semibold">{Math.round(match.score * 100)}%</span> {match.challenge.dateKey} - {match.challenge.title}
+              <span className="text-slate-500"> ({formatFieldScores(match.fieldScores)})</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      {isEditing && token && 'id' in challenge && (
+        <div className="border-t pt-4">
+          <Label className="text-lg font-semibold">Pairwise Rationales</Label>
+          <div className="mt-3">
+            <PairRationaleEditor token={token} challengeId={challenge.id} />
+          </div>
+        </div>
+      )}
+
+      {isEditing && token && 'id' in challenge && (
+        <div className="border-t pt-4">
+          <Label className="text-lg font-semibold">Edit History</Label>
+          <div className="mt-3">
+            <RevisionHistory token={token} challengeId={challenge.id} onReverted={onReverted ?? onCancel} />
+          </div>
+        </div>
+      )}
+
       <div className="flex gap-3 pt-4 border-t">
         <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
           Cancel
@@ -670,13 +948,16 @@ export default function Admin() {
           <Tabs defaultValue="challenges" className="p-4">
             <TabsList className="mb-4">
               <TabsTrigger value="challenges">Challenges</TabsTrigger>
+              <TabsTrigger value="schedule">Schedule</TabsTrigger>
               <TabsTrigger value="categories">Category Analytics</TabsTrigger>
               <TabsTrigger value="user-management">User Management</TabsTrigger>
               <TabsTrigger value="user-lookup">User Lookup</TabsTrigger>
               <TabsTrigger value="blog">Blog Posts</TabsTrigger>
+              <TabsTrigger value="maintenance">Maintenance</TabsTrigger>
             </TabsList>
             
             <TabsContent value="challenges" className="mt-4">
+              <UpcomingGapWarning token={token} />
               <div className="flex items-center justify-between mb-4">
                 <h2 className="font-bold text-lg text-slate-900">Challenges</h2>
                 <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
@@ -700,6 +981,8 @@ export default function Admin() {
                 </Dialog>
               </div>
 
+              <ChallengeImportExport token={token} onImported={loadData} />
+
               {challenges.length === 0 ? (
                 <p className="text-sm text-slate-500 py-8 text-center">No challenges yet.</p>
               ) : (
@@ -742,7 +1025,10 @@ export default function Admin() {
                                         <span className="px-2 py-0.5 text-xs bg-slate-100 text-slate-500 rounded-full">Draft</span>
                                       )}
                                     </div>
-                                    <div className="text-sm text-slate-500">{challenge.category} • Difficulty {challenge.difficulty}</div>
+                                    <div className="text-sm text-slate-500">
+                                      {challenge.category} • Difficulty {challenge.difficulty}
+                                      {challenge.communityDifficulty != null && ` (community ${challenge.communityDifficulty})`}
+                                    </div>
                                   </div>
                                 </div>
                                 <div className="flex items-center gap-2 shrink-0">
@@ -807,6 +1093,15 @@ export default function Admin() {
                                             ))}
                                           </div>
                                         </div>
+                                        {selectedChallengeStats.quality && (
+                                          <div>
+                                            <h4 className="font-semibold mb-2 flex items-center gap-2">
+                                              <BarChart3 className="w-4 h-4" />
+                                              Quality
+                                            </h4>
+                                            <ChallengeQuality quality={selectedChallengeStats.quality} />
+                                          </div>
+                                        )}
                                       </div>
                                     </div>
                                   ) : null}
@@ -1052,9 +1347,22 @@ export default function Admin() {
               </div>
             </TabsContent>
 
+            <TabsContent value="schedule" className="mt-4">
+              <ScheduleCalendar token={token} onChanged={loadData} />
+            </TabsContent>
+
             <TabsContent value="blog" className="mt-4">
               <BlogPostManager token={token} />
             </TabsContent>
+
+            <TabsContent value="maintenance" className="mt-4">
+              <div className="space-y-6">
+                <GradeMaintenance token={token} />
+                <AggregateMaintenance token={token} />
+                <DuplicateReport token={token} />
+                <DifficultyCalibration token={token} />
+              </div>
+            </TabsContent>
           </Tabs>
         </div>
 
@@ -1068,6 +1376,10 @@ export default function Admin() {
                 challenge={editingChallenge} 
                 onSave={handleUpdateChallenge} 
                 onCancel={() => setEditingChallenge(null)}
+                onReverted={() => {
+                  setEditingChallenge(null);
+                  loadData();
+                }}
                 isEditing 
                 token={token}
               />
@@ -10,6 +10,7 @@ import { Button } from '@/components/ui/button';
 import { SEO } from '@/components/SEO';
 import { UserAuth } from '@/components/UserAuth';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { CommunityDifficultyBadge } from '@/components/challenge/CommunityDifficultyBadge';
 
 export default function Archive() {
   const [, setLocation] = useLocation();
@@ -233,12 +234,15 @@ export default function Archive() {
               )} data-testid={`archive-title-${day.challenge.dateKey}`}>
                 {day.challenge.title}
               </h3>
-              <p className={cn(
-                "text-sm",
-                isPreviewMode ? "text-slate-400" : "text-slate-500"
-              )}>
-                {day.challenge.category}
-              </p>
+              <div className="flex items-center gap-2">
+                <p className={cn(
+                  "text-sm",
+                  isPreviewMode ? "text-slate-400" : "text-slate-500"
+                )}>
+                  {day.challenge.category}
+                </p>
+                <CommunityDifficultyBadge challenge={day.challenge} />
+              </div>
             </div>
           </div>
 
@@ -111,7 +111,7 @@ export default function Home() {
         canonical={isSpecificChallenge ? `/challenge/${dateKey}` : '/'}
       />
       <div className="max-w-xl mx-auto">
-        <ChallengeInterface challenge={data.challenge} />
+        <ChallengeInterface challenge={data.challenge} hasAttempted={data.hasAttempted} />
       </div>
     </Layout>
   );
@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { Layout } from '@/components/layout';
-import { getUserStats, getCurrentUser, getUserBadges, updateDisplayName, updateProfile, calculateAge, getUserRiskProfile, getUserScoreHistory, getUserCategoryPerformance, getCustomerPortalUrl, getSubscriptionStatus, type AuthUser } from '@/lib/api';
-import { Trophy, Flame, Target, Calendar, Loader2, Edit2, Save, X, BarChart3, TrendingUp, AlertCircle, PieChart, Download, Plus, CheckCircle2, Sparkles, ChevronDown, Crown } from 'lucide-react';
+import { getUserStats, getCurrentUser, getUserBadges, updateDisplayName, updateProfile, calculateAge, getUserRiskProfile, getUserScoreHistory, getUserCategoryPerformance, getCustomerPortalUrl, getSubscriptionStatus, getStreakFreezes, spendStreakFreeze, getUserGoals, createUserGoal, deleteUserGoal, type AuthUser, type CreateGoalInput } from '@/lib/api';
+import type { GoalType } from '@/lib/types';
+import { Trophy, Flame, Target, Calendar, Loader2, Edit2, Save, X, BarChart3, TrendingUp, AlertCircle, PieChart, Download, Plus, CheckCircle2, Sparkles, ChevronDown, Crown, Snowflake } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -36,6 +37,57 @@ const ScoreTrendTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
+const GOAL_TYPE_LABELS: Record<GoalType, string> = {
+  average_score: 'Average score',
+  streak_length: 'Streak length',
+  category_mastery: 'Category mastery',
+  challenges_completed: 'Challenges completed',
+};
+
+function describeGoal(goalType: GoalType, target: number, windowDays?: number, category?: string): string {
+  switch (goalType) {
+    case 'average_score':
+      return windowDays ? `Average ${target} over ${windowDays} days` : `Reach ${target} average score`;
+    case 'streak_length':
+      return `Maintain a ${target}-day streak`;
+    case 'category_mastery':
+      return `Improve ${category} to ${target} average`;
+    case 'challenges_completed':
+      return `Complete ${target} challenges`;
+  }
+}
+
+function GoalProgressText({ current, target }: { current: number; target: number }) {
+  const progress = Math.min(100, (current / target) * 100);
+  return (
+    <div className="flex items-center gap-2 text-sm text-slate-600">
+      <span className="font-medium">{current}</span>
+      <span>/</span>
+      <span>{target}</span>
+      <span className="text-emerald-600 font-semibold">
+        ({Math.round(progress)}%)
+      </span>
+    </div>
+  );
+}
+
+function GoalProgressBar({ current, target, completed }: { current: number; target: number; completed: boolean }) {
+  const progress = Math.min(100, (current / target) * 100);
+  return (
+    <div className="w-full bg-slate-200 rounded-full h-2">
+      <div
+        className={`h-2 rounded-full transition-all ${
+          completed ? 'bg-emerald-500' :
+          progress >= 75 ? 'bg-emerald-400' :
+          progress >= 50 ? 'bg-amber-400' :
+          progress >= 25 ? 'bg-orange-400' : 'bg-rose-400'
+        }`}
+        style={{ width: `${progress}%` }}
+      />
+    </div>
+  );
+}
+
 export default function Profile() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -43,17 +95,12 @@ export default function Profile() {
   const [displayName, setDisplayName] = useState('');
   const [birthday, setBirthday] = useState('');
   const [incomeBracket, setIncomeBracket] = useState('');
-  type Goal = {
-    id: string;
-    title: string;
-    target: number;
-    current: number;
-    completed: boolean;
-    isSuggested?: boolean;
-  };
-  const [goals, setGoals] = useState<Goal[]>([]);
+  type SuggestedGoal = CreateGoalInput & { id: string; current: number };
+  const [newGoalType, setNewGoalType] = useState<GoalType>('average_score');
   const [newGoalTitle, setNewGoalTitle] = useState('');
   const [newGoalTarget, setNewGoalTarget] = useState('');
+  const [newGoalWindow, setNewGoalWindow] = useState('');
+  const [newGoalCategory, setNewGoalCategory] = useState('');
   const [isProfileOpen, setIsProfileOpen] = useState(true);
 
   const { data: authData, isLoading: authLoading } = useQuery({
@@ -77,6 +124,25 @@ export default function Profile() {
     retry: false,
   });
 
+  const { data: streakFreezes } = useQuery({
+    queryKey: ['streak-freezes'],
+    queryFn: getStreakFreezes,
+    enabled: !!isAuthenticated,
+    retry: false,
+  });
+
+  const spendFreezeMutation = useMutation({
+    mutationFn: () => spendStreakFreeze(),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['streak-freezes'] });
+      queryClient.invalidateQueries({ queryKey: ['user-stats'] });
+      toast({ title: 'Streak frozen', description: `${result.dateKey} is covered. ${result.freezesRemaining} freezes left this week.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
   const { data: badgesData, isLoading: badgesLoading, error: badgesError } = useQuery({
     queryKey: ['user-badges'],
     queryFn: getUserBadges,
@@ -113,16 +179,61 @@ export default function Profile() {
   });
   // #endregion
 
-  // Generate suggested goals based on user analytics
-  const generateSuggestedGoals = React.useCallback((): Goal[] => {
+  const { data: goals = [] } = useQuery({
+    queryKey: ['user-goals'],
+    queryFn: getUserGoals,
+    enabled: !!isAuthenticated,
+    retry: false,
+  });
+
+  const createGoalMutation = useMutation({
+    mutationFn: createUserGoal,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-goals'] });
+      setNewGoalTitle('');
+      setNewGoalTarget('');
+      setNewGoalWindow('');
+      toast({ title: 'Goal added', description: 'Progress updates after each challenge you complete.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteGoalMutation = useMutation({
+    mutationFn: deleteUserGoal,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-goals'] });
+      toast({ title: 'Goal removed' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const handleCreateGoal = () => {
+    const targetValue = parseInt(newGoalTarget);
+    if (isNaN(targetValue) || targetValue <= 0) return;
+    const windowDays = newGoalType === 'average_score' && newGoalWindow ? parseInt(newGoalWindow) : undefined;
+    const category = newGoalType === 'category_mastery' ? newGoalCategory : undefined;
+    createGoalMutation.mutate({
+      goalType: newGoalType,
+      title: newGoalTitle.trim() || describeGoal(newGoalType, targetValue, windowDays, category),
+      targetValue,
+      windowDays,
+      category,
+    });
+  };
+
+  // Suggested goals based on user analytics; adding one saves it like any other goal
+  const suggestedGoals = React.useMemo((): SuggestedGoal[] => {
     if (!stats || stats.totalAttempts === 0) {
       return [];
     }
 
-    const suggested: Goal[] = [];
+    const suggested: SuggestedGoal[] = [];
     const currentAvg = stats.averageScore;
     const currentStreak = stats.streak;
-    const currentPercentile = stats.bestPercentile;
     const totalAttempts = stats.totalAttempts;
 
     // 1. Average Score Goal - suggest next milestone
@@ -132,64 +243,31 @@ export default function Profile() {
       if (nextMilestone) {
         suggested.push({
           id: `suggested-avg-score-${nextMilestone}`,
-          title: `Reach ${nextMilestone} average score`,
-          target: nextMilestone,
+          goalType: 'average_score',
+          title: describeGoal('average_score', nextMilestone),
+          targetValue: nextMilestone,
           current: currentAvg,
-          completed: false,
-          isSuggested: true,
         });
       }
     }
 
     // 2. Streak Goal - suggest maintaining or improving
-    if (currentStreak > 0) {
-      const nextStreakTarget = currentStreak < 7 
-        ? 7 // First week
-        : currentStreak < 30 
-        ? 30 // First month
-        : currentStreak + 10; // Increment by 10
-      
-      suggested.push({
-        id: `suggested-streak-${nextStreakTarget}`,
-        title: `Maintain a ${nextStreakTarget}-day streak`,
-        target: nextStreakTarget,
-        current: currentStreak,
-        completed: false,
-        isSuggested: true,
-      });
-    } else if (totalAttempts > 0) {
-      // If they have attempts but no streak, suggest starting one
-      suggested.push({
-        id: 'suggested-streak-start',
-        title: 'Start a 3-day streak',
-        target: 3,
-        current: 0,
-        completed: false,
-        isSuggested: true,
-      });
-    }
-
-    // 3. Percentile Goal - suggest improving percentile
-    if (currentPercentile < 90) {
-      const nextPercentileTarget = currentPercentile < 50 
-        ? 50 // Top 50%
-        : currentPercentile < 75 
-        ? 75 // Top 25%
-        : currentPercentile < 90 
-        ? 90 // Top 10%
-        : 95; // Top 5%
-      
-      suggested.push({
-        id: `suggested-percentile-${nextPercentileTarget}`,
-        title: `Reach top ${100 - nextPercentileTarget}% (${nextPercentileTarget}th percentile)`,
-        target: nextPercentileTarget,
-        current: currentPercentile,
-        completed: false,
-        isSuggested: true,
-      });
-    }
-
-    // 4. Total Attempts Goal - suggest completing more challenges
+    const nextStreakTarget = currentStreak === 0
+      ? 3 // Start a streak
+      : currentStreak < 7 
+      ? 7 // First week
+      : currentStreak < 30 
+      ? 30 // First month
+      : currentStreak + 10; // Increment by 10
+    suggested.push({
+      id: `suggested-streak-${nextStreakTarget}`,
+      goalType: 'streak_length',
+      title: describeGoal('streak_length', nextStreakTarget),
+      targetValue: nextStreakTarget,
+      current: currentStreak,
+    });
+
+    // 3. Total Attempts Goal - suggest completing more challenges
     if (totalAttempts < 50) {
       const nextAttemptTarget = totalAttempts < 10 
         ? 10 // First 10
@@ -199,15 +277,14 @@ export default function Profile() {
       
       suggested.push({
         id: `suggested-attempts-${nextAttemptTarget}`,
-        title: `Complete ${nextAttemptTarget} challenges`,
-        target: nextAttemptTarget,
+        goalType: 'challenges_completed',
+        title: describeGoal('challenges_completed', nextAttemptTarget),
+        targetValue: nextAttemptTarget,
         current: totalAttempts,
-        completed: false,
-        isSuggested: true,
       });
     }
 
-    // 5. Category Performance Goal (if categoryPerformance is available)
+    // 4. Category Performance Goal (if categoryPerformance is available)
     if (categoryPerformance && categoryPerformance.categories.length > 0) {
       // Find the category with the lowest average score
       const weakestCategory = categoryPerformance.categories.reduce((min, cat) => 
@@ -215,77 +292,25 @@ export default function Profile() {
       );
       
       if (weakestCategory.averageScore < 80 && weakestCategory.attempts >= 3) {
-        const targetScore = Math.min(80, weakestCategory.averageScore + 10);
+        const targetScore = Math.min(80, Math.round(weakestCategory.averageScore) + 10);
         suggested.push({
           id: `suggested-category-${weakestCategory.category}`,
-          title: `Improve ${weakestCategory.category} to ${targetScore} average`,
-          target: targetScore,
+          goalType: 'category_mastery',
+          title: describeGoal('category_mastery', targetScore, undefined, weakestCategory.category),
+          targetValue: targetScore,
+          category: weakestCategory.category,
           current: Math.round(weakestCategory.averageScore),
-          completed: false,
-          isSuggested: true,
         });
       }
     }
 
-    return suggested;
-  }, [stats, categoryPerformance]);
-
-  // Auto-generate and update suggested goals when stats change
-  React.useEffect(() => {
-    if (stats && stats.totalAttempts > 0) {
-      const suggested = generateSuggestedGoals();
-      
-      setGoals(prevGoals => {
-        // Get existing user-created goals (not suggested)
-        const userGoals = prevGoals.filter(g => !g.isSuggested);
-        
-        // Update current values for existing suggested goals and add new ones
-        const updatedSuggested = suggested.map(suggestedGoal => {
-          // Find if this suggested goal already exists
-          const existing = prevGoals.find(g => g.id === suggestedGoal.id);
-          if (existing) {
-            // Update current value but keep completion status
-            return {
-              ...existing,
-              current: suggestedGoal.current,
-              // Re-check completion
-              completed: suggestedGoal.current >= suggestedGoal.target,
-            };
-          }
-          return suggestedGoal;
-        });
-
-        // Combine user goals with updated/new suggested goals
-        return [...userGoals, ...updatedSuggested];
-      });
-    }
-  }, [stats, categoryPerformance, generateSuggestedGoals]);
-
-  // Update current values for all goals when stats change
-  React.useEffect(() => {
-    if (stats) {
-      setGoals(prevGoals => prevGoals.map(goal => {
-        let newCurrent = goal.current;
-        
-        // Update current value based on goal type
-        if (goal.title.includes('average score')) {
-          newCurrent = stats.averageScore;
-        } else if (goal.title.includes('streak')) {
-          newCurrent = stats.streak;
-        } else if (goal.title.includes('percentile')) {
-          newCurrent = stats.bestPercentile;
-        } else if (goal.title.includes('challenges') || goal.title.includes('Complete')) {
-          newCurrent = stats.totalAttempts;
-        }
-        
-        return {
-          ...goal,
-          current: newCurrent,
-          completed: newCurrent >= goal.target,
-        };
-      }));
-    }
-  }, [stats]);
+    // Hide suggestions the user already saved
+    return suggested.filter(suggestion => !goals.some(goal =>
+      goal.goalType === suggestion.goalType &&
+      goal.targetValue === suggestion.targetValue &&
+      (goal.category || undefined) === suggestion.category
+    ));
+  }, [stats, categoryPerformance, goals]);
 
   // Initialize form values when user data loads
   React.useEffect(() => {
@@ -858,6 +883,33 @@ export default function Profile() {
           ))}
         </div>
 
+        {streakFreezes && (
+          <div className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm flex items-center justify-between gap-4" data-testid="streak-freezes">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-full bg-sky-50">
+                <Snowflake className="w-5 h-5 text-sky-500" />
+              </div>
+              <div>
+                <div className="font-semibold text-slate-900">
+                  {streakFreezes.freezesRemaining} of {streakFreezes.weeklyAllowance} streak freezes left this week
+                </div>
+                <div className="text-xs text-slate-500">Freezes are used automatically to cover a missed day</div>
+              </div>
+            </div>
+            {streakFreezes.freezesRemaining > 0 && (stats?.streak || 0) > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => spendFreezeMutation.mutate()}
+                disabled={spendFreezeMutation.isPending}
+                data-testid="button-freeze-yesterday"
+              >
+                Freeze yesterday
+              </Button>
+            )}
+          </div>
+        )}
+
         <div>
                 <h3 className="text-lg font-bold text-slate-900 mb-4">Your Badges</h3>
                 {badgesLoading ? (
@@ -1288,223 +1340,160 @@ export default function Profile() {
               >
                 <Card>
                   <CardHeader>
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <CardTitle>Your Goals</CardTitle>
-                        <CardDescription>Track your progress toward financial milestones</CardDescription>
-            </div>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          if (newGoalTitle && newGoalTarget) {
-                            const targetNum = parseInt(newGoalTarget);
-                            if (!isNaN(targetNum) && targetNum > 0) {
-                              const newGoal = {
-                                id: Date.now().toString(),
-                                title: newGoalTitle,
-                                target: targetNum,
-                                current: 0,
-                                completed: false
-                              };
-                              setGoals([...goals, newGoal]);
-                              setNewGoalTitle('');
-                              setNewGoalTarget('');
-                              toast({
-                                title: 'Goal added',
-                                description: 'Your new goal has been created.',
-                              });
-                            }
-                          }
-                        }}
-                      >
-                        <Plus className="w-4 h-4 mr-2" />
-                        Add Goal
-                      </Button>
-                    </div>
+                    <CardTitle>Your Goals</CardTitle>
+                    <CardDescription>Track your progress toward financial milestones. Progress updates after each challenge.</CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-4">
                     {/* Add Goal Form */}
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 p-4 bg-slate-50 rounded-lg border border-slate-200">
-                      <Input
-                        placeholder="Goal name (e.g., Reach 80 average score)"
-                        value={newGoalTitle}
-                        onChange={(e) => setNewGoalTitle(e.target.value)}
-                      />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 p-4 bg-slate-50 rounded-lg border border-slate-200">
+                      <Select value={newGoalType} onValueChange={(value) => setNewGoalType(value as GoalType)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(GOAL_TYPE_LABELS) as GoalType[]).map(type => (
+                            <SelectItem key={type} value={type}>{GOAL_TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                       <Input
                         type="number"
-                        placeholder="Target value"
+                        placeholder={newGoalType === 'streak_length' ? 'Target days' : newGoalType === 'challenges_completed' ? 'Target challenges' : 'Target score (0-100)'}
                         value={newGoalTarget}
                         onChange={(e) => setNewGoalTarget(e.target.value)}
                       />
+                      {newGoalType === 'average_score' && (
+                        <Input
+                          type="number"
+                          placeholder="Over the last N days (optional)"
+                          value={newGoalWindow}
+                          onChange={(e) => setNewGoalWindow(e.target.value)}
+                        />
+                      )}
+                      {newGoalType === 'category_mastery' && (
+                        <Select value={newGoalCategory} onValueChange={setNewGoalCategory}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Category" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(categoryPerformance?.categories || []).map(cat => (
+                              <SelectItem key={cat.category} value={cat.category}>{cat.category}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      <Input
+                        placeholder="Goal name (optional)"
+                        value={newGoalTitle}
+                        onChange={(e) => setNewGoalTitle(e.target.value)}
+                      />
                       <Button
-                        onClick={() => {
-                          if (newGoalTitle && newGoalTarget) {
-                            const targetNum = parseInt(newGoalTarget);
-                            if (!isNaN(targetNum) && targetNum > 0) {
-                              const newGoal = {
-                                id: Date.now().toString(),
-                                title: newGoalTitle,
-                                target: targetNum,
-                                current: stats?.averageScore || 0,
-                                completed: false
-                              };
-                              setGoals([...goals, newGoal]);
-                              setNewGoalTitle('');
-                              setNewGoalTarget('');
-                              toast({
-                                title: 'Goal added',
-                                description: 'Your new goal has been created.',
-                              });
-                            }
-                          }
-                        }}
-                        disabled={!newGoalTitle || !newGoalTarget}
+                        onClick={handleCreateGoal}
+                        disabled={
+                          !newGoalTarget ||
+                          (newGoalType === 'category_mastery' && !newGoalCategory) ||
+                          createGoalMutation.isPending
+                        }
                       >
-                        Create
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Goal
                       </Button>
                     </div>
 
-                    {/* Goals List */}
-                    {goals.length === 0 ? (
+                    {goals.length === 0 && suggestedGoals.length === 0 ? (
                       <div className="text-center py-12 text-slate-500">
                         <Target className="w-12 h-12 mx-auto mb-4 text-slate-300" />
                         <p className="text-sm">No goals yet. Complete some challenges to get suggested goals!</p>
                       </div>
                     ) : (
                       <div className="space-y-6">
-                        {/* Suggested Goals Section */}
-                        {goals.some(g => g.isSuggested) && (
+                        {/* Saved Goals Section */}
+                        {goals.length > 0 && (
                           <div>
                             <h3 className="text-sm font-semibold text-slate-700 mb-3 flex items-center gap-2">
-                              <Sparkles className="w-4 h-4 text-emerald-600" />
-                              Suggested Goals
-                              <span className="text-xs font-normal text-slate-500 ml-2">
-                                (Based on your performance)
-                              </span>
+                              <Target className="w-4 h-4 text-slate-600" />
+                              Your Goals
                             </h3>
                             <div className="space-y-4">
-                              {goals
-                                .filter(g => g.isSuggested)
-                                .map((goal) => {
-                                  const progress = Math.min(100, (goal.current / goal.target) * 100);
-                                  const isCompleted = goal.current >= goal.target;
-                                  
-                                  return (
-                                    <Card key={goal.id} className={isCompleted ? 'border-emerald-200 bg-emerald-50/50' : 'border-blue-200 bg-blue-50/30'}>
-                                      <CardContent className="p-4">
-                                        <div className="flex items-start justify-between mb-3">
-                                          <div className="flex-1">
-                                            <div className="flex items-center gap-2 mb-2 flex-wrap">
-                                              <h4 className="font-semibold text-slate-900">{goal.title}</h4>
-                                              <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded">
-                                                Suggested
-                                              </span>
-                                              {isCompleted && (
-                                                <CheckCircle2 className="w-5 h-5 text-emerald-600" />
-          )}
-        </div>
-                                            <div className="flex items-center gap-2 text-sm text-slate-600">
-                                              <span className="font-medium">{goal.current}</span>
-                                              <span>/</span>
-                                              <span>{goal.target}</span>
-                                              <span className="text-emerald-600 font-semibold">
-                                                ({Math.round(progress)}%)
-                                              </span>
-                                            </div>
+                              {goals.map((goal) => {
+                                const isCompleted = !!goal.completedAt;
+                                return (
+                                  <Card key={goal.id} className={isCompleted ? 'border-emerald-200 bg-emerald-50/50' : ''}>
+                                    <CardContent className="p-4">
+                                      <div className="flex items-start justify-between mb-3">
+                                        <div className="flex-1">
+                                          <div className="flex items-center gap-2 mb-2 flex-wrap">
+                                            <h4 className="font-semibold text-slate-900">{goal.title}</h4>
+                                            <span className="text-xs bg-slate-100 text-slate-600 px-2 py-0.5 rounded">
+                                              {GOAL_TYPE_LABELS[goal.goalType]}
+                                            </span>
+                                            {isCompleted && (
+                                              <CheckCircle2 className="w-5 h-5 text-emerald-600" />
+                                            )}
                                           </div>
-                                          <Button
-                                            variant="ghost"
-                                            size="sm"
-                                            onClick={() => {
-                                              setGoals(goals.filter(g => g.id !== goal.id));
-                                              toast({
-                                                title: 'Goal removed',
-                                                description: 'You can always create your own goals.',
-                                              });
-                                            }}
-                                          >
-                                            <X className="w-4 h-4" />
-                                          </Button>
-                                        </div>
-                                        <div className="w-full bg-slate-200 rounded-full h-2">
-                                          <div
-                                            className={`h-2 rounded-full transition-all ${
-                                              isCompleted ? 'bg-emerald-500' :
-                                              progress >= 75 ? 'bg-emerald-400' :
-                                              progress >= 50 ? 'bg-amber-400' :
-                                              progress >= 25 ? 'bg-orange-400' : 'bg-rose-400'
-                                            }`}
-                                            style={{ width: `${progress}%` }}
-                                          />
+                                          <GoalProgressText current={goal.currentValue} target={goal.targetValue} />
+                                          {isCompleted && (
+                                            <p className="text-xs text-emerald-700 mt-1">
+                                              Completed {format(new Date(goal.completedAt!), 'MMM d, yyyy')}
+                                            </p>
+                                          )}
                                         </div>
-                                      </CardContent>
-                                    </Card>
-                                  );
-                                })}
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() => deleteGoalMutation.mutate(goal.id)}
+                                          disabled={deleteGoalMutation.isPending}
+                                        >
+                                          <X className="w-4 h-4" />
+                                        </Button>
+                                      </div>
+                                      <GoalProgressBar current={goal.currentValue} target={goal.targetValue} completed={isCompleted} />
+                                    </CardContent>
+                                  </Card>
+                                );
+                              })}
                             </div>
                           </div>
                         )}
 
-                        {/* User-Created Goals Section */}
-                        {goals.some(g => !g.isSuggested) && (
+                        {/* Suggested Goals Section */}
+                        {suggestedGoals.length > 0 && (
                           <div>
                             <h3 className="text-sm font-semibold text-slate-700 mb-3 flex items-center gap-2">
-                              <Target className="w-4 h-4 text-slate-600" />
-                              Your Goals
+                              <Sparkles className="w-4 h-4 text-emerald-600" />
+                              Suggested Goals
+                              <span className="text-xs font-normal text-slate-500 ml-2">
+                                (Based on your performance)
+                              </span>
                             </h3>
                             <div className="space-y-4">
-                              {goals
-                                .filter(g => !g.isSuggested)
-                                .map((goal) => {
-                                  const progress = Math.min(100, (goal.current / goal.target) * 100);
-                                  const isCompleted = goal.current >= goal.target;
-                                  
-                                  return (
-                                    <Card key={goal.id} className={isCompleted ? 'border-emerald-200 bg-emerald-50/50' : ''}>
-                                      <CardContent className="p-4">
-                                        <div className="flex items-start justify-between mb-3">
-                                          <div className="flex-1">
-                                            <div className="flex items-center gap-2 mb-2">
-                                              <h4 className="font-semibold text-slate-900">{goal.title}</h4>
-                                              {isCompleted && (
-                                                <CheckCircle2 className="w-5 h-5 text-emerald-600" />
-                                              )}
-                                            </div>
-                                            <div className="flex items-center gap-2 text-sm text-slate-600">
-                                              <span className="font-medium">{goal.current}</span>
-                                              <span>/</span>
-                                              <span>{goal.target}</span>
-                                              <span className="text-emerald-600 font-semibold">
-                                                ({Math.round(progress)}%)
-                                              </span>
-                                            </div>
-                                          </div>
-                                          <Button
-                                            variant="ghost"
-                                            size="sm"
-                                            onClick={() => {
-                                              setGoals(goals.filter(g => g.id !== goal.id));
-                                            }}
-                                          >
-                                            <X className="w-4 h-4" />
-                                          </Button>
-                                        </div>
-                                        <div className="w-full bg-slate-200 rounded-full h-2">
-                                          <div
-                                            className={`h-2 rounded-full transition-all ${
-                                              isCompleted ? 'bg-emerald-500' :
-                                              progress >= 75 ? 'bg-emerald-400' :
-                                              progress >= 50 ? 'bg-amber-400' :
-                                              progress >= 25 ? 'bg-orange-400' : 'bg-rose-400'
-                                            }`}
-                                            style={{ width: `${progress}%` }}
-                                          />
+                              {suggestedGoals.map(({ id, current, ...suggestion }) => (
+                                <Card key={id} className="border-blue-200 bg-blue-50/30">
+                                  <CardContent className="p-4">
+                                    <div className="flex items-start justify-between mb-3">
+                                      <div className="flex-1">
+                                        <div className="flex items-center gap-2 mb-2 flex-wrap">
+                                          <h4 className="font-semibold text-slate-900">{suggestion.title}</h4>
+                                          <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded">
+                                            Suggested
+                                          </span>
                                         </div>
-                                      </CardContent>
-                                    </Card>
-                                  );
-                                })}
+                                        <GoalProgressText current={current} target={suggestion.targetValue} />
+                                      </div>
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => createGoalMutation.mutate(suggestion)}
+                                        disabled={createGoalMutation.isPending}
+                                      >
+                                        <Plus className="w-4 h-4 mr-1" />
+                                        Add
+                                      </Button>
+                                    </div>
+                                    <GoalProgressBar current={current} target={suggestion.targetValue} completed={false} />
+                                  </CardContent>
+                                </Card>
+                              ))}
                             </div>
                           </div>
                         )}
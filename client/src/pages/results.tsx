@@ -3,6 +3,7 @@ import { useRoute, useLocation } from 'wouter';
 import { Layout } from '@/components/layout';
 import { getResults, getChallengeByDateKey, getCurrentUser, getCommunityStats, getDailyThread, isFeatureEnabled, getUserStats } from '@/lib/api';
 import { OptionCard } from '@/components/challenge/OptionCard';
+import { SeeTheMath } from '@/components/challenge/SeeTheMath';
 import { Button } from '@/components/ui/button';
 import { Share2, ArrowRight, Loader2, AlertCircle, Calendar, Check, Info, ArrowUp, ArrowDown, ChevronDown, ChevronUp, Bell } from 'lucide-react';
 import { cn, dateKeyToLocalDate } from '@/lib/utils';
@@ -250,10 +251,13 @@ export default function Results() {
   }
 
   const { attempt, challenge, stats } = data;
+  // If the options were edited after this attempt, the server sends the versions the player ranked
+  const attemptOptions = data?.attemptOptions ?? null;
+  const rankedOptions = attemptOptions ?? challenge.options;
   
   // Map ranking IDs to options, filtering out any undefined (in case options were updated)
   let userOrderedOptions = attempt.ranking
-    .map(id => challenge.options.find(opt => opt.id === id))
+    .map(id => rankedOptions.find(opt => opt.id === id))
     .filter((opt): opt is NonNullable<typeof opt> => opt !== undefined);
   
   // If we couldn't match any options, this means the challenge was significantly updated
@@ -620,6 +624,11 @@ export default function Results() {
 
         <div>
           <h3 className="text-xl font-display font-bold text-slate-900 mb-4 px-2">Your Ranking Breakdown</h3>
+          {attemptOptions && (
+            <p className="text-xs text-slate-500 mb-3 px-2" data-testid="text-options-edited">
+              These options have been edited since you played. You're seeing them as they were when you ranked them.
+            </p>
+          )}
           <div className="space-y-0">
             {userOrderedOptions.map((opt, idx) => (
               <OptionCard key={opt.id} option={opt} index={idx} isResultMode={true} />
@@ -776,6 +785,10 @@ export default function Results() {
           </PremiumFeature>
         )}
 
+          {challenge.calculatorPreset && (
+            <SeeTheMath preset={challenge.calculatorPreset} dateKey={challenge.dateKey} />
+          )}
+
           {/* Come back tomorrow / streak re-engagement CTA */}
           <motion.div
             initial={{ opacity: 0, y: 10 }}
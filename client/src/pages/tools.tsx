@@ -1,8 +1,8 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { Layout } from '@/components/layout';
-import { getCurrentUser, calculateAge } from '@/lib/api';
+import { getCurrentUser, calculateAge, getSharedScenario, getChallengeByDateKey } from '@/lib/api';
 import { useQuery } from '@tanstack/react-query';
-import { Calculator, TrendingUp, Loader2 } from 'lucide-react';
+import { Calculator, TrendingUp, Loader2, Link2, ListOrdered, PiggyBank, Home, Wallet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -10,7 +10,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { UserAuth } from '@/components/UserAuth';
 import { SEO } from '@/components/SEO';
+import { SavedScenarios, ScenarioComparisonTable } from '@/components/tools/SavedScenarios';
+import { DebtPayoffPlanner } from '@/components/tools/DebtPayoffPlanner';
+import { RetirementProjection } from '@/components/tools/RetirementProjection';
+import { MortgageCalculator } from '@/components/tools/MortgageCalculator';
+import { RentVsBuy } from '@/components/tools/RentVsBuy';
+import { BudgetPlanner } from '@/components/tools/BudgetPlanner';
+import { MonteCarloSettings, DEFAULT_MONTE_CARLO_OPTIONS, type MonteCarloOptions } from '@/components/tools/MonteCarloSettings';
+import { useMonteCarlo } from '@/hooks/use-monte-carlo';
+import type { MonteCarloRequest } from '@shared/monteCarlo';
 import {
+  ComposedChart,
+  Area,
   LineChart,
   Line,
   XAxis,
@@ -21,179 +32,22 @@ import {
   Legend,
 } from 'recharts';
 
-const DEFAULT_RETIREMENT_AGE = 65;
-
-// --- Debt Calculator helpers ---
-function getDebtResults(principal: number, annualRatePct: number, termYears: number) {
-  if (principal <= 0 || termYears <= 0) return null;
-  const monthlyRate = annualRatePct / 100 / 12;
-  const numMonths = Math.round(termYears * 12);
-  if (numMonths <= 0) return null;
-  let monthlyPayment: number;
-  if (monthlyRate <= 0) {
-    monthlyPayment = principal / numMonths;
-  } else {
-    const factor = Math.pow(1 + monthlyRate, numMonths);
-    monthlyPayment = (principal * monthlyRate * factor) / (factor - 1);
-  }
-  const totalPaid = monthlyPayment * numMonths;
-  const totalInterest = totalPaid - principal;
-  return { monthlyPayment, totalPaid, totalInterest, numMonths };
-}
-
-function getDebtBalanceOverTime(
-  principal: number,
-  annualRatePct: number,
-  monthlyPayment: number,
-  termYears: number
-): { year: number; balance: number }[] {
-  const monthlyRate = annualRatePct / 100 / 12;
-  const numMonths = Math.round(termYears * 12);
-  const data: { year: number; balance: number }[] = [{ year: 0, balance: principal }];
-  let balance = principal;
-  for (let month = 1; month <= numMonths; month++) {
-    const interest = balance * monthlyRate;
-    const principalPayment = Math.min(monthlyPayment - interest, balance);
-    balance -= principalPayment;
-    if (balance < 0.01) balance = 0;
-    if (month % 12 === 0) {
-      data.push({ year: month / 12, balance: Math.round(balance * 100) / 100 });
-    }
-  }
-  if (numMonths % 12 !== 0 && balance >= 0.01) {
-    data.push({ year: termYears, balance: Math.round(balance * 100) / 100 });
-  }
-  return data;
-}
-
-function getDebtBalanceOverTimeWithExtra(
-  principal: number,
-  annualRatePct: number,
-  monthlyPayment: number,
-  extraAmount: number,
-  frequency: 'perYear' | 'perMonth'
-): { year: number; balance: number }[] {
-  const monthlyRate = annualRatePct / 100 / 12;
-  const data: { year: number; balance: number }[] = [{ year: 0, balance: principal }];
-  let balance = principal;
-  const extraPerMonth = frequency === 'perMonth' ? extraAmount : 0;
-  const extraPerYear = frequency === 'perYear' ? extraAmount : 0;
-  for (let month = 1; balance > 0.01 && month <= 600; month++) {
-    const interest = balance * monthlyRate;
-    let principalPayment = monthlyPayment - interest;
-    if (principalPayment >= balance) {
-      principalPayment = balance;
-      balance = 0;
-    } else {
-      balance -= principalPayment;
-    }
-    if (frequency === 'perMonth' && extraPerMonth > 0 && balance > 0.01) {
-      balance -= Math.min(extraPerMonth, balance);
-    }
-    if (frequency === 'perYear' && month % 12 === 0 && balance > 0.01 && extraPerYear > 0) {
-      balance -= Math.min(extraPerYear, balance);
-    }
-    if (balance < 0.01) balance = 0;
-    if (month % 12 === 0) {
-      data.push({ year: month / 12, balance: Math.round(balance * 100) / 100 });
-    }
-  }
-  return data;
-}
-
-function getDebtWithExtraPayment(
-  principal: number,
-  annualRatePct: number,
-  monthlyPayment: number,
-  extraAmount: number,
-  frequency: 'perYear' | 'perMonth'
-) {
-  const monthlyRate = annualRatePct / 100 / 12;
-  let balance = principal;
-  let month = 0;
-  let totalInterest = 0;
-  const extraPerMonth = frequency === 'perMonth' ? extraAmount : 0;
-  const extraPerYear = frequency === 'perYear' ? extraAmount : 0;
-  while (balance > 0.01 && month < 600) {
-    const interest = balance * monthlyRate;
-    totalInterest += interest;
-    let principalPayment = monthlyPayment - interest;
-    if (principalPayment >= balance) {
-      principalPayment = balance;
-      balance = 0;
-    } else {
-      balance -= principalPayment;
-    }
-    if (frequency === 'perMonth' && extraPerMonth > 0 && balance > 0.01) {
-      const extra = Math.min(extraPerMonth, balance);
-      balance -= extra;
-    }
-    month++;
-    if (frequency === 'perYear' && month > 0 && month % 12 === 0 && balance > 0.01 && extraPerYear > 0) {
-      const extra = Math.min(extraPerYear, balance);
-      balance -= extra;
-    }
-  }
-  return { monthsToPayoff: month, totalInterest };
-}
-
-// --- Investment Projection helpers ---
-function getProjectionData(
-  monthlyContribution: number,
-  annualGrowthPct: number,
-  maxYears: number,
-  startingBalance: number = 0
-): { year: number; balance: number }[] {
-  const monthlyRate = annualGrowthPct / 100 / 12;
-  const data: { year: number; balance: number }[] = [{ year: 0, balance: startingBalance }];
-  let balance = startingBalance;
-  for (let y = 1; y <= maxYears; y++) {
-    for (let m = 0; m < 12; m++) {
-      balance += monthlyContribution;
-      balance *= 1 + monthlyRate;
-    }
-    data.push({ year: y, balance: Math.round(balance * 100) / 100 });
-  }
-  return data;
-}
-
-function getBalanceAtYear(
-  monthlyContribution: number,
-  annualGrowthPct: number,
-  years: number,
-  startingBalance: number = 0
-): number {
-  const data = getProjectionData(monthlyContribution, annualGrowthPct, years, startingBalance);
-  return data[data.length - 1]?.balance ?? 0;
-}
-
-/**
- * Solve for monthly contribution C so that after `years` with startingBalance and growth we reach target.
- * FV = startingBalance*(1+r)^n + C * (((1+r)^n - 1) / r). Returns null if invalid or already reachable.
- */
-function getMonthlyContributionForGoal(
-  target: number,
-  annualGrowthPct: number,
-  years: number,
-  startingBalance: number = 0
-): number | null {
-  if (target <= 0 || years <= 0) return null;
-  if (target < startingBalance) return null;
-  const n = Math.round(years * 12);
-  if (n <= 0) return null;
-  const r = annualGrowthPct / 100 / 12;
-  const growthFactor = Math.pow(1 + r, n);
-  const futureStart = startingBalance * growthFactor;
-  if (target <= futureStart) return null;
-  let contribution: number;
-  if (r <= 0) {
-    contribution = (target - startingBalance) / n;
-  } else {
-    const annuityFactor = (growthFactor - 1) / r;
-    contribution = (target - futureStart) / annuityFactor;
-  }
-  return contribution < 0 ? null : Math.round(contribution * 100) / 100;
-}
+import {
+  DEFAULT_RETIREMENT_AGE,
+  getDebtResults,
+  getDebtBalanceOverTime,
+  getDebtBalanceOverTimeWithExtra,
+  getDebtWithExtraPayment,
+  getProjectionData,
+  getBalanceAtYear,
+  getMonthlyContributionForGoal,
+  type DebtScenarioInput,
+  type InvestmentScenarioInput,
+  type ScenarioInput,
+  type PlannerDebt,
+} from '@shared/financialCalculators';
+
+type ToolTab = 'debt' | 'planner' | 'mortgage' | 'budget' | 'investment' | 'retirement';
 
 export default function Tools() {
   const { data: authData, isLoading: authLoading } = useQuery({
@@ -219,7 +73,28 @@ export default function Tools() {
   const [invStartingBalance, setInvStartingBalance] = useState('');
   const [invGoalTarget, setInvGoalTarget] = useState('');
   const [retirementAge, setRetirementAge] = useState(String(DEFAULT_RETIREMENT_AGE));
-  const [timeRange, setTimeRange] = useState<'5' | '10' | '15' | '20' | '25' | '30' | 'retirement'>('retirement');
+  // Number of years as a string, or 'retirement'; loaded scenarios may use any number of years
+  const [timeRange, setTimeRange] = useState<string>('retirement');
+  const [monteCarloEnabled, setMonteCarloEnabled] = useState(false);
+  const [monteCarloOptions, setMonteCarloOptions] = useState<MonteCarloOptions>(DEFAULT_MONTE_CARLO_OPTIONS);
+  // Read-only scenario opened from a share link (/tools?scenario=<token>)
+  const sharedToken = useMemo(() => new URLSearchParams(window.location.search).get('scenario'), []);
+  // Challenge whose calculator preset (or budget assumptions) prefill the tools (/tools?challenge=<dateKey>)
+  const challengeDateKey = useMemo(() => new URLSearchParams(window.location.search).get('challenge'), []);
+  // The challenge's tab is picked once it has loaded, see the preset effect below
+  const [activeTab, setActiveTab] = useState<ToolTab>('debt');
+  const [plannerPreset, setPlannerPreset] = useState<{ key: string; debts: PlannerDebt[]; budget: number } | null>(null);
+  const { data: presetChallenge } = useQuery({
+    queryKey: ['challenge', challengeDateKey],
+    queryFn: () => getChallengeByDateKey(challengeDateKey!),
+    enabled: !!challengeDateKey,
+  });
+  const { data: sharedScenario, error: sharedScenarioError } = useQuery({
+    queryKey: ['shared-scenario', sharedToken],
+    queryFn: () => getSharedScenario(sharedToken!),
+    enabled: !!sharedToken,
+    retry: false,
+  });
 
   const debtPrincipal = parseFloat(debtAmount) || 0;
   const debtRateNum = parseFloat(debtRate) || 0;
@@ -312,15 +187,117 @@ export default function Tools() {
     return getProjectionData(invMonthlyNum, invGrowthNum, invMaxYears, invStartingBalanceNum);
   }, [invMonthlyNum, invGrowthNum, invMaxYears, invStartingBalanceNum]);
 
+  const monteCarloRequest = useMemo((): MonteCarloRequest | null => {
+    if (!monteCarloEnabled || invMaxYears <= 0 || invMaxYears > 80) return null;
+    // Goal mode simulates the contribution it solved for and reports how often the goal is reached
+    if (invMode === 'goal' && (invGoalTargetNum <= 0 || invGoalResult === null || invGoalResult === 'target_below_start')) return null;
+    return {
+      monthlyContribution: invMode === 'goal' ? (typeof invGoalResult === 'number' ? invGoalResult : 0) : invMonthlyNum,
+      startingBalance: invStartingBalanceNum,
+      years: invMaxYears,
+      returnModel: monteCarloOptions.returnModel,
+      meanReturnPct: Math.min(50, invGrowthNum),
+      volatilityPct: Math.min(100, Math.max(0, parseFloat(monteCarloOptions.volatilityPct) || 0)),
+      simulations: monteCarloOptions.simulations,
+      seed: monteCarloOptions.seed,
+      goalTarget: invMode === 'goal' && invGoalTargetNum > 0 ? invGoalTargetNum : undefined,
+    };
+  }, [monteCarloEnabled, invMaxYears, invMonthlyNum, invStartingBalanceNum, invGrowthNum, invMode, invGoalTargetNum, invGoalResult, monteCarloOptions]);
+
+  const monteCarlo = useMonteCarlo(monteCarloRequest);
+
+  // Deterministic balance plus, in Monte Carlo mode, the 10th–90th percentile band and median
+  const projectionChartData = useMemo(() => {
+    const bands = monteCarloEnabled ? monteCarlo.result?.bands : undefined;
+    if (!bands) return projectionData;
+    return projectionData.map((point, i) => ({
+      ...point,
+      band: bands[i] ? [bands[i].p10, bands[i].p90] : undefined,
+      median: bands[i]?.p50,
+    }));
+  }, [projectionData, monteCarloEnabled, monteCarlo.result]);
+
+  const debtScenarioInput = useMemo((): DebtScenarioInput | null => {
+    if (!debtResults || debtPrincipal <= 0 || debtYearsNum <= 0) return null;
+    return {
+      kind: 'debt',
+      principal: debtPrincipal,
+      annualRatePct: debtRateNum,
+      termYears: debtYearsNum,
+      extraAmount: debtExtraResults ? debtExtraAmountForChart : 0,
+      extraFrequency: debtExtraFrequency,
+    };
+  }, [debtResults, debtPrincipal, debtRateNum, debtYearsNum, debtExtraResults, debtExtraAmountForChart, debtExtraFrequency]);
+
+  const investmentScenarioInput = useMemo((): InvestmentScenarioInput | null => {
+    if (invMaxYears <= 0) return null;
+    return {
+      kind: 'investment',
+      mode: invMode,
+      monthlyContribution: invMonthlyNum,
+      annualGrowthPct: invGrowthNum,
+      years: invMaxYears,
+      startingBalance: invStartingBalanceNum,
+      goalTarget: invMode === 'goal' && invGoalTargetNum > 0 ? invGoalTargetNum : undefined,
+    };
+  }, [invMaxYears, invMode, invMonthlyNum, invGrowthNum, invStartingBalanceNum, invGoalTargetNum]);
+
+  const loadScenario = (input: ScenarioInput) => {
+    if (input.kind === 'debt') {
+      setDebtAmount(String(input.principal));
+      setDebtRate(String(input.annualRatePct));
+      setDebtYears(String(input.termYears));
+      setDebtExtraAmount(input.extraAmount > 0 ? String(input.extraAmount) : '');
+      setDebtExtraFrequency(input.extraFrequency);
+      setActiveTab('debt');
+    } else {
+      setInvMode(input.mode);
+      setInvMonthly(String(input.monthlyContribution));
+      setInvGrowth(String(input.annualGrowthPct));
+      setInvStartingBalance(input.startingBalance > 0 ? String(input.startingBalance) : '');
+      setInvGoalTarget(input.goalTarget ? String(input.goalTarget) : '');
+      setTimeRange(input.years === yearsUntilRetirement ? 'retirement' : String(input.years));
+      setActiveTab('investment');
+    }
+  };
+
+  // Budget numbers only prefill the planner when the challenge has no calculator preset of its own
+  const budgetAssumptions = presetChallenge?.challenge.assumptionValues;
+  const budgetChallengeDateKey = presetChallenge && !presetChallenge.challenge.calculatorPreset
+    && budgetAssumptions && Object.keys(budgetAssumptions).length > 0
+    ? challengeDateKey
+    : null;
+
+  // Open the calculator a challenge's "See the math" panel used, or the budget planner for budget numbers
+  const presetChallengeId = presetChallenge?.challenge.id;
+  useEffect(() => {
+    if (!presetChallenge) return;
+    const preset = presetChallenge.challenge.calculatorPreset;
+    if (!preset) {
+      if (budgetChallengeDateKey) setActiveTab('budget');
+      return;
+    }
+    if (preset.kind === 'debtVsInvest') {
+      setPlannerPreset({
+        key: presetChallenge.challenge.id,
+        debts: [{ name: presetChallenge.challenge.title, balance: preset.debtBalance, aprPct: preset.debtAprPct, minimumPayment: preset.minimumPayment }],
+        budget: preset.monthlyBudget,
+      });
+      setActiveTab('planner');
+    } else {
+      loadScenario(preset);
+    }
+  }, [presetChallengeId]);
+
   const showRetirementOption = yearsUntilRetirement !== null && yearsUntilRetirement > 0;
-  const timeRangeOptions: { value: typeof timeRange; label: string }[] = [
+  const timeRangeOptions: { value: string; label: string }[] = [
     { value: '5', label: '5 years' },
     { value: '10', label: '10 years' },
     { value: '15', label: '15 years' },
     { value: '20', label: '20 years' },
     { value: '25', label: '25 years' },
     { value: '30', label: '30 years' },
-    ...(showRetirementOption ? [{ value: 'retirement' as const, label: `Until retirement (${yearsUntilRetirement} yrs)` }] : []),
+    ...(showRetirementOption ? [{ value: 'retirement', label: `Until retirement (${yearsUntilRetirement} yrs)` }] : []),
   ];
 
   const milestoneYears = useMemo(() => {
@@ -340,6 +317,28 @@ export default function Tools() {
     }));
   }, [milestoneYears, invMonthlyNum, invGrowthNum, invStartingBalanceNum, age]);
 
+  const projectionModeToggle = (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-slate-600">Projection:</span>
+      <div className="flex rounded-lg border border-slate-200 overflow-hidden">
+        <button
+          type="button"
+          onClick={() => setMonteCarloEnabled(false)}
+          className={`px-3 py-2 text-sm font-medium touch-manipulation ${!monteCarloEnabled ? 'bg-emerald-600 text-white' : 'bg-slate-50 text-slate-700 hover:bg-slate-100'}`}
+        >
+          Steady return
+        </button>
+        <button
+          type="button"
+          onClick={() => setMonteCarloEnabled(true)}
+          className={`px-3 py-2 text-sm font-medium touch-manipulation ${monteCarloEnabled ? 'bg-emerald-600 text-white' : 'bg-slate-50 text-slate-700 hover:bg-slate-100'}`}
+        >
+          Monte Carlo
+        </button>
+      </div>
+    </div>
+  );
+
   const formatCurrency = (n: number) =>
     new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(n);
 
@@ -368,6 +367,30 @@ export default function Tools() {
           </p>
         </div>
 
+        {sharedToken && (sharedScenario || sharedScenarioError) && (
+          <Card className="mb-6 border-emerald-200">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Link2 className="w-5 h-5" />
+                {sharedScenario ? `Shared scenario: ${sharedScenario.name}` : 'Shared scenario'}
+              </CardTitle>
+              {sharedScenarioError && (
+                <CardDescription>{(sharedScenarioError as Error).message}</CardDescription>
+              )}
+            </CardHeader>
+            {sharedScenario && (
+              <CardContent className="space-y-4">
+                <ScenarioComparisonTable scenarios={[sharedScenario]} />
+                {isAuthenticated && (
+                  <Button variant="outline" onClick={() => loadScenario(sharedScenario.inputsJson)}>
+                    Load into calculator
+                  </Button>
+                )}
+              </CardContent>
+            )}
+          </Card>
+        )}
+
         {!isAuthenticated ? (
           <Card className="border-2 border-dashed border-emerald-200 bg-emerald-50/50">
             <CardContent className="p-6 sm:p-8 text-center">
@@ -376,25 +399,41 @@ export default function Tools() {
               </div>
               <h2 className="text-xl font-display font-bold text-slate-900 mb-2">Sign in to use Tools</h2>
               <p className="text-slate-600 mb-6 max-w-md mx-auto text-sm sm:text-base">
-                Sign in to use the Debt Calculator and Investment Projection. We use your profile age to show projections until retirement.
+                Sign in to use the debt, mortgage, budget, investment and retirement calculators. We use your profile age to show projections until retirement.
               </p>
               <div className="flex justify-center">
                 <UserAuth />
               </div>
-              <p className="text-xs text-slate-500 mt-4">We don’t store your numbers. Everything runs in your browser.</p>
+              <p className="text-xs text-slate-500 mt-4">Your numbers are only stored if you save a scenario.</p>
             </CardContent>
           </Card>
         ) : (
-          <Tabs defaultValue="debt" className="w-full">
-            <TabsList className="grid w-full grid-cols-2 h-auto gap-1 p-1 sm:flex sm:flex-row">
+          <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as ToolTab)} className="w-full">
+            <TabsList className="grid w-full grid-cols-1 h-auto gap-1 p-1 sm:flex sm:flex-row">
               <TabsTrigger value="debt" className="flex-1 py-2.5 sm:py-2 text-sm flex items-center justify-center gap-2">
                 <Calculator className="w-4 h-4 shrink-0" />
                 Debt Calculator
               </TabsTrigger>
+              <TabsTrigger value="planner" className="flex-1 py-2.5 sm:py-2 text-sm flex items-center justify-center gap-2">
+                <ListOrdered className="w-4 h-4 shrink-0" />
+                Payoff Planner
+              </TabsTrigger>
+              <TabsTrigger value="mortgage" className="flex-1 py-2.5 sm:py-2 text-sm flex items-center justify-center gap-2">
+                <Home className="w-4 h-4 shrink-0" />
+                Mortgage
+              </TabsTrigger>
+              <TabsTrigger value="budget" className="flex-1 py-2.5 sm:py-2 text-sm flex items-center justify-center gap-2">
+                <Wallet className="w-4 h-4 shrink-0" />
+                Budget
+              </TabsTrigger>
               <TabsTrigger value="investment" className="flex-1 py-2.5 sm:py-2 text-sm flex items-center justify-center gap-2">
                 <TrendingUp className="w-4 h-4 shrink-0" />
                 Investment Projection
               </TabsTrigger>
+              <TabsTrigger value="retirement" className="flex-1 py-2.5 sm:py-2 text-sm flex items-center justify-center gap-2">
+                <PiggyBank className="w-4 h-4 shrink-0" />
+                Retirement
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="debt" className="mt-4 sm:mt-6 space-y-4">
@@ -557,6 +596,25 @@ export default function Tools() {
                   )}
                 </CardContent>
               </Card>
+
+              <SavedScenarios kind="debt" currentInput={debtScenarioInput} onLoad={loadScenario} />
+            </TabsContent>
+
+            <TabsContent value="planner" className="mt-4 sm:mt-6 space-y-4">
+              <DebtPayoffPlanner
+                key={plannerPreset?.key ?? 'default'}
+                initialDebts={plannerPreset?.debts}
+                initialBudget={plannerPreset?.budget}
+              />
+            </TabsContent>
+
+            <TabsContent value="mortgage" className="mt-4 sm:mt-6 space-y-4">
+              <MortgageCalculator />
+              <RentVsBuy />
+            </TabsContent>
+
+            <TabsContent value="budget" className="mt-4 sm:mt-6 space-y-4">
+              <BudgetPlanner key={budgetChallengeDateKey ?? 'default'} initialChallengeDateKey={budgetChallengeDateKey} />
             </TabsContent>
 
             <TabsContent value="investment" className="mt-4 sm:mt-6 space-y-4">
@@ -676,6 +734,21 @@ export default function Tools() {
                           <p className="text-xs text-slate-500 italic">Projections are illustrative. Growth is not guaranteed.</p>
                         </div>
                       )}
+                      {invGoalTargetNum > 0 && invMaxYears > 0 && invGoalResult !== 'target_below_start' && (
+                        <>
+                          {projectionModeToggle}
+                          {monteCarloEnabled && (
+                            <MonteCarloSettings
+                              options={monteCarloOptions}
+                              onChange={setMonteCarloOptions}
+                              result={monteCarlo.result}
+                              isRunning={monteCarlo.isRunning}
+                              error={monteCarlo.error}
+                              goalTarget={invGoalTargetNum}
+                            />
+                          )}
+                        </>
+                      )}
                     </>
                   )}
 
@@ -758,23 +831,45 @@ export default function Tools() {
 
                   {invMaxYears > 0 && invMonthlyNum >= 0 && invGrowthNum >= 0 && (
                     <>
+                      {projectionModeToggle}
+                      {monteCarloEnabled && (
+                        <MonteCarloSettings
+                          options={monteCarloOptions}
+                          onChange={setMonteCarloOptions}
+                          result={monteCarlo.result}
+                          isRunning={monteCarlo.isRunning}
+                          error={monteCarlo.error}
+                          goalTarget={null}
+                        />
+                      )}
+
                       <div className="rounded-xl border border-slate-200 overflow-hidden bg-white">
                         <div className="p-3 border-b border-slate-200">
                           <span className="text-sm font-medium text-slate-700">Projected balance over time</span>
                         </div>
                         <div className="h-[240px] sm:h-[280px] w-full">
                           <ResponsiveContainer width="100%" height="100%">
-                            <LineChart data={projectionData} margin={{ top: 8, right: 8, left: 8, bottom: 8 }}>
+                            <ComposedChart data={projectionChartData} margin={{ top: 8, right: 8, left: 8, bottom: 8 }}>
                               <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
                               <XAxis dataKey="year" tick={{ fontSize: 12 }} stroke="#64748b" />
                               <YAxis tickFormatter={(v) => `$${v >= 1000 ? `${(v / 1000).toFixed(0)}k` : v}`} tick={{ fontSize: 12 }} stroke="#64748b" />
                               <Tooltip
-                                formatter={(value: number) => [formatCurrency(value), 'Balance']}
+                                formatter={(value: number | number[], name: string) => [
+                                  Array.isArray(value) ? `${formatCurrency(value[0])} – ${formatCurrency(value[1])}` : formatCurrency(value),
+                                  name,
+                                ]}
                                 labelFormatter={(label) => (age !== null ? `Year ${label} · Age ${age + Number(label)}` : `Year ${label}`)}
                                 contentStyle={{ borderRadius: 8, border: '1px solid #e2e8f0' }}
                               />
-                              <Line type="monotone" dataKey="balance" stroke="#10b981" strokeWidth={2} dot={false} name="Balance" />
-                            </LineChart>
+                              {monteCarloEnabled && monteCarlo.result && (
+                                <>
+                                  <Legend />
+                                  <Area type="monotone" dataKey="band" stroke="none" fill="#a7f3d0" fillOpacity={0.6} name="10th–90th percentile" />
+                                  <Line type="monotone" dataKey="median" stroke="#0d9488" strokeWidth={2} strokeDasharray="4 4" dot={false} name="Median" />
+                                </>
+                              )}
+                              <Line type="monotone" dataKey="balance" stroke="#10b981" strokeWidth={2} dot={false} name={monteCarloEnabled ? 'Steady return' : 'Balance'} />
+                            </ComposedChart>
                           </ResponsiveContainer>
                         </div>
                       </div>
@@ -814,6 +909,17 @@ export default function Tools() {
                   )}
                 </CardContent>
               </Card>
+
+              <SavedScenarios kind="investment" currentInput={investmentScenarioInput} onLoad={loadScenario} />
+            </TabsContent>
+
+            <TabsContent value="retirement" className="mt-4 sm:mt-6 space-y-4">
+              {!user?.birthday && (
+                <div className="rounded-xl bg-amber-50 border border-amber-200 p-4 text-sm text-amber-800">
+                  Add your birthday and income bracket in Profile to prefill your age and salary.
+                </div>
+              )}
+              <RetirementProjection age={age} incomeBracket={user?.incomeBracket} />
             </TabsContent>
           </Tabs>
         )}
@@ -0,0 +1,11 @@
+// Runs Monte Carlo projections off the main thread so the Tools page stays responsive.
+import { runMonteCarlo, type MonteCarloRequest } from '@shared/monteCarlo';
+
+self.onmessage = (event: MessageEvent<{ id: number; request: MonteCarloRequest }>) => {
+  const { id, request } = event.data;
+  try {
+    self.postMessage({ id, result: runMonteCarlo(request) });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : 'Simulation failed' });
+  }
+};
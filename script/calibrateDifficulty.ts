@@ -0,0 +1,69 @@
+// Script to recalibrate each challenge's community difficulty from players' best attempts
+// Usage: tsx script/calibrateDifficulty.ts [--dry-run]
+// Meant to run on a schedule (e.g. nightly cron); --dry-run only reports what would change
+
+// Load environment variables from .env file BEFORE importing db
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Simple .env parser - must run before any db imports
+try {
+  const envPath = join(__dirname, '..', '.env');
+  const envFile = readFileSync(envPath, 'utf-8');
+  envFile.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (trimmed && !trimmed.startsWith('#')) {
+      const [key, ...valueParts] = trimmed.split('=');
+      if (key && valueParts.length > 0) {
+        const value = valueParts.join('=').trim().replace(/^["']|["']$/g, '');
+        process.env[key.trim()] = value;
+      }
+    }
+  });
+  console.log('✅ Loaded .env file');
+} catch (error) {
+  console.warn('⚠️  Could not load .env file, using environment variables');
+}
+
+// Now dynamically import modules that depend on db
+const { pool } = await import('../server/db.js');
+const { calibrateDifficulty } = await import('../server/services/difficultyCalibrationService.js');
+
+const dryRun = process.argv.includes('--dry-run');
+
+async function run() {
+  console.log(`🔄 Calibrating community difficulty${dryRun ? ' (dry run)' : ''}...\n`);
+
+  try {
+    const report = await calibrateDifficulty({ dryRun });
+
+    for (const challenge of report.challenges) {
+      if (challenge.community === challenge.previous) continue;
+      console.log(
+        `${challenge.dateKey} - ${challenge.title}: ${challenge.previous ?? '–'} → ${challenge.community ?? '–'}` +
+        ` (authored ${challenge.authored}, ${challenge.sampleSize} players, mean ${challenge.meanScore ?? '–'}, adjusted ${challenge.adjustedScore ?? '–'})`
+      );
+    }
+
+    console.log(`\nChecked ${report.checkedChallenges} challenges, ${report.calibratedChallenges} with at least ${report.minSample} players, ${report.changedChallenges} changed`);
+    if (dryRun) {
+      console.log('📝 Run without --dry-run to save the results\n');
+    } else {
+      console.log(`✅ Saved community difficulty for ${report.challenges.length} challenges\n`);
+    }
+  } catch (error) {
+    console.error('❌ Difficulty calibration failed:', error);
+    throw error;
+  } finally {
+    await pool.end();
+  }
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,15 @@
+-- Migration: Add calculator_scenarios table for saved Tools scenarios
+
+CREATE TABLE IF NOT EXISTS calculator_scenarios (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  kind VARCHAR(30) NOT NULL,
+  inputs_json JSONB NOT NULL,
+  results_json JSONB NOT NULL,
+  share_token VARCHAR(64) UNIQUE,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS calculator_scenarios_user_idx ON calculator_scenarios(user_id);
@@ -0,0 +1,5 @@
+-- Migration: Add assumption_values_json field to daily_challenges table
+-- Structured numbers (income, expenses, emergency fund) behind a challenge's assumptions text
+
+ALTER TABLE daily_challenges 
+ADD COLUMN IF NOT EXISTS assumption_values_json JSONB;
@@ -0,0 +1,5 @@
+-- Migration: Add calculator_preset_json field to daily_challenges table
+-- Optional calculator inputs (debt payoff, investment projection, debt vs. invest) for the results "See the math" panel
+
+ALTER TABLE daily_challenges 
+ADD COLUMN IF NOT EXISTS calculator_preset_json JSONB;
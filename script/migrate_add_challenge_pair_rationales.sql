@@ -0,0 +1,11 @@
+-- Migration: Add challenge_pair_rationales table for admin-authored pairwise explanations
+
+CREATE TABLE IF NOT EXISTS challenge_pair_rationales (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+  challenge_id VARCHAR(255) NOT NULL REFERENCES daily_challenges(id) ON DELETE CASCADE,
+  better_index INTEGER NOT NULL,
+  worse_index INTEGER NOT NULL,
+  rationale TEXT NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE (challenge_id, better_index, worse_index)
+);
@@ -0,0 +1,14 @@
+-- Migration: Add challenge_revisions table for challenge edit history and revert
+
+CREATE TABLE IF NOT EXISTS challenge_revisions (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+  challenge_id VARCHAR(255) NOT NULL REFERENCES daily_challenges(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  action VARCHAR(20) NOT NULL,
+  snapshot_json JSONB NOT NULL,
+  edited_by VARCHAR(100),
+  editor_session VARCHAR(16),
+  reverted_from_id VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE (challenge_id, revision_number)
+);
@@ -0,0 +1,8 @@
+-- Migration: Add community difficulty fields to daily_challenges table
+-- Filled by script/calibrateDifficulty.ts (or the admin Maintenance tab) from players' best attempts
+
+ALTER TABLE daily_challenges 
+ADD COLUMN IF NOT EXISTS community_difficulty INTEGER,
+ADD COLUMN IF NOT EXISTS community_rating INTEGER,
+ADD COLUMN IF NOT EXISTS community_sample_size INTEGER,
+ADD COLUMN IF NOT EXISTS community_difficulty_updated_at TIMESTAMP;
@@ -0,0 +1,5 @@
+-- Migration: Add grade_thresholds_json field to daily_challenges table
+-- Lets a challenge override the global GRADE_THRESHOLDS feature flag config
+
+ALTER TABLE daily_challenges 
+ADD COLUMN IF NOT EXISTS grade_thresholds_json JSONB;
@@ -0,0 +1,15 @@
+-- Migration: Add option_count field to daily_challenges table
+-- Challenges can now have between 3 and 6 options instead of a fixed 4
+
+ALTER TABLE daily_challenges 
+ADD COLUMN IF NOT EXISTS option_count INTEGER DEFAULT 4 NOT NULL;
+
+-- Backfill option_count from the options each challenge actually has
+UPDATE daily_challenges dc
+SET option_count = option_totals.total
+FROM (
+  SELECT challenge_id, COUNT(*) AS total
+  FROM challenge_options
+  GROUP BY challenge_id
+) option_totals
+WHERE dc.id = option_totals.challenge_id;
@@ -0,0 +1,24 @@
+-- Migration: Record which option texts each pair rationale was written for
+-- Rationales are keyed by orderingIndex; after options are reordered or replaced, a rationale
+-- whose texts no longer match the options at its indexes is flagged in the editor and not shown
+
+ALTER TABLE challenge_pair_rationales 
+ADD COLUMN IF NOT EXISTS better_option_text TEXT,
+ADD COLUMN IF NOT EXISTS worse_option_text TEXT;
+
+-- Existing rationales are assumed to match the options as they are now
+UPDATE challenge_pair_rationales r
+SET better_option_text = better.option_text,
+    worse_option_text = worse.option_text
+FROM challenge_options better, challenge_options worse
+WHERE r.better_option_text IS NULL
+  AND better.challenge_id = r.challenge_id AND better.ordering_index = r.better_index
+  AND worse.challenge_id = r.challenge_id AND worse.ordering_index = r.worse_index;
+
+-- Rationales for option indexes that no longer exist can't be matched to anything
+DELETE FROM challenge_pair_rationales
+WHERE better_option_text IS NULL OR worse_option_text IS NULL;
+
+ALTER TABLE challenge_pair_rationales 
+ALTER COLUMN better_option_text SET NOT NULL,
+ALTER COLUMN worse_option_text SET NOT NULL;
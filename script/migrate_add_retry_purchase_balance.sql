@@ -0,0 +1,30 @@
+-- Migration: Move purchased retries out of the weekly retry_wallets rows
+-- Purchased retries now live in retry_purchases and don't expire at the week rollover;
+-- the unique (user_id, checkout_session_id) makes crediting a checkout session idempotent
+
+CREATE TABLE IF NOT EXISTS retry_purchases (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR(255) NOT NULL REFERENCES users(id),
+  checkout_session_id VARCHAR(255) NOT NULL,
+  retries_granted INTEGER NOT NULL,
+  retries_remaining INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  UNIQUE (user_id, checkout_session_id)
+);
+
+-- Sessions already credited to a weekly wallet: record them (nothing left to spend) so a
+-- re-delivered webhook isn't credited again
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'retry_wallets' AND column_name = 'purchased_session_ids_json'
+  ) THEN
+    INSERT INTO retry_purchases (user_id, checkout_session_id, retries_granted, retries_remaining)
+    SELECT w.user_id, s.session_id, 0, 0
+    FROM retry_wallets w, jsonb_array_elements_text(w.purchased_session_ids_json) AS s(session_id)
+    ON CONFLICT (user_id, checkout_session_id) DO NOTHING;
+
+    ALTER TABLE retry_wallets DROP COLUMN purchased_session_ids_json;
+  END IF;
+END $$;
@@ -0,0 +1,5 @@
+-- Migration: Track Stripe checkout sessions credited to retry_wallets
+-- Prevents a re-delivered webhook from granting the same extra retries twice
+
+ALTER TABLE retry_wallets 
+ADD COLUMN IF NOT EXISTS purchased_session_ids_json JSONB DEFAULT '[]' NOT NULL;
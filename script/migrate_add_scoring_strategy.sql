@@ -0,0 +1,5 @@
+-- Migration: Add scoring_strategy field to daily_challenges table
+-- Existing challenges keep the original distance-based scoring
+
+ALTER TABLE daily_challenges 
+ADD COLUMN IF NOT EXISTS scoring_strategy VARCHAR(40) DEFAULT 'distance' NOT NULL;
@@ -0,0 +1,8 @@
+-- Migration: Add streak freeze fields to retry_wallets table
+-- Each weekly wallet now also holds streak freezes and the missed days they bridged
+
+ALTER TABLE retry_wallets 
+ADD COLUMN IF NOT EXISTS streak_freezes_remaining INTEGER DEFAULT 1 NOT NULL;
+
+ALTER TABLE retry_wallets 
+ADD COLUMN IF NOT EXISTS frozen_date_keys_json JSONB DEFAULT '[]' NOT NULL;
@@ -0,0 +1,17 @@
+-- Migration: Add user_goals table for persisted, server-tracked goals
+
+CREATE TABLE IF NOT EXISTS user_goals (
+  id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  goal_type VARCHAR(40) NOT NULL,
+  title VARCHAR(200) NOT NULL,
+  target_value INTEGER NOT NULL,
+  window_days INTEGER,
+  category VARCHAR(100),
+  current_value INTEGER DEFAULT 0 NOT NULL,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS user_goals_user_idx ON user_goals(user_id);
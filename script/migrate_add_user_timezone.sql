@@ -0,0 +1,5 @@
+-- Migration: Add per-user timezone for the daily reset
+-- NULL means the user hasn't reported one yet and the server default applies
+
+ALTER TABLE users 
+ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
@@ -0,0 +1,73 @@
+// Script to check aggregates against best attempts and optionally repair them
+// Usage: tsx script/rebuildAggregates.ts [--repair] [--challenge=<challengeId>]
+// Without --repair it only reports mismatches
+
+// Load environment variables from .env file BEFORE importing db
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Simple .env parser - must run before any db imports
+try {
+  const envPath = join(__dirname, '..', '.env');
+  const envFile = readFileSync(envPath, 'utf-8');
+  envFile.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (trimmed && !trimmed.startsWith('#')) {
+      const [key, ...valueParts] = trimmed.split('=');
+      if (key && valueParts.length > 0) {
+        const value = valueParts.join('=').trim().replace(/^["']|["']$/g, '');
+        process.env[key.trim()] = value;
+      }
+    }
+  });
+  console.log('✅ Loaded .env file');
+} catch (error) {
+  console.warn('⚠️  Could not load .env file, using environment variables');
+}
+
+// Now dynamically import modules that depend on db
+const { pool } = await import('../server/db.js');
+const { checkAggregateConsistency } = await import('../server/services/aggregateConsistencyService.js');
+
+const repair = process.argv.includes('--repair');
+const challengeArg = process.argv.find(arg => arg.startsWith('--challenge='));
+const challengeId = challengeArg ? challengeArg.split('=')[1] : undefined;
+
+async function run() {
+  console.log(`🔄 ${repair ? 'Repairing' : 'Checking'} aggregates${challengeId ? ` for challenge ${challengeId}` : ''}...\n`);
+
+  try {
+    const report = await checkAggregateConsistency({ challengeId, repair });
+
+    for (const challenge of report.challenges) {
+      console.log(`❌ ${challenge.dateKey} - ${challenge.title} (${challenge.challengeId})`);
+      if (challenge.missingRow) {
+        console.log('   Missing aggregates row');
+      }
+      for (const mismatch of challenge.mismatches) {
+        console.log(`   ${mismatch.field}: stored ${JSON.stringify(mismatch.stored)} → expected ${JSON.stringify(mismatch.expected)}`);
+      }
+    }
+
+    console.log(`\nChecked ${report.checkedChallenges} challenges, ${report.inconsistentChallenges} inconsistent`);
+    if (repair) {
+      console.log(`✅ Repaired ${report.repairedChallenges} aggregates rows\n`);
+    } else if (report.inconsistentChallenges > 0) {
+      console.log('📝 Run with --repair to rewrite the inconsistent rows\n');
+    }
+  } catch (error) {
+    console.error('❌ Aggregate check failed:', error);
+    throw error;
+  } finally {
+    await pool.end();
+  }
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
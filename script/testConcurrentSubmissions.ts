@@ -0,0 +1,131 @@
+// Concurrency check for submitAttempt against a LOCAL Postgres database
+// Fires many parallel submissions (several per user) at one throwaway challenge,
+// then asserts aggregates, best attempts and streaks are exact. Cleans up after itself.
+// Usage: DATABASE_URL=postgres://localhost/moneyrank_test tsx script/testConcurrentSubmissions.ts [users] [attemptsPerUser]
+
+// Refuse to touch anything but a local database - this script writes and deletes rows
+const targetUrl = process.env.DATABASE_URL || '';
+if (!/@?(localhost|127\.0\.0\.1)(:\d+)?\//.test(targetUrl)) {
+  console.error('❌ DATABASE_URL must point at a local Postgres (localhost/127.0.0.1)');
+  process.exit(1);
+}
+delete process.env.SUPABASE_DATABASE_URL;
+
+const { db, pool } = await import('../server/db.js');
+const { users, attempts, streaks, userBadges, dailyChallenges, retryWallets, retryPurchases } = await import('@shared/schema');
+const { storage } = await import('../server/storage.js');
+const { submitAttempt } = await import('../server/services/attemptService.js');
+const { checkAggregateConsistency } = await import('../server/services/aggregateConsistencyService.js');
+const { WEEKLY_RETRIES } = await import('../server/services/walletService.js');
+const { eq, and, inArray } = await import('drizzle-orm');
+
+// The first attempt is free and each later one spends a retry; by default use only the weekly allowance
+const ALLOWED_ATTEMPTS = 1 + WEEKLY_RETRIES;
+const USER_COUNT = parseInt(process.argv[2] || '25');
+const ATTEMPTS_PER_USER = parseInt(process.argv[3] || String(ALLOWED_ATTEMPTS));
+
+function shuffle<T>(items: T[]): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+  console.log(`  ✅ ${message}`);
+}
+
+async function run() {
+  const dateKey = `2099-${String(1 + Math.floor(Math.random() * 12)).padStart(2, '0')}-${String(1 + Math.floor(Math.random() * 28)).padStart(2, '0')}`;
+  console.log(`🔄 Creating test challenge ${dateKey} with ${USER_COUNT} users × ${ATTEMPTS_PER_USER} attempts\n`);
+
+  const challenge = await storage.createChallenge(
+    {
+      dateKey,
+      title: 'Concurrency test challenge',
+      scenarioText: 'Concurrency test',
+      assumptions: 'None',
+      category: 'Budgeting',
+      difficulty: 1,
+      isPublished: false,
+    },
+    [1, 2, 3, 4].map(index => ({
+      optionText: `Option ${index}`,
+      tierLabel: index === 1 ? 'Optimal' : index === 4 ? 'Risky' : 'Reasonable',
+      explanationShort: `Explanation ${index}`,
+      orderingIndex: index,
+    }))
+  );
+  const testUsers = await db.insert(users).values(
+    Array.from({ length: USER_COUNT }, () => ({}))
+  ).returning();
+  const userIds = testUsers.map(u => u.id);
+
+  try {
+    // More attempts than the weekly allowance need purchased retries
+    const extraRetries = ATTEMPTS_PER_USER - ALLOWED_ATTEMPTS;
+    if (extraRetries > 0) {
+      await db.insert(retryPurchases).values(userIds.map(userId => ({
+        userId,
+        checkoutSessionId: `concurrency-test-${userId}`,
+        retriesGranted: extraRetries,
+        retriesRemaining: extraRetries,
+      })));
+    }
+
+    const { options } = (await storage.getChallengeById(challenge.id))!;
+    const optionIds = options.map(opt => opt.id);
+
+    const submissions = userIds.flatMap(userId =>
+      Array.from({ length: ATTEMPTS_PER_USER }, () => submitAttempt(userId, challenge.id, dateKey, shuffle(optionIds)))
+    );
+    const results = await Promise.allSettled(submissions);
+    const failures = results.filter(r => r.status === 'rejected');
+    failures.forEach(f => console.error((f as PromiseRejectedResult).reason));
+    assert(failures.length === 0, `all ${submissions.length} submissions succeeded`);
+
+    const bestAttempts = await db
+      .select()
+      .from(attempts)
+      .where(and(eq(attempts.challengeId, challenge.id), eq(attempts.isBestAttempt, true)));
+    assert(bestAttempts.length === USER_COUNT, `exactly one best attempt per user (${bestAttempts.length})`);
+
+    const aggregate = await storage.getAggregate(challenge.id);
+    assert(aggregate?.bestAttemptCount === USER_COUNT, `bestAttemptCount is ${USER_COUNT} (${aggregate?.bestAttemptCount})`);
+
+    const report = await checkAggregateConsistency({ challengeId: challenge.id });
+    if (report.challenges.length > 0) {
+      console.error(JSON.stringify(report.challenges[0].mismatches, null, 2));
+    }
+    assert(report.inconsistentChallenges === 0, 'aggregate counters match a rebuild from best attempts');
+
+    const userStreaks = await db.select().from(streaks).where(inArray(streaks.userId, userIds));
+    assert(
+      userStreaks.length === USER_COUNT && userStreaks.every(s => s.lastCompletedDateKey === dateKey && s.currentStreak === 1),
+      'every user has a 1-day streak ending on the challenge date'
+    );
+
+    console.log('\n✅ Concurrency test passed\n');
+  } finally {
+    // Badge checks run after commit via setImmediate; give them a moment before deleting users
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    await db.delete(userBadges).where(inArray(userBadges.userId, userIds));
+    await db.delete(attempts).where(eq(attempts.challengeId, challenge.id));
+    await db.delete(streaks).where(inArray(streaks.userId, userIds));
+    await db.delete(retryWallets).where(inArray(retryWallets.userId, userIds));
+    await db.delete(retryPurchases).where(inArray(retryPurchases.userId, userIds));
+    await db.delete(users).where(inArray(users.id, userIds));
+    await db.delete(dailyChallenges).where(eq(dailyChallenges.id, challenge.id));
+    await pool.end();
+  }
+}
+
+run().catch((err) => {
+  console.error('❌ Concurrency test failed:', err);
+  process.exit(1);
+});
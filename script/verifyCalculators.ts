@@ -0,0 +1,193 @@
+// Script to check the Tools page calculators against results worked out by hand
+// Usage: tsx script/verifyCalculators.ts
+// Amortization figures are the standard fixed-rate payments; the other cases use zero rates
+// or zero growth so the expected balances can be added up directly.
+
+import {
+  getDebtResults,
+  evaluateScenario,
+  simulateDebtPayoff,
+  getRetirementProjection,
+  getMortgageResults,
+  getRentVsBuy,
+  getDebtVsInvest,
+  getEmployerMatch,
+  MAX_PAYOFF_MONTHS,
+  type MortgageInputs,
+  type RentVsBuyInputs,
+  type RetirementInputs,
+} from '../shared/financialCalculators.js';
+
+let failures = 0;
+function check(name: string, ok: boolean, detail = '') {
+  console.log(`${ok ? '✅' : '❌'} ${name}${detail ? ` (${detail})` : ''}`);
+  if (!ok) failures++;
+}
+
+function checkClose(name: string, actual: number | null | undefined, expected: number, tolerance = 0.01) {
+  check(name, actual != null && Math.abs(actual - expected) <= tolerance, `${actual} vs ${expected}`);
+}
+
+// --- Debt calculator ---
+const mortgage30 = getDebtResults(200000, 6, 30);
+checkClose('$200k at 6% over 30 years pays $1,199.10 a month', mortgage30?.monthlyPayment, 1199.10);
+checkClose('...and $231,676.38 in interest', mortgage30?.totalInterest, 231676.38);
+checkClose('$10k at 5% over 5 years pays $188.71 a month', getDebtResults(10000, 5, 5)?.monthlyPayment, 188.71);
+const interestFree = getDebtResults(12000, 0, 1);
+check('0% splits the principal evenly', interestFree?.monthlyPayment === 1000 && interestFree.totalInterest === 0);
+check('no principal gives no result', getDebtResults(0, 5, 5) === null);
+
+// --- Saved scenarios ---
+const metric = (result: ReturnType<typeof evaluateScenario>, key: string) => result.metrics.find(m => m.key === key)?.value;
+
+const debtScenario = evaluateScenario({ kind: 'debt', principal: 200000, annualRatePct: 6, termYears: 30, extraAmount: 0, extraFrequency: 'perYear' });
+checkClose('debt scenario reports the amortized payment', metric(debtScenario, 'monthlyPayment'), 1199.10);
+check('debt scenario runs the full term without extra', metric(debtScenario, 'monthsToPayoff') === 360);
+check('debt scenario balance reaches zero', debtScenario.series[debtScenario.series.length - 1]?.balance === 0);
+
+const extraScenario = evaluateScenario({ kind: 'debt', principal: 200000, annualRatePct: 6, termYears: 30, extraAmount: 200, extraFrequency: 'perMonth' });
+const extraMonths = metric(extraScenario, 'monthsToPayoff') ?? 360;
+check('extra payments shorten the loan', extraMonths < 360, `${extraMonths} months`);
+check('extra payments save interest', (metric(extraScenario, 'interestSaved') ?? 0) > 0);
+
+const flatGrowth = evaluateScenario({ kind: 'investment', mode: 'goal', monthlyContribution: 100, annualGrowthPct: 0, years: 10, startingBalance: 1000, goalTarget: 13000 });
+checkClose('0% growth adds up contributions', metric(flatGrowth, 'finalBalance'), 13000);
+checkClose('0% growth has no growth', metric(flatGrowth, 'growth'), 0);
+checkClose('goal at 0% needs the straight-line contribution', metric(flatGrowth, 'requiredMonthly'), 100);
+
+// --- Multi-debt payoff planner ---
+const single = getDebtResults(10000, 5, 5)!;
+const singlePlan = simulateDebtPayoff([{ name: 'Loan', balance: 10000, aprPct: 5, minimumPayment: single.monthlyPayment }], single.monthlyPayment, 'avalanche');
+check('one debt at its amortized payment clears on schedule', singlePlan.paidOff && singlePlan.monthsToPayoff === 60, `${singlePlan.monthsToPayoff} months`);
+checkClose('...with the amortized interest', singlePlan.totalInterest, single.totalInterest, 0.05);
+
+const debts = [
+  { name: 'Card', balance: 5000, aprPct: 22, minimumPayment: 100 },
+  { name: 'Car', balance: 2000, aprPct: 4, minimumPayment: 100 },
+];
+const avalanche = simulateDebtPayoff(debts, 500, 'avalanche');
+const snowball = simulateDebtPayoff(debts, 500, 'snowball');
+check('avalanche targets the highest APR first', avalanche.order[0] === 0);
+check('snowball targets the smallest balance first', snowball.order[0] === 1);
+check('avalanche pays no more interest than snowball', avalanche.totalInterest <= snowball.totalInterest, `${avalanche.totalInterest} vs ${snowball.totalInterest}`);
+checkClose('payments cover principal plus interest', avalanche.totalPaid, 7000 + avalanche.totalInterest, 0.05);
+
+const interestFreePlan = simulateDebtPayoff([{ name: 'Loan', balance: 1200, aprPct: 0, minimumPayment: 100 }], 100, 'snowball');
+check('0% debt at $100 a month takes 12 months', interestFreePlan.monthsToPayoff === 12 && interestFreePlan.totalInterest === 0);
+
+const underwater = simulateDebtPayoff([{ name: 'Card', balance: 10000, aprPct: 24, minimumPayment: 150 }], 150, 'avalanche');
+check('a budget below the interest never pays off', !underwater.paidOff && underwater.monthsToPayoff === MAX_PAYOFF_MONTHS);
+
+// --- Retirement projection ---
+const retirementBase: RetirementInputs = {
+  currentAge: 30,
+  retirementAge: 40,
+  endAge: 70,
+  annualSalary: 50000,
+  annualRaisePct: 0,
+  contributionPct: 10,
+  rothSharePct: 0,
+  employerMatchPct: 50,
+  employerMatchCapPct: 6,
+  taxableMonthly: 0,
+  traditionalBalance: 0,
+  rothBalance: 0,
+  taxableBalance: 0,
+  annualReturnPct: 0,
+  inflationPct: 0,
+  withdrawalRatePct: 4,
+  retirementTaxPct: 20,
+  capitalGainsTaxPct: 15,
+};
+checkClose('match is 50% of contributions up to 6% of salary', getEmployerMatch(50000, 10, 50, 6), 1500);
+
+const flatRetirement = getRetirementProjection(retirementBase);
+checkClose('10 years of $5,000 plus $1,500 match at 0%', flatRetirement.balanceAtRetirement, 65000);
+checkClose('total employer match', flatRetirement.totalEmployerMatch, 15000);
+checkClose('4% first-year withdrawal', flatRetirement.firstYearWithdrawal, 2600);
+checkClose('20% tax on traditional withdrawals', flatRetirement.firstYearAfterTaxIncome, 2080);
+checkClose('no inflation means real equals nominal', flatRetirement.realFirstYearAfterTaxIncome, 2080);
+check('25 years of withdrawals run out at 66', flatRetirement.depletionAge === 66, `${flatRetirement.depletionAge}`);
+
+const inflated = getRetirementProjection({ ...retirementBase, inflationPct: 2 });
+checkClose('real balance is deflated to today', inflated.realBalanceAtRetirement, 65000 / 1.02 ** 10);
+checkClose('first-year income is deflated from the year it is drawn', inflated.realFirstYearAfterTaxIncome, 2080 / 1.02 ** 11);
+
+// --- Mortgage ---
+const mortgageBase: MortgageInputs = {
+  homePrice: 400000,
+  downPayment: 80000,
+  annualRatePct: 6.5,
+  termYears: 30,
+  propertyTaxPct: 1.2,
+  insuranceAnnual: 1200,
+  hoaMonthly: 0,
+  pmiRatePct: 0.5,
+  pmiDropOffLtv: 0.8,
+  extraPrincipalMonthly: 0,
+};
+const twentyDown = getMortgageResults(mortgageBase);
+checkClose('$320k at 6.5% over 30 years pays $2,022.62 a month', twentyDown?.monthlyPrincipalAndInterest, 2022.62);
+checkClose('PITI adds $400 tax and $100 insurance', twentyDown?.monthlyPiti, 2522.62);
+check('20% down has no PMI', twentyDown?.monthlyPmi === 0 && twentyDown.pmiDropOffMonth === null);
+check('mortgage runs the full term', twentyDown?.monthsToPayoff === 360);
+
+const tenDown = getMortgageResults({ ...mortgageBase, downPayment: 40000 });
+checkClose('10% down pays 0.5% PMI on the loan', tenDown?.monthlyPmi, 150);
+const dropOff = tenDown?.pmiDropOffMonth ?? 0;
+check('PMI drops off during the loan', dropOff > 0 && dropOff < 360, `month ${dropOff}`);
+
+const withExtra = getMortgageResults({ ...mortgageBase, extraPrincipalMonthly: 200 });
+check('extra principal shortens the mortgage', (withExtra?.monthsSavedByExtra ?? 0) > 0);
+checkClose(
+  'interest saved is the difference from the base schedule',
+  (withExtra?.totalInterest ?? 0) + (withExtra?.interestSavedByExtra ?? 0),
+  twentyDown?.totalInterest ?? 0,
+  0.05
+);
+
+// --- Rent vs buy ---
+const cashPurchase: RentVsBuyInputs = {
+  years: 1,
+  homePrice: 100000,
+  downPayment: 100000,
+  annualRatePct: 6,
+  termYears: 30,
+  propertyTaxPct: 0,
+  insuranceAnnual: 0,
+  maintenancePct: 0,
+  hoaMonthly: 0,
+  pmiRatePct: 0,
+  appreciationPct: 0,
+  buyingCostsPct: 0,
+  sellingCostsPct: 0,
+  monthlyRent: 1000,
+  rentIncreasePct: 0,
+  investmentReturnPct: 0,
+};
+const rentVsBuy = getRentVsBuy(cashPurchase);
+checkClose('cash buyer with no costs keeps the rent they save', rentVsBuy?.buyNetWorth, 112000);
+checkClose('renter keeps the cash', rentVsBuy?.rentNetWorth, 100000);
+check('buying is ahead after the first year', rentVsBuy?.advantage === 12000 && rentVsBuy.breakEvenYear === 1);
+checkClose('a year of rent', rentVsBuy?.totalRent, 12000);
+
+const sellingCosts = getRentVsBuy({ ...cashPurchase, sellingCostsPct: 20 });
+checkClose('selling costs come out of the buyer\'s net worth', sellingCosts?.buyNetWorth, 92000);
+
+// --- Debt vs invest ---
+const debtVsInvestBase = { kind: 'debtVsInvest' as const, debtBalance: 6000, debtAprPct: 0, minimumPayment: 100, monthlyBudget: 500, investReturnPct: 0, years: 2 };
+const even = getDebtVsInvest(debtVsInvestBase);
+check('with 0% on both sides the order doesn\'t matter', even.advantage === 0, `${even.payDebtFirst.netWorth} vs ${even.investFirst.netWorth}`);
+check('paying $500 a month clears $6,000 in 12 months', even.payDebtFirst.monthsToDebtFree === 12);
+checkClose('invest first still owes $3,600 after 2 years', even.investFirst.debtRemaining, 3600);
+
+const costlyDebt = getDebtVsInvest({ ...debtVsInvestBase, debtAprPct: 20 });
+check('high-APR debt with no return favours paying it first', costlyDebt.advantage > 0, `${costlyDebt.advantage}`);
+const freeDebt = getDebtVsInvest({ ...debtVsInvestBase, investReturnPct: 10 });
+check('0% debt with a positive return favours investing', freeDebt.advantage < 0, `${freeDebt.advantage}`);
+
+if (failures > 0) {
+  console.error(`\n${failures} check(s) failed`);
+  process.exit(1);
+}
+console.log('\nAll calculator checks passed');
@@ -0,0 +1,57 @@
+// Script to sanity-check the Monte Carlo projection used on the Tools page
+// Usage: tsx script/verifyMonteCarlo.ts
+// Checks that a seed reproduces identical bands, that zero volatility collapses to the
+// deterministic projection, and that percentiles and goal probabilities are well ordered.
+
+import { runMonteCarlo, type MonteCarloRequest } from '../shared/monteCarlo.js';
+import { getBalanceAtYear } from '../shared/financialCalculators.js';
+
+const base: MonteCarloRequest = {
+  monthlyContribution: 500,
+  startingBalance: 10000,
+  years: 30,
+  returnModel: 'normal',
+  meanReturnPct: 7,
+  volatilityPct: 15,
+  simulations: 2000,
+  seed: 42,
+  goalTarget: 600000,
+};
+
+let failures = 0;
+function check(name: string, ok: boolean, detail = '') {
+  console.log(`${ok ? '✅' : '❌'} ${name}${detail ? ` (${detail})` : ''}`);
+  if (!ok) failures++;
+}
+
+const first = runMonteCarlo(base);
+const second = runMonteCarlo(base);
+check('same seed gives identical results', JSON.stringify(first) === JSON.stringify(second));
+
+const reseeded = runMonteCarlo({ ...base, seed: 43 });
+check('different seed gives different results', JSON.stringify(first) !== JSON.stringify(reseeded));
+
+// With no volatility every path earns the mean, compounded monthly like getProjectionData
+const flat = runMonteCarlo({ ...base, volatilityPct: 0, simulations: 100 });
+const monthlyEquivalentPct = (Math.pow(1.07, 1 / 12) - 1) * 12 * 100;
+const expected = getBalanceAtYear(base.monthlyContribution, monthlyEquivalentPct, base.years, base.startingBalance);
+const flatFinal = flat.bands[flat.bands.length - 1];
+check('zero volatility matches the deterministic projection', Math.abs(flatFinal.p50 - expected) < 1, `${flatFinal.p50} vs ${expected}`);
+
+check('percentiles are ordered every year', first.bands.every(b => b.p10 <= b.p50 && b.p50 <= b.p90));
+
+const easier = runMonteCarlo({ ...base, goalTarget: 300000 });
+check(
+  'a lower goal is at least as likely',
+  (easier.probabilityOfGoal ?? 0) >= (first.probabilityOfGoal ?? 0),
+  `${easier.probabilityOfGoal} >= ${first.probabilityOfGoal}`
+);
+
+const historical = runMonteCarlo({ ...base, returnModel: 'historical' });
+check('historical bootstrap is reproducible', JSON.stringify(historical) === JSON.stringify(runMonteCarlo({ ...base, returnModel: 'historical' })));
+
+if (failures > 0) {
+  console.error(`\n${failures} check(s) failed`);
+  process.exit(1);
+}
+console.log('\nAll Monte Carlo checks passed');
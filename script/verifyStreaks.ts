@@ -0,0 +1,159 @@
+// Script to verify the incremental streak path against a full recalculation for every user
+// Usage: tsx script/verifyStreaks.ts [--repair]
+// Replays each user's completions through advanceStreak and compares the result with
+// computeStreaks and with the stored streaks row. --repair rewrites rows that disagree.
+// Users are read a page at a time by id, and each repair runs under that user's streak lock.
+
+// Load environment variables from .env file BEFORE importing db
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Simple .env parser - must run before any db imports
+try {
+  const envPath = join(__dirname, '..', '.env');
+  const envFile = readFileSync(envPath, 'utf-8');
+  envFile.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (trimmed && !trimmed.startsWith('#')) {
+      const [key, ...valueParts] = trimmed.split('=');
+      if (key && valueParts.length > 0) {
+        const value = valueParts.join('=').trim().replace(/^["']|["']$/g, '');
+        process.env[key.trim()] = value;
+      }
+    }
+  });
+  console.log('✅ Loaded .env file');
+} catch (error) {
+  console.warn('⚠️  Could not load .env file, using environment variables');
+}
+
+// Now dynamically import modules that depend on db
+const { db, pool } = await import('../server/db.js');
+const { attempts, dailyChallenges, streaks, retryWallets, users } = await import('../shared/schema.js');
+const { and, asc, eq, gt, inArray } = await import('drizzle-orm');
+const { advanceStreak, computeStreaks, lockStreak, recalculateStreak } = await import('../server/services/streakService.js');
+
+const PAGE_SIZE = 500;
+
+type StreakState = { currentStreak: number; longestStreak: number; lastCompletedDateKey: string | null };
+
+const repair = process.argv.includes('--repair');
+
+function describe(state: StreakState | undefined): string {
+  if (!state) return 'missing';
+  return `current ${state.currentStreak}, longest ${state.longestStreak}, last ${state.lastCompletedDateKey ?? '-'}`;
+}
+
+function sameStreak(a: StreakState | undefined, b: StreakState): boolean {
+  return !!a &&
+    a.currentStreak === b.currentStreak &&
+    a.longestStreak === b.longestStreak &&
+    a.lastCompletedDateKey === b.lastCompletedDateKey;
+}
+
+async function run() {
+  console.log(`🔄 ${repair ? 'Repairing' : 'Verifying'} streaks...\n`);
+
+  try {
+    let checkedUsers = 0;
+    let pathMismatches = 0;
+    let storedMismatches = 0;
+    let repaired = 0;
+
+    let lastUserId: string | null = null;
+    while (true) {
+      const page = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(lastUserId ? gt(users.id, lastUserId) : undefined)
+        .orderBy(asc(users.id))
+        .limit(PAGE_SIZE);
+      if (page.length === 0) break;
+      lastUserId = page[page.length - 1].id;
+      const userIds = page.map(user => user.id);
+
+      const completions = await db
+        .selectDistinct({ userId: attempts.userId, dateKey: dailyChallenges.dateKey })
+        .from(attempts)
+        .innerJoin(dailyChallenges, eq(attempts.challengeId, dailyChallenges.id))
+        .where(and(eq(attempts.isBestAttempt, true), inArray(attempts.userId, userIds)));
+
+      const completedByUser = new Map<string, string[]>();
+      for (const { userId, dateKey } of completions) {
+        completedByUser.set(userId, [...(completedByUser.get(userId) || []), dateKey]);
+      }
+
+      const frozenByUser = new Map<string, Set<string>>();
+      for (const wallet of await db.select().from(retryWallets).where(inArray(retryWallets.userId, userIds))) {
+        const frozen = frozenByUser.get(wallet.userId) || new Set<string>();
+        ((wallet.frozenDateKeysJson as string[]) || []).forEach(dateKey => frozen.add(dateKey));
+        frozenByUser.set(wallet.userId, frozen);
+      }
+
+      const storedByUser = new Map<string, StreakState>();
+      for (const row of await db.select().from(streaks).where(inArray(streaks.userId, userIds))) {
+        storedByUser.set(row.userId, row);
+      }
+
+      for (const [userId, completed] of Array.from(completedByUser.entries())) {
+        checkedUsers++;
+        const sorted = completed.sort();
+        const frozen = frozenByUser.get(userId) || new Set<string>();
+
+        const full: StreakState = { ...computeStreaks(sorted, frozen), lastCompletedDateKey: sorted[sorted.length - 1] };
+        const incremental = sorted.reduce<StreakState>(
+          (state, dateKey) => advanceStreak(state, dateKey, frozen) ?? state,
+          { currentStreak: 0, longestStreak: 0, lastCompletedDateKey: null }
+        );
+
+        if (!sameStreak(incremental, full)) {
+          pathMismatches++;
+          console.log(`❌ ${userId}: incremental (${describe(incremental)}) ≠ full (${describe(full)})`);
+        }
+
+        const stored = storedByUser.get(userId);
+        if (!sameStreak(stored, full)) {
+          storedMismatches++;
+          console.log(`⚠️  ${userId}: stored (${describe(stored)}) → expected (${describe(full)})`);
+          if (repair) {
+            // A submission landing meanwhile queues on the streak lock, so the rebuild sees its completion
+            await db.transaction(async (tx) => {
+              await lockStreak(tx, userId);
+              await recalculateStreak(userId, tx);
+            });
+            repaired++;
+          }
+        }
+      }
+
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    console.log(`\nChecked ${checkedUsers} users`);
+    console.log(`   Incremental vs full disagreements: ${pathMismatches}`);
+    console.log(`   Stored rows out of date: ${storedMismatches}`);
+    if (repair) {
+      console.log(`✅ Repaired ${repaired} streak rows\n`);
+    } else if (storedMismatches > 0) {
+      console.log('📝 Run with --repair to recalculate the out-of-date rows\n');
+    }
+
+    if (pathMismatches > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ Streak verification failed:', error);
+    throw error;
+  } finally {
+    await pool.end();
+  }
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -187,5 +187,29 @@ export const BADGE_DEFINITIONS: (Omit<InsertBadge, 'criteriaConfig'> & { criteri
     criteriaValue: 1,
     criteriaConfig: { maxPercentile: 1, minStreak: 14 },
   },
+
+  // === GOAL BADGES (Completing goals set on the profile) ===
+  {
+    id: 'goal_getter',
+    name: 'Goal Getter',
+    description: 'Complete your first goal',
+    icon: '🎯',
+    category: 'achievement',
+    rarity: 'common',
+    criteriaType: 'goals_completed',
+    criteriaValue: 1,
+    criteriaConfig: {},
+  },
+  {
+    id: 'goal_crusher',
+    name: 'Goal Crusher',
+    description: 'Complete 5 goals',
+    icon: '🚀',
+    category: 'achievement',
+    rarity: 'rare',
+    criteriaType: 'goals_completed',
+    criteriaValue: 5,
+    criteriaConfig: {},
+  },
 ];
 
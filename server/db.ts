@@ -48,3 +48,7 @@ export const pool = new Pool({
   connectionTimeoutMillis: 2000, // Return an error after 2 seconds if connection cannot be established
 });
 export const db = drizzle(pool, { schema });
+
+// Transaction handle passed to db.transaction callbacks; services accept it to join the caller's transaction
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type DbExecutor = typeof db | DbTransaction;
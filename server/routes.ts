@@ -10,21 +10,31 @@ import {
   canAccessChallenge 
 } from "./services/challengeService";
 import { submitAttempt } from "./services/attemptService";
+import { RetryLimitError, RETRY_PACK_SIZE } from "./services/retryService";
+import { ScheduleConflictError } from "./services/scheduleService";
+import { PlayedChallengeError } from "./services/revisionService";
+import { SIMILARITY_LIST_THRESHOLD } from "./services/duplicateDetectionService";
+import { GoalAlreadyMetError } from "./services/goalService";
 import { calculatePercentile } from "./services/aggregateService";
+import { getSmoothingModel, smoothPercentile, smoothExactMatchPercent, smoothAverageScore } from "./services/percentileService";
+import { gradeThresholdsSchema, getGlobalScoringConfig, resolveScoringConfig } from "./services/gradeConfigService";
 import { getUserStreak } from "./services/streakService";
-import { getActiveDateKey } from "./services/dateService";
+import { getUserTodayKey } from "./services/timezoneService";
 import { initializeDefaultFlags, isFeatureEnabled } from "./services/featureFlagService";
 import { calculateUserRiskProfile } from "./services/riskProfileService";
 import cookieParser from 'cookie-parser';
 import { z } from 'zod';
 import passport from "./auth/passport";
 import { db } from "./db";
-import { users, attempts, userBadges, streaks, retryWallets, forumPosts, forumComments, forumVotes, dailyChallenges } from "@shared/schema";
+import { users, attempts, userBadges, streaks, retryWallets, forumPosts, forumComments, forumVotes, dailyChallenges, MIN_OPTION_COUNT, MAX_OPTION_COUNT, SCORING_STRATEGY_IDS, GOAL_TYPES } from "@shared/schema";
+import { challengeAssumptionValuesSchema } from "@shared/challengeAssumptions";
 import { eq, and, desc, or, sql, ilike, inArray } from "drizzle-orm";
 import { hasProAccess } from "./services/subscriptionService";
-import { parse, addDays, format } from 'date-fns';
+import { parse, addDays, format, differenceInCalendarDays, parseISO } from 'date-fns';
 import bcrypt from 'bcrypt';
 import { generateOptimalityExplanation } from "./services/optimalityExplanationService";
+import { calculatorPresetSchema, scenarioInputSchema } from "@shared/financialCalculators";
+import type { RevisionEditor } from "./services/revisionService";
 import { 
   stripe, 
   getOrCreateStripeCustomer, 
@@ -37,17 +47,17 @@ import {
 
 const submitAttemptSchema = z.object({
   challengeId: z.string(),
-  ranking: z.array(z.string()).length(4),
+  ranking: z.array(z.string()).min(MIN_OPTION_COUNT).max(MAX_OPTION_COUNT),
 });
 
 const challengeOptionInputSchema = z.object({
   optionText: z.string().min(1),
   tierLabel: z.string().min(1),
   explanationShort: z.string().min(1),
-  orderingIndex: z.number().int().min(1).max(4),
+  orderingIndex: z.number().int().min(1).max(MAX_OPTION_COUNT),
 });
 
-const createChallengeSchema = z.object({
+const challengeFieldsSchema = z.object({
   dateKey: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   title: z.string().min(1),
   scenarioText: z.string().min(1),
@@ -55,16 +65,196 @@ const createChallengeSchema = z.object({
   category: z.string().min(1),
   difficulty: z.number().int().min(1).max(5),
   isPublished: z.boolean().default(false),
-  options: z.array(challengeOptionInputSchema).length(4),
+  optionCount: z.number().int().min(MIN_OPTION_COUNT).max(MAX_OPTION_COUNT).optional(),
+  scoringStrategy: z.enum(SCORING_STRATEGY_IDS).optional(),
+  gradeThresholdsJson: gradeThresholdsSchema.nullable().optional(),
+  assumptionValuesJson: challengeAssumptionValuesSchema.nullable().optional(),
+  calculatorPresetJson: calculatorPresetSchema.nullable().optional(),
+  options: z.array(challengeOptionInputSchema).min(MIN_OPTION_COUNT).max(MAX_OPTION_COUNT),
 });
 
-const updateChallengeSchema = createChallengeSchema.partial().extend({
-  options: z.array(challengeOptionInputSchema).length(4).optional(),
+// Options must match the declared optionCount and use each orderingIndex 1..N exactly once
+function validateOptionSet(
+  data: { optionCount?: number; options?: z.infer<typeof challengeOptionInputSchema>[] },
+  ctx: z.RefinementCtx
+) {
+  if (!data.options) {
+    if (data.optionCount !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['optionCount'],
+        message: 'optionCount can only be changed together with options',
+      });
+    }
+    return;
+  }
+
+  const count = data.options.length;
+  if (data.optionCount !== undefined && data.optionCount !== count) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['optionCount'],
+      message: `optionCount is ${data.optionCount} but ${count} options were provided`,
+    });
+  }
+
+  const indexes = new Set(data.options.map(opt => opt.orderingIndex));
+  const isPermutation = indexes.size === count && Array.from(indexes).every(i => i >= 1 && i <= count);
+  if (!isPermutation) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['options'],
+      message: `orderingIndex values must be 1 through ${count}, each used once`,
+    });
+  }
+}
+
+const createChallengeSchema = challengeFieldsSchema.superRefine(validateOptionSet);
+
+const updateChallengeSchema = challengeFieldsSchema.partial().superRefine(validateOptionSet);
+
+// Import rows may leave isPublished out; planImport defaults it only for new challenges so updates keep the current value
+const importChallengeRowSchema = challengeFieldsSchema
+  .extend({ isPublished: z.boolean().optional() })
+  .superRefine(validateOptionSet);
+
+const userTimezoneSchema = z.object({
+  timezone: z.string().min(1).max(64),
+});
+
+const SCORE_GOAL_TYPES = ['average_score', 'category_mastery'];
+
+const goalFieldsSchema = z.object({
+  goalType: z.enum(GOAL_TYPES),
+  title: z.string().trim().min(1).max(200),
+  targetValue: z.number().int().positive(),
+  windowDays: z.number().int().min(1).max(365).optional(),
+  category: z.string().trim().min(1).max(100).optional(),
+});
+
+const createGoalSchema = goalFieldsSchema.superRefine((goal, ctx) => {
+  if (SCORE_GOAL_TYPES.includes(goal.goalType) && goal.targetValue > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['targetValue'], message: 'Score targets must be at most 100' });
+  }
+  if (goal.goalType === 'category_mastery' && !goal.category) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['category'], message: 'Category mastery goals need a category' });
+  }
+  if (goal.windowDays !== undefined && goal.goalType !== 'average_score') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['windowDays'], message: 'Only average score goals take a window' });
+  }
+});
+
+const updateGoalSchema = goalFieldsSchema.pick({ title: true, targetValue: true }).partial();
+
+// A goal completed while it was being saved was missed by the submission's own badge check
+function awardGoalBadges(userId: string) {
+  setImmediate(async () => {
+    try {
+      const { checkAndAwardBadges, getUserBadgeContext } = await import('./services/badgeService');
+      await checkAndAwardBadges(await getUserBadgeContext(userId));
+    } catch (error) {
+      console.error('Error checking goal badges:', error);
+    }
+  });
+}
+
+const createScenarioSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  inputs: scenarioInputSchema,
 });
 
+const updateScenarioSchema = createScenarioSchema.partial();
+
+const STREAK_FREEZE_LOOKBACK_DAYS = 7;
+
+const streakFreezeSchema = z.object({
+  dateKey: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+const retryCheckoutSchema = z.object({
+  dateKey: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+const aggregateCheckSchema = z.object({
+  repair: z.boolean().default(false),
+  challengeId: z.string().optional(),
+});
+
+const recomputeGradesSchema = z.object({
+  dryRun: z.boolean().default(true),
+  challengeId: z.string().optional(),
+});
+
+const calibrateDifficultySchema = z.object({
+  dryRun: z.boolean().default(true),
+});
+
+const scoringPreviewSchema = z.object({
+  scoringStrategy: z.enum(SCORING_STRATEGY_IDS),
+  gradeThresholdsJson: gradeThresholdsSchema.nullable().optional(),
+  options: z.array(challengeOptionInputSchema.pick({ tierLabel: true, orderingIndex: true }))
+    .min(MIN_OPTION_COUNT)
+    .max(MAX_OPTION_COUNT),
+});
+
+const scheduleRangeSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+}).refine(range => range.from <= range.to, { message: 'from must not be after to' });
+
+const rescheduleSchema = z.object({
+  challengeId: z.string().min(1),
+  dateKey: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+});
+
+const autoFillSchema = z.object({
+  dryRun: z.boolean().default(true),
+});
+
+const pairRationalesSchema = z.object({
+  rationales: z.array(z.object({
+    betterIndex: z.number().int().min(1).max(MAX_OPTION_COUNT),
+    worseIndex: z.number().int().min(1).max(MAX_OPTION_COUNT),
+    rationale: z.string().max(2000),
+  }).refine(pair => pair.betterIndex < pair.worseIndex, { message: 'betterIndex must rank above worseIndex' })),
+});
+
+const similarChallengesSchema = z.object({
+  challengeId: z.string().optional(), // set when editing, so the challenge doesn't match itself
+  scenarioText: z.string(),
+  assumptions: z.string(),
+  options: z.array(z.string()).max(MAX_OPTION_COUNT),
+});
+
+const duplicateReportSchema = z.object({
+  minScore: z.coerce.number().min(SIMILARITY_LIST_THRESHOLD).max(1).optional(),
+});
+
+const challengeImportSchema = z.object({
+  format: z.enum(['json', 'csv']),
+  content: z.string().min(1),
+});
+
+// Validate each uploaded row on its own so the preview can report every bad row, not just the first
+function toImportCandidates(rows: unknown[]) {
+  return rows.map((raw, i) => {
+    const rawFields = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const parsed = importChallengeRowSchema.safeParse(raw);
+    return {
+      row: i + 1,
+      record: parsed.success ? parsed.data : null,
+      issues: parsed.success
+        ? []
+        : parsed.error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)),
+      dateKey: typeof rawFields.dateKey === 'string' ? rawFields.dateKey : null,
+      title: typeof rawFields.title === 'string' ? rawFields.title : null,
+    };
+  });
+}
+
 import crypto from 'crypto';
 
-const adminSessions = new Map<string, { expiresAt: number }>();
+const adminSessions = new Map<string, { expiresAt: number; adminName: string }>();
 const loginAttempts = new Map<string, { count: number; lastAttempt: number }>();
 const MAX_LOGIN_ATTEMPTS = 5;
 const LOCKOUT_DURATION = 15 * 60 * 1000;
@@ -145,6 +335,16 @@ function requireAdmin(req: Request, res: Response, next: () => void) {
   next();
 }
 
+// Who is editing, for challenge revisions. Admins share one password, so the name is self-reported
+// at login and the session fingerprint tells apart sessions using the same name.
+function getRevisionEditor(req: Request): RevisionEditor {
+  const token = req.headers.authorization?.slice(7) || '';
+  return {
+    name: adminSessions.get(token)?.adminName || 'admin',
+    session: crypto.createHash('sha256').update(token).digest('hex').slice(0, 16),
+  };
+}
+
 function checkAdminToken(req: Request): boolean {
   const authHeader = req.headers.authorization;
   
@@ -313,6 +513,22 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
             break;
           }
           
+          case 'checkout.session.completed': {
+            const session = event.data.object as Stripe.Checkout.Session;
+            
+            // Subscription checkouts are handled by the customer.subscription.* events
+            if (session.metadata?.purchase === 'extra_retries' && session.payment_status === 'paid') {
+              const userId = session.metadata.userId;
+              const retries = parseInt(session.metadata.retries || '', 10) || RETRY_PACK_SIZE;
+              const { grantPurchasedRetries } = await import('./services/retryService');
+              const granted = await grantPurchasedRetries(userId, session.id, retries);
+              console.log(granted
+                ? `Granted ${retries} retries to user ${userId} (session ${session.id})`
+                : `Retries for session ${session.id} were already granted`);
+            }
+            break;
+          }
+          
           default:
             console.log(`Unhandled event type: ${event.type}`);
         }
@@ -745,6 +961,7 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
           authProvider: user.authProvider,
           birthday: user.birthday,
           incomeBracket: user.incomeBracket,
+          timezone: user.timezone,
           subscriptionTier,
           subscriptionExpiresAt,
           hasUsedFreeTrial,
@@ -828,6 +1045,27 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
     }
   });
 
+  // Called by the browser on load with its IANA timezone; anonymous users included
+  app.put('/api/auth/user/timezone', ensureUser, async (req: Request, res: Response) => {
+    try {
+      const parsed = userTimezoneSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const { setUserTimezone } = await import('./services/timezoneService');
+      const result = await setUserTimezone(req.userId!, parsed.data.timezone);
+      if (result.status === 'invalid') {
+        return res.status(400).json({ error: 'Unknown timezone' });
+      }
+
+      return res.json(result);
+    } catch (error) {
+      console.error('Error updating timezone:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   app.put('/api/auth/user/profile', ensureUser, async (req: Request, res: Response) => {
     try {
       const { birthday, incomeBracket } = req.body;
@@ -926,9 +1164,8 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
 
   app.get('/api/challenge/today', ensureUser, async (req: Request, res: Response) => {
     try {
-      // Get user's local "today" from query parameter (client calculates in their timezone)
-      // Fall back to server timezone if not provided
-      const userTodayKey = (req.query.userToday as string) || getActiveDateKey();
+      // Today in the user's stored timezone; the client's userToday is only used before one is stored
+      const userTodayKey = await getUserTodayKey(req.userId!, req.query.userToday as string | undefined);
       const challenge = await storage.getChallengeByDateKey(userTodayKey);
       
       if (!challenge) {
@@ -991,10 +1228,20 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
         return res.status(404).json({ error: 'Challenge not found' });
       }
 
+      if (ranking.length !== challenge.options.length) {
+        return res.status(400).json({ 
+          error: `Ranking must include all ${challenge.options.length} options`,
+        });
+      }
+
       const result = await submitAttempt(req.userId!, challengeId, challenge.dateKey, ranking);
       
       return res.json(result);
     } catch (error) {
+      if (error instanceof RetryLimitError) {
+        const purchasesEnabled = await isFeatureEnabled('EXTRA_RETRY_PURCHASES');
+        return res.status(403).json({ error: error.message, retriesRemaining: 0, purchasesEnabled });
+      }
       console.error('Error submitting attempt:', error);
       return res.status(500).json({ error: 'Internal server error' });
     }
@@ -1014,23 +1261,27 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
         return res.status(404).json({ error: 'No attempt found for this challenge' });
       }
 
+      // Options edited since this attempt get new IDs; show the set the player actually ranked
+      const { findAttemptOptions } = await import('./services/revisionService');
+      const attemptOptions = await findAttemptOptions(
+        challenge.id,
+        attempt.rankingJson as string[],
+        challenge.options.map(opt => opt.id)
+      );
+      const rankedOptions = attemptOptions
+        ? attemptOptions.options.map(opt => ({ ...opt, challengeId: challenge.id }))
+        : challenge.options;
+
       const aggregate = await storage.getAggregate(challengeId);
-      const percentile = await calculatePercentile(challengeId, attempt.scoreNumeric);
+      const smoothing = await getSmoothingModel(challenge);
+      const sampleSize = aggregate?.bestAttemptCount || 0;
+      const scoreHistogram = (aggregate?.scoreHistogramJson as Record<string, number>) || {};
+      const percentile = smoothPercentile(scoreHistogram, sampleSize, attempt.scoreNumeric, smoothing.prior);
       
       const exactRankingCounts = (aggregate?.exactRankingCountsJson as Record<string, number>) || {};
       const userRankingKey = (attempt.rankingJson as string[]).join(',');
       const exactMatchCount = exactRankingCounts[userRankingKey] || 0;
-      
-      // Use same baseline count as percentile calculation for consistency
-      const BASELINE_COUNT = 10; // Same as baselineScores.length in calculatePercentile
-      const totalCount = aggregate ? aggregate.bestAttemptCount + BASELINE_COUNT : BASELINE_COUNT;
-      
-      // Distribute baseline matches proportionally (assume 1-2 baseline users had same ranking)
-      // This creates a more realistic distribution that aligns with percentile
-      const baselineMatches = Math.floor(BASELINE_COUNT * 0.15); // ~15% of baseline match (1-2 out of 10)
-      const exactMatchPercent = totalCount > 0 
-        ? Math.round(((exactMatchCount + baselineMatches) / totalCount) * 100) 
-        : 0;
+      const exactMatch = smoothExactMatchPercent(exactMatchCount, sampleSize, smoothing.prior);
 
       const topPickCounts = (aggregate?.topPickCountsJson as Record<string, number>) || {};
       const userTopPick = (attempt.rankingJson as string[])[0];
@@ -1046,9 +1297,11 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
       // Generate optimality explanation (only if Pro or for preview when score < 100)
       let explanation = null;
       if (hasPro || attempt.scoreNumeric < 100) { // Generate for Pro users, or for preview (score < 100)
+        const { getPairRationaleLookup } = await import('./services/pairRationaleService');
         const rawExplanation = generateOptimalityExplanation(
           attempt.rankingJson as string[],
-          challenge.options
+          rankedOptions,
+          await getPairRationaleLookup(challenge.id, rankedOptions)
         );
         
         // Transform explanation to match client-side format
@@ -1087,6 +1340,12 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
               explanation: opt.explanationShort,
               idealRank: opt.orderingIndex,
             })),
+            pairReasons: item.pairReasons.map(reason => ({
+              betterOptionId: reason.better.id,
+              worseOptionId: reason.worse.id,
+              text: reason.text,
+              source: reason.source,
+            })),
           })),
           summary: rawExplanation.summary,
         };
@@ -1104,11 +1363,18 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
       return res.json({
         attempt,
         challenge,
+        attemptOptions, // null when the attempt matches the current options
         stats: {
-          percentile,
-          exactMatchPercent,
+          percentile: percentile.smoothed,
+          rawPercentile: percentile.raw,
+          exactMatchPercent: exactMatch.smoothed,
+          rawExactMatchPercent: exactMatch.raw,
           topPickPercent,
-          totalAttempts: aggregate?.bestAttemptCount || 0,
+          totalAttempts: sampleSize,
+          smoothing: {
+            method: smoothing.method,
+            priorWeight: smoothing.prior?.weight ?? 0,
+          },
         },
         explanation: explanation || null, // Include explanation if available
       });
@@ -1129,11 +1395,16 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
       }
 
       const aggregate = await storage.getAggregate(challengeId);
+      const smoothing = await getSmoothingModel(challenge);
+      const smoothingInfo = { method: smoothing.method, priorWeight: smoothing.prior?.weight ?? 0 };
       if (!aggregate || aggregate.bestAttemptCount === 0) {
         return res.json({
           positionDistribution: {},
           mostCommonRanking: null,
           averageScore: 0,
+          rawAverageScore: null,
+          totalAttempts: 0,
+          smoothing: smoothingInfo,
         });
       }
 
@@ -1143,9 +1414,12 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
       // Calculate position distribution: { [optionId]: { [position]: count } }
       const positionDistribution: Record<string, Record<number, number>> = {};
       
-      // Initialize for all options
+      // Initialize every position (1..N) for all options
       challenge.options.forEach(opt => {
-        positionDistribution[opt.id] = { 1: 0, 2: 0, 3: 0, 4: 0 };
+        positionDistribution[opt.id] = {};
+        for (let position = 1; position <= challenge.options.length; position++) {
+          positionDistribution[opt.id][position] = 0;
+        }
       });
 
       // Parse each ranking and count positions
@@ -1169,20 +1443,16 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
         }
       });
 
-      // Calculate average score
-      let totalScore = 0;
-      let totalCount = 0;
-      Object.entries(scoreHistogram).forEach(([score, count]) => {
-        totalScore += parseInt(score) * count;
-        totalCount += count;
-      });
-      const averageScore = totalCount > 0 ? Math.round(totalScore / totalCount) : 0;
+      // Average score uses the same smoothing model as the results percentile
+      const averageScore = smoothAverageScore(scoreHistogram, aggregate.bestAttemptCount, smoothing.prior);
 
       return res.json({
         positionDistribution,
         mostCommonRanking: mostCommonRanking ? mostCommonRanking.split(',') : null,
-        averageScore,
+        averageScore: averageScore.smoothed,
+        rawAverageScore: averageScore.raw,
         totalAttempts: aggregate.bestAttemptCount,
+        smoothing: smoothingInfo,
       });
     } catch (error) {
       console.error('Error fetching community stats:', error);
@@ -1239,6 +1509,292 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
     }
   });
 
+  app.get('/api/retries', ensureUser, async (req: Request, res: Response) => {
+    try {
+      const { getRetryStatus } = await import('./services/retryService');
+      const status = await getRetryStatus(req.userId!);
+      const purchasesEnabled = await isFeatureEnabled('EXTRA_RETRY_PURCHASES');
+      return res.json({ ...status, purchasesEnabled, packSize: RETRY_PACK_SIZE });
+    } catch (error) {
+      console.error('Error fetching retries:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/streak/freezes', ensureUser, async (req: Request, res: Response) => {
+    try {
+      const { getStreakFreezeStatus } = await import('./services/streakFreezeService');
+      const status = await getStreakFreezeStatus(req.userId!);
+      return res.json(status);
+    } catch (error) {
+      console.error('Error fetching streak freezes:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Manually spend a streak freeze on a missed day (defaults to yesterday)
+  app.post('/api/streak/freeze', ensureUser, async (req: Request, res: Response) => {
+    try {
+      const parsed = streakFreezeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const today = parse(await getUserTodayKey(req.userId!), 'yyyy-MM-dd', new Date());
+      const dateKey = parsed.data.dateKey || format(addDays(today, -1), 'yyyy-MM-dd');
+      const earliest = format(addDays(today, -STREAK_FREEZE_LOOKBACK_DAYS), 'yyyy-MM-dd');
+      if (dateKey >= format(today, 'yyyy-MM-dd') || dateKey < earliest) {
+        return res.status(400).json({ error: `Freezes can only cover the last ${STREAK_FREEZE_LOOKBACK_DAYS} days` });
+      }
+
+      const [completed] = await db
+        .select({ id: attempts.id })
+        .from(attempts)
+        .innerJoin(dailyChallenges, eq(attempts.challengeId, dailyChallenges.id))
+        .where(and(eq(attempts.userId, req.userId!), eq(attempts.isBestAttempt, true), eq(dailyChallenges.dateKey, dateKey)))
+        .limit(1);
+      if (completed) {
+        return res.status(400).json({ error: 'That day is already completed' });
+      }
+
+      const { getFrozenDateKeys, getStreakFreezeStatus } = await import('./services/streakFreezeService');
+      const frozen = await getFrozenDateKeys(db, req.userId!);
+      if (frozen.includes(dateKey)) {
+        return res.status(400).json({ error: 'That day is already frozen' });
+      }
+
+      const { spendStreakFreeze } = await import('./services/streakService');
+      const spent = await spendStreakFreeze(req.userId!, dateKey);
+      if (!spent) {
+        return res.status(409).json({ error: 'No streak freezes left for that week' });
+      }
+
+      const streak = await getUserStreak(req.userId!);
+      const status = await getStreakFreezeStatus(req.userId!);
+      return res.json({
+        dateKey,
+        currentStreak: streak?.currentStreak || 0,
+        longestStreak: streak?.longestStreak || 0,
+        ...status,
+      });
+    } catch (error) {
+      console.error('Error spending streak freeze:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/user/goals', ensureUser, async (req: Request, res: Response) => {
+    try {
+      const { listGoals } = await import('./services/goalService');
+      const goals = await listGoals(req.userId!);
+      return res.json({ goals });
+    } catch (error) {
+      console.error('Error fetching goals:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/user/goals', ensureUser, async (req: Request, res: Response) => {
+    try {
+      const parsed = createGoalSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const { createGoal, countGoals, MAX_GOALS_PER_USER } = await import('./services/goalService');
+      if (await countGoals(req.userId!) >= MAX_GOALS_PER_USER) {
+        return res.status(400).json({ error: `You can have at most ${MAX_GOALS_PER_USER} goals` });
+      }
+
+      const { windowDays, category, ...goal } = parsed.data;
+      const created = await createGoal(req.userId!, {
+        ...goal,
+        windowDays: windowDays ?? null,
+        category: category ?? null,
+      });
+      if (created.completedAt) awardGoalBadges(req.userId!);
+      return res.status(201).json({ goal: created });
+    } catch (error) {
+      if (error instanceof GoalAlreadyMetError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error creating goal:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.patch('/api/user/goals/:id', ensureUser, async (req: Request, res: Response) => {
+    try {
+      const parsed = updateGoalSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const { getGoal, updateGoal } = await import('./services/goalService');
+      const existing = await getGoal(req.userId!, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Goal not found' });
+      }
+      if (SCORE_GOAL_TYPES.includes(existing.goalType) && (parsed.data.targetValue ?? 0) > 100) {
+        return res.status(400).json({ error: 'Score targets must be at most 100' });
+      }
+
+      const goal = await updateGoal(req.userId!, req.params.id, parsed.data);
+      if (goal?.completedAt && !existing.completedAt) awardGoalBadges(req.userId!);
+      return res.json({ goal });
+    } catch (error) {
+      if (error instanceof GoalAlreadyMetError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error updating goal:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/user/goals/:id', ensureUser, async (req: Request, res: Response) => {
+    try {
+      const { deleteGoal } = await import('./services/goalService');
+      const deleted = await deleteGoal(req.userId!, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Goal not found' });
+      }
+      return res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting goal:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Saved calculator scenarios for the Tools page
+  app.get('/api/tools/scenarios', requireAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const { listScenarios } = await import('./services/scenarioService');
+      const scenarios = await listScenarios(req.userId!);
+      return res.json({ scenarios });
+    } catch (error) {
+      console.error('Error fetching scenarios:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/tools/scenarios', requireAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const parsed = createScenarioSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const { createScenario, countScenarios, MAX_SCENARIOS_PER_USER } = await import('./services/scenarioService');
+      if (await countScenarios(req.userId!) >= MAX_SCENARIOS_PER_USER) {
+        return res.status(400).json({ error: `You can save at most ${MAX_SCENARIOS_PER_USER} scenarios` });
+      }
+
+      const scenario = await createScenario(req.userId!, parsed.data.name, parsed.data.inputs);
+      return res.status(201).json({ scenario });
+    } catch (error) {
+      console.error('Error saving scenario:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Public view of a shared scenario; owner details are not included
+  app.get('/api/tools/scenarios/shared/:token', async (req: Request, res: Response) => {
+    try {
+      const { getSharedScenario } = await import('./services/scenarioService');
+      const scenario = await getSharedScenario(req.params.token);
+      if (!scenario) {
+        return res.status(404).json({ error: 'Scenario not found' });
+      }
+      return res.json({
+        scenario: {
+          name: scenario.name,
+          kind: scenario.kind,
+          inputsJson: scenario.inputsJson,
+          resultsJson: scenario.resultsJson,
+          updatedAt: scenario.updatedAt,
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching shared scenario:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/tools/scenarios/:id', requireAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const { getScenario } = await import('./services/scenarioService');
+      const scenario = await getScenario(req.userId!, req.params.id);
+      if (!scenario) {
+        return res.status(404).json({ error: 'Scenario not found' });
+      }
+      return res.json({ scenario });
+    } catch (error) {
+      console.error('Error fetching scenario:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.patch('/api/tools/scenarios/:id', requireAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const parsed = updateScenarioSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const { updateScenario } = await import('./services/scenarioService');
+      const scenario = await updateScenario(req.userId!, req.params.id, parsed.data);
+      if (!scenario) {
+        return res.status(404).json({ error: 'Scenario not found' });
+      }
+      return res.json({ scenario });
+    } catch (error) {
+      console.error('Error updating scenario:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/tools/scenarios/:id', requireAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const { deleteScenario } = await import('./services/scenarioService');
+      const deleted = await deleteScenario(req.userId!, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Scenario not found' });
+      }
+      return res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting scenario:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/tools/scenarios/:id/share', requireAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const { shareScenario } = await import('./services/scenarioService');
+      const shareToken = await shareScenario(req.userId!, req.params.id);
+      if (!shareToken) {
+        return res.status(404).json({ error: 'Scenario not found' });
+      }
+      return res.json({ shareToken });
+    } catch (error) {
+      console.error('Error sharing scenario:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/tools/scenarios/:id/share', requireAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const { unshareScenario } = await import('./services/scenarioService');
+      const updated = await unshareScenario(req.userId!, req.params.id);
+      if (!updated) {
+        return res.status(404).json({ error: 'Scenario not found' });
+      }
+      return res.json({ success: true });
+    } catch (error) {
+      console.error('Error unsharing scenario:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // Risk Profile endpoint
   app.get('/api/user/risk-profile', ensureUser, async (req: Request, res: Response) => {
     try {
@@ -1417,9 +1973,8 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
       const allChallenges = await storage.getAllChallenges();
       console.log(`Archive: Found ${allChallenges.length} total challenges for user ${userId}`);
       
-      // Get user's local "today" from query parameter (client calculates in their timezone)
-      // Fall back to server timezone if not provided
-      const userTodayKey = (req.query.userToday as string) || getActiveDateKey();
+      // Today in the user's stored timezone; the client's userToday is only used before one is stored
+      const userTodayKey = await getUserTodayKey(userId, req.query.userToday as string | undefined);
       const today = parse(userTodayKey, 'yyyy-MM-dd', new Date());
       
       // Show all historical challenges (today and past) + only next 7 days of future challenges
@@ -1591,7 +2146,7 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
 
   // Admin Routes
   app.post('/api/admin/login', (req: Request, res: Response) => {
-    const { password } = req.body;
+    const { password, name } = req.body;
     const adminPassword = process.env.ADMIN_PASSWORD || 'admin123';
     const clientIp = getClientIp(req); // Use improved IP detection
     
@@ -1608,7 +2163,8 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
       cleanupExpiredSessions();
       
       const token = generateSessionToken();
-      adminSessions.set(token, { expiresAt: Date.now() + SESSION_DURATION });
+      const adminName = typeof name === 'string' && name.trim() ? name.trim().slice(0, 100) : 'admin';
+      adminSessions.set(token, { expiresAt: Date.now() + SESSION_DURATION, adminName });
       
       return res.json({ success: true, token });
     }
@@ -1637,6 +2193,101 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
     }
   });
 
+  app.get('/api/admin/challenges/export', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const fileFormat = req.query.format === 'csv' ? 'csv' : 'json';
+      const { exportChallenges, toCsv } = await import('./services/challengeTransferService');
+      const records = await exportChallenges();
+      const filename = `challenges-${format(new Date(), 'yyyy-MM-dd')}.${fileFormat}`;
+
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      if (fileFormat === 'csv') {
+        return res.type('text/csv').send(toCsv(records));
+      }
+      return res.type('application/json').send(JSON.stringify({ challenges: records }, null, 2));
+    } catch (error) {
+      console.error('Error exporting challenges:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/admin/challenges/import/preview', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parsed = challengeImportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const { parseImportFile, planImport } = await import('./services/challengeTransferService');
+      let rows: unknown[];
+      try {
+        rows = parseImportFile(parsed.data.format, parsed.data.content);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      const plan = await planImport(toImportCandidates(rows));
+      return res.json(plan.preview);
+    } catch (error) {
+      console.error('Error previewing challenge import:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Re-plans from the uploaded content rather than trusting a stale preview, then applies all rows or none
+  app.post('/api/admin/challenges/import/apply', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parsed = challengeImportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const { parseImportFile, planImport, applyImport } = await import('./services/challengeTransferService');
+      let rows: unknown[];
+      try {
+        rows = parseImportFile(parsed.data.format, parsed.data.content);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      const plan = await planImport(toImportCandidates(rows));
+      if (!plan.preview.canApply) {
+        return res.status(409).json({
+          error: 'Import has invalid or conflicting rows, or nothing to change',
+          preview: plan.preview,
+        });
+      }
+
+      const result = await applyImport(plan, getRevisionEditor(req));
+      return res.json({ ...result, preview: plan.preview });
+    } catch (error: any) {
+      if (error instanceof PlayedChallengeError) {
+        return res.status(409).json({ error: error.message });
+      }
+      // Another admin created a challenge on one of the dates between planning and commit
+      if (error?.code === '23505' || error?.message?.includes('unique constraint')) {
+        return res.status(409).json({ error: 'A challenge was created on one of these dates during the import; nothing was saved' });
+      }
+      console.error('Error applying challenge import:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/admin/challenges/duplicate-report', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parsed = duplicateReportSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid query', details: parsed.error });
+      }
+
+      const { getDuplicateReport } = await import('./services/duplicateDetectionService');
+      return res.json(await getDuplicateReport(parsed.data.minScore));
+    } catch (error) {
+      console.error('Error building duplicate report:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   app.get('/api/admin/challenges/:id', requireAdmin, async (req: Request, res: Response) => {
     try {
       const challenge = await storage.getChallengeById(req.params.id);
@@ -1650,6 +2301,91 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
     }
   });
 
+  app.get('/api/admin/scoring-strategies', requireAdmin, async (req: Request, res: Response) => {
+    const { SCORING_STRATEGIES } = await import('./services/scoringService');
+    return res.json(
+      Object.values(SCORING_STRATEGIES).map(({ id, label, description }) => ({ id, label, description }))
+    );
+  });
+
+  app.post('/api/admin/scoring-strategies/preview', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parsed = scoringPreviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const { previewScoringStrategy } = await import('./services/scoringService');
+      const config = resolveScoringConfig(await getGlobalScoringConfig(), parsed.data.gradeThresholdsJson);
+      return res.json(previewScoringStrategy(parsed.data.scoringStrategy, parsed.data.options, config));
+    } catch (error) {
+      console.error('Error previewing scoring strategy:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Rebuild aggregates from best attempts and diff against stored rows; repair rewrites drifted rows
+  app.post('/api/admin/aggregates/check', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parsed = aggregateCheckSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const { checkAggregateConsistency } = await import('./services/aggregateConsistencyService');
+      const report = await checkAggregateConsistency(parsed.data);
+      return res.json(report);
+    } catch (error) {
+      console.error('Error checking aggregates:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/admin/grades/thresholds', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const config = await getGlobalScoringConfig();
+      const enabled = await isFeatureEnabled('GRADE_THRESHOLDS');
+      return res.json({ enabled, config });
+    } catch (error) {
+      console.error('Error fetching grade thresholds:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Re-grade historical attempts after thresholds change; dryRun (default) only reports
+  app.post('/api/admin/grades/recompute', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parsed = recomputeGradesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const { recomputeGradeTiers } = await import('./services/gradeConfigService');
+      const report = await recomputeGradeTiers(parsed.data);
+      return res.json(report);
+    } catch (error) {
+      console.error('Error recomputing grades:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Recalibrate community difficulty from best attempts; dryRun (default) only reports
+  app.post('/api/admin/difficulty/calibrate', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parsed = calibrateDifficultySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const { calibrateDifficulty } = await import('./services/difficultyCalibrationService');
+      const report = await calibrateDifficulty(parsed.data);
+      return res.json(report);
+    } catch (error) {
+      console.error('Error calibrating difficulty:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // Check for duplicates before creating/updating
   app.post('/api/admin/challenges/check-duplicate', requireAdmin, async (req: Request, res: Response) => {
     try {
@@ -1675,6 +2411,22 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
     }
   });
 
+  app.post('/api/admin/challenges/similar', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parsed = similarChallengesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const { challengeId, ...content } = parsed.data;
+      const { findSimilarChallenges } = await import('./services/duplicateDetectionService');
+      return res.json(await findSimilarChallenges(content, { excludeId: challengeId }));
+    } catch (error) {
+      console.error('Error finding similar challenges:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   app.post('/api/admin/challenges', requireAdmin, async (req: Request, res: Response) => {
     try {
       const parsed = createChallengeSchema.safeParse(req.body);
@@ -1682,7 +2434,8 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
         return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
       }
 
-      const { options, ...challengeData } = parsed.data;
+      const { options, ...fields } = parsed.data;
+      const challengeData = { ...fields, optionCount: options.length };
       
       // Check for duplicates before creating
       const { checkForDuplicateChallenge } = await import('./services/duplicateDetectionService');
@@ -1700,7 +2453,8 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
         });
       }
 
-      const challenge = await storage.createChallenge(challengeData, options);
+      const { createChallengeWithRevision } = await import('./services/revisionService');
+      const challenge = await createChallengeWithRevision(challengeData, options, getRevisionEditor(req));
       
       // Auto-create daily thread if challenge is published
       if (challengeData.isPublished) {
@@ -1731,7 +2485,8 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
         return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
       }
 
-      const { options, ...challengeData } = parsed.data;
+      const { options, ...fields } = parsed.data;
+      const challengeData = options ? { ...fields, optionCount: options.length } : fields;
       
       // Check for duplicates if dateKey or title is being updated
       if (challengeData.dateKey || challengeData.title) {
@@ -1755,12 +2510,11 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
         }
       }
       
-      let challenge;
-      if (options) {
-        challenge = await storage.updateChallengeWithOptions(req.params.id, challengeData, options);
-      } else {
-        challenge = await storage.updateChallenge(req.params.id, challengeData);
-      }
+      // Snapshot every edit: replacing options gives them new IDs, and past attempts still reference the old ones
+      const { withRevision, applyChallengeEdit } = await import('./services/revisionService');
+      const challenge = await withRevision(req.params.id, 'update', getRevisionEditor(req), (tx) => (
+        applyChallengeEdit(tx, req.params.id, challengeData, options)
+      ));
       
       if (!challenge) {
         return res.status(404).json({ error: 'Challenge not found' });
@@ -1768,6 +2522,10 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
       
       return res.json(challenge);
     } catch (error: any) {
+      if (error instanceof PlayedChallengeError) {
+        return res.status(409).json({ error: error.message });
+      }
+
       // Handle unique constraint violations from database
       if (error?.code === '23505' || error?.message?.includes('unique constraint')) {
         return res.status(409).json({
@@ -1782,6 +2540,161 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
     }
   });
 
+  // Calendar of published/draft/missing days, the unscheduled draft pool and the upcoming-gap warning
+  app.get('/api/admin/schedule', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parsed = scheduleRangeSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid query', details: parsed.error });
+      }
+      if (differenceInCalendarDays(parseISO(parsed.data.to), parseISO(parsed.data.from)) > 92) {
+        return res.status(400).json({ error: 'Date range is limited to 93 days' });
+      }
+
+      const { getScheduleCalendar } = await import('./services/scheduleService');
+      return res.json(await getScheduleCalendar(parsed.data.from, parsed.data.to));
+    } catch (error) {
+      console.error('Error fetching schedule:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/admin/schedule/reschedule', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parsed = rescheduleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const { rescheduleChallenge } = await import('./services/scheduleService');
+      const result = await rescheduleChallenge(parsed.data.challengeId, parsed.data.dateKey, getRevisionEditor(req));
+      if (!result.ok) {
+        return res.status(409).json({ error: result.error });
+      }
+      return res.json(result.challenge);
+    } catch (error: any) {
+      // Another request may have taken the date between the duplicate check and the update
+      if (error?.code === '23505') {
+        return res.status(409).json({ error: `A challenge already exists for date ${req.body.dateKey}` });
+      }
+      console.error('Error rescheduling challenge:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Fill empty upcoming dates from the draft pool; dryRun (default) only reports the plan
+  app.post('/api/admin/schedule/auto-fill', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parsed = autoFillSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const { autoFillSchedule } = await import('./services/scheduleService');
+      return res.json(await autoFillSchedule({ ...parsed.data, editor: getRevisionEditor(req) }));
+    } catch (error: any) {
+      if (error instanceof ScheduleConflictError) {
+        return res.status(409).json({ error: `${error.message}; nothing was moved, try again` });
+      }
+      // Another challenge took one of the dates before the fill committed
+      if (error?.code === '23505') {
+        return res.status(409).json({ error: 'The schedule changed while filling; nothing was moved, try again' });
+      }
+      console.error('Error auto-filling schedule:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/admin/schedule/config', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const { challengeQueueConfigSchema, updateQueueConfig } = await import('./services/scheduleService');
+      const parsed = challengeQueueConfigSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+      return res.json(await updateQueueConfig(parsed.data));
+    } catch (error) {
+      console.error('Error updating schedule config:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Edit history, newest first, with each revision's changes against the one before it
+  app.get('/api/admin/challenges/:id/revisions', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const challenge = await storage.getChallengeById(req.params.id);
+      if (!challenge) {
+        return res.status(404).json({ error: 'Challenge not found' });
+      }
+
+      const { getChallengeRevisions } = await import('./services/revisionService');
+      return res.json(await getChallengeRevisions(challenge.id));
+    } catch (error) {
+      console.error('Error fetching challenge revisions:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/admin/challenges/:id/revisions/:revisionId/revert', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const { revertToRevision } = await import('./services/revisionService');
+      const result = await revertToRevision(req.params.id, req.params.revisionId, getRevisionEditor(req));
+      if (!result.ok) {
+        return res.status(409).json({ error: result.error });
+      }
+
+      const challenge = await storage.getChallengeById(req.params.id);
+      return res.json({ challenge, revision: result.revision });
+    } catch (error: any) {
+      // The revision's date was taken between the duplicate check and the update
+      if (error?.code === '23505') {
+        return res.status(409).json({ error: 'Another challenge already uses that revision\'s date' });
+      }
+      console.error('Error reverting challenge:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Authored pairwise rationales plus how often players invert each pair
+  app.get('/api/admin/challenges/:id/rationales', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const challenge = await storage.getChallengeById(req.params.id);
+      if (!challenge) {
+        return res.status(404).json({ error: 'Challenge not found' });
+      }
+
+      const { getPairRationaleReport } = await import('./services/pairRationaleService');
+      return res.json(await getPairRationaleReport(challenge.id, challenge.options));
+    } catch (error) {
+      console.error('Error fetching pair rationales:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/admin/challenges/:id/rationales', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const parsed = pairRationalesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const challenge = await storage.getChallengeById(req.params.id);
+      if (!challenge) {
+        return res.status(404).json({ error: 'Challenge not found' });
+      }
+      if (parsed.data.rationales.some(pair => pair.worseIndex > challenge.options.length)) {
+        return res.status(400).json({ error: `Pairs must reference options 1-${challenge.options.length}` });
+      }
+
+      const { replacePairRationales, getPairRationaleReport } = await import('./services/pairRationaleService');
+      await replacePairRationales(challenge.id, challenge.options, parsed.data.rationales);
+      return res.json(await getPairRationaleReport(challenge.id, challenge.options));
+    } catch (error) {
+      console.error('Error saving pair rationales:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   app.post('/api/admin/badges/update', requireAdmin, async (req: Request, res: Response) => {
     try {
       const { seedBadges } = await import('./seedBadges');
@@ -2351,6 +3264,8 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
       }
 
       const aggregate = await storage.getAggregate(id);
+      const { getChallengeQuality } = await import('./services/challengeQualityService');
+      const quality = await getChallengeQuality(challenge, aggregate);
       if (!aggregate || aggregate.bestAttemptCount === 0) {
         return res.json({
           challengeId: id,
@@ -2358,6 +3273,7 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
           totalAttempts: 0,
           topPickStats: {},
           topTwoStats: {},
+          quality,
         });
       }
 
@@ -2393,6 +3309,7 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
         totalAttempts,
         topPickStats,
         topTwoStats,
+        quality,
       });
     } catch (error) {
       console.error('Error fetching challenge stats:', error);
@@ -3189,6 +4106,76 @@ export async function registerRoutes(server: Server, app: Express): Promise<Serv
     }
   });
 
+  // One-off purchase of extra retries, credited by the checkout.session.completed webhook
+  app.post('/api/stripe/retry-checkout-session', ensureUser, async (req: Request, res: Response) => {
+    if (!stripe) {
+      return res.status(503).json({ error: 'Stripe is not configured. Payment features are unavailable.' });
+    }
+    try {
+      const purchasesEnabled = await isFeatureEnabled('EXTRA_RETRY_PURCHASES');
+      if (!purchasesEnabled) {
+        return res.status(403).json({ error: 'Retry purchases are not available' });
+      }
+
+      const parsed = retryCheckoutSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request body', details: parsed.error });
+      }
+
+      const userId = req.userId!;
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      if (user.authProvider === 'anonymous') {
+        return res.status(403).json({ error: 'Please sign in to purchase retries' });
+      }
+
+      const priceId = process.env.STRIPE_PRICE_ID_RETRY_PACK;
+      if (!priceId) {
+        console.error('STRIPE_PRICE_ID_RETRY_PACK is not configured');
+        return res.status(500).json({ error: 'Retry pricing not configured. Please contact support.' });
+      }
+
+      const customerId = await getOrCreateStripeCustomer(
+        userId,
+        user.email || undefined,
+        user.displayName || undefined
+      );
+
+      const baseUrl = process.env.BASE_URL || 
+                     (process.env.NODE_ENV === 'production' 
+                       ? 'https://moneyrank.onrender.com' 
+                       : `http://localhost:${process.env.PORT || 5000}`);
+      const returnPath = parsed.data.dateKey ? `/challenge/${parsed.data.dateKey}` : '/';
+
+      const session = await stripe.checkout.sessions.create({
+        customer: customerId,
+        payment_method_types: ['card'],
+        line_items: [
+          {
+            price: priceId,
+            quantity: 1,
+          },
+        ],
+        mode: 'payment',
+        success_url: `${baseUrl}${returnPath}?retry_purchase=success`,
+        cancel_url: `${baseUrl}${returnPath}`,
+        metadata: {
+          userId: userId,
+          purchase: 'extra_retries',
+          retries: String(RETRY_PACK_SIZE),
+        },
+      });
+
+      return res.json({ sessionId: session.id, url: session.url });
+    } catch (error: any) {
+      console.error('Error creating retry checkout session:', error);
+      return res.status(500).json({ error: 'Failed to create checkout session' });
+    }
+  });
+
   // Get Customer Portal URL for subscription management
   app.post('/api/stripe/customer-portal', ensureUser, async (req: Request, res: Response) => {
     if (!stripe) {
@@ -0,0 +1,190 @@
+import { db, type DbExecutor } from '../db';
+import { attempts, aggregates, dailyChallenges, type Aggregate } from '@shared/schema';
+import { eq, and } from 'drizzle-orm';
+import { lockAggregateForUpdate } from './aggregateService';
+
+type CountMap = Record<string, number>;
+
+export interface AggregateCounts {
+  bestAttemptCount: number;
+  topPickCountsJson: CountMap;
+  topTwoCountsJson: CountMap;
+  exactRankingCountsJson: CountMap;
+  scoreHistogramJson: CountMap;
+}
+
+const COUNT_FIELDS = [
+  'topPickCountsJson',
+  'topTwoCountsJson',
+  'exactRankingCountsJson',
+  'scoreHistogramJson',
+] as const;
+
+export interface AggregateFieldMismatch {
+  field: keyof AggregateCounts;
+  // For count maps, only the keys that differ; for bestAttemptCount, the whole value
+  stored: number | CountMap;
+  expected: number | CountMap;
+}
+
+export interface AggregateChallengeReport {
+  challengeId: string;
+  dateKey: string;
+  title: string;
+  missingRow: boolean;
+  mismatches: AggregateFieldMismatch[];
+  repaired: boolean;
+}
+
+export interface AggregateConsistencyReport {
+  repair: boolean;
+  checkedChallenges: number;
+  inconsistentChallenges: number;
+  repairedChallenges: number;
+  challenges: AggregateChallengeReport[]; // only challenges with mismatches
+}
+
+function increment(map: CountMap, key: string | number) {
+  map[key] = (map[key] || 0) + 1;
+}
+
+/**
+ * Build aggregate counters from scratch out of a challenge's best attempts,
+ * using the same keys updateAggregatesForNewAttempt writes.
+ */
+export function buildAggregateCounts(
+  bestAttempts: Array<{ rankingJson: unknown; scoreNumeric: number }>
+): AggregateCounts {
+  const counts: AggregateCounts = {
+    bestAttemptCount: bestAttempts.length,
+    topPickCountsJson: {},
+    topTwoCountsJson: {},
+    exactRankingCountsJson: {},
+    scoreHistogramJson: {},
+  };
+
+  for (const attempt of bestAttempts) {
+    const ranking = attempt.rankingJson as string[];
+    if (ranking[0]) increment(counts.topPickCountsJson, ranking[0]);
+    if (ranking[0]) increment(counts.topTwoCountsJson, ranking[0]);
+    if (ranking[1]) increment(counts.topTwoCountsJson, ranking[1]);
+    increment(counts.exactRankingCountsJson, ranking.join(','));
+    increment(counts.scoreHistogramJson, attempt.scoreNumeric);
+  }
+
+  return counts;
+}
+
+// Keys whose counts differ; zero and missing are treated as equal
+function diffCountMaps(stored: CountMap, expected: CountMap): { stored: CountMap; expected: CountMap } | null {
+  const keys = new Set([...Object.keys(stored), ...Object.keys(expected)]);
+  const storedDiff: CountMap = {};
+  const expectedDiff: CountMap = {};
+
+  keys.forEach(key => {
+    const storedValue = stored[key] || 0;
+    const expectedValue = expected[key] || 0;
+    if (storedValue !== expectedValue) {
+      storedDiff[key] = storedValue;
+      expectedDiff[key] = expectedValue;
+    }
+  });
+
+  return Object.keys(storedDiff).length > 0 ? { stored: storedDiff, expected: expectedDiff } : null;
+}
+
+export function diffAggregate(stored: Aggregate | undefined, expected: AggregateCounts): AggregateFieldMismatch[] {
+  const mismatches: AggregateFieldMismatch[] = [];
+
+  const storedCount = stored?.bestAttemptCount ?? 0;
+  if (storedCount !== expected.bestAttemptCount) {
+    mismatches.push({ field: 'bestAttemptCount', stored: storedCount, expected: expected.bestAttemptCount });
+  }
+
+  for (const field of COUNT_FIELDS) {
+    const storedMap = ((stored?.[field] as CountMap | null) || {});
+    const diff = diffCountMaps(storedMap, expected[field]);
+    if (diff) {
+      mismatches.push({ field, ...diff });
+    }
+  }
+
+  return mismatches;
+}
+
+async function getBestAttempts(executor: DbExecutor, challengeId: string) {
+  return await executor
+    .select({ rankingJson: attempts.rankingJson, scoreNumeric: attempts.scoreNumeric })
+    .from(attempts)
+    .where(and(eq(attempts.isBestAttempt, true), eq(attempts.challengeId, challengeId)));
+}
+
+/**
+ * Rebuild aggregates for one or all challenges from attempts where isBestAttempt=true,
+ * report every challenge whose stored row differs, and rewrite those rows when repair is set.
+ * Challenges are checked one at a time. A repair locks the aggregates row and rebuilds again
+ * inside its transaction, so a submission that commits mid-check isn't lost.
+ */
+export async function checkAggregateConsistency(
+  options: { challengeId?: string; repair?: boolean } = {}
+): Promise<AggregateConsistencyReport> {
+  const repair = options.repair ?? false;
+
+  const challenges = await db
+    .select({ id: dailyChallenges.id, dateKey: dailyChallenges.dateKey, title: dailyChallenges.title })
+    .from(dailyChallenges)
+    .where(options.challengeId ? eq(dailyChallenges.id, options.challengeId) : undefined);
+
+  const report: AggregateConsistencyReport = {
+    repair,
+    checkedChallenges: challenges.length,
+    inconsistentChallenges: 0,
+    repairedChallenges: 0,
+    challenges: [],
+  };
+
+  for (const challenge of challenges) {
+    const expected = buildAggregateCounts(await getBestAttempts(db, challenge.id));
+    const [stored] = await db.select().from(aggregates).where(eq(aggregates.challengeId, challenge.id));
+
+    // No attempts and no row is consistent; a row is only required once someone has played
+    if (!stored && expected.bestAttemptCount === 0) continue;
+
+    let mismatches = diffAggregate(stored, expected);
+    const missingRow = !stored;
+    if (mismatches.length === 0 && !missingRow) continue;
+
+    let repaired = false;
+    if (repair) {
+      // Same lock submissions take, so no best attempt can change between the rebuild and the write
+      mismatches = await db.transaction(async (tx) => {
+        const locked = await lockAggregateForUpdate(tx, challenge.id);
+        const rebuilt = buildAggregateCounts(await getBestAttempts(tx, challenge.id));
+        const lockedMismatches = diffAggregate(locked, rebuilt);
+        if (lockedMismatches.length > 0) {
+          await tx
+            .update(aggregates)
+            .set({ ...rebuilt, updatedAt: new Date() })
+            .where(eq(aggregates.challengeId, challenge.id));
+        }
+        return lockedMismatches;
+      });
+      // A submission fixed it in the meantime (the row now exists either way)
+      if (mismatches.length === 0) continue;
+      repaired = true;
+      report.repairedChallenges++;
+    }
+
+    report.inconsistentChallenges++;
+    report.challenges.push({
+      challengeId: challenge.id,
+      dateKey: challenge.dateKey,
+      title: challenge.title,
+      missingRow,
+      mismatches,
+      repaired,
+    });
+  }
+
+  return report;
+}
@@ -1,90 +1,131 @@
 import { storage } from '../storage';
+import { db, type DbExecutor, type DbTransaction } from '../db';
+import { aggregates, attempts, dailyChallenges, type Aggregate } from '@shared/schema';
+import { and, eq, gt, notExists } from 'drizzle-orm';
+import { getPercentileStats } from './percentileService';
 
-export async function updateAggregatesForNewAttempt(
-  challengeId: string,
-  ranking: string[],
-  newScore: number,
-  oldBestScore: number | null
-): Promise<void> {
-  const aggregate = await storage.getAggregate(challengeId);
-  
-  if (!aggregate) {
-    // Track top 2 choices (positions 1 and 2)
-    const topTwo: Record<string, number> = {};
-    if (ranking[0]) topTwo[ranking[0]] = 1;
-    if (ranking[1]) topTwo[ranking[1]] = (topTwo[ranking[1]] || 0) + 1;
+type CountMap = Record<string, number>;
 
-    await storage.upsertAggregate({
-      challengeId,
-      bestAttemptCount: 1,
-      topPickCountsJson: { [ranking[0]]: 1 },
-      topTwoCountsJson: topTwo,
-      exactRankingCountsJson: { [ranking.join(',')]: 1 },
-      scoreHistogramJson: { [newScore]: 1 },
-    });
-    return;
+function adjust(map: CountMap, key: string | number | undefined, delta: number) {
+  if (key === undefined || key === '') return;
+  const next = (map[key] || 0) + delta;
+  if (next > 0) {
+    map[key] = next;
+  } else {
+    // Drop emptied keys instead of keeping zeros around
+    delete map[key];
   }
+}
 
-  const topPicks = aggregate.topPickCountsJson as Record<string, number>;
-  // Handle case where topTwoCountsJson might not exist in database yet
-  const topTwo = (aggregate.topTwoCountsJson || {}) as Record<string, number>;
-  const exactRankings = aggregate.exactRankingCountsJson as Record<string, number>;
-  const scoreHistogram = aggregate.scoreHistogramJson as Record<string, number>;
+/**
+ * Condition on dailyChallenges: no attempts and no aggregate counts reference the challenge.
+ * Played challenges must keep their date and option IDs, even after being unpublished.
+ */
+export function isUnplayed() {
+  return and(
+    notExists(db.select({ id: attempts.id }).from(attempts).where(eq(attempts.challengeId, dailyChallenges.id))),
+    notExists(
+      db.select({ challengeId: aggregates.challengeId }).from(aggregates)
+        .where(and(eq(aggregates.challengeId, dailyChallenges.id), gt(aggregates.bestAttemptCount, 0)))
+    )
+  );
+}
 
-  topPicks[ranking[0]] = (topPicks[ranking[0]] || 0) + 1;
-  
-  // Track top 2 choices (positions 1 and 2)
-  if (ranking[0]) topTwo[ranking[0]] = (topTwo[ranking[0]] || 0) + 1;
-  if (ranking[1]) topTwo[ranking[1]] = (topTwo[ranking[1]] || 0) + 1;
-  
-  const rankingKey = ranking.join(',');
-  exactRankings[rankingKey] = (exactRankings[rankingKey] || 0) + 1;
+// Read through the caller's transaction, after locking the challenge row, when the answer guards a write
+export async function hasBeenPlayed(challengeId: string, executor: DbExecutor = db): Promise<boolean> {
+  const [unplayed] = await executor
+    .select({ id: dailyChallenges.id })
+    .from(dailyChallenges)
+    .where(and(eq(dailyChallenges.id, challengeId), isUnplayed()))
+    .limit(1);
+  return !unplayed;
+}
+
+/**
+ * Lock a challenge's aggregates row for the rest of the transaction, creating it first
+ * if needed so concurrent first submissions contend on the same row.
+ * Holding this lock also serializes best-attempt bookkeeping for the challenge.
+ */
+export async function lockAggregateForUpdate(tx: DbTransaction, challengeId: string): Promise<Aggregate> {
+  await tx
+    .insert(aggregates)
+    .values({ challengeId })
+    .onConflictDoNothing({ target: aggregates.challengeId });
+
+  const [aggregate] = await tx
+    .select()
+    .from(aggregates)
+    .where(eq(aggregates.challengeId, challengeId))
+    .for('update');
+
+  return aggregate;
+}
 
-  scoreHistogram[newScore] = (scoreHistogram[newScore] || 0) + 1;
-  if (oldBestScore !== null && oldBestScore !== newScore) {
-    scoreHistogram[oldBestScore] = Math.max(0, (scoreHistogram[oldBestScore] || 0) - 1);
+/**
+ * Counters after a user's best attempt changes: the new best ranking is added
+ * and the previous best (if any) is removed, so every counter reflects exactly
+ * one ranking per user.
+ */
+export function applyBestAttemptChange(
+  aggregate: Pick<Aggregate, 'bestAttemptCount' | 'topPickCountsJson' | 'topTwoCountsJson' | 'exactRankingCountsJson' | 'scoreHistogramJson'>,
+  ranking: string[],
+  newScore: number,
+  previousBest: { ranking: string[]; score: number } | null
+) {
+  const topPicks = { ...(aggregate.topPickCountsJson as CountMap) };
+  // Handle case where topTwoCountsJson might not exist in database yet
+  const topTwo = { ...((aggregate.topTwoCountsJson || {}) as CountMap) };
+  const exactRankings = { ...(aggregate.exactRankingCountsJson as CountMap) };
+  const scoreHistogram = { ...(aggregate.scoreHistogramJson as CountMap) };
+
+  if (previousBest) {
+    adjust(topPicks, previousBest.ranking[0], -1);
+    adjust(topTwo, previousBest.ranking[0], -1);
+    adjust(topTwo, previousBest.ranking[1], -1);
+    adjust(exactRankings, previousBest.ranking.join(','), -1);
+    adjust(scoreHistogram, previousBest.score, -1);
   }
 
-  const newCount = oldBestScore === null ? aggregate.bestAttemptCount + 1 : aggregate.bestAttemptCount;
+  adjust(topPicks, ranking[0], 1);
+  // Track top 2 choices (positions 1 and 2)
+  adjust(topTwo, ranking[0], 1);
+  adjust(topTwo, ranking[1], 1);
+  adjust(exactRankings, ranking.join(','), 1);
+  adjust(scoreHistogram, newScore, 1);
 
-  await storage.upsertAggregate({
-    challengeId,
-    bestAttemptCount: newCount,
+  return {
+    bestAttemptCount: previousBest ? aggregate.bestAttemptCount : aggregate.bestAttemptCount + 1,
     topPickCountsJson: topPicks,
     topTwoCountsJson: topTwo,
     exactRankingCountsJson: exactRankings,
     scoreHistogramJson: scoreHistogram,
-  });
+  };
 }
 
+/**
+ * Apply a new best attempt to an aggregates row already locked with lockAggregateForUpdate,
+ * using the same transaction so the counts commit or roll back with the attempt.
+ */
+export async function updateAggregatesForNewAttempt(
+  tx: DbTransaction,
+  aggregate: Aggregate,
+  ranking: string[],
+  newScore: number,
+  previousBest: { ranking: string[]; score: number } | null
+): Promise<void> {
+  const counts = applyBestAttemptChange(aggregate, ranking, newScore, previousBest);
+
+  await tx
+    .update(aggregates)
+    .set({ ...counts, updatedAt: new Date() })
+    .where(eq(aggregates.challengeId, aggregate.challengeId));
+}
+
+// Smoothed percentile for a score; see percentileService for the smoothing model
 export async function calculatePercentile(challengeId: string, userScore: number): Promise<number> {
-  const aggregate = await storage.getAggregate(challengeId);
-  if (!aggregate || aggregate.bestAttemptCount === 0) return 50;
+  const challenge = await storage.getChallengeById(challengeId);
+  if (!challenge) return 50;
 
-  const histogram = aggregate.scoreHistogramJson as Record<string, number>;
-  
-  // Generate 10 baseline pseudo-observations to smooth percentile calculation
-  // Using only achievable scores from the scoring system (distance-based points)
-  // Weighted toward middle/lower-middle range to represent average performance
-  const baselineScores = [
-    85, 84, 79, 72, 70, 68, 65, 60, 55, 50
-  ];
-  
-  // Count real scores below user's score
-  let countBelow = 0;
-  for (const [score, count] of Object.entries(histogram)) {
-    if (parseInt(score) < userScore) {
-      countBelow += count;
-    }
-  }
-  
-  // Add baseline scores below user's score
-  const baselineBelow = baselineScores.filter(score => score < userScore).length;
-  countBelow += baselineBelow;
-  
-  // Total count includes both real attempts and baseline
-  const totalCount = aggregate.bestAttemptCount + baselineScores.length;
-  
-  const percentile = Math.round((countBelow / totalCount) * 100);
-  return percentile;
+  const stats = await getPercentileStats(challenge, userScore);
+  return stats.percentile.smoothed;
 }
@@ -3,9 +3,12 @@ import { db } from '../db';
 import { attempts, dailyChallenges, challengeOptions } from '@shared/schema';
 import { type ChallengeOption, type InsertAttempt } from '@shared/schema';
 import { calculateRankingScore, getGradeTier } from './scoringService';
-import { updateAggregatesForNewAttempt } from './aggregateService';
-import { updateStreakForCompletion } from './streakService';
+import { getGlobalScoringConfig, resolveScoringConfig } from './gradeConfigService';
+import { lockAggregateForUpdate, updateAggregatesForNewAttempt } from './aggregateService';
+import { lockStreak, updateStreakForCompletion } from './streakService';
+import { chargeAttempt } from './retryService';
 import { checkAndAwardBadges, getUserBadgeContext } from './badgeService';
+import { refreshGoalProgress } from './goalService';
 import { eq, and } from 'drizzle-orm';
 
 export async function submitAttempt(
@@ -13,9 +16,13 @@ export async function submitAttempt(
   challengeId: string,
   dateKey: string,
   ranking: string[]
-): Promise<{ attemptId: string; score: number; grade: string }> {
-  // Use transaction to ensure atomicity and prevent race conditions
-  return await db.transaction(async (tx) => {
+): Promise<{ attemptId: string; score: number; grade: string; retriesRemaining: number }> {
+  // Feature flags are read through the pool, so resolve them before any row locks are held
+  const globalScoringConfig = await getGlobalScoringConfig();
+
+  // Use transaction to ensure atomicity and prevent race conditions.
+  // Everything inside reads through tx: a pool call made while holding a lock can starve the pool under load
+  const { result, isBest, previousBestScore } = await db.transaction(async (tx) => {
     // Get challenge within transaction
     const [challenge] = await tx
       .select()
@@ -27,6 +34,12 @@ export async function submitAttempt(
       throw new Error('Challenge not found');
     }
 
+    // Lock order for a user's rows is streak, then wallets (see lockStreak)
+    await lockStreak(tx, userId);
+
+    // Re-attempts spend a retry from this week's wallet (throws RetryLimitError when empty)
+    const retriesRemaining = await chargeAttempt(tx, userId, challengeId);
+
     // Get challenge options
     const challengeOpts = await tx
       .select()
@@ -37,10 +50,10 @@ export async function submitAttempt(
       .sort((a, b) => a.orderingIndex - b.orderingIndex)
       .map(opt => opt.id);
 
-    const score = calculateRankingScore(ranking, idealRanking, challengeOpts);
-    const grade = getGradeTier(score);
+    const score = calculateRankingScore(ranking, idealRanking, challengeOpts, challenge.scoringStrategy);
+    const grade = getGradeTier(score, resolveScoringConfig(globalScoringConfig, challenge.gradeThresholdsJson));
 
-    // Get existing best attempt within transaction to prevent race conditions
+    // Get existing best attempt within transaction; the streak lock above serializes this user's submissions
     const [existingBest] = await tx
       .select()
       .from(attempts)
@@ -91,44 +104,49 @@ export async function submitAttempt(
           .where(eq(attempts.id, existingBest.id));
       }
       
-      // Update aggregates (this should also use transaction, but for now keep as is)
-      // Note: updateAggregatesForNewAttempt uses db directly, not tx
-      // This is acceptable as aggregates are eventually consistent
+      await updateStreakForCompletion(tx, userId, dateKey);
+
+      // Every best attempt on the challenge queues on its aggregates row, so take that lock
+      // last and only for new bests: it is held only for the counter update and the commit
+      const aggregate = await lockAggregateForUpdate(tx, challengeId);
       await updateAggregatesForNewAttempt(
-        challengeId,
+        tx,
+        aggregate,
         ranking,
         score,
-        existingBest ? existingBest.scoreNumeric : null
+        existingBest
+          ? { ranking: existingBest.rankingJson as string[], score: existingBest.scoreNumeric }
+          : null
       );
-      
-      // Update streak (also uses db directly, acceptable for eventual consistency)
-      await updateStreakForCompletion(userId, dateKey);
-    }
-
-    // Check and award badges (only for best attempts to avoid spam)
-    // Do this outside transaction to avoid long-running operations in transaction
-    if (isBest) {
-      // Use setImmediate to run badge checking after transaction commits
-      setImmediate(async () => {
-        try {
-          const context = await getUserBadgeContext(
-            userId,
-            score,
-            challengeId,
-            existingBest ? existingBest.scoreNumeric : null
-          );
-          const awardedBadges = await checkAndAwardBadges(context);
-        } catch (error) {
-          // Don't fail the attempt if badge checking fails
-          console.error('Error checking badges:', error);
-        }
-      });
     }
 
     return {
-      attemptId: newAttempt.id,
-      score: newAttempt.scoreNumeric,
-      grade: newAttempt.gradeTier,
+      result: {
+        attemptId: newAttempt.id,
+        score: newAttempt.scoreNumeric,
+        grade: newAttempt.gradeTier,
+        retriesRemaining,
+      },
+      isBest,
+      previousBestScore: existingBest ? existingBest.scoreNumeric : null,
     };
   });
+
+  // Check and award badges (only for best attempts to avoid spam)
+  // The transaction has committed, so goal and badge queries see this attempt
+  if (isBest) {
+    setImmediate(async () => {
+      try {
+        // Goals first so a goal completed by this attempt counts toward goal badges
+        await refreshGoalProgress(userId);
+        const context = await getUserBadgeContext(userId, result.score, challengeId, previousBestScore);
+        await checkAndAwardBadges(context);
+      } catch (error) {
+        // Don't fail the attempt if badge checking fails
+        console.error('Error checking badges:', error);
+      }
+    });
+  }
+
+  return result;
 }
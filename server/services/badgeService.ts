@@ -1,6 +1,7 @@
 import { storage } from '../storage';
 import { type Badge, type InsertUserBadge } from '@shared/schema';
 import { calculatePercentile } from './aggregateService';
+import { countGoals } from './goalService';
 
 interface BadgeCheckContext {
   userId: string;
@@ -14,6 +15,7 @@ interface BadgeCheckContext {
   isAuthenticated: boolean;
   accountAgeDays?: number;
   previousBestScore?: number | null;
+  completedGoals?: number;
 }
 
 export async function checkAndAwardBadges(context: BadgeCheckContext): Promise<Badge[]> {
@@ -124,6 +126,9 @@ async function checkBadgeCriteria(badge: Badge, context: BadgeCheckContext): Pro
     case 'authenticated':
       return context.isAuthenticated;
 
+    case 'goals_completed':
+      return (context.completedGoals || 0) >= badge.criteriaValue;
+
     case 'account_age':
       if (context.accountAgeDays === undefined) return false;
       const maxAge = config.daysSinceCreation || badge.criteriaValue;
@@ -182,6 +187,7 @@ export async function getUserBadgeContext(
     isAuthenticated: user.authProvider !== 'anonymous',
     accountAgeDays,
     previousBestScore,
+    completedGoals: await countGoals(userId, { completedOnly: true }),
   };
 }
 
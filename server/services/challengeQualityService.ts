@@ -0,0 +1,256 @@
+import { db } from '../db';
+import { attempts, type Aggregate, type ChallengeOption } from '@shared/schema';
+import { and, eq, sql } from 'drizzle-orm';
+
+// Below this many best attempts the metrics are too noisy to act on and come back null
+export const MIN_QUALITY_SAMPLE = 20;
+
+// Players need this many other challenges played for their overall ability to count in discrimination
+const MIN_OTHER_CHALLENGES = 3;
+
+// Mean score at or above each cutoff maps to that difficulty; below the last one is 5 (hardest)
+export const OBSERVED_DIFFICULTY_BANDS: Array<{ minMeanScore: number; difficulty: number }> = [
+  { minMeanScore: 85, difficulty: 1 },
+  { minMeanScore: 75, difficulty: 2 },
+  { minMeanScore: 65, difficulty: 3 },
+  { minMeanScore: 55, difficulty: 4 },
+];
+
+// Kendall tau between the crowd's consensus order and the key at or below which the key is flagged
+const KEY_AGREEMENT_THRESHOLD = 0.4;
+
+// The crowd's favourite first pick is flagged when it beats the key's #1 by this factor
+const TOP_PICK_DOMINANCE_RATIO = 1.5;
+
+type CountMap = Record<string, number>;
+
+export type DiscriminationLabel = 'poor' | 'marginal' | 'fair' | 'good';
+
+export interface DifficultyMetrics {
+  authored: number;
+  observed: number | null;
+  meanScore: number | null;
+  medianScore: number | null;
+  mismatch: boolean; // observed is 2+ levels away from authored
+}
+
+export interface DiscriminationMetrics {
+  // Correlation between this challenge's score and each player's average on their other challenges
+  correlation: number | null;
+  label: DiscriminationLabel | null;
+  sampleSize: number; // players with enough other challenges to count
+}
+
+export interface AnswerKeyMetrics {
+  consensusRanking: Array<{ optionId: string; optionText: string; orderingIndex: number; meanPosition: number }>;
+  keyAgreement: number | null; // Kendall tau, 1 = crowd order matches orderingIndex exactly, -1 = reversed
+  modalRanking: { optionIds: string[]; share: number } | null; // most common exact ranking
+  keyTopPickShare: number | null; // share of players who put the key's #1 first
+  crowdTopPick: { optionId: string; optionText: string; share: number } | null;
+  disagreement: boolean;
+  reasons: string[];
+  rankedAttempts: number; // best attempts whose ranking matches the current options
+}
+
+export interface ChallengeQualityReport {
+  sampleSize: number;
+  minSample: number;
+  difficulty: DifficultyMetrics;
+  discrimination: DiscriminationMetrics;
+  answerKey: AnswerKeyMetrics;
+}
+
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export function histogramStats(histogram: CountMap): { mean: number; median: number } | null {
+  const buckets = Object.entries(histogram)
+    .map(([score, count]) => [parseInt(score), count] as const)
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => a[0] - b[0]);
+  const total = buckets.reduce((sum, [, count]) => sum + count, 0);
+  if (total === 0) return null;
+
+  const mean = buckets.reduce((sum, [score, count]) => sum + score * count, 0) / total;
+  let seen = 0;
+  let median = buckets[buckets.length - 1][0];
+  for (const [score, count] of buckets) {
+    seen += count;
+    if (seen >= total / 2) {
+      median = score;
+      break;
+    }
+  }
+  return { mean, median };
+}
+
+export function observedDifficulty(meanScore: number): number {
+  return OBSERVED_DIFFICULTY_BANDS.find(band => meanScore >= band.minMeanScore)?.difficulty ?? 5;
+}
+
+function labelDiscrimination(correlation: number): DiscriminationLabel {
+  // Conventional item-analysis cutoffs for a corrected item-total correlation
+  if (correlation >= 0.3) return 'good';
+  if (correlation >= 0.2) return 'fair';
+  if (correlation >= 0.1) return 'marginal';
+  return 'poor';
+}
+
+function pearson(pairs: Array<[number, number]>): number | null {
+  const n = pairs.length;
+  if (n < 2) return null;
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (const [x, y] of pairs) {
+    covariance += (x - meanX) * (y - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (y - meanY) ** 2;
+  }
+  if (varianceX === 0 || varianceY === 0) return null; // everyone scored the same on one side
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+// Kendall tau-a between two orderings of the same items
+function kendallTau(a: string[], b: string[]): number {
+  const positionInB = new Map(b.map((id, index) => [id, index]));
+  let concordant = 0;
+  let discordant = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = i + 1; j < a.length; j++) {
+      if (positionInB.get(a[i])! < positionInB.get(a[j])!) concordant++;
+      else discordant++;
+    }
+  }
+  const pairs = (a.length * (a.length - 1)) / 2;
+  return pairs > 0 ? (concordant - discordant) / pairs : 1;
+}
+
+/**
+ * Corrected item-total correlation: for players with a best attempt here, correlate this score
+ * with their average best score on the other challenges they've played.
+ */
+async function getDiscrimination(challengeId: string): Promise<DiscriminationMetrics> {
+  const rows = await db
+    .select({
+      score: attempts.scoreNumeric,
+      otherAverage: sql<number>`(
+        SELECT AVG(other.score_numeric) FROM attempts other
+        WHERE other.user_id = ${attempts.userId} AND other.is_best_attempt = true AND other.challenge_id <> ${challengeId}
+      )`,
+      otherCount: sql<number>`(
+        SELECT COUNT(*) FROM attempts other
+        WHERE other.user_id = ${attempts.userId} AND other.is_best_attempt = true AND other.challenge_id <> ${challengeId}
+      )`,
+    })
+    .from(attempts)
+    .where(and(eq(attempts.challengeId, challengeId), eq(attempts.isBestAttempt, true)));
+
+  const pairs = rows
+    .filter(row => Number(row.otherCount) >= MIN_OTHER_CHALLENGES)
+    .map(row => [row.score, Number(row.otherAverage)] as [number, number]);
+
+  const correlation = pairs.length >= MIN_QUALITY_SAMPLE ? pearson(pairs) : null;
+  return {
+    correlation: correlation === null ? null : round(correlation),
+    label: correlation === null ? null : labelDiscrimination(correlation),
+    sampleSize: pairs.length,
+  };
+}
+
+function getAnswerKeyMetrics(options: ChallengeOption[], exactRankingCounts: CountMap): AnswerKeyMetrics {
+  const key = [...options].sort((a, b) => a.orderingIndex - b.orderingIndex);
+  const optionIds = new Set(key.map(opt => opt.id));
+  const positionSums = new Map<string, number>();
+  const firstPicks = new Map<string, number>();
+  let rankedAttempts = 0;
+  let modal: { ranking: string[]; count: number } | null = null;
+
+  for (const [rankingKey, count] of Object.entries(exactRankingCounts)) {
+    if (count <= 0) continue;
+    const ranking = rankingKey.split(',');
+    // Rankings recorded against options that have since been replaced can't be compared with the key
+    if (ranking.length !== key.length || ranking.some(id => !optionIds.has(id))) continue;
+    rankedAttempts += count;
+    ranking.forEach((id, position) => positionSums.set(id, (positionSums.get(id) || 0) + (position + 1) * count));
+    firstPicks.set(ranking[0], (firstPicks.get(ranking[0]) || 0) + count);
+    if (!modal || count > modal.count) modal = { ranking, count };
+  }
+
+  const consensusRanking = key
+    .map(opt => ({
+      optionId: opt.id,
+      optionText: opt.optionText,
+      orderingIndex: opt.orderingIndex,
+      meanPosition: rankedAttempts > 0 ? round((positionSums.get(opt.id) || 0) / rankedAttempts, 2) : opt.orderingIndex,
+    }))
+    .sort((a, b) => a.meanPosition - b.meanPosition || a.orderingIndex - b.orderingIndex);
+
+  if (rankedAttempts < MIN_QUALITY_SAMPLE) {
+    return {
+      consensusRanking,
+      keyAgreement: null,
+      modalRanking: null,
+      keyTopPickShare: null,
+      crowdTopPick: null,
+      disagreement: false,
+      reasons: [],
+      rankedAttempts,
+    };
+  }
+
+  const keyAgreement = round(kendallTau(consensusRanking.map(opt => opt.optionId), key.map(opt => opt.id)));
+  const keyTopPickShare = (firstPicks.get(key[0].id) || 0) / rankedAttempts;
+  const [crowdTopId, crowdTopCount] = Array.from(firstPicks.entries()).sort((a, b) => b[1] - a[1])[0];
+  const crowdTopOption = key.find(opt => opt.id === crowdTopId)!;
+  const crowdTopShare = crowdTopCount / rankedAttempts;
+
+  const reasons: string[] = [];
+  if (keyAgreement <= KEY_AGREEMENT_THRESHOLD) {
+    reasons.push(`Crowd consensus order agrees weakly with the key (Kendall tau ${keyAgreement})`);
+  }
+  if (crowdTopId !== key[0].id && crowdTopShare >= keyTopPickShare * TOP_PICK_DOMINANCE_RATIO) {
+    reasons.push(
+      `${Math.round(crowdTopShare * 100)}% put #${crowdTopOption.orderingIndex} first; only ${Math.round(keyTopPickShare * 100)}% chose the key's #1`
+    );
+  }
+
+  return {
+    consensusRanking,
+    keyAgreement,
+    modalRanking: modal ? { optionIds: modal.ranking, share: round(modal.count / rankedAttempts) } : null,
+    keyTopPickShare: round(keyTopPickShare),
+    crowdTopPick: { optionId: crowdTopId, optionText: crowdTopOption.optionText, share: round(crowdTopShare) },
+    disagreement: reasons.length > 0,
+    reasons,
+    rankedAttempts,
+  };
+}
+
+/**
+ * Item-analysis style metrics for one challenge: observed vs authored difficulty, how well it
+ * separates strong players from weak ones, and whether the crowd disputes the answer key.
+ */
+export async function getChallengeQuality(
+  challenge: { id: string; difficulty: number; options: ChallengeOption[] },
+  aggregate: Aggregate | undefined
+): Promise<ChallengeQualityReport> {
+  const sampleSize = aggregate?.bestAttemptCount || 0;
+  const scores = sampleSize >= MIN_QUALITY_SAMPLE ? histogramStats((aggregate?.scoreHistogramJson as CountMap) || {}) : null;
+  const observed = scores ? observedDifficulty(scores.mean) : null;
+
+  return {
+    sampleSize,
+    minSample: MIN_QUALITY_SAMPLE,
+    difficulty: {
+      authored: challenge.difficulty,
+      observed,
+      meanScore: scores ? round(scores.mean, 1) : null,
+      medianScore: scores ? scores.median : null,
+      mismatch: observed !== null && Math.abs(observed - challenge.difficulty) >= 2,
+    },
+    discrimination: await getDiscrimination(challenge.id),
+    answerKey: getAnswerKeyMetrics(challenge.options, (aggregate?.exactRankingCountsJson as CountMap) || {}),
+  };
+}
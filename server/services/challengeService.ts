@@ -1,5 +1,6 @@
 import { storage } from '../storage';
 import { getActiveDateKey } from './dateService';
+import { getUserTodayKey } from './timezoneService';
 import { subDays, format, parse } from 'date-fns';
 import { db } from '../db';
 import { attempts, dailyChallenges } from '@shared/schema';
@@ -21,8 +22,8 @@ export async function getYesterdayChallenge(userTodayKey?: string) {
 }
 
 export async function canAccessChallenge(dateKey: string, userId: string, userTodayKey?: string): Promise<boolean> {
-  // Use user's local "today" if provided, otherwise fall back to server timezone
-  const todayKey = userTodayKey || getActiveDateKey();
+  // Today in the user's stored timezone; a client-reported day is only used before one is stored
+  const todayKey = await getUserTodayKey(userId, userTodayKey);
   const today = parse(todayKey + 'T00:00:00', 'yyyy-MM-dd\'T\'HH:mm:ss', new Date());
   const yesterday = subDays(today, 1);
   const yesterdayKey = format(yesterday, 'yyyy-MM-dd');
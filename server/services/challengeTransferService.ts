@@ -0,0 +1,434 @@
+import { db } from '../db';
+import { dailyChallenges, challengeOptions, aggregates, MAX_OPTION_COUNT, type DailyChallenge, type ChallengeOption, type InsertDailyChallenge } from '@shared/schema';
+import { asc, eq, inArray } from 'drizzle-orm';
+import type { InsertChallengeOptionInput } from '../storage';
+import { checkForDuplicateChallenge, checkForDuplicateChallengeOnUpdate } from './duplicateDetectionService';
+import { stableStringify } from '../utils/stableStringify';
+import { ensureBaselineRevision, recordChallengeRevision, PlayedChallengeError, type RevisionEditor } from './revisionService';
+import { hasBeenPlayed } from './aggregateService';
+
+export const TRANSFER_FORMATS = ['json', 'csv'] as const;
+export type TransferFormat = typeof TRANSFER_FORMATS[number];
+
+// One challenge in the createChallengeSchema shape, as exported and as accepted on import
+export interface ChallengeTransferRecord {
+  dateKey: string;
+  title: string;
+  scenarioText: string;
+  assumptions: string;
+  category: string;
+  difficulty: number;
+  isPublished: boolean;
+  optionCount: number;
+  scoringStrategy: string;
+  gradeThresholdsJson: unknown;
+  assumptionValuesJson: unknown;
+  calculatorPresetJson: unknown;
+  options: InsertChallengeOptionInput[];
+}
+
+// A row that passed the import row schema; optional fields left out (isPublished included) keep the existing value on update
+export type ChallengeImportRecord = InsertDailyChallenge & { options: InsertChallengeOptionInput[] };
+
+export interface ImportCandidate {
+  row: number; // 1-based position in the file
+  record: ChallengeImportRecord | null; // null when validation failed
+  issues: string[];
+  dateKey: string | null;
+  title: string | null;
+}
+
+export type ImportRowStatus = 'new' | 'changed' | 'unchanged' | 'conflict' | 'invalid';
+
+export interface ImportFieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface ImportPreviewRow {
+  row: number;
+  dateKey: string | null;
+  title: string | null;
+  status: ImportRowStatus;
+  changes: ImportFieldChange[];
+  issues: string[];
+}
+
+export interface ImportPreview {
+  total: number;
+  counts: Record<ImportRowStatus, number>;
+  rows: ImportPreviewRow[];
+  canApply: boolean; // false while any row is invalid or conflicting; apply is all-or-nothing
+}
+
+export interface ImportPlan {
+  preview: ImportPreview;
+  creates: ChallengeImportRecord[];
+  updates: Array<{ id: string; record: ChallengeImportRecord; replaceOptions: boolean }>;
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  unchanged: number;
+}
+
+// Fields compared (and, when present in the import, overwritten) on existing challenges
+const COMPARED_FIELDS = [
+  'title', 'scenarioText', 'assumptions', 'category', 'difficulty', 'isPublished',
+  'scoringStrategy', 'gradeThresholdsJson', 'assumptionValuesJson', 'calculatorPresetJson',
+] as const;
+
+const CSV_BASE_COLUMNS = [
+  'dateKey', 'title', 'scenarioText', 'assumptions', 'category', 'difficulty', 'isPublished',
+  'scoringStrategy', 'gradeThresholdsJson', 'assumptionValuesJson', 'calculatorPresetJson',
+] as const;
+
+const CSV_JSON_COLUMNS = new Set(['gradeThresholdsJson', 'assumptionValuesJson', 'calculatorPresetJson']);
+
+// option1Text, option1Tier, option1Explanation, ... option6Explanation; the column number is the orderingIndex
+const CSV_OPTION_COLUMNS = Array.from({ length: MAX_OPTION_COUNT }, (_, i) => [
+  `option${i + 1}Text`, `option${i + 1}Tier`, `option${i + 1}Explanation`,
+]).flat();
+
+export const CSV_COLUMNS = [...CSV_BASE_COLUMNS, ...CSV_OPTION_COLUMNS];
+
+function toRecord(challenge: DailyChallenge, options: ChallengeOption[]): ChallengeTransferRecord {
+  return {
+    dateKey: challenge.dateKey,
+    title: challenge.title,
+    scenarioText: challenge.scenarioText,
+    assumptions: challenge.assumptions,
+    category: challenge.category,
+    difficulty: challenge.difficulty,
+    isPublished: challenge.isPublished,
+    optionCount: challenge.optionCount,
+    scoringStrategy: challenge.scoringStrategy,
+    gradeThresholdsJson: challenge.gradeThresholdsJson ?? null,
+    assumptionValuesJson: challenge.assumptionValuesJson ?? null,
+    calculatorPresetJson: challenge.calculatorPresetJson ?? null,
+    options: [...options]
+      .sort((a, b) => a.orderingIndex - b.orderingIndex)
+      .map(opt => ({
+        optionText: opt.optionText,
+        tierLabel: opt.tierLabel,
+        explanationShort: opt.explanationShort,
+        orderingIndex: opt.orderingIndex,
+      })),
+  };
+}
+
+async function loadChallengesWithOptions(where?: ReturnType<typeof inArray>) {
+  const challenges = await db.select().from(dailyChallenges).where(where).orderBy(asc(dailyChallenges.dateKey));
+  if (challenges.length === 0) return [];
+
+  const options = await db
+    .select()
+    .from(challengeOptions)
+    .where(inArray(challengeOptions.challengeId, challenges.map(c => c.id)));
+  const optionsByChallenge = new Map<string, ChallengeOption[]>();
+  for (const opt of options) {
+    if (!optionsByChallenge.has(opt.challengeId)) optionsByChallenge.set(opt.challengeId, []);
+    optionsByChallenge.get(opt.challengeId)!.push(opt);
+  }
+  return challenges.map(challenge => ({ challenge, options: optionsByChallenge.get(challenge.id) || [] }));
+}
+
+export async function exportChallenges(): Promise<ChallengeTransferRecord[]> {
+  const rows = await loadChallengesWithOptions();
+  return rows.map(({ challenge, options }) => toRecord(challenge, options));
+}
+
+// --- CSV ---
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(records: ChallengeTransferRecord[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const record of records) {
+    const cells: unknown[] = CSV_BASE_COLUMNS.map(column => record[column]);
+    for (let i = 1; i <= MAX_OPTION_COUNT; i++) {
+      const opt = record.options.find(o => o.orderingIndex === i);
+      cells.push(opt?.optionText ?? '', opt?.tierLabel ?? '', opt?.explanationShort ?? '');
+    }
+    lines.push(cells.map(csvCell).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+function parseJsonCell(value: string): unknown {
+  if (value.trim() === '') return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value; // left as a string so schema validation reports it on the row
+  }
+}
+
+// Turns CSV rows back into createChallengeSchema-shaped objects; validation happens afterwards
+function csvToObjects(content: string): unknown[] {
+  const [header, ...rows] = parseCsvRows(content.replace(/^﻿/, ''));
+  if (!header) return [];
+  const columns = header.map(h => h.trim());
+
+  return rows.map(cells => {
+    const get = (column: string) => {
+      const index = columns.indexOf(column);
+      return index >= 0 ? (cells[index] ?? '') : '';
+    };
+
+    const obj: Record<string, unknown> = {};
+    for (const column of CSV_BASE_COLUMNS) {
+      if (!columns.includes(column)) continue;
+      const raw = get(column);
+      if (CSV_JSON_COLUMNS.has(column)) {
+        obj[column] = parseJsonCell(raw);
+      } else if (column === 'difficulty') {
+        obj[column] = raw.trim() === '' ? undefined : Number(raw);
+      } else if (column === 'isPublished') {
+        obj[column] = raw.trim() === '' ? undefined : ['true', '1', 'yes'].includes(raw.trim().toLowerCase());
+      } else if (column === 'scoringStrategy') {
+        obj[column] = raw.trim() === '' ? undefined : raw.trim();
+      } else {
+        obj[column] = raw;
+      }
+    }
+
+    const options = [];
+    for (let i = 1; i <= MAX_OPTION_COUNT; i++) {
+      const optionText = get(`option${i}Text`);
+      if (optionText.trim() === '') continue;
+      options.push({
+        optionText,
+        tierLabel: get(`option${i}Tier`),
+        explanationShort: get(`option${i}Explanation`),
+        orderingIndex: i,
+      });
+    }
+    obj.options = options;
+    return obj;
+  });
+}
+
+/**
+ * Raw rows from an uploaded file. JSON may be an array or { challenges: [...] }.
+ * Throws with a readable message when the file itself can't be read.
+ */
+export function parseImportFile(format: TransferFormat, content: string): unknown[] {
+  if (format === 'csv') return csvToObjects(content);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error: any) {
+    throw new Error(`Invalid JSON: ${error.message}`);
+  }
+  if (Array.isArray(parsed)) return parsed;
+  if (parsed && typeof parsed === 'object' && Array.isArray((parsed as any).challenges)) return (parsed as any).challenges;
+  throw new Error('JSON must be an array of challenges or { "challenges": [...] }');
+}
+
+// --- Preview / apply ---
+
+const truncate = (text: string, max = 80) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+const describeOptions = (options: InsertChallengeOptionInput[]) => [...options]
+  .sort((a, b) => a.orderingIndex - b.orderingIndex)
+  .map(opt => `${opt.orderingIndex}. ${opt.optionText} [${opt.tierLabel}]`)
+  .join(' | ');
+
+function diffChallenge(existing: ChallengeTransferRecord, record: ChallengeImportRecord): ImportFieldChange[] {
+  const changes: ImportFieldChange[] = [];
+  for (const field of COMPARED_FIELDS) {
+    const incoming = record[field];
+    if (incoming === undefined) continue; // not in the file: keep the current value
+    const before = stableStringify(existing[field]);
+    const after = stableStringify(incoming);
+    if (before !== after) changes.push({ field, before: truncate(before), after: truncate(after) });
+  }
+
+  const normalize = (options: InsertChallengeOptionInput[]) => stableStringify(
+    [...options]
+      .sort((a, b) => a.orderingIndex - b.orderingIndex)
+      .map(({ optionText, tierLabel, explanationShort, orderingIndex }) => ({ optionText, tierLabel, explanationShort, orderingIndex }))
+  );
+  if (normalize(existing.options) !== normalize(record.options)) {
+    changes.push({ field: 'options', before: truncate(describeOptions(existing.options), 200), after: truncate(describeOptions(record.options), 200) });
+  }
+  return changes;
+}
+
+/**
+ * Classify every row against the database without writing anything:
+ * new dateKeys, changes to existing ones, and conflicts (repeated dateKeys or titles in the file,
+ * title duplicates per duplicateDetectionService, or option changes on a challenge that has been played).
+ */
+export async function planImport(candidates: ImportCandidate[]): Promise<ImportPlan> {
+  const valid = candidates.filter(c => c.record);
+  const dateKeys = valid.map(c => c.record!.dateKey);
+  const existingRows = dateKeys.length > 0 ? await loadChallengesWithOptions(inArray(dailyChallenges.dateKey, dateKeys)) : [];
+  const existingByDateKey = new Map(existingRows.map(({ challenge, options }) => [challenge.dateKey, { challenge, record: toRecord(challenge, options) }]));
+
+  const countBy = (values: string[]) => values.reduce((map, v) => map.set(v, (map.get(v) || 0) + 1), new Map<string, number>());
+  const dateKeyCounts = countBy(dateKeys);
+  const titleCounts = countBy(valid.map(c => c.record!.title.toLowerCase().trim().replace(/\s+/g, ' ')));
+
+  const rows: ImportPreviewRow[] = [];
+  const creates: ImportPlan['creates'] = [];
+  const updates: ImportPlan['updates'] = [];
+
+  for (const candidate of candidates) {
+    const base = { row: candidate.row, dateKey: candidate.dateKey, title: candidate.title };
+    const record = candidate.record;
+    if (!record) {
+      rows.push({ ...base, status: 'invalid', changes: [], issues: candidate.issues });
+      continue;
+    }
+
+    const issues: string[] = [];
+    if ((dateKeyCounts.get(record.dateKey) || 0) > 1) issues.push(`dateKey ${record.dateKey} appears more than once in the file`);
+    if ((titleCounts.get(record.title.toLowerCase().trim().replace(/\s+/g, ' ')) || 0) > 1) issues.push('The same title appears more than once in the file');
+
+    const existing = existingByDateKey.get(record.dateKey);
+    if (!existing) {
+      const duplicateCheck = await checkForDuplicateChallenge(record.dateKey, record.title);
+      if (duplicateCheck.isDuplicate) issues.push(duplicateCheck.message || 'Duplicate challenge');
+      rows.push({ ...base, status: issues.length > 0 ? 'conflict' : 'new', changes: [], issues });
+      if (issues.length === 0) creates.push({ ...record, isPublished: record.isPublished ?? false });
+      continue;
+    }
+
+    const changes = diffChallenge(existing.record, record);
+    const optionsChanged = changes.some(change => change.field === 'options');
+    if (changes.some(change => change.field === 'title')) {
+      const duplicateCheck = await checkForDuplicateChallengeOnUpdate(existing.challenge.id, record.dateKey, record.title);
+      if (duplicateCheck.isDuplicate) issues.push(duplicateCheck.message || 'Duplicate challenge');
+    }
+    // Saving options recreates their rows, which would orphan rankings already submitted
+    if (optionsChanged && await hasBeenPlayed(existing.challenge.id)) {
+      issues.push(`Options can't change: "${existing.challenge.title}" has been played`);
+    }
+
+    const status: ImportRowStatus = issues.length > 0 ? 'conflict' : changes.length > 0 ? 'changed' : 'unchanged';
+    rows.push({ ...base, status, changes, issues });
+    if (status === 'changed') updates.push({ id: existing.challenge.id, record, replaceOptions: optionsChanged });
+  }
+
+  const counts: Record<ImportRowStatus, number> = { new: 0, changed: 0, unchanged: 0, conflict: 0, invalid: 0 };
+  rows.forEach(row => counts[row.status]++);
+
+  return {
+    preview: {
+      total: rows.length,
+      counts,
+      rows,
+      canApply: counts.conflict === 0 && counts.invalid === 0 && counts.new + counts.changed > 0,
+    },
+    creates,
+    updates,
+  };
+}
+
+/**
+ * Write a plan and its revision snapshots in one transaction; any failure rolls back every row.
+ * Option replacements are checked again under the challenge locks and throw PlayedChallengeError
+ * if someone played the challenge after the plan was made.
+ */
+export async function applyImport(plan: ImportPlan, editor: RevisionEditor | null = null): Promise<ImportResult> {
+  if (!plan.preview.canApply) throw new Error('Import has invalid or conflicting rows');
+
+  await db.transaction(async (tx) => {
+    // Baselines lock the updated challenges; id order keeps two overlapping imports from deadlocking
+    for (const id of plan.updates.map(update => update.id).sort()) {
+      await ensureBaselineRevision(tx, id);
+    }
+    for (const { id, record, replaceOptions } of plan.updates) {
+      if (replaceOptions && await hasBeenPlayed(id, tx)) {
+        throw new PlayedChallengeError(`Options can't change: "${record.title}" has been played; nothing was saved`);
+      }
+    }
+
+    const ids: string[] = [];
+    for (const { options, ...fields } of plan.creates) {
+      const [created] = await tx.insert(dailyChallenges).values({ ...fields, optionCount: options.length }).returning();
+      ids.push(created.id);
+      await tx.insert(challengeOptions).values(options.map(opt => ({ ...opt, challengeId: created.id })));
+      await tx.insert(aggregates).values({
+        challengeId: created.id,
+        bestAttemptCount: 0,
+        topPickCountsJson: {},
+        topTwoCountsJson: {},
+        exactRankingCountsJson: {},
+        scoreHistogramJson: {},
+      });
+    }
+
+    for (const { id, record, replaceOptions } of plan.updates) {
+      const { options, dateKey, ...fields } = record;
+      await tx
+        .update(dailyChallenges)
+        .set(replaceOptions ? { ...fields, optionCount: options.length } : fields)
+        .where(eq(dailyChallenges.id, id));
+      if (replaceOptions) {
+        await tx.delete(challengeOptions).where(eq(challengeOptions.challengeId, id));
+        await tx.insert(challengeOptions).values(options.map(opt => ({ ...opt, challengeId: id })));
+      }
+    }
+
+    for (const id of [...ids, ...plan.updates.map(update => update.id)]) {
+      await recordChallengeRevision(tx, id, 'import', editor);
+    }
+  });
+
+  // Same as creating a published challenge through the editor
+  const { createDailyThread } = await import('./forumService');
+  for (const record of plan.creates.filter(r => r.isPublished)) {
+    await createDailyThread(record.dateKey);
+  }
+
+  return { created: plan.creates.length, updated: plan.updates.length, unchanged: plan.preview.counts.unchanged };
+}
@@ -3,6 +3,25 @@ import { toZonedTime } from 'date-fns-tz';
 
 export const DEFAULT_RESET_TZ = 'America/New_York';
 
+// Zones at the two ends of the date line: any real "today" falls between their dates
+const EARLIEST_TZ = 'Etc/GMT+12';
+const LATEST_TZ = 'Etc/GMT-14';
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A client-reported "today" is only trusted if it is today somewhere on Earth
+export function isPlausibleTodayKey(dateKey: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateKey)) return false;
+  return dateKey >= getActiveDateKey(EARLIEST_TZ) && dateKey <= getActiveDateKey(LATEST_TZ);
+}
+
 export function getActiveDateKey(resetTz: string = DEFAULT_RESET_TZ): string {
   const now = new Date();
   const zonedNow = toZonedTime(now, resetTz);
@@ -18,3 +37,9 @@ export function getWeekKey(date: Date, resetTz: string = DEFAULT_RESET_TZ): stri
 export function getCurrentWeekKey(resetTz: string = DEFAULT_RESET_TZ): string {
   return getWeekKey(new Date(), resetTz);
 }
+
+// Week key for a calendar day (dateKeys are already in the reset timezone)
+export function getWeekKeyForDateKey(dateKey: string): string {
+  const weekStart = startOfWeek(parse(dateKey, 'yyyy-MM-dd', new Date()), { weekStartsOn: 1 });
+  return format(weekStart, 'yyyy-ww');
+}
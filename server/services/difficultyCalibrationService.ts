@@ -0,0 +1,213 @@
+import { db } from '../db';
+import { attempts, aggregates, dailyChallenges } from '@shared/schema';
+import { and, asc, eq, gt, sql } from 'drizzle-orm';
+import { MIN_QUALITY_SAMPLE, histogramStats, observedDifficulty } from './challengeQualityService';
+
+// Challenges keep a null community difficulty until they have this many best attempts
+export const MIN_CALIBRATION_SAMPLE = MIN_QUALITY_SAMPLE;
+
+const INITIAL_RATING = 1500;
+const ELO_SCALE = 400;
+// Players have few games each so they move faster; challenges settle over many plays
+const PLAYER_K = 32;
+const CHALLENGE_K = 16;
+// Replaying the history lets early challenges be re-rated against players' settled ratings
+const CALIBRATION_PASSES = 3;
+// Best attempts and challenges are read this many at a time
+const PAGE_SIZE = 1000;
+
+type CountMap = Record<string, number>;
+
+export interface CalibratedChallenge {
+  challengeId: string;
+  dateKey: string;
+  title: string;
+  authored: number;
+  previous: number | null; // stored community difficulty before this run
+  community: number | null;
+  rating: number | null;
+  sampleSize: number;
+  meanScore: number | null; // raw mean from the score histogram
+  adjustedScore: number | null; // expected score for an average-rated player
+}
+
+export interface DifficultyCalibrationReport {
+  dryRun: boolean;
+  minSample: number;
+  checkedChallenges: number;
+  calibratedChallenges: number;
+  changedChallenges: number; // community difficulty differs from the stored value
+  challenges: CalibratedChallenge[]; // calibrated challenges plus any whose stored value is cleared
+}
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Chance the player "beats" the challenge; a score of 100 is a full win
+function expectedOutcome(playerRating: number, challengeRating: number): number {
+  return 1 / (1 + 10 ** ((challengeRating - playerRating) / ELO_SCALE));
+}
+
+type RatedAttempt = { userId: string; challengeId: string; scoreNumeric: number };
+
+interface ChallengeRatings {
+  challengeRatings: Map<string, number>;
+  averagePlayerRating: number;
+}
+
+/**
+ * Elo-style ratings where every best attempt is a game between a player and a challenge,
+ * scored as score/100. A challenge that strong players score poorly on ends up rated higher
+ * than one where weak players happened to score poorly. `replay` feeds every pass's attempts,
+ * oldest first, to `play`; it may do so a page at a time.
+ */
+export async function rateChallenges(replay: (play: (attempt: RatedAttempt) => void) => Promise<void>): Promise<ChallengeRatings> {
+  const playerRatings = new Map<string, number>();
+  const challengeRatings = new Map<string, number>();
+  const play = (attempt: RatedAttempt) => {
+    const playerRating = playerRatings.get(attempt.userId) ?? INITIAL_RATING;
+    const challengeRating = challengeRatings.get(attempt.challengeId) ?? INITIAL_RATING;
+    const surprise = attempt.scoreNumeric / 100 - expectedOutcome(playerRating, challengeRating);
+    playerRatings.set(attempt.userId, playerRating + PLAYER_K * surprise);
+    challengeRatings.set(attempt.challengeId, challengeRating - CHALLENGE_K * surprise);
+  };
+
+  for (let pass = 0; pass < CALIBRATION_PASSES; pass++) {
+    await replay(play);
+  }
+
+  const players = Array.from(playerRatings.values());
+  const averagePlayerRating = players.length > 0
+    ? players.reduce((sum, rating) => sum + rating, 0) / players.length
+    : INITIAL_RATING;
+  return { challengeRatings, averagePlayerRating };
+}
+
+// Every best attempt in submission order, a page at a time; (submitted_at, id) is compared in SQL to keep microseconds
+async function replayBestAttempts(play: (attempt: RatedAttempt) => void): Promise<void> {
+  let cursor: { submittedAt: string; id: string } | null = null;
+  while (true) {
+    const page: Array<RatedAttempt & { id: string; submittedAt: string }> = await db
+      .select({
+        id: attempts.id,
+        userId: attempts.userId,
+        challengeId: attempts.challengeId,
+        scoreNumeric: attempts.scoreNumeric,
+        submittedAt: sql<string>`${attempts.submittedAt}::text`,
+      })
+      .from(attempts)
+      .where(and(
+        eq(attempts.isBestAttempt, true),
+        cursor ? sql`(${attempts.submittedAt}, ${attempts.id}) > (${cursor.submittedAt}::timestamp, ${cursor.id})` : undefined
+      ))
+      .orderBy(asc(attempts.submittedAt), asc(attempts.id))
+      .limit(PAGE_SIZE);
+    page.forEach(play);
+    if (page.length < PAGE_SIZE) return;
+    const last = page[page.length - 1];
+    cursor = { submittedAt: last.submittedAt, id: last.id };
+  }
+}
+
+/**
+ * Derive each challenge's community difficulty from its best attempts. The Elo rating is turned
+ * back into the score an average player would expect and mapped onto the authored 1-5 scale
+ * with the same bands as the admin quality panel. dryRun only reports.
+ */
+export async function calibrateDifficulty(options: { dryRun?: boolean } = {}): Promise<DifficultyCalibrationReport> {
+  const dryRun = options.dryRun ?? false;
+
+  const { challengeRatings, averagePlayerRating } = await rateChallenges(replayBestAttempts);
+
+  const report: DifficultyCalibrationReport = {
+    dryRun,
+    minSample: MIN_CALIBRATION_SAMPLE,
+    checkedChallenges: 0,
+    calibratedChallenges: 0,
+    changedChallenges: 0,
+    challenges: [],
+  };
+
+  // Challenges with their aggregates, a page at a time by dateKey
+  let lastDateKey: string | null = null;
+  while (true) {
+    const page = await db
+      .select({
+        id: dailyChallenges.id,
+        dateKey: dailyChallenges.dateKey,
+        title: dailyChallenges.title,
+        difficulty: dailyChallenges.difficulty,
+        communityDifficulty: dailyChallenges.communityDifficulty,
+        bestAttemptCount: aggregates.bestAttemptCount,
+        scoreHistogramJson: aggregates.scoreHistogramJson,
+      })
+      .from(dailyChallenges)
+      .leftJoin(aggregates, eq(aggregates.challengeId, dailyChallenges.id))
+      .where(lastDateKey ? gt(dailyChallenges.dateKey, lastDateKey) : undefined)
+      .orderBy(asc(dailyChallenges.dateKey))
+      .limit(PAGE_SIZE);
+    report.checkedChallenges += page.length;
+    for (const challenge of page) {
+      const sampleSize = challenge.bestAttemptCount || 0;
+      const scores = sampleSize >= MIN_CALIBRATION_SAMPLE ? histogramStats((challenge.scoreHistogramJson as CountMap) || {}) : null;
+      const rating = challengeRatings.get(challenge.id);
+
+      if (!scores || rating === undefined) {
+        // Aggregates can shrink after a repair; don't leave a value the sample no longer supports
+        if (challenge.communityDifficulty !== null) {
+          report.changedChallenges++;
+          report.challenges.push({
+            challengeId: challenge.id,
+            dateKey: challenge.dateKey,
+            title: challenge.title,
+            authored: challenge.difficulty,
+            previous: challenge.communityDifficulty,
+            community: null,
+            rating: null,
+            sampleSize,
+            meanScore: null,
+            adjustedScore: null,
+          });
+        }
+        continue;
+      }
+
+      const adjustedScore = expectedOutcome(averagePlayerRating, rating) * 100;
+      const community = observedDifficulty(adjustedScore);
+      report.calibratedChallenges++;
+      if (community !== challenge.communityDifficulty) report.changedChallenges++;
+      report.challenges.push({
+        challengeId: challenge.id,
+        dateKey: challenge.dateKey,
+        title: challenge.title,
+        authored: challenge.difficulty,
+        previous: challenge.communityDifficulty,
+        community,
+        rating: Math.round(rating),
+        sampleSize,
+        meanScore: round(scores.mean),
+        adjustedScore: round(adjustedScore),
+      });
+    }
+    if (page.length < PAGE_SIZE) break;
+    lastDateKey = page[page.length - 1].dateKey;
+  }
+
+  if (!dryRun && report.challenges.length > 0) {
+    const calibratedAt = new Date();
+    await db.transaction(async (tx) => {
+      for (const entry of report.challenges) {
+        await tx
+          .update(dailyChallenges)
+          .set({
+            communityDifficulty: entry.community,
+            communityRating: entry.rating,
+            communitySampleSize: entry.community === null ? null : entry.sampleSize,
+            communityDifficultyUpdatedAt: calibratedAt,
+          })
+          .where(eq(dailyChallenges.id, entry.challengeId));
+      }
+    });
+  }
+
+  return report;
+}
@@ -159,4 +159,226 @@ export async function checkForDuplicateChallengeOnUpdate(
   };
 }
 
+// --- Content similarity ---
+// Title checks miss reworded copies of the same scenario, so near-duplicates are also found by
+// comparing scenarioText, assumptions and option texts with TF-IDF cosine similarity.
 
+export interface ContentSimilarityInput {
+  scenarioText: string;
+  assumptions: string;
+  options: string[];
+}
+
+type ContentField = 'scenario' | 'assumptions' | 'options';
+
+// How much each field counts toward the combined score; fields empty on either side are left out
+const FIELD_WEIGHTS: Record<ContentField, number> = {
+  scenario: 0.45,
+  options: 0.4,
+  assumptions: 0.15,
+};
+
+// Combined score at or above which the editor calls a match a likely duplicate
+export const NEAR_DUPLICATE_THRESHOLD = 0.6;
+
+// Lowest score the editor lists at all
+export const SIMILARITY_LIST_THRESHOLD = 0.3;
+
+// Most pairs the library report returns, highest scores first
+export const MAX_DUPLICATE_REPORT_PAIRS = 200;
+
+export interface SimilarChallengeMatch {
+  challenge: {
+    id: string;
+    dateKey: string;
+    title: string;
+  };
+  score: number; // 0..1 weighted across fields
+  fieldScores: Record<ContentField, number | null>; // null when the field is empty on either side
+  likelyDuplicate: boolean;
+}
+
+export interface DuplicateReportPair {
+  a: SimilarChallengeMatch['challenge'];
+  b: SimilarChallengeMatch['challenge'];
+  score: number;
+  fieldScores: Record<ContentField, number | null>;
+}
+
+export interface DuplicateReport {
+  checkedChallenges: number;
+  minScore: number;
+  matchedPairs: number; // pairs at or above minScore; only the top MAX_DUPLICATE_REPORT_PAIRS are returned
+  pairs: DuplicateReportPair[];
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'he', 'her',
+  'his', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'she', 'that', 'the', 'their',
+  'them', 'they', 'this', 'to', 'was', 'were', 'will', 'with', 'you', 'your',
+]);
+
+// Lowercased words and numbers ("$5,000" -> "5000") without stop words, plus adjacent-word bigrams
+function tokenize(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .replace(/(\d),(\d)/g, '$1$2')
+    .split(/[^a-z0-9.%]+/)
+    .map(word => word.replace(/^\.+|\.+$/g, ''))
+    .filter(word => word.length > 0 && !STOP_WORDS.has(word));
+
+  const bigrams = words.slice(1).map((word, i) => `${words[i]} ${word}`);
+  return [...words, ...bigrams];
+}
+
+type SparseVector = Map<string, number>;
+
+interface ContentDocument {
+  id: string;
+  fields: Record<ContentField, string[]>;
+}
+
+function toDocument(id: string, input: ContentSimilarityInput): ContentDocument {
+  return {
+    id,
+    fields: {
+      scenario: tokenize(input.scenarioText),
+      assumptions: tokenize(input.assumptions),
+      options: tokenize(input.options.join(' \n ')),
+    },
+  };
+}
+
+// Per-field TF-IDF vectors (L2-normalized) with IDF taken from the documents being compared
+function buildVectors(documents: ContentDocument[]): Map<string, Record<ContentField, SparseVector>> {
+  const fields = Object.keys(FIELD_WEIGHTS) as ContentField[];
+  const vectors = new Map<string, Record<ContentField, SparseVector>>();
+  documents.forEach(doc => vectors.set(doc.id, {} as Record<ContentField, SparseVector>));
+
+  for (const field of fields) {
+    const documentFrequency = new Map<string, number>();
+    for (const doc of documents) {
+      for (const term of Array.from(new Set(doc.fields[field]))) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+    }
+
+    for (const doc of documents) {
+      const termCounts = new Map<string, number>();
+      doc.fields[field].forEach(term => termCounts.set(term, (termCounts.get(term) || 0) + 1));
+
+      const vector: SparseVector = new Map();
+      let norm = 0;
+      termCounts.forEach((count, term) => {
+        const idf = Math.log((1 + documents.length) / (1 + (documentFrequency.get(term) || 0))) + 1;
+        const weight = count * idf;
+        vector.set(term, weight);
+        norm += weight * weight;
+      });
+      norm = Math.sqrt(norm);
+      vector.forEach((weight, term) => vector.set(term, weight / norm));
+      vectors.get(doc.id)![field] = vector;
+    }
+  }
+  return vectors;
+}
+
+function cosine(a: SparseVector, b: SparseVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((weight, term) => {
+    dot += weight * (large.get(term) || 0);
+  });
+  return dot;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+function compareVectors(a: Record<ContentField, SparseVector>, b: Record<ContentField, SparseVector>) {
+  const fieldScores = {} as Record<ContentField, number | null>;
+  let weighted = 0;
+  let totalWeight = 0;
+
+  for (const field of Object.keys(FIELD_WEIGHTS) as ContentField[]) {
+    if (a[field].size === 0 || b[field].size === 0) {
+      fieldScores[field] = null;
+      continue;
+    }
+    const similarity = cosine(a[field], b[field]);
+    fieldScores[field] = round(similarity);
+    weighted += similarity * FIELD_WEIGHTS[field];
+    totalWeight += FIELD_WEIGHTS[field];
+  }
+
+  return { score: totalWeight > 0 ? round(weighted / totalWeight) : 0, fieldScores };
+}
+
+const summarize = (challenge: { id: string; dateKey: string; title: string }) => ({
+  id: challenge.id,
+  dateKey: challenge.dateKey,
+  title: challenge.title,
+});
+
+/**
+ * Existing challenges ranked by content similarity to the draft, highest first.
+ * Pass excludeId when editing so a challenge doesn't match itself.
+ */
+export async function findSimilarChallenges(
+  input: ContentSimilarityInput,
+  options: { excludeId?: string; limit?: number; minScore?: number } = {}
+): Promise<SimilarChallengeMatch[]> {
+  const { excludeId, limit = 5, minScore = SIMILARITY_LIST_THRESHOLD } = options;
+  const library = (await storage.getAllChallengesWithOptions()).filter(c => c.id !== excludeId);
+  if (library.length === 0) return [];
+
+  const DRAFT_ID = '__draft__';
+  const documents = [
+    toDocument(DRAFT_ID, input),
+    ...library.map(c => toDocument(c.id, { scenarioText: c.scenarioText, assumptions: c.assumptions, options: c.options.map(o => o.optionText) })),
+  ];
+  const vectors = buildVectors(documents);
+  const draft = vectors.get(DRAFT_ID)!;
+
+  return library
+    .map(challenge => {
+      const { score, fieldScores } = compareVectors(draft, vectors.get(challenge.id)!);
+      return { challenge: summarize(challenge), score, fieldScores, likelyDuplicate: score >= NEAR_DUPLICATE_THRESHOLD };
+    })
+    .filter(match => match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Every pair of challenges in the library scoring at least minScore, highest first.
+ */
+export async function getDuplicateReport(minScore: number = NEAR_DUPLICATE_THRESHOLD): Promise<DuplicateReport> {
+  const library = await storage.getAllChallengesWithOptions();
+  const vectors = buildVectors(
+    library.map(c => toDocument(c.id, { scenarioText: c.scenarioText, assumptions: c.assumptions, options: c.options.map(o => o.optionText) }))
+  );
+
+  // Trimmed back to the cap whenever it doubles, so a low minScore can't build millions of pairs
+  let pairs: DuplicateReportPair[] = [];
+  let matchedPairs = 0;
+  const trim = () => {
+    pairs.sort((x, y) => y.score - x.score);
+    pairs = pairs.slice(0, MAX_DUPLICATE_REPORT_PAIRS);
+  };
+  library.forEach((a, i) => {
+    for (let j = i + 1; j < library.length; j++) {
+      const b = library[j];
+      const { score, fieldScores } = compareVectors(vectors.get(a.id)!, vectors.get(b.id)!);
+      if (score >= minScore) {
+        matchedPairs++;
+        // Older challenge first so the newer one reads as the copy
+        const [first, second] = a.dateKey <= b.dateKey ? [a, b] : [b, a];
+        pairs.push({ a: summarize(first), b: summarize(second), score, fieldScores });
+        if (pairs.length >= MAX_DUPLICATE_REPORT_PAIRS * 2) trim();
+      }
+    }
+  });
+  trim();
+
+  return { checkedChallenges: library.length, minScore, matchedPairs, pairs };
+}
@@ -15,6 +15,9 @@ export async function initializeDefaultFlags() {
     { key: 'ARCHIVE_OLDER_THAN_YESTERDAY', enabled: false, configJson: {} },
     { key: 'EXTRA_RETRY_PURCHASES', enabled: false, configJson: {} },
     { key: 'ENABLE_PRO_RESTRICTIONS', enabled: false, configJson: {} },
+    { key: 'PERCENTILE_SMOOTHING', enabled: false, configJson: { method: 'baseline', priorWeight: 10 } },
+    { key: 'GRADE_THRESHOLDS', enabled: false, configJson: { greatThreshold: 85, goodThreshold: 65, extraTiers: [] } },
+    { key: 'CHALLENGE_QUEUE', enabled: true, configJson: { warningDays: 7, fillDays: 14, publishOnFill: false } },
   ];
 
   for (const flag of defaults) {
@@ -0,0 +1,233 @@
+import { db } from '../db';
+import { attempts, dailyChallenges, userGoals, type GoalType, type UserGoal } from '@shared/schema';
+import { eq, and, isNull, isNotNull, desc, sql } from 'drizzle-orm';
+import { format, parse, subDays } from 'date-fns';
+import { getUserStreak } from './streakService';
+import { getUserTodayKey } from './timezoneService';
+
+// A category average only counts as mastery once it rests on a few challenges
+export const CATEGORY_MASTERY_MIN_ATTEMPTS = 3;
+
+export const MAX_GOALS_PER_USER = 20;
+
+// Thrown when a goal is created or edited with a target the user has already reached,
+// so goals (and the goal badges) can only be completed by a later submission
+export class GoalAlreadyMetError extends Error {
+  constructor() {
+    super('You have already reached this target; choose a higher one');
+    this.name = 'GoalAlreadyMetError';
+  }
+}
+
+interface CompletedChallenge {
+  dateKey: string;
+  category: string;
+  score: number;
+}
+
+export interface GoalProgressContext {
+  todayKey: string;
+  completed: CompletedChallenge[]; // one entry per best attempt
+  currentStreak: number;
+}
+
+export type GoalDefinition = Pick<UserGoal, 'goalType' | 'targetValue' | 'windowDays' | 'category'>;
+
+export async function getGoalProgressContext(userId: string): Promise<GoalProgressContext> {
+  const completed = await db
+    .select({
+      dateKey: dailyChallenges.dateKey,
+      category: dailyChallenges.category,
+      score: attempts.scoreNumeric,
+    })
+    .from(attempts)
+    .innerJoin(dailyChallenges, eq(attempts.challengeId, dailyChallenges.id))
+    .where(and(eq(attempts.userId, userId), eq(attempts.isBestAttempt, true)));
+
+  const streak = await getUserStreak(userId);
+
+  return {
+    todayKey: await getUserTodayKey(userId),
+    completed,
+    currentStreak: streak?.currentStreak || 0,
+  };
+}
+
+function averageScore(challenges: CompletedChallenge[]): number {
+  if (challenges.length === 0) return 0;
+  return Math.round(challenges.reduce((sum, c) => sum + c.score, 0) / challenges.length);
+}
+
+/**
+ * Progress toward a goal in the same units as its targetValue, plus whether
+ * any extra requirement for completion (e.g. minimum sample) is met.
+ */
+export function computeGoalProgress(goal: GoalDefinition, context: GoalProgressContext): { currentValue: number; eligible: boolean } {
+  switch (goal.goalType as GoalType) {
+    case 'average_score': {
+      let challenges = context.completed;
+      if (goal.windowDays) {
+        const today = parse(context.todayKey, 'yyyy-MM-dd', new Date());
+        const sinceKey = format(subDays(today, goal.windowDays - 1), 'yyyy-MM-dd');
+        challenges = challenges.filter(c => c.dateKey >= sinceKey && c.dateKey <= context.todayKey);
+      }
+      return { currentValue: averageScore(challenges), eligible: challenges.length > 0 };
+    }
+
+    case 'streak_length':
+      return { currentValue: context.currentStreak, eligible: true };
+
+    case 'category_mastery': {
+      const challenges = context.completed.filter(c => c.category === goal.category);
+      return {
+        currentValue: averageScore(challenges),
+        eligible: challenges.length >= CATEGORY_MASTERY_MIN_ATTEMPTS,
+      };
+    }
+
+    case 'challenges_completed':
+      return { currentValue: context.completed.length, eligible: true };
+
+    default:
+      return { currentValue: 0, eligible: false };
+  }
+}
+
+export async function listGoals(userId: string): Promise<UserGoal[]> {
+  return await db
+    .select()
+    .from(userGoals)
+    .where(eq(userGoals.userId, userId))
+    .orderBy(desc(userGoals.createdAt));
+}
+
+export async function countGoals(userId: string, { completedOnly = false } = {}): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(userGoals)
+    .where(and(eq(userGoals.userId, userId), completedOnly ? isNotNull(userGoals.completedAt) : undefined));
+  return row?.count ?? 0;
+}
+
+export async function createGoal(
+  userId: string,
+  input: GoalDefinition & { title: string }
+): Promise<UserGoal> {
+  const context = await getGoalProgressContext(userId);
+  const { currentValue, eligible } = computeGoalProgress(input, context);
+  if (eligible && currentValue >= input.targetValue) {
+    throw new GoalAlreadyMetError();
+  }
+
+  const [goal] = await db
+    .insert(userGoals)
+    .values({
+      userId,
+      goalType: input.goalType,
+      title: input.title,
+      targetValue: input.targetValue,
+      windowDays: input.windowDays ?? null,
+      category: input.category ?? null,
+      currentValue,
+    })
+    .returning();
+
+  // A submission that committed after the context was read would otherwise wait for the next one
+  await refreshGoalProgress(userId);
+  return (await getGoal(userId, goal.id)) ?? goal;
+}
+
+export async function getGoal(userId: string, goalId: string): Promise<UserGoal | undefined> {
+  const [goal] = await db
+    .select()
+    .from(userGoals)
+    .where(and(eq(userGoals.id, goalId), eq(userGoals.userId, userId)))
+    .limit(1);
+  return goal;
+}
+
+/**
+ * Edit a goal's title or target. Raising the target of a completed goal reopens it; a target
+ * that would complete the goal straight away throws GoalAlreadyMetError.
+ * Returns undefined when the goal doesn't exist or belongs to someone else.
+ */
+export async function updateGoal(
+  userId: string,
+  goalId: string,
+  changes: { title?: string; targetValue?: number }
+): Promise<UserGoal | undefined> {
+  const goal = await getGoal(userId, goalId);
+  if (!goal) return undefined;
+
+  const targetValue = changes.targetValue ?? goal.targetValue;
+  const staysCompleted = goal.completedAt !== null && goal.currentValue >= targetValue;
+  if (!staysCompleted && changes.targetValue !== undefined) {
+    const { currentValue, eligible } = computeGoalProgress({ ...goal, targetValue }, await getGoalProgressContext(userId));
+    if (eligible && currentValue >= targetValue) {
+      throw new GoalAlreadyMetError();
+    }
+  }
+
+  const [updated] = await db
+    .update(userGoals)
+    .set({
+      title: changes.title ?? goal.title,
+      targetValue,
+      completedAt: staysCompleted ? goal.completedAt : null,
+      updatedAt: new Date(),
+    })
+    .where(eq(userGoals.id, goalId))
+    .returning();
+
+  // As in createGoal, a submission may have landed since the progress was read
+  if (!updated.completedAt) {
+    await refreshGoalProgress(userId);
+    return await getGoal(userId, goalId);
+  }
+  return updated;
+}
+
+export async function deleteGoal(userId: string, goalId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(userGoals)
+    .where(and(eq(userGoals.id, goalId), eq(userGoals.userId, userId)))
+    .returning({ id: userGoals.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Recompute progress for the user's open goals, called after each submission.
+ * Returns the goals completed by this update.
+ */
+export async function refreshGoalProgress(userId: string): Promise<UserGoal[]> {
+  const openGoals = await db
+    .select()
+    .from(userGoals)
+    .where(and(eq(userGoals.userId, userId), isNull(userGoals.completedAt)));
+  if (openGoals.length === 0) return [];
+
+  const context = await getGoalProgressContext(userId);
+  const newlyCompleted: UserGoal[] = [];
+
+  for (const goal of openGoals) {
+    const { currentValue, eligible } = computeGoalProgress(goal, context);
+    const completed = eligible && currentValue >= goal.targetValue;
+    if (currentValue === goal.currentValue && !completed) continue;
+
+    const [updated] = await db
+      .update(userGoals)
+      .set({
+        currentValue,
+        completedAt: completed ? new Date() : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(userGoals.id, goal.id))
+      .returning();
+
+    if (completed) {
+      newlyCompleted.push(updated);
+    }
+  }
+
+  return newlyCompleted;
+}
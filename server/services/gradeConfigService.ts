@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import { db } from '../db';
+import { attempts, dailyChallenges } from '@shared/schema';
+import { and, asc, eq, gt, inArray } from 'drizzle-orm';
+import { isFeatureEnabled, getFeatureFlagConfig } from './featureFlagService';
+import { DEFAULT_SCORING_CONFIG, getGradeTier, type ScoringConfig } from './scoringService';
+
+export const GRADE_THRESHOLDS_FLAG = 'GRADE_THRESHOLDS';
+
+const BUILT_IN_TIERS = ['Great', 'Good', 'Risky'];
+
+// Shape of the GRADE_THRESHOLDS flag configJson and of dailyChallenges.gradeThresholdsJson.
+// Every field is optional; missing fields fall through to the next level.
+export const gradeThresholdsSchema = z.object({
+  greatThreshold: z.number().int().min(0).max(100).optional(),
+  goodThreshold: z.number().int().min(0).max(100).optional(),
+  extraTiers: z.array(z.object({
+    tier: z.string().min(1).max(20), // attempts.grade_tier is varchar(20)
+    minScore: z.number().int().min(0).max(100),
+  })).max(5).optional(),
+}).refine(
+  (data) => data.greatThreshold === undefined || data.goodThreshold === undefined || data.goodThreshold <= data.greatThreshold,
+  { message: 'goodThreshold must not exceed greatThreshold' }
+).refine(
+  (data) => !data.extraTiers?.some(t => BUILT_IN_TIERS.includes(t.tier)),
+  { message: 'Extra tiers cannot reuse Great, Good or Risky' }
+);
+
+export type GradeThresholds = z.infer<typeof gradeThresholdsSchema>;
+
+function applyThresholds(base: ScoringConfig, overrides: unknown, source: string): ScoringConfig {
+  if (overrides === null || overrides === undefined) return base;
+
+  const parsed = gradeThresholdsSchema.safeParse(overrides);
+  if (!parsed.success) {
+    console.warn(`[Grades] Ignoring invalid grade thresholds from ${source}:`, parsed.error.issues);
+    return base;
+  }
+
+  const merged: ScoringConfig = {
+    GREAT_THRESHOLD: parsed.data.greatThreshold ?? base.GREAT_THRESHOLD,
+    GOOD_THRESHOLD: parsed.data.goodThreshold ?? base.GOOD_THRESHOLD,
+    EXTRA_TIERS: parsed.data.extraTiers ?? base.EXTRA_TIERS,
+  };
+
+  // A partial override can still cross the inherited thresholds
+  if (merged.GOOD_THRESHOLD > merged.GREAT_THRESHOLD) {
+    console.warn(`[Grades] Ignoring grade thresholds from ${source}: good threshold above great threshold`);
+    return base;
+  }
+
+  return merged;
+}
+
+/**
+ * Global thresholds: GRADE_THRESHOLDS flag config when the flag is enabled,
+ * otherwise DEFAULT_SCORING_CONFIG.
+ */
+export async function getGlobalScoringConfig(): Promise<ScoringConfig> {
+  const enabled = await isFeatureEnabled(GRADE_THRESHOLDS_FLAG);
+  if (!enabled) return DEFAULT_SCORING_CONFIG;
+
+  const config = await getFeatureFlagConfig(GRADE_THRESHOLDS_FLAG);
+  return applyThresholds(DEFAULT_SCORING_CONFIG, config, `${GRADE_THRESHOLDS_FLAG} flag`);
+}
+
+export function resolveScoringConfig(globalConfig: ScoringConfig, challengeOverride: unknown): ScoringConfig {
+  return applyThresholds(globalConfig, challengeOverride, 'challenge override');
+}
+
+export interface GradeRecomputeReport {
+  dryRun: boolean;
+  totalAttempts: number;
+  changedAttempts: number;
+  challengesAffected: number;
+  transitions: Record<string, number>; // e.g. { "Good → Great": 12 }
+}
+
+// Attempts are read and re-graded this many at a time, ordered by id
+const PAGE_SIZE = 500;
+
+/**
+ * Re-grade historical attempts against the current thresholds.
+ * Scores are left untouched; only gradeTier moves. With dryRun nothing is written.
+ * Each page's changes are written as it is read, so an interrupted run can simply be re-run.
+ */
+export async function recomputeGradeTiers(
+  options: { dryRun?: boolean; challengeId?: string } = {}
+): Promise<GradeRecomputeReport> {
+  const dryRun = options.dryRun ?? true;
+  const globalConfig = await getGlobalScoringConfig();
+
+  const configByChallenge = new Map<string, ScoringConfig>();
+  const affectedChallenges = new Set<string>();
+  const transitions: Record<string, number> = {};
+  let totalAttempts = 0;
+  let changedAttempts = 0;
+  let lastId: string | null = null;
+
+  while (true) {
+    const rows = await db
+      .select({
+        id: attempts.id,
+        challengeId: attempts.challengeId,
+        scoreNumeric: attempts.scoreNumeric,
+        gradeTier: attempts.gradeTier,
+        gradeThresholdsJson: dailyChallenges.gradeThresholdsJson,
+      })
+      .from(attempts)
+      .innerJoin(dailyChallenges, eq(attempts.challengeId, dailyChallenges.id))
+      .where(and(
+        options.challengeId ? eq(attempts.challengeId, options.challengeId) : undefined,
+        lastId ? gt(attempts.id, lastId) : undefined
+      ))
+      .orderBy(asc(attempts.id))
+      .limit(PAGE_SIZE);
+    if (rows.length === 0) break;
+    totalAttempts += rows.length;
+    lastId = rows[rows.length - 1].id;
+
+    const idsByNewTier = new Map<string, string[]>();
+    for (const row of rows) {
+      let config = configByChallenge.get(row.challengeId);
+      if (!config) {
+        config = resolveScoringConfig(globalConfig, row.gradeThresholdsJson);
+        configByChallenge.set(row.challengeId, config);
+      }
+
+      const newTier = getGradeTier(row.scoreNumeric, config);
+      if (newTier === row.gradeTier) continue;
+
+      changedAttempts++;
+      affectedChallenges.add(row.challengeId);
+      const transition = `${row.gradeTier} → ${newTier}`;
+      transitions[transition] = (transitions[transition] || 0) + 1;
+
+      const ids = idsByNewTier.get(newTier) || [];
+      ids.push(row.id);
+      idsByNewTier.set(newTier, ids);
+    }
+
+    if (!dryRun && idsByNewTier.size > 0) {
+      await db.transaction(async (tx) => {
+        for (const [tier, ids] of Array.from(idsByNewTier.entries())) {
+          await tx.update(attempts).set({ gradeTier: tier }).where(inArray(attempts.id, ids));
+        }
+      });
+    }
+
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return {
+    dryRun,
+    totalAttempts,
+    changedAttempts,
+    challengesAffected: affectedChallenges.size,
+    transitions,
+  };
+}
@@ -1,13 +1,29 @@
 import { ChallengeOption } from '@shared/schema';
 
+// Admin-authored "why A beats B" text keyed by pairKey(better.orderingIndex, worse.orderingIndex)
+export type PairRationaleLookup = Map<string, string>;
+
+export function pairKey(betterIndex: number, worseIndex: number): string {
+  return `${betterIndex}>${worseIndex}`;
+}
+
+// One inverted pair: the user put `worse` above `better`
+export interface PairReason {
+  better: ChallengeOption;
+  worse: ChallengeOption;
+  text: string;
+  source: 'authored' | 'template';
+}
+
 export interface MisplacedOption {
   option: ChallengeOption;
-  userPosition: number; // 1-4
-  optimalPosition: number; // 1-4
+  userPosition: number; // 1-N (N = challenge optionCount)
+  optimalPosition: number; // 1-N
   explanation: string; // Short explanation for backward compatibility
   detailedExplanation: string; // New: Full contextual explanation
   optionsAbove: ChallengeOption[]; // Options incorrectly ranked above this
   optionsBelow: ChallengeOption[]; // Options incorrectly ranked below this
+  pairReasons: PairReason[]; // One per inversion involving this option
 }
 
 export interface OptimalityExplanation {
@@ -18,11 +34,13 @@ export interface OptimalityExplanation {
 }
 
 /**
- * Generate detailed explanation of why user's ranking is not optimal
+ * Generate detailed explanation of why user's ranking is not optimal.
+ * Inversions with an authored pair rationale are explained with that text; the rest use templates.
  */
 export function generateOptimalityExplanation(
   userRanking: string[], // Array of option IDs in user's order
-  challengeOptions: ChallengeOption[] // All 4 options with orderingIndex
+  challengeOptions: ChallengeOption[], // All of the challenge's options (3-6) with orderingIndex
+  pairRationales: PairRationaleLookup = new Map()
 ): OptimalityExplanation {
   // Build optimal ranking from orderingIndex
   const optimalRanking = [...challengeOptions]
@@ -80,17 +98,25 @@ export function generateOptimalityExplanation(
       }
     }
     
+    const pairReasons = [
+      ...optionsAbove.map(worse => buildPairReason(option, worse, pairRationales)),
+      ...optionsBelow.map(better => buildPairReason(better, option, pairRationales)),
+    ];
+
     // Generate detailed contextual explanation
     let detailedExplanation: string;
     try {
-      detailedExplanation = generateDetailedExplanation(
-        option,
-        userPosition,
-        optimalPosition,
-        optionsAbove,
-        optionsBelow,
-        optimalRankingOptions
-      );
+      detailedExplanation = pairReasons.some(reason => reason.source === 'authored')
+        ? `You ranked "${option.optionText}" as #${userPosition}, but it should be #${optimalPosition}. `
+          + pairReasons.map(reason => reason.text).join(' ')
+        : generateDetailedExplanation(
+          option,
+          userPosition,
+          optimalPosition,
+          optionsAbove,
+          optionsBelow,
+          optimalRankingOptions
+        );
     } catch (error) {
       console.error('Error generating detailed explanation:', error);
       // Fallback to basic explanation if generation fails
@@ -109,7 +135,8 @@ export function generateOptimalityExplanation(
       explanation: option.explanationShort, // Keep short for backward compatibility
       detailedExplanation,
       optionsAbove,
-      optionsBelow
+      optionsBelow,
+      pairReasons
     });
   });
 
@@ -126,6 +153,21 @@ export function generateOptimalityExplanation(
   };
 }
 
+function buildPairReason(better: ChallengeOption, worse: ChallengeOption, pairRationales: PairRationaleLookup): PairReason {
+  const authored = pairRationales.get(pairKey(better.orderingIndex, worse.orderingIndex));
+  if (authored) {
+    const text = /[.!?]$/.test(authored.trim()) ? authored.trim() : `${authored.trim()}.`;
+    return { better, worse, text: `"${better.optionText}" comes before "${worse.optionText}": ${text}`, source: 'authored' };
+  }
+  const reason = better.explanationShort.trim().replace(/[.!?]+$/, '');
+  return {
+    better,
+    worse,
+    text: `"${better.optionText}" comes before "${worse.optionText}" because ${reason.charAt(0).toLowerCase()}${reason.slice(1)}.`,
+    source: 'template',
+  };
+}
+
 function generateDetailedExplanation(
   option: ChallengeOption,
   userPosition: number,
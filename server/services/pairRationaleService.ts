@@ -0,0 +1,144 @@
+import { db } from '../db';
+import { challengePairRationales, aggregates, type ChallengeOption, type ChallengePairRationale } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { pairKey, type PairRationaleLookup } from './optimalityExplanationService';
+
+export interface PairRationaleCoverage {
+  betterIndex: number;
+  worseIndex: number;
+  betterOptionText: string;
+  worseOptionText: string;
+  rationale: string | null;
+  staleRationale: string | null; // saved for different option texts at these ranks, so not shown to players
+  inversionCount: number; // best attempts that ranked the worse option above the better one
+  inversionRate: number; // 0..1 of rankedAttempts
+}
+
+export interface PairRationaleReport {
+  challengeId: string;
+  rankedAttempts: number; // best attempts whose ranking still matches the current options
+  pairs: PairRationaleCoverage[];
+  missingCount: number;
+}
+
+export async function getPairRationales(challengeId: string): Promise<ChallengePairRationale[]> {
+  return await db
+    .select()
+    .from(challengePairRationales)
+    .where(eq(challengePairRationales.challengeId, challengeId));
+}
+
+type RankedOptionText = Pick<ChallengeOption, 'orderingIndex' | 'optionText'>;
+
+// Whether the options at the rationale's ranks are still the ones it was written for
+function matchesOptions(row: ChallengePairRationale, textByIndex: Map<number, string>): boolean {
+  return textByIndex.get(row.betterIndex) === row.betterOptionText && textByIndex.get(row.worseIndex) === row.worseOptionText;
+}
+
+/**
+ * Rationales that apply to the given options, e.g. the as-played options from an older revision.
+ * Ones written for other option texts at the same ranks are left out.
+ */
+export async function getPairRationaleLookup(challengeId: string, options: RankedOptionText[]): Promise<PairRationaleLookup> {
+  const textByIndex = new Map(options.map(opt => [opt.orderingIndex, opt.optionText]));
+  const rows = await getPairRationales(challengeId);
+  return new Map(
+    rows
+      .filter(row => matchesOptions(row, textByIndex))
+      .map(row => [pairKey(row.betterIndex, row.worseIndex), row.rationale])
+  );
+}
+
+// Replaces the challenge's whole set against its current options; blank rationales are dropped
+export async function replacePairRationales(
+  challengeId: string,
+  options: RankedOptionText[],
+  rationales: Array<{ betterIndex: number; worseIndex: number; rationale: string }>
+): Promise<ChallengePairRationale[]> {
+  const textByIndex = new Map(options.map(opt => [opt.orderingIndex, opt.optionText]));
+  const rows = rationales
+    .map(r => ({ ...r, rationale: r.rationale.trim() }))
+    .filter(r => r.rationale.length > 0)
+    .map(r => ({
+      challengeId,
+      betterIndex: r.betterIndex,
+      worseIndex: r.worseIndex,
+      betterOptionText: textByIndex.get(r.betterIndex) ?? '',
+      worseOptionText: textByIndex.get(r.worseIndex) ?? '',
+      rationale: r.rationale,
+    }));
+
+  return await db.transaction(async (tx) => {
+    await tx.delete(challengePairRationales).where(eq(challengePairRationales.challengeId, challengeId));
+    if (rows.length === 0) return [];
+    return await tx.insert(challengePairRationales).values(rows).returning();
+  });
+}
+
+/**
+ * Every option pair with its authored rationale (if any) and how often players invert it,
+ * counted from the aggregate's exact-ranking tallies. Most-inverted pairs come first so
+ * admins can see which missing rationales matter. A rationale written for options that have
+ * since moved or changed comes back as staleRationale and counts as missing.
+ */
+export async function getPairRationaleReport(
+  challengeId: string,
+  options: ChallengeOption[]
+): Promise<PairRationaleReport> {
+  const [saved, [aggregate]] = await Promise.all([
+    getPairRationales(challengeId),
+    db.select().from(aggregates).where(eq(aggregates.challengeId, challengeId)).limit(1),
+  ]);
+
+  const sorted = [...options].sort((a, b) => a.orderingIndex - b.orderingIndex);
+  const textByIndex = new Map(sorted.map(opt => [opt.orderingIndex, opt.optionText]));
+  const savedByPair = new Map(saved.map(row => [pairKey(row.betterIndex, row.worseIndex), row]));
+  const indexById = new Map(sorted.map(opt => [opt.id, opt.orderingIndex]));
+  const inversions = new Map<string, number>();
+  let rankedAttempts = 0;
+
+  const exactRankingCounts = (aggregate?.exactRankingCountsJson as Record<string, number>) || {};
+  for (const [rankingKey, count] of Object.entries(exactRankingCounts)) {
+    const indices = rankingKey.split(',').map(id => indexById.get(id));
+    // Rankings recorded against options that have since been replaced can't be mapped
+    if (indices.length !== sorted.length || indices.some(index => index === undefined)) continue;
+    rankedAttempts += count;
+    // `above` was placed before `below`; that's an inversion when its orderingIndex is larger
+    indices.forEach((above, position) => {
+      for (const below of indices.slice(position + 1)) {
+        if (above! > below!) {
+          const key = pairKey(below!, above!);
+          inversions.set(key, (inversions.get(key) || 0) + count);
+        }
+      }
+    });
+  }
+
+  const pairs: PairRationaleCoverage[] = [];
+  sorted.forEach((better, i) => {
+    for (const worse of sorted.slice(i + 1)) {
+      const key = pairKey(better.orderingIndex, worse.orderingIndex);
+      const inversionCount = inversions.get(key) || 0;
+      const row = savedByPair.get(key);
+      const current = row && matchesOptions(row, textByIndex);
+      pairs.push({
+        betterIndex: better.orderingIndex,
+        worseIndex: worse.orderingIndex,
+        betterOptionText: better.optionText,
+        worseOptionText: worse.optionText,
+        rationale: row && current ? row.rationale : null,
+        staleRationale: row && !current ? row.rationale : null,
+        inversionCount,
+        inversionRate: rankedAttempts > 0 ? Math.round((inversionCount / rankedAttempts) * 1000) / 1000 : 0,
+      });
+    }
+  });
+  pairs.sort((a, b) => b.inversionCount - a.inversionCount || a.betterIndex - b.betterIndex || a.worseIndex - b.worseIndex);
+
+  return {
+    challengeId,
+    rankedAttempts,
+    pairs,
+    missingCount: pairs.filter(pair => pair.rationale === null).length,
+  };
+}
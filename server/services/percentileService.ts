@@ -0,0 +1,231 @@
+import { db } from '../db';
+import { storage } from '../storage';
+import { aggregates, dailyChallenges, type Aggregate } from '@shared/schema';
+import { eq, and, ne } from 'drizzle-orm';
+import { isFeatureEnabled, getFeatureFlagConfig } from './featureFlagService';
+import { getScoringStrategy } from './scoringService';
+
+export const PERCENTILE_SMOOTHING_FLAG = 'PERCENTILE_SMOOTHING';
+
+// none: real attempts only
+// category_prior: Bayesian prior built from other challenges in the same category
+// baseline: the scoring strategy's fixed pseudo-observations (the original behaviour)
+export type SmoothingMethod = 'none' | 'category_prior' | 'baseline';
+
+const SMOOTHING_METHODS: SmoothingMethod[] = ['none', 'category_prior', 'baseline'];
+const DEFAULT_PRIOR_WEIGHT = 10;
+
+// Share of baseline pseudo-users assumed to match any given exact ranking (1 in 10)
+const BASELINE_EXACT_MATCH_SHARE = 0.1;
+
+type CountMap = Record<string, number>;
+
+/**
+ * A prior expressed as `weight` pseudo-observations drawn from `histogram`.
+ * exactMatchShare is the chance two users picked the identical ranking.
+ */
+export interface ScorePrior {
+  weight: number;
+  histogram: CountMap;
+  exactMatchShare: number;
+}
+
+export interface SmoothingModel {
+  method: SmoothingMethod;
+  prior: ScorePrior | null; // null when the method (or missing history) leaves raw values as-is
+}
+
+export interface SmoothedValue {
+  raw: number | null; // null when nobody has a best attempt yet
+  smoothed: number;
+}
+
+function histogramTotal(histogram: CountMap): number {
+  return Object.values(histogram).reduce((sum, count) => sum + count, 0);
+}
+
+function fractionBelow(histogram: CountMap, score: number): number {
+  const total = histogramTotal(histogram);
+  if (total === 0) return 0;
+
+  let below = 0;
+  for (const [bucket, count] of Object.entries(histogram)) {
+    if (parseInt(bucket) < score) below += count;
+  }
+  return below / total;
+}
+
+function histogramMean(histogram: CountMap): number {
+  const total = histogramTotal(histogram);
+  if (total === 0) return 0;
+
+  let sum = 0;
+  for (const [bucket, count] of Object.entries(histogram)) {
+    sum += parseInt(bucket) * count;
+  }
+  return sum / total;
+}
+
+// Posterior share: (observed + weight * priorShare) / (n + weight)
+function blend(observedCount: number, sampleSize: number, prior: ScorePrior | null, priorShare: number): number {
+  const weight = prior ? prior.weight : 0;
+  const denominator = sampleSize + weight;
+  if (denominator === 0) return priorShare;
+  return (observedCount + weight * priorShare) / denominator;
+}
+
+export function smoothPercentile(histogram: CountMap, sampleSize: number, score: number, prior: ScorePrior | null): SmoothedValue {
+  // Nobody to compare against yet: stay in the middle rather than report the prior alone
+  if (sampleSize === 0) return { raw: null, smoothed: 50 };
+
+  const raw = Math.round(fractionBelow(histogram, score) * 100);
+
+  const countBelow = fractionBelow(histogram, score) * sampleSize;
+  const priorBelow = prior ? fractionBelow(prior.histogram, score) : 0;
+  return { raw, smoothed: Math.round(blend(countBelow, sampleSize, prior, priorBelow) * 100) };
+}
+
+export function smoothExactMatchPercent(matchCount: number, sampleSize: number, prior: ScorePrior | null): SmoothedValue {
+  const raw = sampleSize > 0 ? Math.round((matchCount / sampleSize) * 100) : null;
+  if (sampleSize === 0 && !prior) return { raw, smoothed: 0 };
+
+  const priorShare = prior ? prior.exactMatchShare : 0;
+  return { raw, smoothed: Math.round(blend(matchCount, sampleSize, prior, priorShare) * 100) };
+}
+
+export function smoothAverageScore(histogram: CountMap, sampleSize: number, prior: ScorePrior | null): SmoothedValue {
+  const raw = sampleSize > 0 ? Math.round(histogramMean(histogram)) : null;
+  if (sampleSize === 0 && !prior) return { raw, smoothed: 0 };
+
+  const observedSum = histogramMean(histogram) * sampleSize;
+  const priorMean = prior ? histogramMean(prior.histogram) : 0;
+  return { raw, smoothed: Math.round(blend(observedSum, sampleSize, prior, priorMean)) };
+}
+
+export function baselinePrior(scoringStrategy?: string | null): ScorePrior {
+  const baselineScores = getScoringStrategy(scoringStrategy).baselineScores;
+  const histogram: CountMap = {};
+  baselineScores.forEach(score => {
+    histogram[score] = (histogram[score] || 0) + 1;
+  });
+  return { weight: baselineScores.length, histogram, exactMatchShare: BASELINE_EXACT_MATCH_SHARE };
+}
+
+/**
+ * Pool score histograms of the category's other challenges that use the same
+ * scoring strategy (scores from different strategies aren't comparable).
+ * Returns null when the category has no history yet.
+ */
+export function buildCategoryPrior(
+  categoryAggregates: Array<Pick<Aggregate, 'bestAttemptCount' | 'scoreHistogramJson' | 'exactRankingCountsJson'>>,
+  weight: number
+): ScorePrior | null {
+  const histogram: CountMap = {};
+  let pooledAttempts = 0;
+  let weightedMatchShare = 0;
+
+  for (const aggregate of categoryAggregates) {
+    if (aggregate.bestAttemptCount === 0) continue;
+    for (const [score, count] of Object.entries(aggregate.scoreHistogramJson as CountMap)) {
+      histogram[score] = (histogram[score] || 0) + count;
+    }
+
+    // Probability two random users of this challenge submitted the same ranking
+    const n = aggregate.bestAttemptCount;
+    const collision = Object.values(aggregate.exactRankingCountsJson as CountMap)
+      .reduce((sum, count) => sum + (count / n) * (count / n), 0);
+    weightedMatchShare += collision * n;
+    pooledAttempts += n;
+  }
+
+  if (pooledAttempts === 0) return null;
+  return { weight, histogram, exactMatchShare: weightedMatchShare / pooledAttempts };
+}
+
+// Category priors are rebuilt at most every few minutes; /api/user/stats asks for many at once
+const PRIOR_CACHE_TTL = 5 * 60 * 1000;
+const categoryPriorCache = new Map<string, { prior: ScorePrior | null; expiresAt: number }>();
+
+async function getCategoryPrior(
+  challenge: { id: string; category: string; scoringStrategy: string },
+  weight: number
+): Promise<ScorePrior | null> {
+  const cacheKey = `${challenge.id}:${weight}`;
+  const cached = categoryPriorCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.prior;
+
+  const categoryAggregates = await db
+    .select({
+      bestAttemptCount: aggregates.bestAttemptCount,
+      scoreHistogramJson: aggregates.scoreHistogramJson,
+      exactRankingCountsJson: aggregates.exactRankingCountsJson,
+    })
+    .from(aggregates)
+    .innerJoin(dailyChallenges, eq(aggregates.challengeId, dailyChallenges.id))
+    .where(
+      and(
+        eq(dailyChallenges.category, challenge.category),
+        eq(dailyChallenges.scoringStrategy, challenge.scoringStrategy),
+        ne(dailyChallenges.id, challenge.id)
+      )
+    );
+
+  const prior = buildCategoryPrior(categoryAggregates, weight);
+  categoryPriorCache.set(cacheKey, { prior, expiresAt: Date.now() + PRIOR_CACHE_TTL });
+  return prior;
+}
+
+/**
+ * Smoothing settings come from the PERCENTILE_SMOOTHING flag config
+ * ({ method, priorWeight }); with the flag off the original baseline is used.
+ */
+export async function getSmoothingModel(
+  challenge: { id: string; category: string; scoringStrategy: string }
+): Promise<SmoothingModel> {
+  let method: SmoothingMethod = 'baseline';
+  let priorWeight = DEFAULT_PRIOR_WEIGHT;
+
+  if (await isFeatureEnabled(PERCENTILE_SMOOTHING_FLAG)) {
+    const config = await getFeatureFlagConfig(PERCENTILE_SMOOTHING_FLAG);
+    if (SMOOTHING_METHODS.includes(config.method)) {
+      method = config.method;
+    }
+    if (typeof config.priorWeight === 'number' && config.priorWeight >= 0) {
+      priorWeight = config.priorWeight;
+    }
+  }
+
+  switch (method) {
+    case 'none':
+      return { method, prior: null };
+    case 'category_prior':
+      return { method, prior: await getCategoryPrior(challenge, priorWeight) };
+    default:
+      return { method, prior: baselinePrior(challenge.scoringStrategy) };
+  }
+}
+
+export interface PercentileStats {
+  percentile: SmoothedValue;
+  method: SmoothingMethod;
+  priorWeight: number;
+  sampleSize: number;
+}
+
+export async function getPercentileStats(
+  challenge: { id: string; category: string; scoringStrategy: string },
+  userScore: number,
+  aggregate?: Aggregate
+): Promise<PercentileStats> {
+  const stored = aggregate ?? await storage.getAggregate(challenge.id);
+  const model = await getSmoothingModel(challenge);
+  const sampleSize = stored?.bestAttemptCount ?? 0;
+  const histogram = (stored?.scoreHistogramJson as CountMap) || {};
+
+  return {
+    percentile: smoothPercentile(histogram, sampleSize, userScore, model.prior),
+    method: model.method,
+    priorWeight: model.prior?.weight ?? 0,
+    sampleSize,
+  };
+}
@@ -0,0 +1,96 @@
+import { db, type DbExecutor, type DbTransaction } from '../db';
+import { attempts, retryWallets, retryPurchases, type RetryPurchase } from '@shared/schema';
+import { eq, and, asc, gt, sql } from 'drizzle-orm';
+import { getCurrentWeekKey } from './dateService';
+import { getWeeklyWallet } from './walletService';
+import { getUserTimezone } from './timezoneService';
+
+// Retries granted by one Stripe purchase
+export const RETRY_PACK_SIZE = 3;
+
+// Thrown by submitAttempt when a re-attempt is made with an empty wallet
+export class RetryLimitError extends Error {
+  constructor() {
+    super('No retries left this week');
+    this.name = 'RetryLimitError';
+  }
+}
+
+export interface RetryStatus {
+  weekKey: string;
+  retriesRemaining: number; // weekly allowance plus purchased
+  purchasedRetriesRemaining: number;
+}
+
+// Unspent purchased retries, oldest purchase first; inside a transaction the rows stay locked until commit
+async function getPurchasedRetries(executor: DbExecutor, userId: string): Promise<RetryPurchase[]> {
+  return await executor
+    .select()
+    .from(retryPurchases)
+    .where(and(eq(retryPurchases.userId, userId), gt(retryPurchases.retriesRemaining, 0)))
+    .orderBy(asc(retryPurchases.createdAt))
+    .for('update');
+}
+
+const sumRemaining = (purchases: RetryPurchase[]) => purchases.reduce((sum, purchase) => sum + purchase.retriesRemaining, 0);
+
+export async function getRetryStatus(userId: string): Promise<RetryStatus> {
+  const weekKey = getCurrentWeekKey(await getUserTimezone(userId));
+  const wallet = await getWeeklyWallet(db, userId, weekKey);
+  const purchasedRetriesRemaining = sumRemaining(await getPurchasedRetries(db, userId));
+  return { weekKey, retriesRemaining: wallet.retriesRemaining + purchasedRetriesRemaining, purchasedRetriesRemaining };
+}
+
+/**
+ * First attempt at a challenge is free; every later one spends a retry from the
+ * current week's wallet, then from purchased retries. Returns the retries left afterwards.
+ * Throws RetryLimitError when a retry is needed but none are left.
+ */
+export async function chargeAttempt(tx: DbTransaction, userId: string, challengeId: string): Promise<number> {
+  // Lock the wallet before counting so two concurrent submissions can't both be the free first attempt
+  const wallet = await getWeeklyWallet(tx, userId, getCurrentWeekKey(await getUserTimezone(userId, tx)));
+  const purchases = await getPurchasedRetries(tx, userId);
+  const remaining = wallet.retriesRemaining + sumRemaining(purchases);
+
+  const [{ count }] = await tx
+    .select({ count: sql<number>`count(*)::int` })
+    .from(attempts)
+    .where(and(eq(attempts.userId, userId), eq(attempts.challengeId, challengeId)));
+
+  if (count === 0) {
+    return remaining;
+  }
+
+  if (remaining <= 0) {
+    throw new RetryLimitError();
+  }
+
+  // The weekly allowance goes first since it expires at the rollover
+  if (wallet.retriesRemaining > 0) {
+    await tx
+      .update(retryWallets)
+      .set({ retriesRemaining: wallet.retriesRemaining - 1, updatedAt: new Date() })
+      .where(eq(retryWallets.id, wallet.id));
+  } else {
+    await tx
+      .update(retryPurchases)
+      .set({ retriesRemaining: purchases[0].retriesRemaining - 1 })
+      .where(eq(retryPurchases.id, purchases[0].id));
+  }
+
+  return remaining - 1;
+}
+
+/**
+ * Credit purchased retries to the user's non-expiring balance.
+ * Idempotent per checkout session: the unique (user, session) row means a re-delivered
+ * webhook, even one racing the first delivery, inserts nothing and returns false.
+ */
+export async function grantPurchasedRetries(userId: string, checkoutSessionId: string, count: number): Promise<boolean> {
+  const inserted = await db
+    .insert(retryPurchases)
+    .values({ userId, checkoutSessionId, retriesGranted: count, retriesRemaining: count })
+    .onConflictDoNothing({ target: [retryPurchases.userId, retryPurchases.checkoutSessionId] })
+    .returning({ id: retryPurchases.id });
+  return inserted.length > 0;
+}
@@ -0,0 +1,385 @@
+import { db, type DbExecutor, type DbTransaction } from '../db';
+import { dailyChallenges, challengeOptions, challengeRevisions, type ChallengeRevision, type DailyChallenge, type InsertDailyChallenge, type RevisionAction } from '@shared/schema';
+import { and, asc, desc, eq } from 'drizzle-orm';
+import { storage, type InsertChallengeOptionInput } from '../storage';
+import { stableStringify } from '../utils/stableStringify';
+import { checkForDuplicateChallengeOnUpdate } from './duplicateDetectionService';
+import { hasBeenPlayed } from './aggregateService';
+
+// Thrown by applyChallengeEdit when an edit would move a played challenge or replace its options
+export class PlayedChallengeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlayedChallengeError';
+  }
+}
+
+// Who made an edit: the name given at admin login plus a session fingerprint
+export interface RevisionEditor {
+  name: string;
+  session: string;
+}
+
+export interface SnapshotOption {
+  id: string;
+  optionText: string;
+  tierLabel: string;
+  explanationShort: string;
+  orderingIndex: number;
+}
+
+// Shape of challenge_revisions.snapshotJson
+export interface ChallengeSnapshot {
+  dateKey: string;
+  title: string;
+  scenarioText: string;
+  assumptions: string;
+  category: string;
+  difficulty: number;
+  isPublished: boolean;
+  optionCount: number;
+  scoringStrategy: string;
+  gradeThresholdsJson: unknown;
+  assumptionValuesJson: unknown;
+  calculatorPresetJson: unknown;
+  options: SnapshotOption[]; // sorted by orderingIndex
+}
+
+export interface RevisionChange {
+  field: string; // challenge field name, or "option #2 text" / "option #2 tier" / "option #2 explanation"
+  before: string | null; // null when the option didn't exist on that side
+  after: string | null;
+}
+
+export interface RevisionEntry {
+  id: string;
+  revisionNumber: number;
+  action: RevisionAction;
+  editedBy: string | null;
+  editorSession: string | null;
+  revertedFromId: string | null;
+  createdAt: Date;
+  snapshot: ChallengeSnapshot;
+  changes: RevisionChange[]; // against the previous revision; empty for the first
+}
+
+export interface RevertResult {
+  ok: boolean;
+  error?: string;
+  revision?: ChallengeRevision;
+}
+
+// The option set an attempt was ranked against, when it differs from the current options
+export interface AttemptOptionsMatch {
+  revisionNumber: number;
+  options: SnapshotOption[];
+}
+
+const SNAPSHOT_FIELDS = [
+  'dateKey', 'title', 'scenarioText', 'assumptions', 'category', 'difficulty', 'isPublished',
+  'optionCount', 'scoringStrategy', 'gradeThresholdsJson', 'assumptionValuesJson', 'calculatorPresetJson',
+] as const;
+
+const OPTION_FIELDS = [
+  ['optionText', 'text'],
+  ['tierLabel', 'tier'],
+  ['explanationShort', 'explanation'],
+] as const;
+
+async function loadSnapshot(executor: DbExecutor, challengeId: string): Promise<ChallengeSnapshot | null> {
+  const [challenge] = await executor.select().from(dailyChallenges).where(eq(dailyChallenges.id, challengeId));
+  if (!challenge) return null;
+  const options = await executor
+    .select()
+    .from(challengeOptions)
+    .where(eq(challengeOptions.challengeId, challengeId))
+    .orderBy(asc(challengeOptions.orderingIndex));
+
+  return {
+    dateKey: challenge.dateKey,
+    title: challenge.title,
+    scenarioText: challenge.scenarioText,
+    assumptions: challenge.assumptions,
+    category: challenge.category,
+    difficulty: challenge.difficulty,
+    isPublished: challenge.isPublished,
+    optionCount: challenge.optionCount,
+    scoringStrategy: challenge.scoringStrategy,
+    gradeThresholdsJson: challenge.gradeThresholdsJson ?? null,
+    assumptionValuesJson: challenge.assumptionValuesJson ?? null,
+    calculatorPresetJson: challenge.calculatorPresetJson ?? null,
+    options: options.map(({ id, optionText, tierLabel, explanationShort, orderingIndex }) => ({
+      id, optionText, tierLabel, explanationShort, orderingIndex,
+    })),
+  };
+}
+
+async function getLatestRevision(executor: DbExecutor, challengeId: string): Promise<ChallengeRevision | undefined> {
+  const [latest] = await executor
+    .select()
+    .from(challengeRevisions)
+    .where(eq(challengeRevisions.challengeId, challengeId))
+    .orderBy(desc(challengeRevisions.revisionNumber))
+    .limit(1);
+  return latest;
+}
+
+/**
+ * Lock the challenge row until the transaction ends. Edits and revision numbers for a
+ * challenge are serialized on it, so two saves can't both claim latest + 1.
+ */
+async function lockChallenge(tx: DbTransaction, challengeId: string): Promise<boolean> {
+  const [row] = await tx
+    .select({ id: dailyChallenges.id })
+    .from(dailyChallenges)
+    .where(eq(dailyChallenges.id, challengeId))
+    .for('update');
+  return !!row;
+}
+
+/**
+ * Snapshot the challenge as it is now, inside the transaction that made the edit.
+ * Skipped (returns the latest revision) when nothing, including option IDs, changed since the last snapshot.
+ */
+export async function recordChallengeRevision(
+  tx: DbTransaction,
+  challengeId: string,
+  action: RevisionAction,
+  editor: RevisionEditor | null,
+  revertedFromId?: string
+): Promise<ChallengeRevision | null> {
+  if (!(await lockChallenge(tx, challengeId))) return null;
+  const snapshot = await loadSnapshot(tx, challengeId);
+  if (!snapshot) return null;
+
+  const latest = await getLatestRevision(tx, challengeId);
+  if (latest && stableStringify(latest.snapshotJson) === stableStringify(snapshot)) return latest;
+
+  const [revision] = await tx
+    .insert(challengeRevisions)
+    .values({
+      challengeId,
+      revisionNumber: (latest?.revisionNumber ?? 0) + 1,
+      action,
+      snapshotJson: snapshot,
+      editedBy: editor?.name ?? null,
+      editorSession: editor?.session ?? null,
+      revertedFromId: revertedFromId ?? null,
+    })
+    .returning();
+  return revision;
+}
+
+/**
+ * Challenges created before revisions existed have no history; snapshot their current
+ * state before the first edit so the options that existing attempts reference are kept.
+ */
+export async function ensureBaselineRevision(tx: DbTransaction, challengeId: string): Promise<void> {
+  if (!(await lockChallenge(tx, challengeId))) return;
+  if (await getLatestRevision(tx, challengeId)) return;
+  await recordChallengeRevision(tx, challengeId, 'baseline', null);
+}
+
+/**
+ * Run an edit between a baseline check and a revision snapshot, all in one transaction
+ * (the caller's, when given). The edit's result is passed through; nothing is recorded when
+ * it returns a falsy value (e.g. challenge not found).
+ */
+export async function withRevision<T>(
+  challengeId: string,
+  action: RevisionAction,
+  editor: RevisionEditor | null,
+  edit: (tx: DbTransaction) => Promise<T>,
+  outerTx?: DbTransaction
+): Promise<T> {
+  const run = async (tx: DbTransaction) => {
+    await ensureBaselineRevision(tx, challengeId);
+    const result = await edit(tx);
+    if (result) await recordChallengeRevision(tx, challengeId, action, editor);
+    return result;
+  };
+  return outerTx ? await run(outerTx) : await db.transaction(run);
+}
+
+/**
+ * Save an admin edit inside the caller's transaction, under the challenge-row lock. Until the
+ * challenge has been played, options are replaced wholesale. Afterwards attempts and aggregates
+ * reference its date and option IDs, so a date change or a different option set (count, ranks or
+ * tiers) throws PlayedChallengeError, and option text edits update the existing rows in place.
+ */
+export async function applyChallengeEdit(
+  tx: DbTransaction,
+  challengeId: string,
+  challenge: Partial<InsertDailyChallenge>,
+  options?: InsertChallengeOptionInput[]
+): Promise<DailyChallenge | undefined> {
+  if (!(await lockChallenge(tx, challengeId))) return undefined;
+  if (!(await hasBeenPlayed(challengeId, tx))) {
+    return options
+      ? await storage.updateChallengeWithOptions(challengeId, challenge, options, tx)
+      : await storage.updateChallenge(challengeId, challenge, tx);
+  }
+
+  const current = await loadSnapshot(tx, challengeId);
+  if (!current) return undefined;
+  if (challenge.dateKey !== undefined && challenge.dateKey !== current.dateKey) {
+    throw new PlayedChallengeError(`"${current.title}" has been played on ${current.dateKey} and can't be moved`);
+  }
+
+  if (options) {
+    const byIndex = new Map(current.options.map(opt => [opt.orderingIndex, opt]));
+    const sameSet = options.length === current.options.length
+      && options.every(opt => byIndex.get(opt.orderingIndex)?.tierLabel === opt.tierLabel);
+    if (!sameSet) {
+      throw new PlayedChallengeError(`"${current.title}" has been played, so only option text and explanations can change`);
+    }
+    for (const opt of options) {
+      const existing = byIndex.get(opt.orderingIndex)!;
+      if (existing.optionText === opt.optionText && existing.explanationShort === opt.explanationShort) continue;
+      await tx
+        .update(challengeOptions)
+        .set({ optionText: opt.optionText, explanationShort: opt.explanationShort })
+        .where(eq(challengeOptions.id, existing.id));
+    }
+  }
+  return await storage.updateChallenge(challengeId, challenge, tx);
+}
+
+// Create a challenge and its first revision together
+export async function createChallengeWithRevision(
+  challenge: InsertDailyChallenge,
+  options: InsertChallengeOptionInput[],
+  editor: RevisionEditor | null
+): Promise<DailyChallenge> {
+  return await db.transaction(async (tx) => {
+    const created = await storage.createChallenge(challenge, options, tx);
+    await recordChallengeRevision(tx, created.id, 'create', editor);
+    return created;
+  });
+}
+
+const displayValue = (value: unknown) => (typeof value === 'string' ? value : stableStringify(value));
+
+export function diffSnapshots(before: ChallengeSnapshot, after: ChallengeSnapshot): RevisionChange[] {
+  const changes: RevisionChange[] = [];
+  for (const field of SNAPSHOT_FIELDS) {
+    if (stableStringify(before[field]) !== stableStringify(after[field])) {
+      changes.push({ field, before: displayValue(before[field]), after: displayValue(after[field]) });
+    }
+  }
+
+  // Options are compared by rank; a new option ID with the same content isn't a change
+  const maxIndex = Math.max(before.options.length, after.options.length);
+  for (let index = 1; index <= maxIndex; index++) {
+    const beforeOption = before.options.find(opt => opt.orderingIndex === index);
+    const afterOption = after.options.find(opt => opt.orderingIndex === index);
+    for (const [key, label] of OPTION_FIELDS) {
+      const beforeValue = beforeOption?.[key] ?? null;
+      const afterValue = afterOption?.[key] ?? null;
+      if (beforeValue !== afterValue) {
+        changes.push({ field: `option #${index} ${label}`, before: beforeValue, after: afterValue });
+      }
+    }
+  }
+  return changes;
+}
+
+// Newest first, each with its changes against the revision before it
+export async function getChallengeRevisions(challengeId: string): Promise<RevisionEntry[]> {
+  const rows = await db
+    .select()
+    .from(challengeRevisions)
+    .where(eq(challengeRevisions.challengeId, challengeId))
+    .orderBy(asc(challengeRevisions.revisionNumber));
+
+  const entries = rows.map((row, i) => {
+    const snapshot = row.snapshotJson as ChallengeSnapshot;
+    return {
+      id: row.id,
+      revisionNumber: row.revisionNumber,
+      action: row.action as RevisionAction,
+      editedBy: row.editedBy,
+      editorSession: row.editorSession,
+      revertedFromId: row.revertedFromId,
+      createdAt: row.createdAt,
+      snapshot,
+      changes: i > 0 ? diffSnapshots(rows[i - 1].snapshotJson as ChallengeSnapshot, snapshot) : [],
+    };
+  });
+  return entries.reverse();
+}
+
+/**
+ * Restore a revision's fields and options as a new 'revert' revision. Options are only
+ * rewritten when their content differs, so reverting a field edit keeps current option IDs.
+ * Once the challenge has been played, restoring another date or other options is refused:
+ * attempts and aggregates reference both.
+ */
+export async function revertToRevision(challengeId: string, revisionId: string, editor: RevisionEditor): Promise<RevertResult> {
+  const [target] = await db
+    .select()
+    .from(challengeRevisions)
+    .where(and(eq(challengeRevisions.id, revisionId), eq(challengeRevisions.challengeId, challengeId)));
+  if (!target) return { ok: false, error: 'Revision not found' };
+
+  const { options, ...fields } = target.snapshotJson as ChallengeSnapshot;
+  // Reads the pool, so it runs before any lock is taken; the unique date_key still catches a race
+  const duplicateCheck = await checkForDuplicateChallengeOnUpdate(challengeId, fields.dateKey, fields.title);
+  if (duplicateCheck.isDuplicate) {
+    return { ok: false, error: duplicateCheck.message || 'Duplicate challenge detected' };
+  }
+
+  // The jsonb fields were validated when the revision's edit was saved
+  const challengeData = fields as Partial<InsertDailyChallenge>;
+  return await db.transaction(async (tx): Promise<RevertResult> => {
+    if (!(await lockChallenge(tx, challengeId))) return { ok: false, error: 'Challenge not found' };
+    const current = await loadSnapshot(tx, challengeId);
+    if (!current) return { ok: false, error: 'Challenge not found' };
+
+    const optionsChanged = diffSnapshots(current, { ...fields, options }).some(change => change.field.startsWith('option #'));
+    if ((optionsChanged || fields.dateKey !== current.dateKey) && await hasBeenPlayed(challengeId, tx)) {
+      return { ok: false, error: `"${current.title}" has been played, so its date and options can't be reverted` };
+    }
+
+    await ensureBaselineRevision(tx, challengeId);
+    if (optionsChanged) {
+      await storage.updateChallengeWithOptions(
+        challengeId,
+        challengeData,
+        options.map(({ optionText, tierLabel, explanationShort, orderingIndex }) => ({ optionText, tierLabel, explanationShort, orderingIndex })),
+        tx
+      );
+    } else {
+      await storage.updateChallenge(challengeId, challengeData, tx);
+    }
+    const revision = await recordChallengeRevision(tx, challengeId, 'revert', editor, target.id);
+    return { ok: true, revision: revision ?? undefined };
+  });
+}
+
+/**
+ * Find the options an attempt was ranked against from its option IDs. Returns null when the
+ * ranking matches the current options or no revision holds all of its IDs.
+ */
+export async function findAttemptOptions(
+  challengeId: string,
+  ranking: string[],
+  currentOptionIds: string[]
+): Promise<AttemptOptionsMatch | null> {
+  if (ranking.every(id => currentOptionIds.includes(id))) return null;
+
+  const rows = await db
+    .select()
+    .from(challengeRevisions)
+    .where(eq(challengeRevisions.challengeId, challengeId))
+    .orderBy(desc(challengeRevisions.revisionNumber));
+
+  for (const row of rows) {
+    const snapshot = row.snapshotJson as ChallengeSnapshot;
+    const ids = snapshot.options.map(opt => opt.id);
+    if (ranking.every(id => ids.includes(id))) {
+      return { revisionNumber: row.revisionNumber, options: snapshot.options };
+    }
+  }
+  return null;
+}
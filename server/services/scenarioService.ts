@@ -0,0 +1,111 @@
+import { db } from '../db';
+import { calculatorScenarios, type CalculatorScenario } from '@shared/schema';
+import { evaluateScenario, type ScenarioInput } from '@shared/financialCalculators';
+import { eq, and, desc } from 'drizzle-orm';
+import crypto from 'crypto';
+
+export const MAX_SCENARIOS_PER_USER = 50;
+
+export async function listScenarios(userId: string): Promise<CalculatorScenario[]> {
+  return await db
+    .select()
+    .from(calculatorScenarios)
+    .where(eq(calculatorScenarios.userId, userId))
+    .orderBy(desc(calculatorScenarios.updatedAt));
+}
+
+export async function countScenarios(userId: string): Promise<number> {
+  const rows = await db
+    .select({ id: calculatorScenarios.id })
+    .from(calculatorScenarios)
+    .where(eq(calculatorScenarios.userId, userId));
+  return rows.length;
+}
+
+export async function getScenario(userId: string, scenarioId: string): Promise<CalculatorScenario | undefined> {
+  const [scenario] = await db
+    .select()
+    .from(calculatorScenarios)
+    .where(and(eq(calculatorScenarios.id, scenarioId), eq(calculatorScenarios.userId, userId)))
+    .limit(1);
+  return scenario;
+}
+
+// Results are always recomputed from the inputs here, never taken from the client
+export async function createScenario(userId: string, name: string, input: ScenarioInput): Promise<CalculatorScenario> {
+  const [scenario] = await db
+    .insert(calculatorScenarios)
+    .values({
+      userId,
+      name,
+      kind: input.kind,
+      inputsJson: input,
+      resultsJson: evaluateScenario(input),
+    })
+    .returning();
+  return scenario;
+}
+
+export async function updateScenario(
+  userId: string,
+  scenarioId: string,
+  changes: { name?: string; inputs?: ScenarioInput }
+): Promise<CalculatorScenario | undefined> {
+  const set: Partial<typeof calculatorScenarios.$inferInsert> = { updatedAt: new Date() };
+  if (changes.name !== undefined) set.name = changes.name;
+  if (changes.inputs !== undefined) {
+    set.kind = changes.inputs.kind;
+    set.inputsJson = changes.inputs;
+    set.resultsJson = evaluateScenario(changes.inputs);
+  }
+
+  const [scenario] = await db
+    .update(calculatorScenarios)
+    .set(set)
+    .where(and(eq(calculatorScenarios.id, scenarioId), eq(calculatorScenarios.userId, userId)))
+    .returning();
+  return scenario;
+}
+
+export async function deleteScenario(userId: string, scenarioId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(calculatorScenarios)
+    .where(and(eq(calculatorScenarios.id, scenarioId), eq(calculatorScenarios.userId, userId)))
+    .returning({ id: calculatorScenarios.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Create (or reuse) the public share token for a scenario.
+ * Returns undefined when the scenario doesn't belong to the user.
+ */
+export async function shareScenario(userId: string, scenarioId: string): Promise<string | undefined> {
+  const scenario = await getScenario(userId, scenarioId);
+  if (!scenario) return undefined;
+  if (scenario.shareToken) return scenario.shareToken;
+
+  const shareToken = crypto.randomBytes(16).toString('base64url');
+  await db
+    .update(calculatorScenarios)
+    .set({ shareToken })
+    .where(eq(calculatorScenarios.id, scenarioId));
+  return shareToken;
+}
+
+export async function unshareScenario(userId: string, scenarioId: string): Promise<boolean> {
+  const updated = await db
+    .update(calculatorScenarios)
+    .set({ shareToken: null })
+    .where(and(eq(calculatorScenarios.id, scenarioId), eq(calculatorScenarios.userId, userId)))
+    .returning({ id: calculatorScenarios.id });
+  return updated.length > 0;
+}
+
+export async function getSharedScenario(shareToken: string): Promise<CalculatorScenario | undefined> {
+  const [scenario] = await db
+    .select()
+    .from(calculatorScenarios)
+    .where(eq(calculatorScenarios.shareToken, shareToken))
+    .limit(1);
+  return scenario;
+}
@@ -0,0 +1,267 @@
+import { z } from 'zod';
+import { addDays, format, parse } from 'date-fns';
+import { db } from '../db';
+import { dailyChallenges } from '@shared/schema';
+import { and, asc, gte, lte, lt, eq } from 'drizzle-orm';
+import { storage } from '../storage';
+import { getFeatureFlagConfig } from './featureFlagService';
+import { getActiveDateKey } from './dateService';
+import { checkForDuplicateChallengeOnUpdate } from './duplicateDetectionService';
+import { withRevision, type RevisionEditor } from './revisionService';
+import { hasBeenPlayed, isUnplayed } from './aggregateService';
+
+export const CHALLENGE_QUEUE_FLAG = 'CHALLENGE_QUEUE';
+
+// Thrown by autoFillSchedule when a planned move is no longer safe; nothing is written
+export class ScheduleConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleConflictError';
+  }
+}
+
+// Shape of the CHALLENGE_QUEUE flag configJson
+export const challengeQueueConfigSchema = z.object({
+  warningDays: z.number().int().min(1).max(60).default(7), // warn when any of the next N days lacks a published challenge
+  fillDays: z.number().int().min(1).max(90).default(14), // how far ahead auto-fill looks for empty dates
+  publishOnFill: z.boolean().default(false), // publish drafts as they are placed, or leave them for review
+});
+
+export type ChallengeQueueConfig = z.infer<typeof challengeQueueConfigSchema>;
+
+export type ScheduleDayStatus = 'published' | 'draft' | 'missing';
+
+export interface ScheduledChallengeSummary {
+  id: string;
+  dateKey: string;
+  title: string;
+  category: string;
+  isPublished: boolean;
+}
+
+export interface ScheduleDay {
+  dateKey: string;
+  status: ScheduleDayStatus;
+  challenge: ScheduledChallengeSummary | null;
+}
+
+export interface ScheduleCalendar {
+  today: string;
+  config: ChallengeQueueConfig;
+  days: ScheduleDay[];
+  pool: ScheduledChallengeSummary[]; // unpublished drafts dated before today that nobody has played
+  unpublishedSoon: string[]; // date keys in the next warningDays without a published challenge
+}
+
+export interface RescheduleResult {
+  ok: boolean;
+  error?: string;
+  challenge?: ScheduledChallengeSummary;
+}
+
+export interface AutoFillAssignment {
+  challengeId: string;
+  title: string;
+  fromDateKey: string;
+  toDateKey: string;
+}
+
+export interface AutoFillReport {
+  dryRun: boolean;
+  publishOnFill: boolean;
+  assignments: AutoFillAssignment[];
+  unfilledDateKeys: string[]; // empty dates left over once the pool ran out (or every draft was a duplicate)
+  skipped: Array<{ challengeId: string; title: string; reason: string }>;
+}
+
+const toDate = (dateKey: string) => parse(dateKey, 'yyyy-MM-dd', new Date());
+const shiftDateKey = (dateKey: string, days: number) => format(addDays(toDate(dateKey), days), 'yyyy-MM-dd');
+
+function summarize(challenge: typeof dailyChallenges.$inferSelect): ScheduledChallengeSummary {
+  return {
+    id: challenge.id,
+    dateKey: challenge.dateKey,
+    title: challenge.title,
+    category: challenge.category,
+    isPublished: challenge.isPublished,
+  };
+}
+
+export async function getQueueConfig(): Promise<ChallengeQueueConfig> {
+  const parsed = challengeQueueConfigSchema.safeParse(await getFeatureFlagConfig(CHALLENGE_QUEUE_FLAG));
+  if (!parsed.success) {
+    console.warn(`[Schedule] Ignoring invalid ${CHALLENGE_QUEUE_FLAG} config:`, parsed.error.issues);
+    return challengeQueueConfigSchema.parse({});
+  }
+  return parsed.data;
+}
+
+export async function updateQueueConfig(config: ChallengeQueueConfig): Promise<ChallengeQueueConfig> {
+  const flag = await storage.getFeatureFlag(CHALLENGE_QUEUE_FLAG);
+  await storage.upsertFeatureFlag({ key: CHALLENGE_QUEUE_FLAG, enabled: flag?.enabled ?? true, configJson: config });
+  return config;
+}
+
+// Unpublished drafts dated before today that nobody has played
+async function getPool(today: string) {
+  return await db
+    .select()
+    .from(dailyChallenges)
+    .where(and(eq(dailyChallenges.isPublished, false), lt(dailyChallenges.dateKey, today), isUnplayed()))
+    .orderBy(asc(dailyChallenges.createdAt));
+}
+
+// Date keys in [from, to] with no challenge at all
+async function getEmptyDateKeys(from: string, to: string): Promise<string[]> {
+  const taken = new Set((await db
+    .select({ dateKey: dailyChallenges.dateKey })
+    .from(dailyChallenges)
+    .where(and(gte(dailyChallenges.dateKey, from), lte(dailyChallenges.dateKey, to)))
+  ).map(row => row.dateKey));
+
+  const empty: string[] = [];
+  for (let dateKey = from; dateKey <= to; dateKey = shiftDateKey(dateKey, 1)) {
+    if (!taken.has(dateKey)) empty.push(dateKey);
+  }
+  return empty;
+}
+
+/**
+ * One entry per day in [from, to] plus the draft pool and the upcoming-gap warning.
+ */
+export async function getScheduleCalendar(from: string, to: string): Promise<ScheduleCalendar> {
+  const today = getActiveDateKey();
+  const config = await getQueueConfig();
+  const warningEnd = shiftDateKey(today, config.warningDays - 1);
+
+  // Fetch the calendar range and the warning window together so the warning works for any month shown
+  const rangeStart = from < today ? from : today;
+  const rangeEnd = to > warningEnd ? to : warningEnd;
+  const [rows, pool] = await Promise.all([
+    db
+      .select()
+      .from(dailyChallenges)
+      .where(and(gte(dailyChallenges.dateKey, rangeStart), lte(dailyChallenges.dateKey, rangeEnd))),
+    getPool(today),
+  ]);
+  const byDateKey = new Map(rows.map(row => [row.dateKey, row]));
+
+  const days: ScheduleDay[] = [];
+  for (let dateKey = from; dateKey <= to; dateKey = shiftDateKey(dateKey, 1)) {
+    const challenge = byDateKey.get(dateKey);
+    days.push({
+      dateKey,
+      status: !challenge ? 'missing' : challenge.isPublished ? 'published' : 'draft',
+      challenge: challenge ? summarize(challenge) : null,
+    });
+  }
+
+  const unpublishedSoon: string[] = [];
+  for (let dateKey = today; dateKey <= warningEnd; dateKey = shiftDateKey(dateKey, 1)) {
+    if (!byDateKey.get(dateKey)?.isPublished) unpublishedSoon.push(dateKey);
+  }
+
+  return { today, config, days, pool: pool.map(summarize), unpublishedSoon };
+}
+
+/**
+ * Move a challenge to another date. Published challenges that have already run (today or
+ * earlier) stay put because attempts and streaks reference their date, and so does any
+ * challenge with attempts or aggregate counts, even if it has since been unpublished.
+ */
+export async function rescheduleChallenge(challengeId: string, dateKey: string, editor: RevisionEditor | null = null): Promise<RescheduleResult> {
+  const today = getActiveDateKey();
+  const challenge = await storage.getChallengeById(challengeId);
+  if (!challenge) return { ok: false, error: 'Challenge not found' };
+  if (challenge.dateKey === dateKey) return { ok: true, challenge: summarize(challenge) };
+
+  if ((challenge.isPublished && challenge.dateKey <= today) || await hasBeenPlayed(challengeId)) {
+    return { ok: false, error: `"${challenge.title}" has already run on ${challenge.dateKey} and can't be moved` };
+  }
+  if (dateKey < today) {
+    return { ok: false, error: 'Challenges can only be moved to today or a future date' };
+  }
+
+  const duplicateCheck = await checkForDuplicateChallengeOnUpdate(challengeId, dateKey, challenge.title);
+  if (duplicateCheck.isDuplicate) {
+    return { ok: false, error: duplicateCheck.message || 'Duplicate challenge detected' };
+  }
+
+  try {
+    const updated = await withRevision(challengeId, 'reschedule', editor, async (tx) => {
+      // The check above ran before the row was locked; an attempt since then pins the date
+      if (await hasBeenPlayed(challengeId, tx)) {
+        throw new ScheduleConflictError(`"${challenge.title}" was played while it was being moved and can't be moved`);
+      }
+      return await storage.updateChallenge(challengeId, { dateKey }, tx);
+    });
+    return updated ? { ok: true, challenge: summarize(updated) } : { ok: false, error: 'Challenge not found' };
+  } catch (error) {
+    if (error instanceof ScheduleConflictError) return { ok: false, error: error.message };
+    throw error;
+  }
+}
+
+/**
+ * Place pool drafts (oldest first) on empty dates from today through fillDays ahead.
+ * dryRun reports the plan without writing; otherwise every move is written in one
+ * transaction, so a date taken or a draft played meanwhile leaves the schedule untouched.
+ */
+export async function autoFillSchedule(options: { dryRun?: boolean; editor?: RevisionEditor } = {}): Promise<AutoFillReport> {
+  const dryRun = options.dryRun ?? true;
+  const today = getActiveDateKey();
+  const config = await getQueueConfig();
+  const emptyDateKeys = await getEmptyDateKeys(today, shiftDateKey(today, config.fillDays - 1));
+  const pool = await getPool(today);
+
+  const assignments: AutoFillAssignment[] = [];
+  const skipped: AutoFillReport['skipped'] = [];
+  let next = 0;
+
+  for (const draft of pool) {
+    if (next >= emptyDateKeys.length) break;
+    const toDateKey = emptyDateKeys[next];
+
+    // Same check as a manual reschedule; the date is known to be empty, so this catches title clashes
+    const duplicateCheck = await checkForDuplicateChallengeOnUpdate(draft.id, toDateKey, draft.title);
+    if (duplicateCheck.isDuplicate) {
+      skipped.push({ challengeId: draft.id, title: draft.title, reason: duplicateCheck.message || 'Duplicate challenge' });
+      continue;
+    }
+
+    assignments.push({ challengeId: draft.id, title: draft.title, fromDateKey: draft.dateKey, toDateKey });
+    next++;
+  }
+
+  if (!dryRun && assignments.length > 0) {
+    await db.transaction(async (fillTx) => {
+      for (const assignment of assignments) {
+        await withRevision(assignment.challengeId, 'reschedule', options.editor ?? null, async (tx) => {
+          // The row is locked by now; a draft played since the pool was read must stay on its date
+          if (await hasBeenPlayed(assignment.challengeId, tx)) {
+            throw new ScheduleConflictError(`"${assignment.title}" was played while the schedule was being filled`);
+          }
+          return await storage.updateChallenge(assignment.challengeId, {
+            dateKey: assignment.toDateKey,
+            ...(config.publishOnFill ? { isPublished: true } : {}),
+          }, tx);
+        }, fillTx);
+      }
+    });
+
+    if (config.publishOnFill) {
+      const { createDailyThread } = await import('./forumService');
+      for (const assignment of assignments) {
+        await createDailyThread(assignment.toDateKey);
+      }
+    }
+  }
+
+  return {
+    dryRun,
+    publishOnFill: config.publishOnFill,
+    assignments,
+    unfilledDateKeys: emptyDateKeys.slice(next),
+    skipped,
+  };
+}
@@ -1,6 +1,19 @@
+import {
+  SCORING_STRATEGY_IDS,
+  DEFAULT_SCORING_STRATEGY,
+  type ScoringStrategyId,
+} from '@shared/schema';
+
+// An additional named grade awarded at or above minScore (e.g. 'Perfect' at 100, 'Fair' at 50)
+export interface ExtraGradeTier {
+  tier: string;
+  minScore: number;
+}
+
 export interface ScoringConfig {
   GREAT_THRESHOLD: number;
   GOOD_THRESHOLD: number;
+  EXTRA_TIERS?: ExtraGradeTier[];
 }
 
 export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
@@ -8,22 +21,51 @@ export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
   GOOD_THRESHOLD: 65,
 };
 
-export type GradeTier = 'Great' | 'Good' | 'Risky';
+// Great/Good/Risky are always available; configured extra tiers add more names
+export type GradeTier = 'Great' | 'Good' | 'Risky' | (string & {});
 
-// Distance-based partial credit points table
+// Distance-based partial credit points table (defined for a 4-option challenge)
 // distance 0 (perfect position) → 25 points
 // distance 1 (off by 1 position) → 18 points
 // distance 2 (off by 2 positions) → 10 points
 // distance 3 (off by 3 positions) → 0 points
 const DISTANCE_POINTS = [25, 18, 10, 0];
+const MAX_POSITION_POINTS = DISTANCE_POINTS[0];
+
+// Swapped top-two Optimal options win back this share of the points lost for being one slot off:
+// 3 of the 7 on a 4-option challenge (21 instead of 18), scaled like the table for other counts
+const OPTIMAL_SWAP_RECOVERY = { recovered: 3, lost: 7 };
+
+/**
+ * Points for an option placed `distance` positions away from its ideal slot.
+ * The table above is stretched over the maximum possible distance for the
+ * challenge's option count, so 4-option challenges score exactly as before.
+ */
+export function getDistancePoints(distance: number, optionCount: number): number {
+  const maxDistance = optionCount - 1;
+  if (maxDistance <= 0) return MAX_POSITION_POINTS;
+
+  const relative = Math.min(distance, maxDistance) / maxDistance;
+  const scaled = relative * (DISTANCE_POINTS.length - 1);
+  const lower = Math.floor(scaled);
+  const upper = Math.min(lower + 1, DISTANCE_POINTS.length - 1);
+  const fraction = scaled - lower;
+  
+  return DISTANCE_POINTS[lower] + (DISTANCE_POINTS[upper] - DISTANCE_POINTS[lower]) * fraction;
+}
+
+export type ScoredOption = { id: string; tierLabel: string; orderingIndex: number };
 
+/**
+ * Validates a submitted ranking and scores it with the challenge's strategy.
+ * Malformed rankings (incomplete, duplicates, foreign option ids) score 0.
+ */
 export function calculateRankingScore(
   userRanking: string[],
   idealRanking: string[],
-  challengeOptions?: Array<{ id: string; tierLabel: string; orderingIndex: number }>
+  challengeOptions?: ScoredOption[],
+  strategyId: string = DEFAULT_SCORING_STRATEGY
 ): number {
-  let totalScore = 0;
-  
   // Validate inputs
   if (!userRanking || userRanking.length === 0) {
     return 0;
@@ -33,16 +75,19 @@ export function calculateRankingScore(
     return 0;
   }
 
+  // The ideal ranking defines how many options this challenge has
+  const optionCount = idealRanking.length;
+
   // Defensive validation: Check for malformed rankings (log but don't block)
   // This helps identify issues like Dec 24th without breaking functionality
   const uniqueRankingIds = new Set(userRanking);
-  if (userRanking.length !== 4) {
-    console.warn(`[Scoring] Invalid ranking length: ${userRanking.length} (expected 4)`, {
+  if (userRanking.length !== optionCount) {
+    console.warn(`[Scoring] Invalid ranking length: ${userRanking.length} (expected ${optionCount})`, {
       ranking: userRanking,
       idealRanking
     });
     // If ranking is incomplete, return 0 to prevent wrong answers from getting 100
-    if (userRanking.length < 4) {
+    if (userRanking.length < optionCount) {
       return 0;
     }
   }
@@ -70,6 +115,25 @@ export function calculateRankingScore(
     }
   }
   
+  return getScoringStrategy(strategyId).score(userRanking, idealRanking, challengeOptions);
+}
+
+/**
+ * Distance-based partial credit: each option earns points from the distance table,
+ * plus the "Optimal swap" bonus when the top two Optimal options are swapped.
+ */
+export function scoreByDistance(
+  userRanking: string[],
+  idealRanking: string[],
+  challengeOptions?: ScoredOption[]
+): number {
+  const optionCount = idealRanking.length;
+  let totalPoints = 0;
+
+  const oneOffPoints = getDistancePoints(1, optionCount);
+  const optimalSwapPoints = oneOffPoints
+    + ((MAX_POSITION_POINTS - oneOffPoints) * OPTIMAL_SWAP_RECOVERY.recovered) / OPTIMAL_SWAP_RECOVERY.lost;
+
   // Check if positions 0 and 1 are swapped Optimal options (bonus case)
   let hasOptimalSwap = false;
   if (challengeOptions && userRanking.length >= 2 && idealRanking.length >= 2) {
@@ -104,23 +168,209 @@ export function calculateRankingScore(
     // Calculate distance (how many positions off)
     const distance = Math.abs(userPosition - idealPosition);
     
-    // Get points for this distance (clamp to max distance of 3)
-    let points = DISTANCE_POINTS[Math.min(distance, 3)];
+    // Get points for this distance (scaled to this challenge's option count)
+    let points = getDistancePoints(distance, optionCount);
     
     // Apply Optimal swap bonus: if positions 0 and 1 are swapped Optimal options,
-    // give them 21 points each instead of 18 (distance 1)
+    // give them optimalSwapPoints each instead of the distance-1 points (21 vs 18 for 4 options)
     if (hasOptimalSwap && userPosition < 2 && distance === 1) {
-      points = 21; // Bonus: 21 points instead of 18 for swapped Optimal options
+      points = optimalSwapPoints;
     }
     
-    totalScore += points;
+    totalPoints += points;
   }
   
-  return totalScore;
+  // Normalize to 0-100 regardless of how many options the challenge has
+  return Math.round((totalPoints / (optionCount * MAX_POSITION_POINTS)) * 100);
+}
+
+// Position of each option in a ranking, keyed by option id
+function positionsOf(ranking: string[]): Map<string, number> {
+  return new Map(ranking.map((id, index) => [id, index]));
+}
+
+/**
+ * Kendall tau: share of option pairs the user put in the same relative order
+ * as the ideal ranking. Pairs involving unknown options count as discordant.
+ */
+export function scoreByKendallTau(userRanking: string[], idealRanking: string[]): number {
+  const optionCount = idealRanking.length;
+  const totalPairs = (optionCount * (optionCount - 1)) / 2;
+  if (totalPairs === 0) return 100;
+
+  const userPositions = positionsOf(userRanking);
+  let concordant = 0;
+  for (let i = 0; i < optionCount; i++) {
+    for (let j = i + 1; j < optionCount; j++) {
+      const first = userPositions.get(idealRanking[i]);
+      const second = userPositions.get(idealRanking[j]);
+      if (first !== undefined && second !== undefined && first < second) {
+        concordant++;
+      }
+    }
+  }
+
+  return Math.round((concordant / totalPairs) * 100);
+}
+
+/**
+ * Spearman footrule: total displacement of every option from its ideal slot,
+ * scaled against the largest displacement possible for this many options.
+ */
+export function scoreBySpearmanFootrule(userRanking: string[], idealRanking: string[]): number {
+  const optionCount = idealRanking.length;
+  const maxDisplacement = Math.floor((optionCount * optionCount) / 2);
+  if (maxDisplacement === 0) return 100;
+
+  const userPositions = positionsOf(userRanking);
+  let displacement = 0;
+  idealRanking.forEach((id, idealPosition) => {
+    const userPosition = userPositions.get(id);
+    // Missing options are treated as maximally displaced
+    displacement += userPosition === undefined ? optionCount - 1 : Math.abs(userPosition - idealPosition);
+  });
+
+  return Math.round(Math.max(0, 1 - displacement / maxDisplacement) * 100);
+}
+
+// Extra cost multipliers for promoting a Risky option above where it belongs
+const RISKY_PROMOTION_PENALTY = 1.5;
+const RISKY_FIRST_PENALTY = 2;
+
+/**
+ * Tier-weighted distance: same distance table as the default strategy, but lost
+ * points are multiplied when a Risky option is ranked higher than its ideal slot,
+ * and multiplied further when it's ranked first.
+ */
+export function scoreByTierWeighted(
+  userRanking: string[],
+  idealRanking: string[],
+  challengeOptions?: ScoredOption[]
+): number {
+  const optionCount = idealRanking.length;
+  const tiers = new Map((challengeOptions || []).map(opt => [opt.id, opt.tierLabel]));
+  let totalLoss = 0;
+
+  for (let userPosition = 0; userPosition < userRanking.length; userPosition++) {
+    const optionId = userRanking[userPosition];
+    const idealPosition = idealRanking.indexOf(optionId);
+    if (idealPosition === -1) {
+      totalLoss += MAX_POSITION_POINTS;
+      continue;
+    }
+
+    const distance = Math.abs(userPosition - idealPosition);
+    let loss = MAX_POSITION_POINTS - getDistancePoints(distance, optionCount);
+
+    if (tiers.get(optionId) === 'Risky' && userPosition < idealPosition) {
+      loss *= userPosition === 0 ? RISKY_FIRST_PENALTY : RISKY_PROMOTION_PENALTY;
+    }
+
+    totalLoss += loss;
+  }
+
+  const maxPoints = optionCount * MAX_POSITION_POINTS;
+  return Math.round(Math.max(0, (maxPoints - totalLoss) / maxPoints) * 100);
+}
+
+export interface ScoringStrategy {
+  id: ScoringStrategyId;
+  label: string;
+  description: string;
+  // Pure scorer for an already-validated ranking; returns 0-100
+  score: (userRanking: string[], idealRanking: string[], challengeOptions?: ScoredOption[]) => number;
+  // Pseudo-observations used to smooth percentiles while a challenge has few attempts.
+  // Each strategy has its own because score distributions differ between them.
+  baselineScores: number[];
+}
+
+export const SCORING_STRATEGIES: Record<ScoringStrategyId, ScoringStrategy> = {
+  distance: {
+    id: 'distance',
+    label: 'Distance',
+    description: 'Partial credit by how far each option is from its ideal slot, with a bonus for swapped Optimal picks.',
+    score: scoreByDistance,
+    baselineScores: [85, 84, 79, 72, 70, 68, 65, 60, 55, 50],
+  },
+  kendall_tau: {
+    id: 'kendall_tau',
+    label: 'Kendall tau',
+    description: 'Share of option pairs placed in the correct relative order.',
+    score: scoreByKendallTau,
+    baselineScores: [83, 83, 83, 67, 67, 67, 50, 50, 50, 33],
+  },
+  spearman_footrule: {
+    id: 'spearman_footrule',
+    label: 'Spearman footrule',
+    description: 'Total displacement of all options from their ideal slots.',
+    score: scoreBySpearmanFootrule,
+    baselineScores: [75, 75, 75, 75, 50, 50, 50, 50, 25, 25],
+  },
+  tier_weighted: {
+    id: 'tier_weighted',
+    label: 'Tier-weighted',
+    description: 'Distance scoring where ranking a Risky option too high, especially first, costs extra.',
+    score: scoreByTierWeighted,
+    baselineScores: [86, 79, 79, 72, 65, 62, 58, 55, 48, 41],
+  },
+};
+
+export function isScoringStrategyId(value: string): value is ScoringStrategyId {
+  return (SCORING_STRATEGY_IDS as readonly string[]).includes(value);
+}
+
+// Unknown or missing strategy ids fall back to the default so old rows keep scoring
+export function getScoringStrategy(strategyId?: string | null): ScoringStrategy {
+  if (strategyId && isScoringStrategyId(strategyId)) {
+    return SCORING_STRATEGIES[strategyId];
+  }
+  return SCORING_STRATEGIES[DEFAULT_SCORING_STRATEGY];
 }
 
 export function getGradeTier(score: number, config: ScoringConfig = DEFAULT_SCORING_CONFIG): GradeTier {
-  if (score >= config.GREAT_THRESHOLD) return 'Great';
-  if (score >= config.GOOD_THRESHOLD) return 'Good';
-  return 'Risky';
+  // Highest threshold wins; extra tiers slot in between the built-in ones by minScore
+  const tiers: ExtraGradeTier[] = [
+    ...(config.EXTRA_TIERS || []),
+    { tier: 'Great', minScore: config.GREAT_THRESHOLD },
+    { tier: 'Good', minScore: config.GOOD_THRESHOLD },
+  ].sort((a, b) => b.minScore - a.minScore);
+
+  const match = tiers.find(t => score >= t.minScore);
+  return match ? match.tier : 'Risky';
+}
+
+export interface ScoringPreview {
+  label: string;
+  score: number;
+  grade: GradeTier;
+}
+
+/**
+ * Scores a few representative rankings of a draft option set so admins can see
+ * how a strategy treats common mistakes before publishing.
+ */
+export function previewScoringStrategy(
+  strategyId: string,
+  options: Array<{ tierLabel: string; orderingIndex: number }>,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+): ScoringPreview[] {
+  const scoredOptions = [...options]
+    .sort((a, b) => a.orderingIndex - b.orderingIndex)
+    .map((opt, index) => ({ id: `option-${index + 1}`, tierLabel: opt.tierLabel, orderingIndex: index + 1 }));
+  const ideal = scoredOptions.map(opt => opt.id);
+  if (ideal.length < 2) return [];
+
+  const topTwoSwapped = [ideal[1], ideal[0], ...ideal.slice(2)];
+  const worstFirst = [ideal[ideal.length - 1], ...ideal.slice(0, -1)];
+  const reversed = [...ideal].reverse();
+
+  return [
+    { label: 'Perfect ranking', ranking: ideal },
+    { label: 'Top two swapped', ranking: topTwoSwapped },
+    { label: 'Worst option first', ranking: worstFirst },
+    { label: 'Fully reversed', ranking: reversed },
+  ].map(({ label, ranking }) => {
+    const score = calculateRankingScore(ranking, ideal, scoredOptions, strategyId);
+    return { label, score, grade: getGradeTier(score, config) };
+  });
 }
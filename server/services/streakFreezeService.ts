@@ -0,0 +1,70 @@
+import { db, type DbExecutor } from '../db';
+import { retryWallets, type RetryWallet } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { getCurrentWeekKey, getWeekKeyForDateKey } from './dateService';
+import { getWeeklyWallet, getWeeklyFreezeAllowance } from './walletService';
+import { getUserTimezone } from './timezoneService';
+
+// Every missed day the user has bridged with a freeze, across all weeks
+export async function getFrozenDateKeys(executor: DbExecutor, userId: string): Promise<string[]> {
+  const wallets = await executor
+    .select({ frozenDateKeysJson: retryWallets.frozenDateKeysJson })
+    .from(retryWallets)
+    .where(eq(retryWallets.userId, userId));
+
+  return wallets.flatMap(wallet => (wallet.frozenDateKeysJson as string[]) || []);
+}
+
+/**
+ * Spend freezes to cover the given missed days, each from the wallet of the week it
+ * falls in. All-or-nothing: if any week is out of freezes nothing is spent.
+ * Callers hold the user's streak lock (see lockStreak); wallets are then locked in week order.
+ */
+export async function consumeFreezes(executor: DbExecutor, userId: string, dateKeys: string[]): Promise<boolean> {
+  if (dateKeys.length === 0) return true;
+
+  const byWeek = new Map<string, string[]>();
+  for (const dateKey of [...dateKeys].sort()) {
+    const weekKey = getWeekKeyForDateKey(dateKey);
+    byWeek.set(weekKey, [...(byWeek.get(weekKey) || []), dateKey]);
+  }
+
+  const wallets: Array<{ wallet: RetryWallet; dateKeys: string[] }> = [];
+  for (const [weekKey, weekDateKeys] of Array.from(byWeek.entries())) {
+    const wallet = await getWeeklyWallet(executor, userId, weekKey);
+    if (wallet.streakFreezesRemaining < weekDateKeys.length) return false;
+    wallets.push({ wallet, dateKeys: weekDateKeys });
+  }
+
+  for (const { wallet, dateKeys: weekDateKeys } of wallets) {
+    const frozen = (wallet.frozenDateKeysJson as string[]) || [];
+    await executor
+      .update(retryWallets)
+      .set({
+        streakFreezesRemaining: wallet.streakFreezesRemaining - weekDateKeys.length,
+        frozenDateKeysJson: Array.from(new Set([...frozen, ...weekDateKeys])).sort(),
+        updatedAt: new Date(),
+      })
+      .where(eq(retryWallets.id, wallet.id));
+  }
+
+  return true;
+}
+
+export interface StreakFreezeStatus {
+  weekKey: string;
+  freezesRemaining: number;
+  weeklyAllowance: number;
+  frozenDateKeys: string[]; // days bridged this week
+}
+
+export async function getStreakFreezeStatus(userId: string): Promise<StreakFreezeStatus> {
+  const weekKey = getCurrentWeekKey(await getUserTimezone(userId));
+  const wallet = await getWeeklyWallet(db, userId, weekKey);
+  return {
+    weekKey,
+    freezesRemaining: wallet.streakFreezesRemaining,
+    weeklyAllowance: await getWeeklyFreezeAllowance(userId),
+    frozenDateKeys: (wallet.frozenDateKeysJson as string[]) || [],
+  };
+}
@@ -1,32 +1,139 @@
+import { db, type DbExecutor, type DbTransaction } from '../db';
+import { attempts, dailyChallenges, streaks, type InsertStreak, type Streak } from '@shared/schema';
+import { eq, and } from 'drizzle-orm';
 import { storage } from '../storage';
-import { subDays, format, parse, differenceInDays } from 'date-fns';
+import { addDays, format, parse, differenceInDays } from 'date-fns';
+import { getFrozenDateKeys, consumeFreezes } from './streakFreezeService';
 import { getActiveDateKey } from './dateService';
+import { getUserTimezone } from './timezoneService';
+
+async function writeStreak(executor: DbExecutor, streak: InsertStreak): Promise<void> {
+  await executor
+    .insert(streaks)
+    .values(streak)
+    .onConflictDoUpdate({
+      target: streaks.userId,
+      set: {
+        currentStreak: streak.currentStreak,
+        longestStreak: streak.longestStreak,
+        lastCompletedDateKey: streak.lastCompletedDateKey,
+      }
+    });
+}
+
+// Longest gap (in missed days) that freezes are spent on automatically
+const MAX_AUTO_FREEZE_DAYS = 2;
+
+function shiftDateKey(dateKey: string, days: number): string {
+  return format(addDays(parse(dateKey, 'yyyy-MM-dd', new Date()), days), 'yyyy-MM-dd');
+}
 
 /**
- * Recalculate streak from all completed challenges
- * This ensures accuracy even if challenges are completed out of order
+ * Missed days between the latest completion and the covered day before it,
+ * or null when there's nothing before it to bridge to or the gap is too long.
  */
-export async function recalculateStreak(userId: string): Promise<void> {
-  const attempts = await storage.getUserAttempts(userId);
-  const bestAttempts = attempts.filter(a => a.isBestAttempt);
-  
-  // Get all challenges for these attempts to get their dateKeys
-  const completedDateKeys = new Set<string>();
-  for (const attempt of bestAttempts) {
-    const challenge = await storage.getChallengeById(attempt.challengeId);
-    if (challenge) {
-      completedDateKeys.add(challenge.dateKey);
+export function findBridgeableGap(completedDateKeys: string[], frozenDateKeys: Set<string>): string[] | null {
+  if (completedDateKeys.length < 2) return null;
+
+  const completed = new Set(completedDateKeys);
+  const latest = completedDateKeys[completedDateKeys.length - 1];
+  const missed: string[] = [];
+  let day = shiftDateKey(latest, -1);
+
+  while (!completed.has(day) && !frozenDateKeys.has(day)) {
+    missed.push(day);
+    if (missed.length > MAX_AUTO_FREEZE_DAYS) return null;
+    day = shiftDateKey(day, -1);
+  }
+
+  return missed.length > 0 ? missed.reverse() : null;
+}
+
+/**
+ * Streak lengths from sorted completed dateKeys. Frozen days keep a run alive
+ * across a missed day but don't add to its length.
+ */
+export function computeStreaks(
+  completedDateKeys: string[],
+  frozenDateKeys: Set<string>
+): { currentStreak: number; longestStreak: number } {
+  const completed = new Set(completedDateKeys);
+  const covered = Array.from(new Set([...completedDateKeys, ...Array.from(frozenDateKeys)])).sort();
+  const latest = completedDateKeys[completedDateKeys.length - 1];
+
+  let run = 0;
+  let longestStreak = 0;
+  let currentStreak = 0;
+  let previous: string | null = null;
+
+  for (const dateKey of covered) {
+    if (previous === null || differenceInDays(parse(dateKey, 'yyyy-MM-dd', new Date()), parse(previous, 'yyyy-MM-dd', new Date())) !== 1) {
+      run = 0;
+    }
+    if (completed.has(dateKey)) {
+      run++;
+    }
+    longestStreak = Math.max(longestStreak, run);
+    if (dateKey === latest) {
+      currentStreak = run;
     }
+    previous = dateKey;
   }
+
+  return { currentStreak, longestStreak };
+}
+
+export interface StreakState {
+  currentStreak: number;
+  longestStreak: number;
+  lastCompletedDateKey: string | null;
+}
+
+/**
+ * Apply one completion on top of the stored streak without reloading history.
+ * Returns null for an out-of-order completion (before lastCompletedDateKey),
+ * which needs a full recalculation.
+ */
+export function advanceStreak(state: StreakState, dateKey: string, frozenDateKeys: Set<string>): StreakState | null {
+  const last = state.lastCompletedDateKey;
+  if (last === dateKey) return state;
+  if (last !== null && dateKey < last) return null;
+
+  let connected = last !== null;
+  for (let day = shiftDateKey(dateKey, -1); connected && day > last!; day = shiftDateKey(day, -1)) {
+    connected = frozenDateKeys.has(day);
+  }
+
+  const currentStreak = connected ? state.currentStreak + 1 : 1;
+  return {
+    currentStreak,
+    longestStreak: Math.max(state.longestStreak, currentStreak),
+    lastCompletedDateKey: dateKey,
+  };
+}
+
+/**
+ * Recalculate streak from all completed challenges
+ * This ensures accuracy even if challenges are completed out of order
+ * Pass the attempt transaction so the attempt being submitted is counted
+ * With autoFreeze, streak freezes are spent to bridge missed days before the latest completion
+ */
+export async function recalculateStreak(
+  userId: string,
+  executor: DbExecutor = db,
+  options: { autoFreeze?: boolean } = {}
+): Promise<void> {
+  const completed = await executor
+    .selectDistinct({ dateKey: dailyChallenges.dateKey })
+    .from(attempts)
+    .innerJoin(dailyChallenges, eq(attempts.challengeId, dailyChallenges.id))
+    .where(and(eq(attempts.userId, userId), eq(attempts.isBestAttempt, true)));
   
-  // Sort dateKeys chronologically
-  const sortedDateKeys = Array.from(completedDateKeys)
-    .map(dk => parse(dk, 'yyyy-MM-dd', new Date()))
-    .sort((a, b) => a.getTime() - b.getTime())
-    .map(d => format(d, 'yyyy-MM-dd'));
+  // dateKeys are yyyy-MM-dd, so lexical order is chronological
+  const sortedDateKeys = completed.map(row => row.dateKey).sort();
   
   if (sortedDateKeys.length === 0) {
-    await storage.upsertStreak({
+    await writeStreak(executor, {
       userId,
       currentStreak: 0,
       longestStreak: 0,
@@ -34,34 +141,19 @@ export async function recalculateStreak(userId: string): Promise<void> {
     });
     return;
   }
-  
-  // Calculate current streak (consecutive days ending with most recent)
-  let currentStreak = 1;
-  let longestStreak = 1;
-  let tempStreak = 1;
-  
-  for (let i = sortedDateKeys.length - 1; i > 0; i--) {
-    const current = parse(sortedDateKeys[i], 'yyyy-MM-dd', new Date());
-    const previous = parse(sortedDateKeys[i - 1], 'yyyy-MM-dd', new Date());
-    const daysDiff = differenceInDays(current, previous);
-    
-    if (daysDiff === 1) {
-      tempStreak++;
-      if (i === sortedDateKeys.length - 1) {
-        currentStreak = tempStreak;
-      }
-    } else {
-      longestStreak = Math.max(longestStreak, tempStreak);
-      tempStreak = 1;
-      if (i === sortedDateKeys.length - 1) {
-        currentStreak = 1;
-      }
+
+  const frozenDateKeys = new Set(await getFrozenDateKeys(executor, userId));
+
+  if (options.autoFreeze) {
+    const gap = findBridgeableGap(sortedDateKeys, frozenDateKeys);
+    if (gap && await consumeFreezes(executor, userId, gap)) {
+      gap.forEach(dateKey => frozenDateKeys.add(dateKey));
     }
   }
   
-  longestStreak = Math.max(longestStreak, tempStreak);
+  const { currentStreak, longestStreak } = computeStreaks(sortedDateKeys, frozenDateKeys);
   
-  await storage.upsertStreak({
+  await writeStreak(executor, {
     userId,
     currentStreak,
     longestStreak,
@@ -69,12 +161,96 @@ export async function recalculateStreak(userId: string): Promise<void> {
   });
 }
 
-export async function updateStreakForCompletion(userId: string, dateKey: string): Promise<void> {
-  // Recalculate streak from all completed challenges to handle out-of-order completions
-  // This ensures accuracy even if challenges are completed in non-sequential order
-  await recalculateStreak(userId);
+/**
+ * Lock the user's streak row (creating it if needed) for the rest of the transaction.
+ * Anything that touches a user's streak or wallets takes this lock before any wallet lock,
+ * so submissions and manual freezes queue here instead of deadlocking on the wallets.
+ */
+export async function lockStreak(tx: DbTransaction, userId: string): Promise<Streak> {
+  await tx
+    .insert(streaks)
+    .values({ userId })
+    .onConflictDoNothing({ target: streaks.userId });
+  const [streak] = await tx
+    .select()
+    .from(streaks)
+    .where(eq(streaks.userId, userId))
+    .for('update');
+  return streak;
 }
 
+export async function updateStreakForCompletion(tx: DbTransaction, userId: string, dateKey: string): Promise<void> {
+  // Concurrent submissions on different challenges update the row one after another instead of overwriting each other
+  const streak = await lockStreak(tx, userId);
+
+  // No stored position yet (new user or pre-streak history): build it from scratch
+  if (!streak.lastCompletedDateKey) {
+    await recalculateStreak(userId, tx, { autoFreeze: true });
+    return;
+  }
+
+  // Only a skipped day needs the frozen days, and possibly a freeze to bridge it
+  let frozenDateKeys = new Set<string>();
+  if (dateKey > shiftDateKey(streak.lastCompletedDateKey, 1)) {
+    frozenDateKeys = new Set(await getFrozenDateKeys(tx, userId));
+    const gap = findBridgeableGap([streak.lastCompletedDateKey, dateKey], frozenDateKeys);
+    if (gap && await consumeFreezes(tx, userId, gap)) {
+      gap.forEach(day => frozenDateKeys.add(day));
+    }
+  }
+
+  const next = advanceStreak(streak, dateKey, frozenDateKeys);
+  if (!next) {
+    // Completed an older day (e.g. from the archive): it may join or split earlier runs
+    await recalculateStreak(userId, tx, { autoFreeze: true });
+    return;
+  }
+
+  if (next !== streak) {
+    await writeStreak(tx, { userId, ...next });
+  }
+}
+
+/**
+ * Whether a run ending on lastCompletedDateKey can still be continued today:
+ * every day between it and today has to be frozen.
+ */
+export function isStreakAlive(lastCompletedDateKey: string, todayKey: string, frozenDateKeys: Set<string>): boolean {
+  for (let day = shiftDateKey(todayKey, -1); day > lastCompletedDateKey; day = shiftDateKey(day, -1)) {
+    if (!frozenDateKeys.has(day)) return false;
+  }
+  return true;
+}
+
+// Stored streak as of today in the user's timezone: a run that has lapsed reads as 0
 export async function getUserStreak(userId: string) {
-  return await storage.getStreak(userId);
+  const streak = await storage.getStreak(userId);
+  if (!streak?.lastCompletedDateKey || streak.currentStreak === 0) {
+    return streak;
+  }
+
+  const todayKey = getActiveDateKey(await getUserTimezone(userId));
+  if (streak.lastCompletedDateKey >= shiftDateKey(todayKey, -1)) {
+    return streak;
+  }
+
+  const frozenDateKeys = new Set(await getFrozenDateKeys(db, userId));
+  return isStreakAlive(streak.lastCompletedDateKey, todayKey, frozenDateKeys)
+    ? streak
+    : { ...streak, currentStreak: 0 };
+}
+
+/**
+ * Manually spend a streak freeze on a missed day, then recalculate the streak.
+ * Returns false when the day's week has no freezes left.
+ */
+export async function spendStreakFreeze(userId: string, dateKey: string): Promise<boolean> {
+  return await db.transaction(async (tx) => {
+    await lockStreak(tx, userId);
+    const spent = await consumeFreezes(tx, userId, [dateKey]);
+    if (spent) {
+      await recalculateStreak(userId, tx);
+    }
+    return spent;
+  });
 }
@@ -1,4 +1,6 @@
-import { storage } from '../storage';
+import { db, type DbExecutor } from '../db';
+import { users } from '@shared/schema';
+import { eq } from 'drizzle-orm';
 import { isFeatureEnabled } from './featureFlagService';
 
 export type SubscriptionTier = 'free' | 'premium' | 'pro';
@@ -12,8 +14,9 @@ export interface SubscriptionStatus {
 /**
  * Check if a user has an active premium subscription
  */
-export async function getUserSubscriptionStatus(userId: string): Promise<SubscriptionStatus> {
-  const user = await storage.getUser(userId);
+export async function getUserSubscriptionStatus(userId: string, executor: DbExecutor = db): Promise<SubscriptionStatus> {
+  // Read through the caller's transaction when there is one, so it doesn't wait on a second pool connection
+  const [user] = await executor.select().from(users).where(eq(users.id, userId));
   
   if (!user) {
     return {
@@ -0,0 +1,58 @@
+import { db, type DbExecutor } from '../db';
+import { users } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { storage } from '../storage';
+import { DEFAULT_RESET_TZ, getActiveDateKey, isPlausibleTodayKey, isValidTimeZone } from './dateService';
+
+export async function getUserTimezone(userId: string, executor: DbExecutor = db): Promise<string> {
+  const [user] = await executor.select({ timezone: users.timezone }).from(users).where(eq(users.id, userId));
+  return user?.timezone || DEFAULT_RESET_TZ;
+}
+
+/**
+ * The user's current dateKey. A stored timezone always wins; otherwise the
+ * client's claimed "today" is used if plausible, falling back to the server default.
+ */
+export async function getUserTodayKey(userId: string, claimedTodayKey?: string): Promise<string> {
+  const user = await storage.getUser(userId);
+  if (user?.timezone) {
+    return getActiveDateKey(user.timezone);
+  }
+  if (claimedTodayKey && isPlausibleTodayKey(claimedTodayKey)) {
+    return claimedTodayKey;
+  }
+  return getActiveDateKey();
+}
+
+export type SetTimezoneResult =
+  | { status: 'updated' | 'unchanged'; timezone: string; todayKey: string }
+  | { status: 'deferred'; timezone: string; todayKey: string }
+  | { status: 'invalid' };
+
+/**
+ * Store the browser's timezone. The first report is accepted as-is; later changes
+ * may not move the user's "today" forward (that would unlock tomorrow's challenge early),
+ * so a move east is deferred until the old zone reaches the same date.
+ */
+export async function setUserTimezone(userId: string, timezone: string): Promise<SetTimezoneResult> {
+  if (!isValidTimeZone(timezone)) {
+    return { status: 'invalid' };
+  }
+
+  const user = await storage.getUser(userId);
+  const current = user?.timezone;
+  if (current === timezone) {
+    return { status: 'unchanged', timezone, todayKey: getActiveDateKey(timezone) };
+  }
+
+  if (current && getActiveDateKey(timezone) > getActiveDateKey(current)) {
+    return { status: 'deferred', timezone: current, todayKey: getActiveDateKey(current) };
+  }
+
+  await db
+    .update(users)
+    .set({ timezone })
+    .where(eq(users.id, userId));
+
+  return { status: 'updated', timezone, todayKey: getActiveDateKey(timezone) };
+}
@@ -0,0 +1,34 @@
+import { db, type DbExecutor } from '../db';
+import { retryWallets, type RetryWallet } from '@shared/schema';
+import { eq, and } from 'drizzle-orm';
+import { getUserSubscriptionStatus } from './subscriptionService';
+
+// Weekly allowances stored on each retry_wallets row
+export const WEEKLY_RETRIES = 1;
+export const WEEKLY_STREAK_FREEZES = 1;
+export const PRO_WEEKLY_STREAK_FREEZES = 2; // Pro subscribers get more freezes
+
+export async function getWeeklyFreezeAllowance(userId: string, executor: DbExecutor = db): Promise<number> {
+  const status = await getUserSubscriptionStatus(userId, executor);
+  return status.isActive && status.tier === 'pro' ? PRO_WEEKLY_STREAK_FREEZES : WEEKLY_STREAK_FREEZES;
+}
+
+/**
+ * Get the user's wallet for a week, creating it with that week's allowances
+ * on first use. Inside a transaction the row stays locked until commit.
+ */
+export async function getWeeklyWallet(executor: DbExecutor, userId: string, weekKey: string): Promise<RetryWallet> {
+  const freezeAllowance = await getWeeklyFreezeAllowance(userId, executor);
+  await executor
+    .insert(retryWallets)
+    .values({ userId, weekKey, retriesRemaining: WEEKLY_RETRIES, streakFreezesRemaining: freezeAllowance })
+    .onConflictDoNothing({ target: [retryWallets.userId, retryWallets.weekKey] });
+
+  const [wallet] = await executor
+    .select()
+    .from(retryWallets)
+    .where(and(eq(retryWallets.userId, userId), eq(retryWallets.weekKey, weekKey)))
+    .for('update');
+
+  return wallet;
+}
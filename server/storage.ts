@@ -12,7 +12,7 @@ import {
   users, dailyChallenges, challengeOptions, attempts, aggregates, streaks, retryWallets, featureFlags,
   badges, userBadges
 } from "@shared/schema";
-import { db, pool } from "./db";
+import { db, pool, type DbExecutor } from "./db";
 import { eq, and, desc, asc, sql, inArray } from "drizzle-orm";
 
 export type InsertChallengeOptionInput = Omit<InsertChallengeOption, 'challengeId'>;
@@ -52,9 +52,10 @@ export interface IStorage {
   getChallengeById(id: string): Promise<(DailyChallenge & { options: ChallengeOption[] }) | undefined>;
   getAllChallenges(): Promise<DailyChallenge[]>;
   getAllChallengesWithOptions(): Promise<(DailyChallenge & { options: ChallengeOption[] })[]>;
-  createChallenge(challenge: InsertDailyChallenge, options: InsertChallengeOptionInput[]): Promise<DailyChallenge>;
-  updateChallenge(id: string, challenge: Partial<InsertDailyChallenge>): Promise<DailyChallenge | undefined>;
-  updateChallengeWithOptions(id: string, challenge: Partial<InsertDailyChallenge>, options: InsertChallengeOptionInput[]): Promise<DailyChallenge | undefined>;
+  // The challenge write methods take an optional executor so callers can add to the same transaction (e.g. revision snapshots)
+  createChallenge(challenge: InsertDailyChallenge, options: InsertChallengeOptionInput[], executor?: DbExecutor): Promise<DailyChallenge>;
+  updateChallenge(id: string, challenge: Partial<InsertDailyChallenge>, executor?: DbExecutor): Promise<DailyChallenge | undefined>;
+  updateChallengeWithOptions(id: string, challenge: Partial<InsertDailyChallenge>, options: InsertChallengeOptionInput[], executor?: DbExecutor): Promise<DailyChallenge | undefined>;
   deleteChallenge(id: string): Promise<boolean>;
   
   // Analytics
@@ -174,8 +175,8 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
-  async createChallenge(challenge: InsertDailyChallenge, options: InsertChallengeOptionInput[]): Promise<DailyChallenge> {
-    return await db.transaction(async (tx) => {
+  async createChallenge(challenge: InsertDailyChallenge, options: InsertChallengeOptionInput[], executor: DbExecutor = db): Promise<DailyChallenge> {
+    return await executor.transaction(async (tx) => {
       const [newChallenge] = await tx.insert(dailyChallenges).values(challenge).returning();
       
       const optionsWithChallengeId = options.map(opt => ({
@@ -198,13 +199,13 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
-  async updateChallenge(id: string, challenge: Partial<InsertDailyChallenge>): Promise<DailyChallenge | undefined> {
-    const [updated] = await db.update(dailyChallenges).set(challenge).where(eq(dailyChallenges.id, id)).returning();
+  async updateChallenge(id: string, challenge: Partial<InsertDailyChallenge>, executor: DbExecutor = db): Promise<DailyChallenge | undefined> {
+    const [updated] = await executor.update(dailyChallenges).set(challenge).where(eq(dailyChallenges.id, id)).returning();
     return updated || undefined;
   }
 
-  async updateChallengeWithOptions(id: string, challenge: Partial<InsertDailyChallenge>, options: InsertChallengeOptionInput[]): Promise<DailyChallenge | undefined> {
-    return await db.transaction(async (tx) => {
+  async updateChallengeWithOptions(id: string, challenge: Partial<InsertDailyChallenge>, options: InsertChallengeOptionInput[], executor: DbExecutor = db): Promise<DailyChallenge | undefined> {
+    return await executor.transaction(async (tx) => {
       const [updated] = await tx.update(dailyChallenges).set(challenge).where(eq(dailyChallenges.id, id)).returning();
       if (!updated) return undefined;
       
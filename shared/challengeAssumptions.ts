@@ -0,0 +1,24 @@
+// Optional numeric counterparts of a challenge's free-text assumptions, stored in
+// daily_challenges.assumption_values_json and used to prefill the Tools calculators.
+// Kept out of schema.ts so the client can import it without pulling in drizzle.
+import { z } from 'zod';
+
+export const CHALLENGE_ASSUMPTION_FIELDS = [
+  { key: 'monthlyIncome', label: 'Monthly take-home income ($)' },
+  { key: 'monthlyEssentialExpenses', label: 'Monthly essential expenses ($)' },
+  { key: 'monthlyDiscretionaryExpenses', label: 'Monthly discretionary spending ($)' },
+  { key: 'monthlyDebtPayments', label: 'Monthly debt payments ($)' },
+  { key: 'emergencyFundBalance', label: 'Emergency fund balance ($)' },
+  { key: 'emergencyFundTargetMonths', label: 'Emergency fund target (months)' },
+] as const;
+export type ChallengeAssumptionKey = typeof CHALLENGE_ASSUMPTION_FIELDS[number]['key'];
+
+export const challengeAssumptionValuesSchema = z.object({
+  monthlyIncome: z.number().min(0).optional(),
+  monthlyEssentialExpenses: z.number().min(0).optional(),
+  monthlyDiscretionaryExpenses: z.number().min(0).optional(),
+  monthlyDebtPayments: z.number().min(0).optional(),
+  emergencyFundBalance: z.number().min(0).optional(),
+  emergencyFundTargetMonths: z.number().min(0).max(60).optional(),
+}).strict();
+export type ChallengeAssumptionValues = z.infer<typeof challengeAssumptionValuesSchema>;
@@ -0,0 +1,1001 @@
+// Financial calculators shared by the Tools page and the saved-scenario API.
+// Pure functions only: no DOM, no database, so client and server get identical numbers.
+import { z } from 'zod';
+
+export type ExtraPaymentFrequency = 'perYear' | 'perMonth';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// --- Debt Calculator helpers ---
+export function getDebtResults(principal: number, annualRatePct: number, termYears: number) {
+  if (principal <= 0 || termYears <= 0) return null;
+  const monthlyRate = annualRatePct / 100 / 12;
+  const numMonths = Math.round(termYears * 12);
+  if (numMonths <= 0) return null;
+  let monthlyPayment: number;
+  if (monthlyRate <= 0) {
+    monthlyPayment = principal / numMonths;
+  } else {
+    const factor = Math.pow(1 + monthlyRate, numMonths);
+    monthlyPayment = (principal * monthlyRate * factor) / (factor - 1);
+  }
+  const totalPaid = monthlyPayment * numMonths;
+  const totalInterest = totalPaid - principal;
+  return { monthlyPayment, totalPaid, totalInterest, numMonths };
+}
+
+// One month of amortization: interest accrues on the opening balance, then the payment
+// covers that interest first and the rest reduces principal (never below zero).
+export function amortizationStep(balance: number, monthlyRate: number, payment: number) {
+  const interest = balance * monthlyRate;
+  const principalPaid = Math.min(payment - interest, balance);
+  return { interest, principalPaid, balance: balance - principalPaid };
+}
+
+export function getDebtBalanceOverTime(
+  principal: number,
+  annualRatePct: number,
+  monthlyPayment: number,
+  termYears: number
+): { year: number; balance: number }[] {
+  const monthlyRate = annualRatePct / 100 / 12;
+  const numMonths = Math.round(termYears * 12);
+  const data: { year: number; balance: number }[] = [{ year: 0, balance: principal }];
+  let balance = principal;
+  for (let month = 1; month <= numMonths; month++) {
+    balance = amortizationStep(balance, monthlyRate, monthlyPayment).balance;
+    if (balance < 0.01) balance = 0;
+    if (month % 12 === 0) {
+      data.push({ year: month / 12, balance: Math.round(balance * 100) / 100 });
+    }
+  }
+  if (numMonths % 12 !== 0 && balance >= 0.01) {
+    data.push({ year: termYears, balance: Math.round(balance * 100) / 100 });
+  }
+  return data;
+}
+
+export function getDebtBalanceOverTimeWithExtra(
+  principal: number,
+  annualRatePct: number,
+  monthlyPayment: number,
+  extraAmount: number,
+  frequency: ExtraPaymentFrequency
+): { year: number; balance: number }[] {
+  const monthlyRate = annualRatePct / 100 / 12;
+  const data: { year: number; balance: number }[] = [{ year: 0, balance: principal }];
+  let balance = principal;
+  const extraPerMonth = frequency === 'perMonth' ? extraAmount : 0;
+  const extraPerYear = frequency === 'perYear' ? extraAmount : 0;
+  for (let month = 1; balance > 0.01 && month <= 600; month++) {
+    balance = amortizationStep(balance, monthlyRate, monthlyPayment).balance;
+    if (frequency === 'perMonth' && extraPerMonth > 0 && balance > 0.01) {
+      balance -= Math.min(extraPerMonth, balance);
+    }
+    if (frequency === 'perYear' && month % 12 === 0 && balance > 0.01 && extraPerYear > 0) {
+      balance -= Math.min(extraPerYear, balance);
+    }
+    if (balance < 0.01) balance = 0;
+    if (month % 12 === 0) {
+      data.push({ year: month / 12, balance: Math.round(balance * 100) / 100 });
+    }
+  }
+  return data;
+}
+
+export function getDebtWithExtraPayment(
+  principal: number,
+  annualRatePct: number,
+  monthlyPayment: number,
+  extraAmount: number,
+  frequency: ExtraPaymentFrequency
+) {
+  const monthlyRate = annualRatePct / 100 / 12;
+  let balance = principal;
+  let month = 0;
+  let totalInterest = 0;
+  const extraPerMonth = frequency === 'perMonth' ? extraAmount : 0;
+  const extraPerYear = frequency === 'perYear' ? extraAmount : 0;
+  while (balance > 0.01 && month < 600) {
+    const step = amortizationStep(balance, monthlyRate, monthlyPayment);
+    totalInterest += step.interest;
+    balance = step.balance;
+    if (frequency === 'perMonth' && extraPerMonth > 0 && balance > 0.01) {
+      const extra = Math.min(extraPerMonth, balance);
+      balance -= extra;
+    }
+    month++;
+    if (frequency === 'perYear' && month > 0 && month % 12 === 0 && balance > 0.01 && extraPerYear > 0) {
+      const extra = Math.min(extraPerYear, balance);
+      balance -= extra;
+    }
+  }
+  return { monthsToPayoff: month, totalInterest };
+}
+
+// --- Mortgage, refinance and rent-vs-buy ---
+export const PMI_AUTO_CANCEL_LTV = 0.78; // lenders must drop PMI at 78% of the original value
+export const PMI_REQUEST_CANCEL_LTV = 0.8; // borrowers may ask for removal at 80%
+
+export interface MortgageInputs {
+  homePrice: number;
+  downPayment: number;
+  annualRatePct: number;
+  termYears: number;
+  propertyTaxPct: number; // annual, % of home price
+  insuranceAnnual: number;
+  hoaMonthly: number;
+  pmiRatePct: number; // annual, % of the original loan; only charged while LTV is above pmiDropOffLtv
+  pmiDropOffLtv: number;
+  extraPrincipalMonthly: number;
+}
+
+export interface MortgageYear {
+  year: number;
+  balance: number;
+  equity: number; // against the purchase price
+  interestPaid: number; // cumulative
+}
+
+export interface MortgageResult {
+  loanAmount: number;
+  monthlyPrincipalAndInterest: number;
+  monthlyTax: number;
+  monthlyInsurance: number;
+  monthlyHoa: number;
+  monthlyPmi: number; // while it applies
+  monthlyPiti: number; // first month, PMI and HOA included
+  pmiDropOffMonth: number | null; // first month without PMI; null when PMI never applied
+  monthsToPayoff: number;
+  totalInterest: number;
+  totalPmi: number;
+  interestSavedByExtra: number;
+  monthsSavedByExtra: number;
+  yearly: MortgageYear[];
+}
+
+// Amortizes with the same monthly step as the debt calculator, plus optional extra principal.
+// PMI uses the current balance, so extra principal also brings the drop-off forward.
+export function getMortgageResults(input: MortgageInputs): MortgageResult | null {
+  const loanAmount = input.homePrice - input.downPayment;
+  if (input.homePrice <= 0 || loanAmount <= 0) return null;
+  const base = getDebtResults(loanAmount, input.annualRatePct, input.termYears);
+  if (!base) return null;
+
+  const monthlyRate = input.annualRatePct / 100 / 12;
+  const monthlyPmi = (loanAmount * input.pmiRatePct) / 100 / 12;
+  const needsPmi = monthlyPmi > 0 && loanAmount / input.homePrice > input.pmiDropOffLtv;
+
+  let balance = loanAmount;
+  let month = 0;
+  let totalInterest = 0;
+  let totalPmi = 0;
+  let pmiDropOffMonth: number | null = null;
+  const yearly: MortgageYear[] = [{ year: 0, balance: loanAmount, equity: round2(input.downPayment), interestPaid: 0 }];
+
+  while (balance > 0.01 && month < base.numMonths) {
+    month++;
+    if (needsPmi && pmiDropOffMonth === null) {
+      if (balance / input.homePrice > input.pmiDropOffLtv) totalPmi += monthlyPmi;
+      else pmiDropOffMonth = month;
+    }
+    const step = amortizationStep(balance, monthlyRate, base.monthlyPayment + input.extraPrincipalMonthly);
+    totalInterest += step.interest;
+    balance = step.balance < 0.01 ? 0 : step.balance;
+    if (month % 12 === 0 || balance === 0) {
+      yearly.push({
+        year: Math.ceil(month / 12),
+        balance: round2(balance),
+        equity: round2(input.homePrice - balance),
+        interestPaid: round2(totalInterest),
+      });
+    }
+  }
+  if (needsPmi && pmiDropOffMonth === null) pmiDropOffMonth = month + 1;
+
+  const monthlyTax = (input.homePrice * input.propertyTaxPct) / 100 / 12;
+  const monthlyInsurance = input.insuranceAnnual / 12;
+  return {
+    loanAmount: round2(loanAmount),
+    monthlyPrincipalAndInterest: round2(base.monthlyPayment),
+    monthlyTax: round2(monthlyTax),
+    monthlyInsurance: round2(monthlyInsurance),
+    monthlyHoa: round2(input.hoaMonthly),
+    monthlyPmi: needsPmi ? round2(monthlyPmi) : 0,
+    monthlyPiti: round2(base.monthlyPayment + monthlyTax + monthlyInsurance + input.hoaMonthly + (needsPmi ? monthlyPmi : 0)),
+    pmiDropOffMonth,
+    monthsToPayoff: month,
+    totalInterest: round2(totalInterest),
+    totalPmi: round2(totalPmi),
+    interestSavedByExtra: round2(Math.max(0, base.totalInterest - totalInterest)),
+    monthsSavedByExtra: base.numMonths - month,
+    yearly,
+  };
+}
+
+export interface RefinanceInputs {
+  currentBalance: number;
+  currentRatePct: number;
+  remainingYears: number;
+  newRatePct: number;
+  newTermYears: number;
+  closingCosts: number;
+}
+
+export interface RefinanceResult {
+  currentPayment: number;
+  newPayment: number;
+  monthlySavings: number;
+  breakEvenMonths: number | null; // null when the new payment isn't lower
+  remainingInterestCurrent: number;
+  totalInterestNew: number;
+  netLifetimeSavings: number; // interest saved minus closing costs
+}
+
+export function getRefinanceBreakEven(input: RefinanceInputs): RefinanceResult | null {
+  const current = getDebtResults(input.currentBalance, input.currentRatePct, input.remainingYears);
+  const next = getDebtResults(input.currentBalance, input.newRatePct, input.newTermYears);
+  if (!current || !next) return null;
+  const monthlySavings = current.monthlyPayment - next.monthlyPayment;
+  return {
+    currentPayment: round2(current.monthlyPayment),
+    newPayment: round2(next.monthlyPayment),
+    monthlySavings: round2(monthlySavings),
+    breakEvenMonths: monthlySavings > 0 ? Math.ceil(input.closingCosts / monthlySavings) : null,
+    remainingInterestCurrent: round2(current.totalInterest),
+    totalInterestNew: round2(next.totalInterest),
+    netLifetimeSavings: round2(current.totalInterest - next.totalInterest - input.closingCosts),
+  };
+}
+
+export interface RentVsBuyInputs {
+  years: number;
+  homePrice: number;
+  downPayment: number;
+  annualRatePct: number;
+  termYears: number;
+  propertyTaxPct: number;
+  insuranceAnnual: number;
+  maintenancePct: number; // annual, % of current home value
+  hoaMonthly: number;
+  pmiRatePct: number;
+  appreciationPct: number;
+  buyingCostsPct: number; // closing costs, % of price
+  sellingCostsPct: number; // agent fees etc., % of sale price
+  monthlyRent: number;
+  rentIncreasePct: number;
+  investmentReturnPct: number; // what cash not tied up in the house would earn
+}
+
+export interface RentVsBuyYear {
+  year: number;
+  buyNetWorth: number;
+  rentNetWorth: number;
+  homeValue: number;
+  mortgageBalance: number;
+}
+
+export interface RentVsBuyResult {
+  yearly: RentVsBuyYear[];
+  buyNetWorth: number;
+  rentNetWorth: number;
+  advantage: number; // positive: buying comes out ahead after `years`
+  breakEvenYear: number | null; // first year buying is ahead, if any
+  totalOwnerCosts: number;
+  totalRent: number;
+}
+
+/**
+ * Compares net worth after each year. Both sides start with the same cash (down payment plus
+ * buying costs); the renter invests all of it. Each month, whoever has the cheaper housing cost
+ * invests the difference. A buyer's net worth assumes the home is sold at the end of that year.
+ */
+export function getRentVsBuy(input: RentVsBuyInputs): RentVsBuyResult | null {
+  const loanAmount = input.homePrice - input.downPayment;
+  if (input.homePrice <= 0 || loanAmount < 0 || input.years <= 0) return null;
+  const mortgage = loanAmount > 0 ? getDebtResults(loanAmount, input.annualRatePct, input.termYears) : null;
+  const monthlyRate = input.annualRatePct / 100 / 12;
+  const investRate = Math.pow(1 + input.investmentReturnPct / 100, 1 / 12) - 1;
+  const appreciation = Math.pow(1 + input.appreciationPct / 100, 1 / 12) - 1;
+  const monthlyPmi = (loanAmount * input.pmiRatePct) / 100 / 12;
+
+  let balance = loanAmount;
+  let homeValue = input.homePrice;
+  let rent = input.monthlyRent;
+  let renterPortfolio = input.downPayment + input.homePrice * (input.buyingCostsPct / 100);
+  let buyerPortfolio = 0;
+  let totalOwnerCosts = 0;
+  let totalRent = 0;
+  let breakEvenYear: number | null = null;
+  const yearly: RentVsBuyYear[] = [];
+
+  for (let month = 1; month <= input.years * 12; month++) {
+    let ownerCost = (homeValue * (input.propertyTaxPct + input.maintenancePct)) / 100 / 12
+      + input.insuranceAnnual / 12
+      + input.hoaMonthly;
+    if (mortgage && balance > 0.01) {
+      if (balance / input.homePrice > PMI_AUTO_CANCEL_LTV) ownerCost += monthlyPmi;
+      const payment = Math.min(mortgage.monthlyPayment, balance * (1 + monthlyRate));
+      balance = amortizationStep(balance, monthlyRate, payment).balance;
+      if (balance < 0.01) balance = 0;
+      ownerCost += payment;
+    }
+
+    renterPortfolio *= 1 + investRate;
+    buyerPortfolio *= 1 + investRate;
+    if (ownerCost > rent) renterPortfolio += ownerCost - rent;
+    else buyerPortfolio += rent - ownerCost;
+
+    totalOwnerCosts += ownerCost;
+    totalRent += rent;
+    homeValue *= 1 + appreciation;
+
+    if (month % 12 === 0) {
+      const year = month / 12;
+      const buyNetWorth = homeValue * (1 - input.sellingCostsPct / 100) - balance + buyerPortfolio;
+      if (breakEvenYear === null && buyNetWorth >= renterPortfolio) breakEvenYear = year;
+      yearly.push({
+        year,
+        buyNetWorth: round2(buyNetWorth),
+        rentNetWorth: round2(renterPortfolio),
+        homeValue: round2(homeValue),
+        mortgageBalance: round2(balance),
+      });
+      rent *= 1 + input.rentIncreasePct / 100;
+    }
+  }
+
+  const last = yearly[yearly.length - 1];
+  return {
+    yearly,
+    buyNetWorth: last.buyNetWorth,
+    rentNetWorth: last.rentNetWorth,
+    advantage: round2(last.buyNetWorth - last.rentNetWorth),
+    breakEvenYear,
+    totalOwnerCosts: round2(totalOwnerCosts),
+    totalRent: round2(totalRent),
+  };
+}
+
+// --- Budget and emergency fund ---
+export const BUDGET_PRESETS = {
+  '50/30/20': { needsPct: 50, wantsPct: 30, savingsPct: 20 },
+  '60/20/20': { needsPct: 60, wantsPct: 20, savingsPct: 20 },
+  '70/20/10': { needsPct: 70, wantsPct: 20, savingsPct: 10 },
+} as const;
+export type BudgetPresetName = keyof typeof BUDGET_PRESETS;
+
+export interface BudgetInputs {
+  monthlyIncome: number; // take-home
+  needsPct: number;
+  wantsPct: number;
+  savingsPct: number;
+  essentialExpenses: number;
+  discretionaryExpenses: number;
+  debtPayments: number; // minimum payments count as needs
+  emergencyFundBalance: number;
+  emergencyFundTargetMonths: number;
+}
+
+export interface BudgetBucket {
+  key: 'needs' | 'wants' | 'savings';
+  label: string;
+  target: number;
+  actual: number;
+  difference: number; // actual - target; positive means over the target (under it for savings)
+}
+
+export interface BudgetPlan {
+  buckets: BudgetBucket[];
+  allocationTotalPct: number;
+  leftover: number; // income not spent on needs or wants, i.e. what is actually available to save
+  essentialMonthlyCosts: number;
+  emergencyFundMonths: number | null; // null when there are no essential costs to cover
+  emergencyFundTarget: number;
+  emergencyFundGap: number;
+  monthsToEmergencyTarget: number | null; // at the actual savings rate; null if it never gets there
+}
+
+// Splits income into needs/wants/savings targets and compares them with actual spending.
+// Emergency fund coverage is measured against essential costs (needs plus debt minimums).
+export function getBudgetPlan(input: BudgetInputs): BudgetPlan {
+  const needsActual = input.essentialExpenses + input.debtPayments;
+  const wantsActual = input.discretionaryExpenses;
+  const leftover = input.monthlyIncome - needsActual - wantsActual;
+  const target = (pct: number) => round2((input.monthlyIncome * pct) / 100);
+
+  const buckets: BudgetBucket[] = [
+    { key: 'needs', label: 'Needs', target: target(input.needsPct), actual: round2(needsActual), difference: 0 },
+    { key: 'wants', label: 'Wants', target: target(input.wantsPct), actual: round2(wantsActual), difference: 0 },
+    { key: 'savings', label: 'Savings & extra debt payoff', target: target(input.savingsPct), actual: round2(Math.max(0, leftover)), difference: 0 },
+  ];
+  buckets.forEach(bucket => {
+    bucket.difference = round2(bucket.actual - bucket.target);
+  });
+
+  const emergencyFundTarget = needsActual * input.emergencyFundTargetMonths;
+  const emergencyFundGap = Math.max(0, emergencyFundTarget - input.emergencyFundBalance);
+  let monthsToEmergencyTarget: number | null = 0;
+  if (emergencyFundGap > 0) {
+    monthsToEmergencyTarget = leftover > 0 ? Math.ceil(emergencyFundGap / leftover) : null;
+  }
+
+  return {
+    buckets,
+    allocationTotalPct: input.needsPct + input.wantsPct + input.savingsPct,
+    leftover: round2(leftover),
+    essentialMonthlyCosts: round2(needsActual),
+    emergencyFundMonths: needsActual > 0 ? Math.round((input.emergencyFundBalance / needsActual) * 10) / 10 : null,
+    emergencyFundTarget: round2(emergencyFundTarget),
+    emergencyFundGap: round2(emergencyFundGap),
+    monthsToEmergencyTarget,
+  };
+}
+
+// --- Multi-debt payoff planner ---
+export const PAYOFF_STRATEGIES = ['avalanche', 'snowball', 'custom'] as const;
+export type PayoffStrategy = typeof PAYOFF_STRATEGIES[number];
+
+export const MAX_PAYOFF_MONTHS = 600;
+
+export interface PlannerDebt {
+  name: string;
+  balance: number;
+  aprPct: number;
+  minimumPayment: number;
+}
+
+export interface PayoffMonth {
+  month: number; // 1-based
+  payments: number[]; // per debt, same order as the input
+  balances: number[]; // per debt, after this month's payments
+  interest: number;
+  totalBalance: number;
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy;
+  order: number[]; // debt indices, highest priority first
+  paidOff: boolean; // false when the budget cannot clear the debts within MAX_PAYOFF_MONTHS
+  monthsToPayoff: number;
+  totalInterest: number;
+  totalPaid: number;
+  payoffMonthByDebt: (number | null)[];
+  schedule: PayoffMonth[];
+}
+
+// Priority order for extra payments. Avalanche: highest APR first; snowball: smallest
+// balance first; custom: the order the user chose (unlisted debts go last by APR).
+export function getPayoffOrder(debts: PlannerDebt[], strategy: PayoffStrategy, customOrder: number[] = []): number[] {
+  const indices = debts.map((_, i) => i);
+  const byApr = (a: number, b: number) => debts[b].aprPct - debts[a].aprPct || debts[a].balance - debts[b].balance;
+  if (strategy === 'avalanche') return indices.sort(byApr);
+  if (strategy === 'snowball') {
+    return indices.sort((a, b) => debts[a].balance - debts[b].balance || debts[b].aprPct - debts[a].aprPct);
+  }
+  const listed = customOrder.filter((i, pos) => i >= 0 && i < debts.length && customOrder.indexOf(i) === pos);
+  return [...listed, ...indices.filter(i => !listed.includes(i)).sort(byApr)];
+}
+
+// Sum of minimum payments; the monthly budget has to cover at least this much.
+export function getMinimumBudget(debts: PlannerDebt[]): number {
+  return debts.reduce((sum, d) => sum + (d.balance > 0 ? d.minimumPayment : 0), 0);
+}
+
+// Simulates paying every debt's minimum each month and sending whatever is left of the
+// budget to the highest-priority debt still open. A paid-off debt's minimum rolls into
+// the extra, which is what makes snowball and avalanche accelerate over time.
+export function simulateDebtPayoff(
+  debts: PlannerDebt[],
+  monthlyBudget: number,
+  strategy: PayoffStrategy,
+  customOrder: number[] = []
+): PayoffPlan {
+  const order = getPayoffOrder(debts, strategy, customOrder);
+  const rates = debts.map(d => d.aprPct / 100 / 12);
+  const balances = debts.map(d => Math.max(0, d.balance));
+  const payoffMonthByDebt: (number | null)[] = balances.map(b => (b > 0.01 ? null : 0));
+  const schedule: PayoffMonth[] = [];
+  let totalInterest = 0;
+  let totalPaid = 0;
+
+  for (let month = 1; month <= MAX_PAYOFF_MONTHS && balances.some(b => b > 0.01); month++) {
+    // What it takes to close each debt this month, interest included
+    const due = balances.map((b, i) => (b > 0.01 ? b * (1 + rates[i]) : 0));
+    const payments = due.map((amount, i) => Math.min(debts[i].minimumPayment, amount));
+    let remaining = monthlyBudget - payments.reduce((sum, p) => sum + p, 0);
+    for (const i of order) {
+      if (remaining <= 0) break;
+      const extra = Math.min(remaining, due[i] - payments[i]);
+      if (extra > 0) {
+        payments[i] += extra;
+        remaining -= extra;
+      }
+    }
+
+    let interest = 0;
+    balances.forEach((balance, i) => {
+      if (balance <= 0.01) return;
+      const step = amortizationStep(balance, rates[i], payments[i]);
+      interest += step.interest;
+      balances[i] = step.balance < 0.01 ? 0 : step.balance;
+      if (balances[i] === 0 && payoffMonthByDebt[i] === null) payoffMonthByDebt[i] = month;
+    });
+    totalInterest += interest;
+    totalPaid += payments.reduce((sum, p) => sum + p, 0);
+
+    schedule.push({
+      month,
+      payments: payments.map(round2),
+      balances: balances.map(round2),
+      interest: round2(interest),
+      totalBalance: round2(balances.reduce((sum, b) => sum + b, 0)),
+    });
+  }
+
+  const paidOff = balances.every(b => b <= 0.01);
+  return {
+    strategy,
+    order,
+    paidOff,
+    monthsToPayoff: schedule.length,
+    totalInterest: round2(totalInterest),
+    totalPaid: round2(totalPaid),
+    payoffMonthByDebt,
+    schedule,
+  };
+}
+
+// --- Investment Projection helpers ---
+export function getProjectionData(
+  monthlyContribution: number,
+  annualGrowthPct: number,
+  maxYears: number,
+  startingBalance: number = 0
+): { year: number; balance: number }[] {
+  const monthlyRate = annualGrowthPct / 100 / 12;
+  const data: { year: number; balance: number }[] = [{ year: 0, balance: startingBalance }];
+  let balance = startingBalance;
+  for (let y = 1; y <= maxYears; y++) {
+    for (let m = 0; m < 12; m++) {
+      balance += monthlyContribution;
+      balance *= 1 + monthlyRate;
+    }
+    data.push({ year: y, balance: Math.round(balance * 100) / 100 });
+  }
+  return data;
+}
+
+export function getBalanceAtYear(
+  monthlyContribution: number,
+  annualGrowthPct: number,
+  years: number,
+  startingBalance: number = 0
+): number {
+  const data = getProjectionData(monthlyContribution, annualGrowthPct, years, startingBalance);
+  return data[data.length - 1]?.balance ?? 0;
+}
+
+/**
+ * Solve for monthly contribution C so that after `years` with startingBalance and growth we reach target.
+ * FV = startingBalance*(1+r)^n + C * (((1+r)^n - 1) / r). Returns null if invalid or already reachable.
+ */
+export function getMonthlyContributionForGoal(
+  target: number,
+  annualGrowthPct: number,
+  years: number,
+  startingBalance: number = 0
+): number | null {
+  if (target <= 0 || years <= 0) return null;
+  if (target < startingBalance) return null;
+  const n = Math.round(years * 12);
+  if (n <= 0) return null;
+  const r = annualGrowthPct / 100 / 12;
+  const growthFactor = Math.pow(1 + r, n);
+  const futureStart = startingBalance * growthFactor;
+  if (target <= futureStart) return null;
+  let contribution: number;
+  if (r <= 0) {
+    contribution = (target - startingBalance) / n;
+  } else {
+    const annuityFactor = (growthFactor - 1) / r;
+    contribution = (target - futureStart) / annuityFactor;
+  }
+  return contribution < 0 ? null : Math.round(contribution * 100) / 100;
+}
+
+// --- Retirement projection ---
+export const DEFAULT_RETIREMENT_AGE = 65;
+
+// Rough salary for each profile income bracket, used only to prefill the retirement projection
+export const INCOME_BRACKET_SALARIES: Record<string, number> = {
+  '<50k': 40000,
+  '50-100k': 75000,
+  '100-150k': 125000,
+  '150-200k': 175000,
+  '200-300k': 250000,
+  '300k+': 350000,
+};
+
+export interface RetirementInputs {
+  currentAge: number;
+  retirementAge: number;
+  endAge: number; // last age the withdrawal phase is projected to
+  annualSalary: number;
+  annualRaisePct: number;
+  contributionPct: number; // employee 401k contribution, % of salary
+  rothSharePct: number; // part of the employee contribution that goes to Roth 401k
+  employerMatchPct: number; // employer adds this % of every matched dollar...
+  employerMatchCapPct: number; // ...on employee contributions up to this % of salary
+  taxableMonthly: number; // brokerage savings outside the 401k
+  traditionalBalance: number;
+  rothBalance: number;
+  taxableBalance: number;
+  annualReturnPct: number;
+  inflationPct: number;
+  withdrawalRatePct: number;
+  retirementTaxPct: number; // effective tax on traditional withdrawals
+  capitalGainsTaxPct: number; // tax on the gains share of taxable withdrawals
+}
+
+export interface RetirementYear {
+  age: number;
+  phase: 'saving' | 'retired';
+  salary: number;
+  employeeContribution: number;
+  employerMatch: number;
+  withdrawal: number; // gross, nominal
+  afterTaxIncome: number; // nominal
+  traditional: number;
+  roth: number;
+  taxable: number;
+  total: number;
+  realTotal: number; // total in today's dollars
+}
+
+export interface RetirementProjection {
+  years: RetirementYear[];
+  balanceAtRetirement: number;
+  realBalanceAtRetirement: number;
+  totalEmployeeContributions: number;
+  totalEmployerMatch: number;
+  firstYearWithdrawal: number; // gross, nominal
+  firstYearAfterTaxIncome: number; // nominal
+  realFirstYearAfterTaxIncome: number;
+  depletionAge: number | null; // age the money runs out, null if it lasts to endAge
+}
+
+// Employer match for one year: matchPct of the employee's contribution, up to capPct of salary.
+export function getEmployerMatch(salary: number, contributionPct: number, matchPct: number, capPct: number): number {
+  return salary * (Math.min(contributionPct, capPct) / 100) * (matchPct / 100);
+}
+
+export function getDefaultSalaryForBracket(incomeBracket: string | null | undefined): number | null {
+  return incomeBracket ? INCOME_BRACKET_SALARIES[incomeBracket] ?? null : null;
+}
+
+/**
+ * Year-by-year projection in two phases. While saving, salary grows by the raise each year and
+ * contributions (split traditional/Roth, match always traditional, plus taxable savings) are added
+ * monthly and compound monthly like getProjectionData. At retirement the first-year withdrawal is
+ * withdrawalRatePct of the total, then rises with inflation; it is drawn from taxable, then
+ * traditional, then Roth. "Real" figures are deflated to today's dollars.
+ */
+export function getRetirementProjection(input: RetirementInputs): RetirementProjection {
+  const monthlyRate = input.annualReturnPct / 100 / 12;
+  const annualReturn = Math.pow(1 + monthlyRate, 12) - 1;
+  const inflation = input.inflationPct / 100;
+  let traditional = input.traditionalBalance;
+  let roth = input.rothBalance;
+  let taxable = input.taxableBalance;
+  let taxableBasis = input.taxableBalance;
+  let salary = input.annualSalary;
+  let totalEmployeeContributions = 0;
+  let totalEmployerMatch = 0;
+
+  const snapshot = (age: number, phase: RetirementYear['phase'], extra: Partial<RetirementYear>): RetirementYear => {
+    const total = traditional + roth + taxable;
+    const deflator = Math.pow(1 + inflation, age - input.currentAge);
+    return {
+      age,
+      phase,
+      salary: 0,
+      employeeContribution: 0,
+      employerMatch: 0,
+      withdrawal: 0,
+      afterTaxIncome: 0,
+      ...extra,
+      traditional: round2(traditional),
+      roth: round2(roth),
+      taxable: round2(taxable),
+      total: round2(total),
+      realTotal: round2(total / deflator),
+    };
+  };
+
+  const years: RetirementYear[] = [snapshot(input.currentAge, 'saving', {})];
+
+  for (let age = input.currentAge + 1; age <= input.retirementAge; age++) {
+    const employee = salary * (input.contributionPct / 100);
+    const match = getEmployerMatch(salary, input.contributionPct, input.employerMatchPct, input.employerMatchCapPct);
+    const toRoth = employee * (input.rothSharePct / 100);
+    const toTraditional = employee - toRoth + match;
+    const toTaxable = input.taxableMonthly * 12;
+    for (let m = 0; m < 12; m++) {
+      traditional = (traditional + toTraditional / 12) * (1 + monthlyRate);
+      roth = (roth + toRoth / 12) * (1 + monthlyRate);
+      taxable = (taxable + toTaxable / 12) * (1 + monthlyRate);
+    }
+    taxableBasis += toTaxable;
+    totalEmployeeContributions += employee;
+    totalEmployerMatch += match;
+    years.push(snapshot(age, 'saving', {
+      salary: round2(salary),
+      employeeContribution: round2(employee),
+      employerMatch: round2(match),
+    }));
+    salary *= 1 + input.annualRaisePct / 100;
+  }
+
+  const balanceAtRetirement = traditional + roth + taxable;
+  const retirementDeflator = Math.pow(1 + inflation, input.retirementAge - input.currentAge);
+  // The first withdrawal year is reported at retirementAge + 1, like its row in `years`
+  const firstWithdrawalDeflator = Math.pow(1 + inflation, input.retirementAge + 1 - input.currentAge);
+  const firstYearWithdrawal = balanceAtRetirement * (input.withdrawalRatePct / 100);
+  let firstYearAfterTaxIncome = 0;
+  let depletionAge: number | null = null;
+  let withdrawal = firstYearWithdrawal;
+
+  for (let age = input.retirementAge + 1; age <= input.endAge; age++) {
+    let needed = withdrawal;
+    let tax = 0;
+    const fromTaxable = Math.min(needed, taxable);
+    if (fromTaxable > 0) {
+      const gainsShare = taxable > 0 ? Math.max(0, 1 - taxableBasis / taxable) : 0;
+      tax += fromTaxable * gainsShare * (input.capitalGainsTaxPct / 100);
+      taxableBasis -= fromTaxable * (1 - gainsShare);
+      taxable -= fromTaxable;
+      needed -= fromTaxable;
+    }
+    const fromTraditional = Math.min(needed, traditional);
+    tax += fromTraditional * (input.retirementTaxPct / 100);
+    traditional -= fromTraditional;
+    needed -= fromTraditional;
+    const fromRoth = Math.min(needed, roth);
+    roth -= fromRoth;
+    needed -= fromRoth;
+
+    const withdrawn = withdrawal - needed;
+    const afterTax = withdrawn - tax;
+    if (age === input.retirementAge + 1) firstYearAfterTaxIncome = afterTax;
+    if (needed > 0.01 && depletionAge === null) depletionAge = age;
+
+    traditional *= 1 + annualReturn;
+    roth *= 1 + annualReturn;
+    taxable *= 1 + annualReturn;
+    years.push(snapshot(age, 'retired', { withdrawal: round2(withdrawn), afterTaxIncome: round2(afterTax) }));
+    withdrawal *= 1 + inflation;
+  }
+
+  return {
+    years,
+    balanceAtRetirement: round2(balanceAtRetirement),
+    realBalanceAtRetirement: round2(balanceAtRetirement / retirementDeflator),
+    totalEmployeeContributions: round2(totalEmployeeContributions),
+    totalEmployerMatch: round2(totalEmployerMatch),
+    firstYearWithdrawal: round2(firstYearWithdrawal),
+    firstYearAfterTaxIncome: round2(firstYearAfterTaxIncome),
+    realFirstYearAfterTaxIncome: round2(firstYearAfterTaxIncome / firstWithdrawalDeflator),
+    depletionAge,
+  };
+}
+
+// --- Saved scenarios ---
+export const SCENARIO_KINDS = ['debt', 'investment'] as const;
+export type ScenarioKind = typeof SCENARIO_KINDS[number];
+
+export const debtScenarioInputSchema = z.object({
+  kind: z.literal('debt'),
+  principal: z.number().positive().max(1_000_000_000),
+  annualRatePct: z.number().min(0).max(100),
+  termYears: z.number().positive().max(50),
+  extraAmount: z.number().min(0).default(0), // 0 = no extra payment
+  extraFrequency: z.enum(['perYear', 'perMonth']).default('perYear'),
+});
+
+export const investmentScenarioInputSchema = z.object({
+  kind: z.literal('investment'),
+  mode: z.enum(['projection', 'goal']),
+  monthlyContribution: z.number().min(0).max(10_000_000),
+  annualGrowthPct: z.number().min(-50).max(50),
+  years: z.number().int().min(1).max(80),
+  startingBalance: z.number().min(0).default(0),
+  goalTarget: z.number().positive().optional(), // goal mode only
+});
+
+export const scenarioInputSchema = z.discriminatedUnion('kind', [
+  debtScenarioInputSchema,
+  investmentScenarioInputSchema,
+]);
+
+export type DebtScenarioInput = z.infer<typeof debtScenarioInputSchema>;
+export type InvestmentScenarioInput = z.infer<typeof investmentScenarioInputSchema>;
+export type ScenarioInput = z.infer<typeof scenarioInputSchema>;
+
+export interface ScenarioMetric {
+  key: string;
+  label: string;
+  value: number | null;
+  format: 'currency' | 'months';
+}
+
+export interface ScenarioResult {
+  metrics: ScenarioMetric[];
+  series: { year: number; balance: number }[];
+}
+
+/**
+ * Headline numbers and balance series for a saved scenario. Metric keys are stable
+ * per kind so scenarios of the same kind line up when compared side by side.
+ */
+export function evaluateScenario(input: ScenarioInput): ScenarioResult {
+  if (input.kind === 'debt') {
+    const base = getDebtResults(input.principal, input.annualRatePct, input.termYears);
+    if (!base) return { metrics: [], series: [] };
+
+    const withExtra = input.extraAmount > 0
+      ? getDebtWithExtraPayment(input.principal, input.annualRatePct, base.monthlyPayment, input.extraAmount, input.extraFrequency)
+      : null;
+
+    return {
+      metrics: [
+        { key: 'monthlyPayment', label: 'Monthly payment', value: round2(base.monthlyPayment), format: 'currency' },
+        { key: 'totalInterest', label: 'Total interest', value: round2(base.totalInterest), format: 'currency' },
+        { key: 'totalPaid', label: 'Total paid', value: round2(base.totalPaid), format: 'currency' },
+        { key: 'monthsToPayoff', label: 'Months to payoff', value: withExtra ? withExtra.monthsToPayoff : base.numMonths, format: 'months' },
+        { key: 'interestSaved', label: 'Interest saved with extra', value: withExtra ? round2(base.totalInterest - withExtra.totalInterest) : null, format: 'currency' },
+      ],
+      series: withExtra
+        ? getDebtBalanceOverTimeWithExtra(input.principal, input.annualRatePct, base.monthlyPayment, input.extraAmount, input.extraFrequency)
+        : getDebtBalanceOverTime(input.principal, input.annualRatePct, base.monthlyPayment, input.termYears),
+    };
+  }
+
+  const series = getProjectionData(input.monthlyContribution, input.annualGrowthPct, input.years, input.startingBalance);
+  const finalBalance = series[series.length - 1]?.balance ?? 0;
+  const totalContributed = input.startingBalance + input.monthlyContribution * 12 * input.years;
+  const requiredMonthly = input.mode === 'goal' && input.goalTarget
+    ? getMonthlyContributionForGoal(input.goalTarget, input.annualGrowthPct, input.years, input.startingBalance)
+    : null;
+
+  return {
+    metrics: [
+      { key: 'finalBalance', label: `Balance after ${input.years} years`, value: finalBalance, format: 'currency' },
+      { key: 'totalContributed', label: 'Total contributed', value: round2(totalContributed), format: 'currency' },
+      { key: 'growth', label: 'Investment growth', value: round2(finalBalance - totalContributed), format: 'currency' },
+      { key: 'requiredMonthly', label: 'Monthly needed for goal', value: requiredMonthly, format: 'currency' },
+    ],
+    series,
+  };
+}
+
+// --- Challenge calculator presets ---
+// A challenge can carry one of these so the results page can show the numbers behind its answer key.
+export const debtVsInvestInputSchema = z.object({
+  kind: z.literal('debtVsInvest'),
+  debtBalance: z.number().positive().max(1_000_000_000),
+  debtAprPct: z.number().min(0).max(100),
+  minimumPayment: z.number().min(0),
+  monthlyBudget: z.number().positive(), // debt minimum plus whatever is left to invest
+  investReturnPct: z.number().min(-50).max(50),
+  years: z.number().int().min(1).max(50),
+});
+
+export const calculatorPresetSchema = z.discriminatedUnion('kind', [
+  debtScenarioInputSchema,
+  investmentScenarioInputSchema,
+  debtVsInvestInputSchema,
+]);
+
+export type DebtVsInvestInput = z.infer<typeof debtVsInvestInputSchema>;
+export type CalculatorPreset = z.infer<typeof calculatorPresetSchema>;
+
+export interface DebtVsInvestPath {
+  netWorth: number; // investments minus remaining debt
+  invested: number;
+  debtRemaining: number;
+  interestPaid: number;
+  monthsToDebtFree: number | null;
+}
+
+export interface DebtVsInvestResult {
+  payDebtFirst: DebtVsInvestPath;
+  investFirst: DebtVsInvestPath;
+  advantage: number; // payDebtFirst.netWorth - investFirst.netWorth
+}
+
+// Same monthly budget either way: "pay debt first" sends all of it to the debt and invests only
+// once the debt is gone; "invest first" pays the minimum and invests the rest from day one.
+export function getDebtVsInvest(input: DebtVsInvestInput): DebtVsInvestResult {
+  const monthlyRate = input.debtAprPct / 100 / 12;
+  const investRate = Math.pow(1 + input.investReturnPct / 100, 1 / 12) - 1;
+
+  const run = (debtPaymentFor: (due: number) => number): DebtVsInvestPath => {
+    let balance = input.debtBalance;
+    let portfolio = 0;
+    let interestPaid = 0;
+    let monthsToDebtFree: number | null = null;
+    for (let month = 1; month <= input.years * 12; month++) {
+      let payment = 0;
+      if (balance > 0.01) {
+        payment = Math.min(debtPaymentFor(balance * (1 + monthlyRate)), input.monthlyBudget);
+        const step = amortizationStep(balance, monthlyRate, payment);
+        interestPaid += step.interest;
+        balance = step.balance < 0.01 ? 0 : step.balance;
+        if (balance === 0) monthsToDebtFree = month;
+      }
+      portfolio = (portfolio + input.monthlyBudget - payment) * (1 + investRate);
+    }
+    return {
+      netWorth: round2(portfolio - balance),
+      invested: round2(portfolio),
+      debtRemaining: round2(balance),
+      interestPaid: round2(interestPaid),
+      monthsToDebtFree,
+    };
+  };
+
+  const payDebtFirst = run(due => due);
+  const investFirst = run(due => Math.min(input.minimumPayment, due));
+  return { payDebtFirst, investFirst, advantage: round2(payDebtFirst.netWorth - investFirst.netWorth) };
+}
+
+export interface CalculatorPresetResult {
+  headline: string;
+  metrics: ScenarioMetric[];
+}
+
+const formatUsd = (n: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(n);
+
+// One-sentence takeaway plus the supporting numbers, for the results page "See the math" panel
+export function evaluateCalculatorPreset(preset: CalculatorPreset): CalculatorPresetResult {
+  if (preset.kind === 'debtVsInvest') {
+    const result = getDebtVsInvest(preset);
+    const winner = result.advantage >= 0 ? 'paying the debt first' : 'investing first';
+    return {
+      headline: `With ${formatUsd(preset.monthlyBudget)} a month for ${preset.years} years, ${winner} leaves you ${formatUsd(Math.abs(result.advantage))} better off `
+        + `(${preset.debtAprPct}% APR debt vs. ${preset.investReturnPct}% expected return).`,
+      metrics: [
+        { key: 'netWorthPayDebtFirst', label: 'Net worth, debt first', value: result.payDebtFirst.netWorth, format: 'currency' },
+        { key: 'netWorthInvestFirst', label: 'Net worth, invest first', value: result.investFirst.netWorth, format: 'currency' },
+        { key: 'interestPayDebtFirst', label: 'Interest paid, debt first', value: result.payDebtFirst.interestPaid, format: 'currency' },
+        { key: 'interestInvestFirst', label: 'Interest paid, invest first', value: result.investFirst.interestPaid, format: 'currency' },
+        { key: 'monthsToDebtFree', label: 'Debt-free in (debt first)', value: result.payDebtFirst.monthsToDebtFree, format: 'months' },
+      ],
+    };
+  }
+
+  const { metrics } = evaluateScenario(preset);
+  const value = (key: string) => metrics.find(m => m.key === key)?.value ?? null;
+
+  if (preset.kind === 'debt') {
+    const saved = value('interestSaved');
+    return {
+      headline: `A ${formatUsd(preset.principal)} balance at ${preset.annualRatePct}% over ${preset.termYears} years costs ${formatUsd(value('totalInterest') ?? 0)} in interest`
+        + (saved !== null
+          ? `; paying ${formatUsd(preset.extraAmount)} extra ${preset.extraFrequency === 'perMonth' ? 'a month' : 'a year'} saves ${formatUsd(saved)}.`
+          : '.'),
+      metrics,
+    };
+  }
+
+  const required = value('requiredMonthly');
+  return {
+    headline: preset.mode === 'goal' && preset.goalTarget && required !== null
+      ? `Reaching ${formatUsd(preset.goalTarget)} in ${preset.years} years at ${preset.annualGrowthPct}% takes about ${formatUsd(required)} a month.`
+      : `${formatUsd(preset.monthlyContribution)} a month at ${preset.annualGrowthPct}% grows to ${formatUsd(value('finalBalance') ?? 0)} in ${preset.years} years, `
+        + `${formatUsd(value('growth') ?? 0)} of it from growth.`,
+    metrics: preset.mode === 'goal' ? metrics : metrics.filter(m => m.key !== 'requiredMonthly'),
+  };
+}
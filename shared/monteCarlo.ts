@@ -0,0 +1,117 @@
+// Monte Carlo version of getProjectionData: the same monthly contributions, but each simulated
+// year draws its own return. Pure and seeded, so a given request always produces the same bands
+// (in the browser worker, in scripts, or anywhere else).
+import { z } from 'zod';
+import { SP500_ANNUAL_RETURNS } from './historicalReturns';
+
+export const RETURN_MODELS = ['normal', 'historical'] as const;
+export type ReturnModel = typeof RETURN_MODELS[number];
+
+export const MAX_SIMULATIONS = 20000;
+
+export const monteCarloRequestSchema = z.object({
+  monthlyContribution: z.number().min(0),
+  startingBalance: z.number().min(0).default(0),
+  years: z.number().int().min(1).max(80),
+  returnModel: z.enum(RETURN_MODELS),
+  meanReturnPct: z.number().min(-50).max(50), // ignored by the historical model
+  volatilityPct: z.number().min(0).max(100), // ignored by the historical model
+  simulations: z.number().int().min(100).max(MAX_SIMULATIONS),
+  seed: z.number().int(),
+  goalTarget: z.number().positive().optional(),
+});
+
+export type MonteCarloRequest = z.infer<typeof monteCarloRequestSchema>;
+
+export interface MonteCarloBand {
+  year: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface MonteCarloResult {
+  bands: MonteCarloBand[];
+  probabilityOfGoal: number | null; // share of paths ending at or above goalTarget, 0..1
+  simulations: number;
+}
+
+// mulberry32: small, fast 32-bit PRNG; plenty for simulations and fully reproducible from the seed
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draw (Box-Muller)
+function nextGaussian(random: () => number): number {
+  const u = 1 - random(); // (0, 1], keeps log() finite
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Value at quantile q (0..1) of an ascending-sorted array, linearly interpolated
+export function percentile(sorted: ArrayLike<number>, q: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+export function runMonteCarlo(request: MonteCarloRequest): MonteCarloResult {
+  const random = createSeededRandom(request.seed);
+  const history = SP500_ANNUAL_RETURNS.map(r => r.returnPct / 100);
+  const drawAnnualReturn = request.returnModel === 'historical'
+    ? () => history[Math.floor(random() * history.length)]
+    : () => Math.max(-0.99, request.meanReturnPct / 100 + (request.volatilityPct / 100) * nextGaussian(random));
+
+  // balancesByYear[y][path]; typed arrays keep 20k paths x 80 years cheap
+  const balancesByYear = Array.from({ length: request.years }, () => new Float64Array(request.simulations));
+
+  for (let path = 0; path < request.simulations; path++) {
+    let balance = request.startingBalance;
+    for (let y = 0; y < request.years; y++) {
+      const monthlyRate = Math.pow(1 + drawAnnualReturn(), 1 / 12) - 1;
+      for (let m = 0; m < 12; m++) {
+        balance += request.monthlyContribution;
+        balance *= 1 + monthlyRate;
+      }
+      balancesByYear[y][path] = balance;
+    }
+  }
+
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const bands: MonteCarloBand[] = [{
+    year: 0,
+    p10: request.startingBalance,
+    p50: request.startingBalance,
+    p90: request.startingBalance,
+  }];
+  for (let y = 0; y < request.years; y++) {
+    const sorted = balancesByYear[y].sort();
+    bands.push({
+      year: y + 1,
+      p10: round(percentile(sorted, 0.1)),
+      p50: round(percentile(sorted, 0.5)),
+      p90: round(percentile(sorted, 0.9)),
+    });
+  }
+
+  let probabilityOfGoal: number | null = null;
+  if (request.goalTarget !== undefined) {
+    const finals = balancesByYear[request.years - 1];
+    let hits = 0;
+    for (let i = 0; i < finals.length; i++) {
+      if (finals[i] >= request.goalTarget) hits++;
+    }
+    probabilityOfGoal = hits / finals.length;
+  }
+
+  return { bands, probabilityOfGoal, simulations: request.simulations };
+}
@@ -28,6 +28,9 @@ export const users = pgTable("users", {
   birthday: timestamp("birthday"), // Date of birth for age calculation
   incomeBracket: varchar("income_bracket", { length: 20 }), // e.g., '<50k', '50-100k', '100-150k', '150-200k', '200-300k', '300k+'
   
+  // IANA timezone reported by the browser (e.g., 'America/Chicago'); decides when the user's day resets
+  timezone: varchar("timezone", { length: 64 }),
+  
   // Subscription fields
   subscriptionTier: varchar("subscription_tier", { length: 20 }).default('free').notNull(), // 'free', 'premium', 'pro'
   subscriptionExpiresAt: timestamp("subscription_expires_at"), // When subscription expires (null for free tier)
@@ -43,6 +46,16 @@ export const users = pgTable("users", {
   stripeSubscriptionIdIdx: index("stripe_subscription_id_idx").on(table.stripeSubscriptionId), // For Stripe subscription lookups
 }));
 
+// Challenges can carry between MIN_OPTION_COUNT and MAX_OPTION_COUNT options to rank
+export const MIN_OPTION_COUNT = 3;
+export const MAX_OPTION_COUNT = 6;
+export const DEFAULT_OPTION_COUNT = 4;
+
+// How a submitted ranking is turned into a 0-100 score (see server/services/scoringService.ts)
+export const SCORING_STRATEGY_IDS = ['distance', 'kendall_tau', 'spearman_footrule', 'tier_weighted'] as const;
+export type ScoringStrategyId = typeof SCORING_STRATEGY_IDS[number];
+export const DEFAULT_SCORING_STRATEGY: ScoringStrategyId = 'distance';
+
 export const dailyChallenges = pgTable("daily_challenges", {
   id: varchar("id", { length: 255 }).primaryKey().default(sql`gen_random_uuid()`),
   dateKey: varchar("date_key", { length: 10 }).notNull().unique(),
@@ -51,8 +64,18 @@ export const dailyChallenges = pgTable("daily_challenges", {
   assumptions: text("assumptions").notNull(),
   category: varchar("category", { length: 100 }).notNull(),
   difficulty: integer("difficulty").notNull(),
+  optionCount: integer("option_count").default(DEFAULT_OPTION_COUNT).notNull(), // Number of options to rank (3-6)
+  scoringStrategy: varchar("scoring_strategy", { length: 40 }).default(DEFAULT_SCORING_STRATEGY).notNull(), // One of SCORING_STRATEGY_IDS
+  gradeThresholdsJson: jsonb("grade_thresholds_json"), // Per-challenge override of the GRADE_THRESHOLDS flag config (null = use global)
+  assumptionValuesJson: jsonb("assumption_values_json"), // ChallengeAssumptionValues from shared/challengeAssumptions.ts (null = free text only)
+  calculatorPresetJson: jsonb("calculator_preset_json"), // CalculatorPreset from shared/financialCalculators.ts, drives the results "See the math" panel
   isPublished: boolean("is_published").default(false).notNull(),
   source: varchar("source", { length: 20 }).notNull().default('manual'),
+  // Written by difficultyCalibrationService from players' best attempts; null until enough people have played
+  communityDifficulty: integer("community_difficulty"), // Same 1-5 scale as difficulty
+  communityRating: integer("community_rating"), // Elo rating behind communityDifficulty, higher = harder
+  communitySampleSize: integer("community_sample_size"), // Best attempts at the last calibration
+  communityDifficultyUpdatedAt: timestamp("community_difficulty_updated_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -105,11 +128,26 @@ export const retryWallets = pgTable("retry_wallets", {
   userId: varchar("user_id", { length: 255 }).notNull().references(() => users.id),
   weekKey: varchar("week_key", { length: 10 }).notNull(),
   retriesRemaining: integer("retries_remaining").default(1).notNull(),
+  streakFreezesRemaining: integer("streak_freezes_remaining").default(1).notNull(),
+  frozenDateKeysJson: jsonb("frozen_date_keys_json").default('[]').notNull(), // Missed days bridged with this week's freezes
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
   uniqueUserWeek: unique().on(table.userId, table.weekKey),
 }));
 
+// Retries bought through Stripe; unlike the weekly allowance they don't expire
+export const retryPurchases = pgTable("retry_purchases", {
+  id: varchar("id", { length: 255 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 255 }).notNull().references(() => users.id),
+  checkoutSessionId: varchar("checkout_session_id", { length: 255 }).notNull(),
+  retriesGranted: integer("retries_granted").notNull(),
+  retriesRemaining: integer("retries_remaining").notNull(), // Spent oldest purchase first, after the weekly allowance
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  // One credit per checkout session, so a re-delivered webhook can't grant twice
+  uniqueUserSession: unique().on(table.userId, table.checkoutSessionId),
+}));
+
 export const featureFlags = pgTable("feature_flags", {
   key: varchar("key", { length: 100 }).primaryKey(),
   enabled: boolean("enabled").default(false).notNull(),
@@ -198,12 +236,86 @@ export const forumVotes = pgTable("forum_votes", {
   uniqueUserVoteComment: unique().on(table.userId, table.commentId),
 }));
 
+// What a goal's progress is measured against
+export const GOAL_TYPES = ['average_score', 'streak_length', 'category_mastery', 'challenges_completed'] as const;
+export type GoalType = typeof GOAL_TYPES[number];
+
+export const userGoals = pgTable("user_goals", {
+  id: varchar("id", { length: 255 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 255 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+  goalType: varchar("goal_type", { length: 40 }).notNull(), // one of GOAL_TYPES
+  title: varchar("title", { length: 200 }).notNull(),
+  targetValue: integer("target_value").notNull(),
+  windowDays: integer("window_days"), // average_score: only count challenges from the last N days (null = all time)
+  category: varchar("category", { length: 100 }), // category_mastery: challenge category to average over
+  currentValue: integer("current_value").default(0).notNull(), // progress as of the last recompute
+  completedAt: timestamp("completed_at"), // set once when currentValue first reaches targetValue
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("user_goals_user_idx").on(table.userId),
+}));
+
+// Named calculator inputs saved from the Tools page (see shared/financialCalculators.ts)
+export const calculatorScenarios = pgTable("calculator_scenarios", {
+  id: varchar("id", { length: 255 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 255 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar("name", { length: 100 }).notNull(),
+  kind: varchar("kind", { length: 30 }).notNull(), // one of SCENARIO_KINDS
+  inputsJson: jsonb("inputs_json").notNull(), // ScenarioInput
+  resultsJson: jsonb("results_json").notNull(), // ScenarioResult computed server-side on save
+  shareToken: varchar("share_token", { length: 64 }).unique(), // set while a public link exists
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("calculator_scenarios_user_idx").on(table.userId),
+}));
+
+// Admin-authored "why A beats B" text for a pair of options. Keyed by orderingIndex rather than
+// option id because saving a challenge recreates its option rows.
+export const challengePairRationales = pgTable("challenge_pair_rationales", {
+  id: varchar("id", { length: 255 }).primaryKey().default(sql`gen_random_uuid()`),
+  challengeId: varchar("challenge_id", { length: 255 }).notNull().references(() => dailyChallenges.id, { onDelete: 'cascade' }),
+  betterIndex: integer("better_index").notNull(), // orderingIndex of the option that should rank higher
+  worseIndex: integer("worse_index").notNull(), // orderingIndex of the option that should rank lower
+  // Option texts the rationale was written for; it's only shown while the options at those indexes still match
+  betterOptionText: text("better_option_text").notNull(),
+  worseOptionText: text("worse_option_text").notNull(),
+  rationale: text("rationale").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueChallengePair: unique().on(table.challengeId, table.betterIndex, table.worseIndex),
+}));
+
+// Full copy of a challenge and its options after each admin edit. Option IDs are kept because
+// saving options recreates their rows, and attempts' rankingJson still points at the old IDs.
+export const challengeRevisions = pgTable("challenge_revisions", {
+  id: varchar("id", { length: 255 }).primaryKey().default(sql`gen_random_uuid()`),
+  challengeId: varchar("challenge_id", { length: 255 }).notNull().references(() => dailyChallenges.id, { onDelete: 'cascade' }),
+  revisionNumber: integer("revision_number").notNull(), // 1, 2, ... per challenge
+  action: varchar("action", { length: 20 }).notNull(), // One of REVISION_ACTIONS
+  snapshotJson: jsonb("snapshot_json").notNull(), // ChallengeSnapshot from server/services/revisionService.ts
+  editedBy: varchar("edited_by", { length: 100 }), // Name given at admin login (null for baseline snapshots)
+  editorSession: varchar("editor_session", { length: 16 }), // Hash prefix of the admin session token, tells apart sessions using the same name
+  revertedFromId: varchar("reverted_from_id", { length: 255 }), // Revision restored by a 'revert'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueChallengeRevision: unique().on(table.challengeId, table.revisionNumber),
+}));
+
+// 'baseline' captures a challenge's state before its first recorded edit
+export const REVISION_ACTIONS = ['baseline', 'create', 'update', 'revert', 'reschedule', 'import'] as const;
+export type RevisionAction = typeof REVISION_ACTIONS[number];
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   attempts: many(attempts),
   streak: many(streaks),
   retryWallets: many(retryWallets),
+  retryPurchases: many(retryPurchases),
   badges: many(userBadges),
+  goals: many(userGoals),
+  calculatorScenarios: many(calculatorScenarios),
 }));
 
 export const badgesRelations = relations(badges, ({ many }) => ({
@@ -280,6 +392,7 @@ export const insertUserBadgeSchema = createInsertSchema(userBadges).omit({ id: t
 export const insertForumPostSchema = createInsertSchema(forumPosts).omit({ id: true, createdAt: true, updatedAt: true, upvoteCount: true, commentCount: true });
 export const insertForumCommentSchema = createInsertSchema(forumComments).omit({ id: true, createdAt: true, updatedAt: true, upvoteCount: true });
 export const insertForumVoteSchema = createInsertSchema(forumVotes).omit({ id: true, createdAt: true });
+export const insertUserGoalSchema = createInsertSchema(userGoals).omit({ id: true, createdAt: true, updatedAt: true, currentValue: true, completedAt: true });
 
 // Types
 export type User = typeof users.$inferSelect;
@@ -295,6 +408,7 @@ export type InsertAggregate = z.infer<typeof insertAggregateSchema>;
 export type Streak = typeof streaks.$inferSelect;
 export type InsertStreak = z.infer<typeof insertStreakSchema>;
 export type RetryWallet = typeof retryWallets.$inferSelect;
+export type RetryPurchase = typeof retryPurchases.$inferSelect;
 export type InsertRetryWallet = z.infer<typeof insertRetryWalletSchema>;
 export type FeatureFlag = typeof featureFlags.$inferSelect;
 export type InsertFeatureFlag = z.infer<typeof insertFeatureFlagSchema>;
@@ -308,3 +422,8 @@ export type ForumComment = typeof forumComments.$inferSelect;
 export type InsertForumComment = z.infer<typeof insertForumCommentSchema>;
 export type ForumVote = typeof forumVotes.$inferSelect;
 export type InsertForumVote = z.infer<typeof insertForumVoteSchema>;
+export type UserGoal = typeof userGoals.$inferSelect;
+export type InsertUserGoal = z.infer<typeof insertUserGoalSchema>;
+export type CalculatorScenario = typeof calculatorScenarios.$inferSelect;
+export type ChallengePairRationale = typeof challengePairRationales.$inferSelect;
+export type ChallengeRevision = typeof challengeRevisions.$inferSelect;